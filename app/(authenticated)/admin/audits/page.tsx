@@ -0,0 +1,409 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { AuthenticatedLayout } from "@/components/layout/authenticated-layout";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Filter,
+  History,
+  RefreshCw,
+} from "lucide-react";
+import { useAuthContext } from "@/components/providers/auth-provider";
+import {
+  useStationAudits,
+  type StationAuditFilters,
+} from "@/lib/hooks/useStationAudits";
+import { useStations } from "@/lib/hooks/useStations";
+import { useRouter } from "next/navigation";
+import type { Json, StationAuditAction } from "@/lib/types/database";
+
+const AUDIT_ACTIONS: StationAuditAction[] = [
+  "create",
+  "correct",
+  "delete",
+  "rescore",
+  "recalculate",
+];
+const PAGE_SIZE = 25;
+
+function getActionBadgeVariant(
+  action: string
+): "default" | "secondary" | "destructive" | "outline" {
+  switch (action) {
+    case "create":
+      return "default";
+    case "delete":
+      return "destructive";
+    case "correct":
+    case "rescore":
+    case "recalculate":
+      return "secondary";
+    default:
+      return "outline";
+  }
+}
+
+function formatMeasurements(measurements: Json | null): string {
+  if (!measurements || typeof measurements !== "object") return "-";
+  return Object.entries(measurements)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join(", ");
+}
+
+function formatScoreChange(before: number | null, after: number | null) {
+  if (before === null && after === null) return "-";
+  if (before === null) return `${after}`;
+  if (after === null) return `${before} → -`;
+  return `${before} → ${after}`;
+}
+
+export default function AdminAuditsPage() {
+  const router = useRouter();
+  const { profile } = useAuthContext();
+
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<StationAuditFilters>({});
+  const [searchCode, setSearchCode] = useState("");
+  const [searchActor, setSearchActor] = useState("");
+
+  const { data, isLoading, isFetching, error, refetch } = useStationAudits({
+    ...filters,
+    page,
+    limit: PAGE_SIZE,
+  });
+  const { data: stations } = useStations();
+
+  // Check admin access
+  useEffect(() => {
+    if (profile && profile.role !== "admin") {
+      router.push("/participate");
+    }
+  }, [profile, router]);
+
+  // Debounce free-text filters
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((prev) => ({
+        ...prev,
+        participant_code: searchCode.trim() || undefined,
+        actor: searchActor.trim() || undefined,
+      }));
+      setPage(1);
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [searchCode, searchActor]);
+
+  if (!profile || profile.role !== "admin") {
+    return (
+      <AuthenticatedLayout
+        title="Access Denied"
+        subtitle="Admin access required"
+      >
+        <div className="container mx-auto px-4 py-8">
+          <Alert variant="destructive">
+            <AlertDescription>
+              You don't have permission to access this page. Admin role
+              required.
+            </AlertDescription>
+          </Alert>
+        </div>
+      </AuthenticatedLayout>
+    );
+  }
+
+  const audits = data?.audits || [];
+  const pagination = data?.pagination;
+
+  const clearFilters = () => {
+    setFilters({});
+    setSearchCode("");
+    setSearchActor("");
+    setPage(1);
+  };
+
+  return (
+    <AuthenticatedLayout
+      title="Audit Trail"
+      subtitle="History of station result changes"
+      className="min-h-screen bg-gray-50 dark:bg-gray-900"
+    >
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <History className="h-8 w-8 text-blue-600" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                Audit Trail
+              </h1>
+              <p className="text-gray-600 dark:text-gray-300">
+                Who recorded, changed or removed station results, and when
+              </p>
+            </div>
+          </div>
+
+          <Button
+            variant="outline"
+            onClick={() => refetch()}
+            disabled={isFetching}
+          >
+            <RefreshCw
+              className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`}
+            />
+            Refresh
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Filter className="h-5 w-5" />
+              Filters
+            </CardTitle>
+            <CardDescription>
+              Narrow the audit trail by participant, station, action or
+              operator.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex gap-4 items-end flex-wrap">
+              <div>
+                <Label>Participant Code</Label>
+                <Input
+                  placeholder="e.g. LFG-0001"
+                  className="w-40"
+                  value={searchCode}
+                  onChange={(e) => setSearchCode(e.target.value)}
+                />
+              </div>
+
+              <div>
+                <Label>Station Type</Label>
+                <Select
+                  value={filters.station_type || "all"}
+                  onValueChange={(value) => {
+                    setFilters((prev) => ({
+                      ...prev,
+                      station_type: value === "all" ? undefined : value,
+                    }));
+                    setPage(1);
+                  }}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="All stations" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All stations</SelectItem>
+                    {stations?.map((station) => (
+                      <SelectItem
+                        key={station.station_type}
+                        value={station.station_type}
+                      >
+                        {station.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label>Action</Label>
+                <Select
+                  value={filters.action || "all"}
+                  onValueChange={(value) => {
+                    setFilters((prev) => ({
+                      ...prev,
+                      action: value === "all" ? undefined : value,
+                    }));
+                    setPage(1);
+                  }}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="All actions" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All actions</SelectItem>
+                    {AUDIT_ACTIONS.map((action) => (
+                      <SelectItem key={action} value={action}>
+                        {action.charAt(0).toUpperCase() + action.slice(1)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label>Operator</Label>
+                <Input
+                  placeholder="Operator email"
+                  className="w-48"
+                  value={searchActor}
+                  onChange={(e) => setSearchActor(e.target.value)}
+                />
+              </div>
+
+              <Button variant="outline" onClick={clearFilters}>
+                Clear Filters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Content */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Audit Records</CardTitle>
+            <CardDescription>
+              {pagination?.total || 0} record
+              {pagination?.total !== 1 ? "s" : ""} found
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertDescription>
+                  Failed to load audit records. Please try refreshing the page.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {isLoading ? (
+              <div className="text-center py-8">
+                <div className="text-sm text-muted-foreground">
+                  Loading audit records...
+                </div>
+              </div>
+            ) : audits.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Participant</TableHead>
+                      <TableHead>Station</TableHead>
+                      <TableHead>Operator</TableHead>
+                      <TableHead>Score</TableHead>
+                      <TableHead>Measurements</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {audits.map((audit) => (
+                      <TableRow key={audit.id}>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {new Date(audit.created_at).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={getActionBadgeVariant(audit.action)}>
+                            {audit.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">
+                          {audit.participant_code || "-"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{audit.station_type}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {audit.actor_email || audit.actor_id || "system"}
+                        </TableCell>
+                        <TableCell className="font-medium whitespace-nowrap">
+                          {formatScoreChange(
+                            audit.before_score,
+                            audit.after_score
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground max-w-xs">
+                          {audit.before_measurements && (
+                            <div>
+                              <span className="font-medium">Before:</span>{" "}
+                              {formatMeasurements(audit.before_measurements)}
+                            </div>
+                          )}
+                          {audit.after_measurements && (
+                            <div>
+                              <span className="font-medium">After:</span>{" "}
+                              {formatMeasurements(audit.after_measurements)}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {audit.reason || "-"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No audit records found for the selected filters.</p>
+              </div>
+            )}
+
+            {/* Pagination Controls */}
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between px-6 py-4 border-t">
+                <div className="text-sm text-muted-foreground">
+                  Page {pagination.page} of {pagination.totalPages}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page - 1)}
+                    disabled={!pagination.hasPrev}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={!pagination.hasNext}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AuthenticatedLayout>
+  );
+}
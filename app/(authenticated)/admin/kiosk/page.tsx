@@ -0,0 +1,64 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { AuthenticatedLayout } from "@/components/layout/authenticated-layout";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Monitor } from "lucide-react";
+import { useAuthContext } from "@/components/providers/auth-provider";
+import { KioskDisplaysCard } from "@/components/admin/KioskDisplaysCard";
+import { useRouter } from "next/navigation";
+
+export default function AdminKioskPage() {
+  const router = useRouter();
+  const { profile } = useAuthContext();
+
+  // Check admin access
+  useEffect(() => {
+    if (profile && profile.role !== "admin") {
+      router.push("/participate");
+    }
+  }, [profile, router]);
+
+  if (!profile || profile.role !== "admin") {
+    return (
+      <AuthenticatedLayout
+        title="Access Denied"
+        subtitle="Admin access required"
+      >
+        <div className="container mx-auto px-4 py-8">
+          <Alert variant="destructive">
+            <AlertDescription>
+              You don't have permission to access this page. Admin role
+              required.
+            </AlertDescription>
+          </Alert>
+        </div>
+      </AuthenticatedLayout>
+    );
+  }
+
+  return (
+    <AuthenticatedLayout
+      title="Kiosk Displays"
+      subtitle="Leaderboard screens for events"
+      className="min-h-screen bg-gray-50 dark:bg-gray-900"
+    >
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-6">
+          <Monitor className="h-8 w-8 text-blue-600" />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Kiosk Displays
+            </h1>
+            <p className="text-gray-600 dark:text-gray-300">
+              Branded, read-only leaderboard screens for TVs
+            </p>
+          </div>
+        </div>
+
+        <KioskDisplaysCard />
+      </div>
+    </AuthenticatedLayout>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { AuthenticatedLayout } from "@/components/layout/authenticated-layout";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Building2 } from "lucide-react";
+import { useAuthContext } from "@/components/providers/auth-provider";
+import { OrganisationsCard } from "@/components/admin/OrganisationsCard";
+import { useRouter } from "next/navigation";
+
+export default function AdminOrganisationsPage() {
+  const router = useRouter();
+  const { profile } = useAuthContext();
+
+  // Check admin access
+  useEffect(() => {
+    if (profile && profile.role !== "admin") {
+      router.push("/participate");
+    }
+  }, [profile, router]);
+
+  if (!profile || profile.role !== "admin") {
+    return (
+      <AuthenticatedLayout
+        title="Access Denied"
+        subtitle="Admin access required"
+      >
+        <div className="container mx-auto px-4 py-8">
+          <Alert variant="destructive">
+            <AlertDescription>
+              You don't have permission to access this page. Admin role
+              required.
+            </AlertDescription>
+          </Alert>
+        </div>
+      </AuthenticatedLayout>
+    );
+  }
+
+  return (
+    <AuthenticatedLayout
+      title="Organisations"
+      subtitle="Teams on the leaderboard"
+      className="min-h-screen bg-gray-50 dark:bg-gray-900"
+    >
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-6">
+          <Building2 className="h-8 w-8 text-blue-600" />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Organisations
+            </h1>
+            <p className="text-gray-600 dark:text-gray-300">
+              Tidy up organisation names so colleagues score as one team
+            </p>
+          </div>
+        </div>
+
+        <OrganisationsCard />
+      </div>
+    </AuthenticatedLayout>
+  );
+}
@@ -0,0 +1,459 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { AuthenticatedLayout } from "@/components/layout/authenticated-layout";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Calculator,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Filter,
+  RefreshCw,
+} from "lucide-react";
+import { useAuthContext } from "@/components/providers/auth-provider";
+import {
+  useUnscorableResults,
+  type UnscorableResultFilters,
+} from "@/lib/hooks/useUnscorableResults";
+import { useRescore } from "@/lib/hooks/useRescore";
+import { useStations } from "@/lib/hooks/useStations";
+import { useRouter } from "next/navigation";
+import type {
+  ScoreExplanation,
+  UnscorableReason,
+} from "@/lib/types/database";
+
+const PAGE_SIZE = 25;
+
+// How each reason is shown, and what needs fixing before re-scoring
+const UNSCORABLE_REASONS: Record<
+  UnscorableReason,
+  { label: string; fix: string; href?: string }
+> = {
+  no_metric_definitions: {
+    label: "No metrics",
+    fix: "Define the station's metrics",
+  },
+  no_scored_metrics: {
+    label: "No scored metrics",
+    fix: "Include at least one of the station's metrics in its score",
+    href: "/admin/scoring-thresholds",
+  },
+  missing_measurement: {
+    label: "Missing measurement",
+    fix: "Correct the result at the station with the missing measurement",
+  },
+  missing_band: {
+    label: "No health band",
+    fix: "Add a health metric band that covers the participant",
+    href: "/admin/scoring-thresholds",
+  },
+  missing_demographics: {
+    label: "Unknown demographics",
+    fix: "Complete the participant's gender and date of birth",
+  },
+  missing_thresholds: {
+    label: "No threshold",
+    fix: "Add a scoring threshold for the participant's gender and age",
+    href: "/admin/scoring-thresholds",
+  },
+  no_scorable_measurements: {
+    label: "Nothing to score",
+    fix: "Correct the result at the station with a scored measurement",
+  },
+  scoring_error: {
+    label: "Scoring error",
+    fix: "Check the server logs, then re-score",
+  },
+  under_age: {
+    label: "Under 18",
+    fix: "Switch the scoring profile's youth policy to youth thresholds, or correct the participant's date of birth",
+    href: "/admin/scoring-thresholds",
+  },
+};
+
+export default function AdminPendingResultsPage() {
+  const router = useRouter();
+  const { profile } = useAuthContext();
+
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<UnscorableResultFilters>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const { data, isLoading, isFetching, error, refetch } = useUnscorableResults({
+    ...filters,
+    page,
+    limit: PAGE_SIZE,
+  });
+  const { data: stations } = useStations();
+  const rescore = useRescore();
+
+  // Check admin access
+  useEffect(() => {
+    if (profile && profile.role !== "admin") {
+      router.push("/participate");
+    }
+  }, [profile, router]);
+
+  if (!profile || profile.role !== "admin") {
+    return (
+      <AuthenticatedLayout
+        title="Access Denied"
+        subtitle="Admin access required"
+      >
+        <div className="container mx-auto px-4 py-8">
+          <Alert variant="destructive">
+            <AlertDescription>
+              You don't have permission to access this page. Admin role
+              required.
+            </AlertDescription>
+          </Alert>
+        </div>
+      </AuthenticatedLayout>
+    );
+  }
+
+  const results = data?.results || [];
+  const pagination = data?.pagination;
+
+  const getStationName = (stationType: string) =>
+    stations?.find((station) => station.station_type === stationType)?.name ||
+    stationType;
+
+  // Re-score pending results with the current rules; fixed ones get a score
+  const handleRescore = async (
+    target: { stationType?: string; participantCode?: string } = {}
+  ) => {
+    setMessage(null);
+    setActionError(null);
+
+    try {
+      const result = await rescore.mutateAsync({
+        stationType: target.stationType || filters.station_type || null,
+        participantCode: target.participantCode || null,
+        unscorableOnly: true,
+        dryRun: false,
+      });
+      const scored =
+        result.summary.resultsChecked - result.summary.resultsUnscorable;
+      setMessage(
+        `${scored} of ${result.summary.resultsChecked} result${
+          result.summary.resultsChecked !== 1 ? "s" : ""
+        } scored; ${result.summary.resultsUnscorable} still pending.`
+      );
+    } catch (err) {
+      setActionError(
+        err instanceof Error ? err.message : "Failed to re-score results"
+      );
+    }
+  };
+
+  const clearFilters = () => {
+    setFilters({});
+    setPage(1);
+  };
+
+  return (
+    <AuthenticatedLayout
+      title="Pending Results"
+      subtitle="Station results that couldn't be scored"
+      className="min-h-screen bg-gray-50 dark:bg-gray-900"
+    >
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <Clock className="h-8 w-8 text-blue-600" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                Pending Results
+              </h1>
+              <p className="text-gray-600 dark:text-gray-300">
+                Results saved without a score. Fix the cause, then re-score
+                them.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => refetch()}
+              disabled={isFetching}
+            >
+              <RefreshCw
+                className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`}
+              />
+              Refresh
+            </Button>
+            <Button
+              onClick={() => handleRescore()}
+              disabled={rescore.isPending || results.length === 0}
+            >
+              <Calculator className="h-4 w-4 mr-2" />
+              {rescore.isPending ? "Re-scoring..." : "Re-score All"}
+            </Button>
+          </div>
+        </div>
+
+        {message && (
+          <Alert className="mb-6">
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+        {actionError && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertDescription>{actionError}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Filters */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Filter className="h-5 w-5" />
+              Filters
+            </CardTitle>
+            <CardDescription>
+              Narrow the queue by station or by why the results couldn't be
+              scored.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex gap-4 items-end flex-wrap">
+              <div>
+                <Label>Station Type</Label>
+                <Select
+                  value={filters.station_type || "all"}
+                  onValueChange={(value) => {
+                    setFilters((prev) => ({
+                      ...prev,
+                      station_type: value === "all" ? undefined : value,
+                    }));
+                    setPage(1);
+                  }}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="All stations" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All stations</SelectItem>
+                    {stations?.map((station) => (
+                      <SelectItem
+                        key={station.station_type}
+                        value={station.station_type}
+                      >
+                        {station.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label>Reason</Label>
+                <Select
+                  value={filters.reason || "all"}
+                  onValueChange={(value) => {
+                    setFilters((prev) => ({
+                      ...prev,
+                      reason:
+                        value === "all"
+                          ? undefined
+                          : (value as UnscorableReason),
+                    }));
+                    setPage(1);
+                  }}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="All reasons" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All reasons</SelectItem>
+                    {(
+                      Object.keys(UNSCORABLE_REASONS) as UnscorableReason[]
+                    ).map((reason) => (
+                      <SelectItem key={reason} value={reason}>
+                        {UNSCORABLE_REASONS[reason].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Button variant="outline" onClick={clearFilters}>
+                Clear Filters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Content */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Unscorable Results</CardTitle>
+            <CardDescription>
+              {pagination?.total || 0} result
+              {pagination?.total !== 1 ? "s" : ""} pending
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertDescription>
+                  Failed to load pending results. Please try refreshing the
+                  page.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {isLoading ? (
+              <div className="text-center py-8">
+                <div className="text-sm text-muted-foreground">
+                  Loading pending results...
+                </div>
+              </div>
+            ) : results.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Recorded</TableHead>
+                      <TableHead>Participant</TableHead>
+                      <TableHead>Station</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>How to Fix</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map((result) => {
+                      const reason = UNSCORABLE_REASONS[
+                        result.unscorable_reason
+                      ] || { label: result.unscorable_reason, fix: "-" };
+                      const explanation =
+                        result.score_explanation as unknown as ScoreExplanation | null;
+
+                      return (
+                        <TableRow key={result.id}>
+                          <TableCell className="text-sm whitespace-nowrap">
+                            {new Date(result.created_at).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">
+                            {result.participant_code || "-"}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">
+                              {getStationName(result.station_type)}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary">{reason.label}</Badge>
+                            {explanation?.unscorable && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {explanation.unscorable.message}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {reason.href ? (
+                              <Link href={reason.href} className="underline">
+                                {reason.fix}
+                              </Link>
+                            ) : (
+                              reason.fix
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                handleRescore({
+                                  stationType: result.station_type,
+                                  participantCode:
+                                    result.participant_code || undefined,
+                                })
+                              }
+                              disabled={
+                                rescore.isPending || !result.participant_code
+                              }
+                            >
+                              Re-score
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                <Clock className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No pending results. Every recorded result has a score.</p>
+              </div>
+            )}
+
+            {/* Pagination Controls */}
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between px-6 py-4 border-t">
+                <div className="text-sm text-muted-foreground">
+                  Page {pagination.page} of {pagination.totalPages}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page - 1)}
+                    disabled={!pagination.hasPrev}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={!pagination.hasNext}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AuthenticatedLayout>
+  );
+}
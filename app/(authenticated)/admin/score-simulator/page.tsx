@@ -0,0 +1,603 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { AuthenticatedLayout } from "@/components/layout/authenticated-layout";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FlaskConical, Loader2, Play, Users } from "lucide-react";
+import { useAuthContext } from "@/components/providers/auth-provider";
+import { DraftThresholdsCard } from "@/components/admin/DraftThresholdsCard";
+import { ScoreExplanationDetails } from "@/components/station/score-explanation";
+import { useScoringThresholds } from "@/lib/hooks/useScoringThresholds";
+import { useStations } from "@/lib/hooks/useStations";
+import {
+  useReplayThresholds,
+  useSimulateParticipant,
+} from "@/lib/hooks/useScoreSimulator";
+import { formatMetricLabel, parseStationMetrics } from "@/lib/stations/metrics";
+import type { ThresholdRange } from "@/lib/scoring/thresholds";
+import {
+  GENDER_OPTIONS,
+  requiresScoringReference,
+  SCORING_REFERENCE_OPTIONS,
+} from "@/lib/scoring/gender";
+import type {
+  GradeDistribution,
+  ParticipantSimulation,
+  ThresholdReplay,
+} from "@/lib/scoring/simulate";
+import type { ScoringThreshold } from "@/lib/types/database";
+import { useRouter } from "next/navigation";
+
+const GRADES: (keyof GradeDistribution)[] = [
+  "Above Average",
+  "Average",
+  "Bad",
+  "Ungraded",
+];
+
+function formatLabel(value: string) {
+  return value.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+}
+
+function toDraft(thresholds: ScoringThreshold[]): ThresholdRange[] {
+  return thresholds.map((threshold) => ({
+    station_type: threshold.station_type,
+    gender: threshold.gender,
+    min_age: threshold.min_age,
+    max_age: threshold.max_age,
+    min_average_value: threshold.min_average_value,
+    max_average_value: threshold.max_average_value,
+  }));
+}
+
+export default function AdminScoreSimulatorPage() {
+  const router = useRouter();
+  const { profile } = useAuthContext();
+
+  const [age, setAge] = useState("35");
+  const [gender, setGender] = useState<string>("male");
+  // "gender" scores male and female participants as their gender
+  const [scoringReference, setScoringReference] = useState("gender");
+  const [measurements, setMeasurements] = useState<
+    Record<string, Record<string, number | null>>
+  >({});
+  const [rules, setRules] = useState<"current" | "draft">("current");
+  const [draft, setDraft] = useState<ThresholdRange[] | null>(null);
+  const [simulation, setSimulation] = useState<ParticipantSimulation | null>(
+    null
+  );
+  const [replay, setReplay] = useState<ThresholdReplay | null>(null);
+  const [simulateError, setSimulateError] = useState<string | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  const { data: thresholds } = useScoringThresholds();
+  const { data: stations } = useStations();
+  const simulateParticipant = useSimulateParticipant();
+  const replayThresholds = useReplayThresholds();
+
+  // Start the draft from the working thresholds once they load
+  useEffect(() => {
+    if (thresholds && draft === null) setDraft(toDraft(thresholds));
+  }, [thresholds, draft]);
+
+  // Check admin access
+  useEffect(() => {
+    if (profile && profile.role !== "admin") {
+      router.push("/participate");
+    }
+  }, [profile, router]);
+
+  if (!profile || profile.role !== "admin") {
+    return (
+      <AuthenticatedLayout
+        title="Access Denied"
+        subtitle="Admin access required"
+      >
+        <div className="container mx-auto px-4 py-8">
+          <Alert variant="destructive">
+            <AlertDescription>
+              You don't have permission to access this page. Admin role
+              required.
+            </AlertDescription>
+          </Alert>
+        </div>
+      </AuthenticatedLayout>
+    );
+  }
+
+  const stationTypes = (stations || []).map((station) => station.station_type);
+
+  const setMeasurement = (stationType: string, key: string, value: string) => {
+    setMeasurements((prev) => ({
+      ...prev,
+      [stationType]: {
+        ...prev[stationType],
+        [key]: value === "" ? null : Number(value),
+      },
+    }));
+  };
+
+  const handleSimulate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSimulateError(null);
+
+    // Only stations with at least one value entered are scored
+    const recorded = Object.fromEntries(
+      Object.entries(measurements).filter(([, values]) =>
+        Object.values(values).some((value) => value !== null)
+      )
+    );
+
+    try {
+      setSimulation(
+        await simulateParticipant.mutateAsync({
+          age: Number(age),
+          gender,
+          scoringReference:
+            scoringReference === "gender" ? null : scoringReference,
+          measurements: recorded,
+          thresholds: rules === "draft" ? draft || [] : null,
+        })
+      );
+    } catch (err) {
+      setSimulation(null);
+      setSimulateError(
+        err instanceof Error ? err.message : "Failed to simulate scores"
+      );
+    }
+  };
+
+  const handleReplay = async () => {
+    setReplayError(null);
+    try {
+      setReplay(await replayThresholds.mutateAsync({ thresholds: draft || [] }));
+    } catch (err) {
+      setReplay(null);
+      setReplayError(
+        err instanceof Error ? err.message : "Failed to replay thresholds"
+      );
+    }
+  };
+
+  return (
+    <AuthenticatedLayout
+      title="Score Simulator"
+      subtitle="Try out scores and draft thresholds without saving anything"
+      className="min-h-screen bg-gray-50 dark:bg-gray-900"
+    >
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <FlaskConical className="h-8 w-8 text-blue-600" />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Score Simulator
+            </h1>
+            <p className="text-gray-600 dark:text-gray-300">
+              Score a hypothetical participant, or replay draft thresholds
+              against every stored result. Nothing is saved.
+            </p>
+          </div>
+        </div>
+
+        {/* Hypothetical participant */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Hypothetical Participant</CardTitle>
+            <CardDescription>
+              Enter measurements for any stations to score. Stations left
+              blank are treated as not visited.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSimulate} className="space-y-6">
+              {simulateError && (
+                <Alert variant="destructive">
+                  <AlertDescription className="whitespace-pre-line">
+                    {simulateError}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div>
+                  <Label htmlFor="simulator_age">Age</Label>
+                  <Input
+                    id="simulator_age"
+                    type="number"
+                    min="0"
+                    max="120"
+                    value={age}
+                    onChange={(e) => setAge(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="simulator_gender">Gender</Label>
+                  <Select
+                    value={gender}
+                    onValueChange={(value) => {
+                      setGender(value);
+                      if (requiresScoringReference(value)) {
+                        setScoringReference((prev) =>
+                          prev === "gender" ? "average" : prev
+                        );
+                      }
+                    }}
+                  >
+                    <SelectTrigger id="simulator_gender">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GENDER_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="simulator_scoring_reference">
+                    Scored As
+                  </Label>
+                  <Select
+                    value={scoringReference}
+                    onValueChange={setScoringReference}
+                  >
+                    <SelectTrigger id="simulator_scoring_reference">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {!requiresScoringReference(gender) && (
+                        <SelectItem value="gender">Same as gender</SelectItem>
+                      )}
+                      {SCORING_REFERENCE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="simulator_rules">Rules</Label>
+                  <Select
+                    value={rules}
+                    onValueChange={(value: "current" | "draft") =>
+                      setRules(value)
+                    }
+                  >
+                    <SelectTrigger id="simulator_rules">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="current">Rules in effect now</SelectItem>
+                      <SelectItem value="draft">Draft thresholds</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {(stations || []).map((station) => (
+                  <div
+                    key={station.station_type}
+                    className="rounded-md border p-4 space-y-3"
+                  >
+                    <h3 className="font-semibold">{station.name}</h3>
+                    {parseStationMetrics(station.metrics).map((metric) => (
+                      <div key={metric.key}>
+                        <Label
+                          htmlFor={`${station.station_type}_${metric.key}`}
+                        >
+                          {formatMetricLabel(metric)}
+                        </Label>
+                        <Input
+                          id={`${station.station_type}_${metric.key}`}
+                          type="number"
+                          step="any"
+                          min={metric.min}
+                          max={metric.max}
+                          placeholder={
+                            metric.required === false ? "Optional" : undefined
+                          }
+                          value={
+                            measurements[station.station_type]?.[
+                              metric.key
+                            ] ?? ""
+                          }
+                          onChange={(e) =>
+                            setMeasurement(
+                              station.station_type,
+                              metric.key,
+                              e.target.value
+                            )
+                          }
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              <Button type="submit" disabled={simulateParticipant.isPending}>
+                {simulateParticipant.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Play className="h-4 w-4 mr-2" />
+                )}
+                Calculate Scores
+              </Button>
+            </form>
+
+            {simulation && (
+              <div className="mt-6 space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <Badge>
+                    Grade: {simulation.composite.grade || "Ungraded"}
+                  </Badge>
+                  <Badge variant="outline">
+                    Total: {simulation.composite.total_score} /{" "}
+                    {simulation.composite.max_possible_score}
+                  </Badge>
+                  {simulation.composite.percentage !== null && (
+                    <Badge variant="outline">
+                      {simulation.composite.percentage}%
+                    </Badge>
+                  )}
+                  {simulation.composite.pending_stations > 0 && (
+                    <Badge variant="destructive">
+                      {simulation.composite.pending_stations} unscorable
+                    </Badge>
+                  )}
+                  <Badge variant="secondary">
+                    {simulation.ruleSet
+                      ? simulation.ruleSet.version > 0
+                        ? `Rules: v${simulation.ruleSet.version} ${simulation.ruleSet.name}`
+                        : "Rules: draft thresholds"
+                      : "Rules: working thresholds"}
+                  </Badge>
+                </div>
+
+                {simulation.stations.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No measurements were entered.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {simulation.stations.map((station) => (
+                      <div
+                        key={station.stationType}
+                        className="rounded-md border p-4 space-y-2"
+                      >
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <span className="font-semibold">{station.name}</span>
+                          {station.error ? (
+                            <Badge variant="destructive">Invalid</Badge>
+                          ) : station.result?.score === null ? (
+                            <Badge variant="destructive">Unscorable</Badge>
+                          ) : (
+                            <Badge>
+                              Score {station.result?.score}
+                              {station.result?.continuousScore !== null &&
+                                ` (${station.result?.continuousScore})`}
+                            </Badge>
+                          )}
+                        </div>
+                        {station.error && (
+                          <p className="text-sm text-red-600">
+                            {station.error}
+                          </p>
+                        )}
+                        {station.result && (
+                          <ScoreExplanationDetails
+                            explanation={station.result.explanation}
+                          />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Draft thresholds */}
+        <DraftThresholdsCard
+          thresholds={draft || []}
+          onChange={setDraft}
+          onReset={() => setDraft(toDraft(thresholds || []))}
+          stationTypes={stationTypes}
+        />
+
+        {/* Replay against stored results */}
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>Replay Against Stored Results</CardTitle>
+                <CardDescription>
+                  Re-score every stored station result with the draft
+                  thresholds and compare the grade distribution of all
+                  participants before and after.
+                </CardDescription>
+              </div>
+              <Button
+                onClick={handleReplay}
+                disabled={!draft || replayThresholds.isPending}
+              >
+                {replayThresholds.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Users className="h-4 w-4 mr-2" />
+                )}
+                Replay Draft
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {replayError && (
+              <Alert variant="destructive">
+                <AlertDescription className="whitespace-pre-line">
+                  {replayError}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {replay && (
+              <>
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <Badge variant="outline">
+                    {replay.participants} participants
+                  </Badge>
+                  <Badge variant="outline">
+                    {replay.summary.resultsChecked} results checked
+                  </Badge>
+                  <Badge variant="secondary">
+                    {replay.summary.scoresChanged} scores change
+                  </Badge>
+                  <Badge variant="secondary">
+                    {replay.summary.gradesChanged} grades change
+                  </Badge>
+                  {replay.summary.resultsUnscorable > 0 && (
+                    <Badge variant="destructive">
+                      {replay.summary.resultsUnscorable} unscorable
+                    </Badge>
+                  )}
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Grade</TableHead>
+                      <TableHead className="text-right">Before</TableHead>
+                      <TableHead className="text-right">After</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {GRADES.map((grade) => {
+                      const delta = replay.after[grade] - replay.before[grade];
+                      return (
+                        <TableRow key={grade}>
+                          <TableCell>{grade}</TableCell>
+                          <TableCell className="text-right">
+                            {replay.before[grade]}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {replay.after[grade]}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {delta > 0 ? `+${delta}` : delta}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+
+                {replay.gradeChanges.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold mb-2">Participants Affected</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Participant</TableHead>
+                          <TableHead>Total</TableHead>
+                          <TableHead>Grade</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {replay.gradeChanges.map((change) => (
+                          <TableRow key={change.participantId}>
+                            <TableCell className="font-mono">
+                              {change.participantCode}
+                            </TableCell>
+                            <TableCell>
+                              {change.beforeTotal} → {change.afterTotal}
+                            </TableCell>
+                            <TableCell>
+                              {change.beforeGrade === change.afterGrade
+                                ? change.afterGrade || "-"
+                                : `${change.beforeGrade || "-"} → ${
+                                    change.afterGrade || "-"
+                                  }`}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                {replay.changes.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold mb-2">Station Scores</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Participant</TableHead>
+                          <TableHead>Station</TableHead>
+                          <TableHead>Score</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {replay.changes.map((change) => (
+                          <TableRow key={change.resultId}>
+                            <TableCell className="font-mono">
+                              {change.participantCode}
+                            </TableCell>
+                            <TableCell>
+                              {formatLabel(change.stationType)}
+                            </TableCell>
+                            <TableCell>
+                              {change.beforeScore ?? "pending"} →{" "}
+                              {change.afterScore ?? "pending"}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                {replay.truncated && (
+                  <p className="text-sm text-muted-foreground">
+                    Only the first changes are listed.
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AuthenticatedLayout>
+  );
+}
@@ -39,7 +39,17 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Settings, Plus, Edit, Trash2, Filter, RefreshCw } from "lucide-react";
+import {
+  Settings,
+  Plus,
+  Edit,
+  Trash2,
+  Filter,
+  RefreshCw,
+  Calculator,
+  Download,
+  FileUp,
+} from "lucide-react";
 import { useAuthContext } from "@/components/providers/auth-provider";
 import {
   useScoringThresholds,
@@ -47,19 +57,26 @@ import {
   useUpdateScoringThreshold,
   useDeleteScoringThreshold,
 } from "@/lib/hooks/useScoringThresholds";
+import { useStations } from "@/lib/hooks/useStations";
+import { HealthBandsCard } from "@/components/admin/HealthBandsCard";
+import { ScoringProfileCard } from "@/components/admin/ScoringProfileCard";
+import { RescoreDialog } from "@/components/admin/RescoreDialog";
+import { ThresholdCoverageCard } from "@/components/admin/ThresholdCoverageCard";
+import { RuleSetsCard } from "@/components/admin/RuleSetsCard";
+import { ThresholdImportDialog } from "@/components/admin/ThresholdImportDialog";
+import { useRuleSets } from "@/lib/hooks/useRuleSets";
 import { useRouter } from "next/navigation";
 import type {
   ScoringThreshold,
   StationType,
-  Gender,
+  ThresholdGender,
 } from "@/lib/types/database";
 
-const STATION_TYPES: StationType[] = ["balance", "breath", "grip", "health"];
-const GENDERS: Gender[] = ["male", "female"];
+const GENDERS: ThresholdGender[] = ["male", "female"];
 
 interface ThresholdFormData {
   station_type: StationType;
-  gender: Gender;
+  gender: ThresholdGender;
   min_age: number;
   max_age: number | null;
   min_average_value: number;
@@ -73,7 +90,7 @@ export default function AdminScoringThresholdsPage() {
   // Filters
   const [filters, setFilters] = useState<{
     station_type?: StationType;
-    gender?: Gender;
+    gender?: ThresholdGender;
     age?: number;
   }>({});
 
@@ -82,10 +99,19 @@ export default function AdminScoringThresholdsPage() {
   const [editingThreshold, setEditingThreshold] =
     useState<ScoringThreshold | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isRescoreOpen, setIsRescoreOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Set after scoring rules change; undefined means stored scores are current
+  // and null means more than one station is affected
+  const [staleStationType, setStaleStationType] = useState<
+    string | null | undefined
+  >(undefined);
 
   // Form state
   const [formData, setFormData] = useState<ThresholdFormData>({
-    station_type: "balance",
+    station_type: "",
     gender: "male",
     min_age: 18,
     max_age: 39,
@@ -103,6 +129,9 @@ export default function AdminScoringThresholdsPage() {
   const createThreshold = useCreateScoringThreshold();
   const updateThreshold = useUpdateScoringThreshold();
   const deleteThreshold = useDeleteScoringThreshold();
+  const { data: stations } = useStations();
+  const { data: ruleSets } = useRuleSets();
+  const stationTypes = (stations || []).map((station) => station.station_type);
 
   // Check admin access
   React.useEffect(() => {
@@ -129,40 +158,68 @@ export default function AdminScoringThresholdsPage() {
     );
   }
 
+  const markScoresStale = (stationType: string | null) => {
+    setStaleStationType((prev) =>
+      prev === undefined || prev === stationType ? stationType : null
+    );
+  };
+
+  // Threshold and band edits only change scores while no published rule set
+  // is in effect; otherwise they are a draft until the next version
+  const markRulesChanged = (stationType: string | null) => {
+    if (ruleSets?.some((ruleSet) => ruleSet.is_effective)) return;
+    markScoresStale(stationType);
+  };
+
   const handleCreateSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setFormError(null);
     try {
       await createThreshold.mutateAsync(formData);
+      markRulesChanged(formData.station_type);
       setIsCreateModalOpen(false);
       resetForm();
     } catch (error) {
       console.error("Error creating threshold:", error);
+      setFormError(
+        error instanceof Error ? error.message : "Failed to create threshold"
+      );
     }
   };
 
   const handleEditSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!editingThreshold) return;
+    setFormError(null);
 
     try {
       await updateThreshold.mutateAsync({
         ...formData,
         id: editingThreshold.id,
       });
+      markRulesChanged(
+        editingThreshold.station_type === formData.station_type
+          ? formData.station_type
+          : null
+      );
       setIsEditModalOpen(false);
       setEditingThreshold(null);
       resetForm();
     } catch (error) {
       console.error("Error updating threshold:", error);
+      setFormError(
+        error instanceof Error ? error.message : "Failed to update threshold"
+      );
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (threshold: ScoringThreshold) => {
     if (!confirm("Are you sure you want to delete this scoring threshold?"))
       return;
 
     try {
-      await deleteThreshold.mutateAsync(id);
+      await deleteThreshold.mutateAsync(threshold.id);
+      markRulesChanged(threshold.station_type);
     } catch (error) {
       console.error("Error deleting threshold:", error);
     }
@@ -172,18 +229,19 @@ export default function AdminScoringThresholdsPage() {
     setEditingThreshold(threshold);
     setFormData({
       station_type: threshold.station_type as StationType,
-      gender: threshold.gender as Gender,
+      gender: threshold.gender as ThresholdGender,
       min_age: threshold.min_age,
       max_age: threshold.max_age,
       min_average_value: threshold.min_average_value,
       max_average_value: threshold.max_average_value,
     });
+    setFormError(null);
     setIsEditModalOpen(true);
   };
 
   const resetForm = () => {
     setFormData({
-      station_type: "balance",
+      station_type: "",
       gender: "male",
       min_age: 18,
       max_age: 39,
@@ -226,7 +284,7 @@ export default function AdminScoringThresholdsPage() {
     >
       <div className="container mx-auto px-4 py-8">
         {/* Header */}
-        <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center justify-between gap-4 mb-6">
           <div className="flex items-center gap-3">
             <Settings className="h-8 w-8 text-blue-600" />
             <div>
@@ -234,12 +292,37 @@ export default function AdminScoringThresholdsPage() {
                 Scoring Thresholds
               </h1>
               <p className="text-gray-600 dark:text-gray-300">
-                Configure fitness scoring criteria for different demographics
+                Configure fitness scoring criteria and health metric bands for
+                different demographics
               </p>
             </div>
           </div>
 
-          <div className="flex gap-2">
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsRescoreOpen(true)}>
+              <Calculator className="h-4 w-4 mr-2" />
+              Re-score Results
+            </Button>
+
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <FileUp className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+
+            <Button variant="outline" asChild>
+              <a href="/api/admin/scoring-thresholds/export?format=csv" download>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+
+            <Button variant="outline" asChild>
+              <a href="/api/admin/scoring-thresholds/export?format=json" download>
+                <Download className="h-4 w-4 mr-2" />
+                Export JSON
+              </a>
+            </Button>
+
             <Button
               variant="outline"
               onClick={() => refetch()}
@@ -253,7 +336,10 @@ export default function AdminScoringThresholdsPage() {
 
             <Dialog
               open={isCreateModalOpen}
-              onOpenChange={setIsCreateModalOpen}
+              onOpenChange={(open) => {
+                setIsCreateModalOpen(open);
+                if (open) setFormError(null);
+              }}
             >
               <DialogTrigger asChild>
                 <Button>
@@ -271,6 +357,11 @@ export default function AdminScoringThresholdsPage() {
                 </DialogHeader>
                 <form onSubmit={handleCreateSubmit}>
                   <div className="space-y-4">
+                    {formError && (
+                      <Alert variant="destructive">
+                        <AlertDescription>{formError}</AlertDescription>
+                      </Alert>
+                    )}
                     <div className="grid grid-cols-2 gap-4">
                       <div>
                         <Label htmlFor="station_type">Station Type</Label>
@@ -284,10 +375,10 @@ export default function AdminScoringThresholdsPage() {
                           }}
                         >
                           <SelectTrigger>
-                            <SelectValue />
+                            <SelectValue placeholder="Select station" />
                           </SelectTrigger>
                           <SelectContent>
-                            {STATION_TYPES.map((type) => (
+                            {stationTypes.map((type) => (
                               <SelectItem key={type} value={type}>
                                 {formatStationType(type)}
                               </SelectItem>
@@ -300,7 +391,7 @@ export default function AdminScoringThresholdsPage() {
                         <Label htmlFor="gender">Gender</Label>
                         <Select
                           value={formData.gender}
-                          onValueChange={(value: Gender) => {
+                          onValueChange={(value: ThresholdGender) => {
                             setFormData((prev) => ({ ...prev, gender: value }));
                           }}
                         >
@@ -406,7 +497,12 @@ export default function AdminScoringThresholdsPage() {
                     >
                       Cancel
                     </Button>
-                    <Button type="submit" disabled={createThreshold.isPending}>
+                    <Button
+                      type="submit"
+                      disabled={
+                        createThreshold.isPending || !formData.station_type
+                      }
+                    >
                       {createThreshold.isPending ? "Creating..." : "Create"}
                     </Button>
                   </DialogFooter>
@@ -416,6 +512,58 @@ export default function AdminScoringThresholdsPage() {
           </div>
         </div>
 
+        {/* Stored scores were calculated with the previous rules */}
+        {staleStationType !== undefined && (
+          <Alert className="mb-6">
+            <AlertDescription className="flex items-center justify-between gap-4">
+              <span>
+                Scoring rules for{" "}
+                {staleStationType
+                  ? formatStationType(staleStationType)
+                  : "several stations"}{" "}
+                have changed. Existing results keep their old scores until they
+                are re-scored.
+              </span>
+              <span className="flex gap-2 shrink-0">
+                <Button size="sm" onClick={() => setIsRescoreOpen(true)}>
+                  Review Re-score
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setStaleStationType(undefined)}
+                >
+                  Dismiss
+                </Button>
+              </span>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <RescoreDialog
+          open={isRescoreOpen}
+          onOpenChange={setIsRescoreOpen}
+          stations={stations || []}
+          initialStationType={staleStationType}
+          onApplied={() => setStaleStationType(undefined)}
+        />
+
+        <ThresholdImportDialog
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          onApplied={(result) =>
+            markRulesChanged(
+              result.stationTypes.length === 1 ? result.stationTypes[0] : null
+            )
+          }
+        />
+
+        {/* Weights, missing stations and grade cut-offs */}
+        <ScoringProfileCard onScoringChange={markScoresStale} />
+
+        {/* Published versions of the thresholds and bands */}
+        <RuleSetsCard onScoringChange={markScoresStale} />
+
         {/* Filters */}
         <Card className="mb-6">
           <CardHeader>
@@ -447,7 +595,7 @@ export default function AdminScoringThresholdsPage() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All stations</SelectItem>
-                    {STATION_TYPES.map((type) => (
+                    {stationTypes.map((type) => (
                       <SelectItem key={type} value={type}>
                         {formatStationType(type)}
                       </SelectItem>
@@ -463,7 +611,10 @@ export default function AdminScoringThresholdsPage() {
                   onValueChange={(value) =>
                     setFilters((prev) => ({
                       ...prev,
-                      gender: value === "all" ? undefined : (value as Gender),
+                      gender:
+                        value === "all"
+                          ? undefined
+                          : (value as ThresholdGender),
                     }))
                   }
                 >
@@ -588,7 +739,7 @@ export default function AdminScoringThresholdsPage() {
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => handleDelete(threshold.id)}
+                              onClick={() => handleDelete(threshold)}
                               disabled={deleteThreshold.isPending}
                             >
                               <Trash2 className="h-4 w-4" />
@@ -609,6 +760,12 @@ export default function AdminScoringThresholdsPage() {
           </CardContent>
         </Card>
 
+        {/* Age coverage per station and gender */}
+        <ThresholdCoverageCard />
+
+        {/* Health station bands */}
+        <HealthBandsCard onScoringChange={markRulesChanged} />
+
         {/* Edit Modal */}
         <Dialog open={isEditModalOpen} onOpenChange={setIsEditModalOpen}>
           <DialogContent className="max-w-md">
@@ -620,6 +777,11 @@ export default function AdminScoringThresholdsPage() {
             </DialogHeader>
             <form onSubmit={handleEditSubmit}>
               <div className="space-y-4">
+                {formError && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{formError}</AlertDescription>
+                  </Alert>
+                )}
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <Label>Station Type</Label>
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import {
   Card,
   CardContent,
@@ -26,6 +26,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AuthenticatedLayout } from "@/components/layout/authenticated-layout";
 import {
   Trophy,
@@ -39,26 +40,26 @@ import {
   ChevronRight,
   Search,
   ArrowUpDown,
+  Building2,
+  ArrowUp,
+  ArrowDown,
+  Camera,
 } from "lucide-react";
 import { usePaginatedStationResults } from "@/lib/hooks/usePaginatedStationResults";
 import { useStationsWithStorage } from "@/lib/hooks/useStationsWithStorage";
+import { useTeamLeaderboard } from "@/lib/hooks/useOrganisations";
+import { useLiveLeaderboard } from "@/lib/hooks/useLiveLeaderboard";
+import {
+  useLeaderboardSnapshot,
+  useLeaderboardSnapshots,
+} from "@/lib/hooks/useLeaderboardSnapshots";
+import { getRankChanges } from "@/lib/leaderboard/live";
+import { GENDER_OPTIONS } from "@/lib/scoring/gender";
+import { AGE_BANDS, COMPLETION_SEGMENTS } from "@/lib/leaderboard/segments";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
 import type { Grade } from "@/lib/types/database";
 
-function calculateGrade(
-  totalScore: number,
-  completedStations: number
-): "Above Average" | "Average" | "Bad" {
-  if (completedStations === 0) return "Bad";
-  const maxPossibleScore = completedStations * 3;
-  const percentage = (totalScore / maxPossibleScore) * 100;
-
-  if (percentage >= 83) return "Above Average";
-  if (percentage >= 50) return "Average";
-  return "Bad";
-}
-
 function getRankIcon(rank: number) {
   switch (rank) {
     case 1:
@@ -74,6 +75,72 @@ function getRankIcon(rank: number) {
   }
 }
 
+// Shared places keep their podium icon and are marked as tied, e.g. "=2"
+function getRankLabel(rank: number, tied: boolean) {
+  return (
+    <div
+      className="flex items-center gap-1"
+      title={tied ? `Tied ${rank}` : undefined}
+    >
+      {getRankIcon(rank)}
+      {tied && (
+        <span className="text-xs font-semibold text-muted-foreground">
+          ={rank <= 3 ? rank : ""}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// Movement since the last update, shown briefly after a live change
+function getRankChangeIndicator(change: number | undefined) {
+  if (!change) return null;
+  const Icon = change > 0 ? ArrowUp : ArrowDown;
+  return (
+    <span
+      className={`flex items-center text-xs font-semibold animate-in fade-in slide-in-from-bottom-2 duration-500 ${
+        change > 0 ? "text-green-600" : "text-red-600"
+      }`}
+    >
+      <Icon className="h-3 w-3" />
+      {Math.abs(change)}
+    </span>
+  );
+}
+
+// Movement since the last snapshot; participants who weren't in it are new
+function getSnapshotMovement(
+  rank: number,
+  previousRank: number | null,
+  snapshotLabel: string
+) {
+  if (previousRank === null) {
+    return (
+      <span
+        className="text-xs text-muted-foreground"
+        title={`New since ${snapshotLabel}`}
+      >
+        new
+      </span>
+    );
+  }
+
+  const change = previousRank - rank;
+  if (change === 0) return null;
+  const Icon = change > 0 ? ArrowUp : ArrowDown;
+  return (
+    <span
+      className={`flex items-center text-xs ${
+        change > 0 ? "text-green-600/70" : "text-red-600/70"
+      }`}
+      title={`${change > 0 ? "Up" : "Down"} ${Math.abs(change)} since ${snapshotLabel}`}
+    >
+      <Icon className="h-3 w-3" />
+      {Math.abs(change)}
+    </span>
+  );
+}
+
 function getGradeBadgeVariant(
   grade: Grade | null
 ): "default" | "secondary" | "destructive" {
@@ -102,8 +169,21 @@ export default function LeaderboardPage() {
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [nameFilter, setNameFilter] = useState("");
   const [orgFilter, setOrgFilter] = useState("");
+  // Segments use "all" for no selection
+  const [genderFilter, setGenderFilter] = useState("all");
+  const [ageBand, setAgeBand] = useState("all");
+  const [organisation, setOrganisation] = useState("all");
+  const [completion, setCompletion] = useState("all");
   const [searchName, setSearchName] = useState("");
   const [searchOrg, setSearchOrg] = useState("");
+  const [teamPage, setTeamPage] = useState(1);
+  // Snapshot shown on the snapshots tab; the latest until one is chosen
+  const [selectedSnapshotId, setSelectedSnapshotId] = useState<string | null>(
+    null
+  );
+  const [snapshotPage, setSnapshotPage] = useState(1);
+  // Rank movement per participant from the latest live update
+  const [rankChanges, setRankChanges] = useState<Record<string, number>>({});
   const itemsPerPage = 10;
 
   const { data, isLoading, error, refetch } = usePaginatedStationResults({
@@ -113,21 +193,78 @@ export default function LeaderboardPage() {
     order: sortOrder,
     nameFilter,
     orgFilter,
+    genderFilter: genderFilter === "all" ? "" : genderFilter,
+    ageBand: ageBand === "all" ? "" : ageBand,
+    organisation: organisation === "all" ? "" : organisation,
+    completion: completion === "all" ? "" : completion,
+  });
+  const {
+    data: teamData,
+    isLoading: teamsLoading,
+    error: teamsError,
+    refetch: refetchTeams,
+  } = useTeamLeaderboard({
+    limit: itemsPerPage,
+    offset: (teamPage - 1) * itemsPerPage,
+  });
+  const { data: topTeamData, refetch: refetchTopTeam } = useTeamLeaderboard({
+    limit: 1,
   });
   const {
     data: stations,
     isLoading: stationsLoading,
     isCached,
   } = useStationsWithStorage();
+  const { data: snapshots, refetch: refetchSnapshots } =
+    useLeaderboardSnapshots();
+  // Falls back to the latest when the chosen snapshot has been deleted
+  const snapshotId = snapshots?.some(
+    (snapshot) => snapshot.id === selectedSnapshotId
+  )
+    ? selectedSnapshotId
+    : snapshots?.[0]?.id || null;
+  const {
+    data: snapshotData,
+    isLoading: snapshotLoading,
+    error: snapshotError,
+  } = useLeaderboardSnapshot(snapshotId, {
+    limit: itemsPerPage,
+    offset: (snapshotPage - 1) * itemsPerPage,
+  });
+
+  const refreshAll = useCallback(() => {
+    refetch({ background: true });
+    refetchTeams();
+    refetchTopTeam();
+  }, [refetch, refetchTeams, refetchTopTeam]);
+
+  // Push updates: a burst of changes (e.g. a station saving several results)
+  // is coalesced into one refresh
+  const liveRefreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const handleLiveChange = useCallback(() => {
+    if (liveRefreshTimer.current) clearTimeout(liveRefreshTimer.current);
+    liveRefreshTimer.current = setTimeout(refreshAll, 300);
+  }, [refreshAll]);
+
+  const rankChangeTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Auto-refresh every minute
   useEffect(() => {
-    const interval = setInterval(() => {
-      refetch();
-    }, 60000); // 60 seconds
+    return () => {
+      if (liveRefreshTimer.current) clearTimeout(liveRefreshTimer.current);
+      if (rankChangeTimer.current) clearTimeout(rankChangeTimer.current);
+    };
+  }, []);
+
+  const { isLive } = useLiveLeaderboard(handleLiveChange);
+
+  // Fall back to refreshing every minute while the live feed is down
+  useEffect(() => {
+    if (isLive) return;
+
+    const interval = setInterval(refreshAll, 60000); // 60 seconds
 
     return () => clearInterval(interval);
-  }, [refetch]);
+  }, [isLive, refreshAll]);
 
   // Handle search with debounce
   useEffect(() => {
@@ -143,9 +280,55 @@ export default function LeaderboardPage() {
   // Reset page when sort changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [sortBy, sortOrder]);
+  }, [sortBy, sortOrder, genderFilter, ageBand, organisation, completion]);
 
   const results = data?.results || [];
+
+  // Compare ranks with the previous results of the same query, so paging and
+  // filtering don't show as movement
+  const queryKey = [
+    currentPage,
+    sortBy,
+    sortOrder,
+    nameFilter,
+    orgFilter,
+    genderFilter,
+    ageBand,
+    organisation,
+    completion,
+  ].join("|");
+  const previousResults = useRef<{
+    queryKey: string;
+    rows: { id: string; rank: number }[];
+  } | null>(null);
+
+  useEffect(() => {
+    if (!data) return;
+
+    const rows = data.results.map(({ id, rank }) => ({ id, rank }));
+    const previous = previousResults.current;
+    previousResults.current = { queryKey, rows };
+
+    if (!previous || previous.queryKey !== queryKey) {
+      setRankChanges({});
+      return;
+    }
+
+    const changes = getRankChanges(previous.rows, rows);
+    if (Object.keys(changes).length === 0) return;
+
+    setRankChanges(changes);
+    if (rankChangeTimer.current) clearTimeout(rankChangeTimer.current);
+    rankChangeTimer.current = setTimeout(() => setRankChanges({}), 5000);
+    // Only new data counts; queryKey is read as of its arrival
+  }, [data]);
+
+  const stationColumns = data?.stations || [];
+  const comparison = data?.comparison || null;
+  const organisations = data?.segments?.organisations || [];
+  const hasSegment = [genderFilter, ageBand, organisation, completion].some(
+    (segment) => segment !== "all"
+  );
   const pagination = data?.pagination || {
     total: 0,
     limit: itemsPerPage,
@@ -168,23 +351,25 @@ export default function LeaderboardPage() {
               10
           ) / 10
         : 0,
-    aboveAverage: results.filter((r) => r.total_score >= 10).length,
-    topOrganization:
-      results.length > 0
-        ? results.reduce((acc, r) => {
-            if (!r.organisation) return acc;
-            const count = (acc[r.organisation] || 0) + 1;
-            return { ...acc, [r.organisation]: count };
-          }, {} as Record<string, number>)
-        : {},
+    aboveAverage: results.filter((r) => r.grade === "Above Average").length,
+  };
+
+  const teams = teamData?.results || [];
+  const teamPagination = teamData?.pagination || {
+    total: 0,
+    limit: itemsPerPage,
+    offset: 0,
+    hasMore: false,
   };
+  const teamTotalPages = Math.ceil(teamPagination.total / itemsPerPage);
+  const topTeam = topTeamData?.results[0];
 
-  const topOrgName =
-    Object.entries(stats.topOrganization).length > 0
-      ? Object.entries(stats.topOrganization).sort(
-          ([, a], [, b]) => b - a
-        )[0]?.[0] || "None"
-      : "None";
+  const snapshotResults = snapshotData?.results || [];
+  const snapshotStations = snapshotData?.stations || [];
+  const snapshotTotalPages = Math.ceil(
+    (snapshotData?.pagination.total || 0) / itemsPerPage
+  );
+  const topOrgName = topTeam?.rank === 1 ? topTeam.name : null;
 
   const handleSort = (field: string) => {
     if (sortBy === field) {
@@ -208,10 +393,18 @@ export default function LeaderboardPage() {
     >
       <div className="container mx-auto px-4 py-8">
         {/* Header */}
-        <div className="mb-8">
+        <div className="mb-8 flex flex-wrap items-center justify-between gap-4">
           <h1 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white mb-2">
             Longevity Game Leaderboard
           </h1>
+          {isLive ? (
+            <Badge variant="outline" className="gap-2">
+              <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
+              Live
+            </Badge>
+          ) : (
+            <Badge variant="secondary">Updating every minute</Badge>
+          )}
         </div>
 
         {/* Error Alert */}
@@ -275,321 +468,718 @@ export default function LeaderboardPage() {
                 <Activity className="h-5 w-5 text-purple-600" />
                 <div>
                   <p className="text-sm text-muted-foreground">
-                    Top Organization
+                    Top Team
                   </p>
-                  <p className="text-lg font-bold">{topOrgName}</p>
+                  <p className="text-lg font-bold">{topOrgName || "None"}</p>
                 </div>
               </div>
             </CardContent>
           </Card>
         </div>
 
-        {/* Search and Sort Controls */}
-        <Card className="mb-6">
-          <CardHeader>
-            <CardTitle>Search & Filter</CardTitle>
-            <CardDescription>
-              Search by name or organization, and sort results
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="flex flex-col sm:flex-row gap-4">
-              <div className="flex-1">
-                <div className="relative">
-                  <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    placeholder="Search by name..."
-                    value={searchName}
-                    onChange={(e) => setSearchName(e.target.value)}
-                    className="pl-10"
-                  />
+        {/* Individual and team rankings */}
+        <Tabs defaultValue="individuals">
+          <TabsList className="mb-6">
+            <TabsTrigger value="individuals">
+              <Users className="h-4 w-4 mr-2" />
+              Individuals
+            </TabsTrigger>
+            <TabsTrigger value="teams">
+              <Building2 className="h-4 w-4 mr-2" />
+              Teams
+            </TabsTrigger>
+            <TabsTrigger value="snapshots" onClick={() => refetchSnapshots()}>
+              <Camera className="h-4 w-4 mr-2" />
+              Snapshots
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="individuals">
+            {/* Search and Sort Controls */}
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle>Search & Filter</CardTitle>
+                <CardDescription>
+                  Search by name or organization, narrow to a segment, and sort
+                  results. Each segment is ranked on its own.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-col sm:flex-row gap-4">
+                  <div className="flex-1">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        placeholder="Search by name..."
+                        value={searchName}
+                        onChange={(e) => setSearchName(e.target.value)}
+                        className="pl-10"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex-1">
+                    <Input
+                      placeholder="Search by organization..."
+                      value={searchOrg}
+                      onChange={(e) => setSearchOrg(e.target.value)}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Select value={sortBy} onValueChange={setSortBy}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="total_score">Total Score</SelectItem>
+                        <SelectItem value="rank">Rank</SelectItem>
+                        {stationColumns.map((station) => (
+                          <SelectItem
+                            key={station.station_type}
+                            value={station.station_type}
+                          >
+                            {station.name}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value="name">Name</SelectItem>
+                        <SelectItem value="organisation">Organization</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() =>
+                        setSortOrder(sortOrder === "asc" ? "desc" : "asc")
+                      }
+                    >
+                      {sortOrder === "asc" ? "↑" : "↓"}
+                    </Button>
+                  </div>
                 </div>
-              </div>
-              <div className="flex-1">
-                <Input
-                  placeholder="Search by organization..."
-                  value={searchOrg}
-                  onChange={(e) => setSearchOrg(e.target.value)}
-                />
-              </div>
-              <div className="flex gap-2">
-                <Select value={sortBy} onValueChange={setSortBy}>
-                  <SelectTrigger className="w-40">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="total_score">Total Score</SelectItem>
-                    <SelectItem value="rank">Rank</SelectItem>
-                    <SelectItem value="balance">Balance</SelectItem>
-                    <SelectItem value="breath">Breath</SelectItem>
-                    <SelectItem value="grip">Grip</SelectItem>
-                    <SelectItem value="health">Health</SelectItem>
-                    <SelectItem value="name">Name</SelectItem>
-                    <SelectItem value="organisation">Organization</SelectItem>
-                  </SelectContent>
-                </Select>
-                <Button
-                  variant="outline"
-                  size="icon"
-                  onClick={() =>
-                    setSortOrder(sortOrder === "asc" ? "desc" : "asc")
-                  }
-                >
-                  {sortOrder === "asc" ? "↑" : "↓"}
-                </Button>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
 
-        {/* Leaderboard Table */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Rankings</CardTitle>
-            <CardDescription>
-              Participants ranked by total score across all four fitness
-              stations
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            {isLoading ? (
-              <div className="text-center py-12">
-                <div className="w-8 h-8 bg-primary rounded-full flex items-center justify-center mx-auto mb-4">
-                  <div className="w-4 h-4 bg-primary-foreground rounded-full animate-pulse" />
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mt-4">
+                  <Select value={ageBand} onValueChange={setAgeBand}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Ages</SelectItem>
+                      {AGE_BANDS.map((band) => (
+                        <SelectItem key={band.value} value={band.value}>
+                          {band.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={genderFilter} onValueChange={setGenderFilter}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Genders</SelectItem>
+                      {GENDER_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={organisation} onValueChange={setOrganisation}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Organizations</SelectItem>
+                      {organisations.map((org) => (
+                        <SelectItem key={org} value={org}>
+                          {org}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={completion} onValueChange={setCompletion}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Any Completion</SelectItem>
+                      {COMPLETION_SEGMENTS.map((segment) => (
+                        <SelectItem key={segment.value} value={segment.value}>
+                          {segment.label}
+                        </SelectItem>
+                      ))}
+                      {stationColumns.map((station) => (
+                        <SelectItem
+                          key={station.station_type}
+                          value={station.station_type}
+                        >
+                          Completed {station.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-                <p className="text-muted-foreground">Loading leaderboard...</p>
-              </div>
-            ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead className="w-16">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleSort("rank")}
-                      >
-                        Rank {getSortIcon("rank")}
-                      </Button>
-                    </TableHead>
-                    <TableHead>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleSort("name")}
-                      >
-                        Participant {getSortIcon("name")}
-                      </Button>
-                    </TableHead>
-                    <TableHead>
+              </CardContent>
+            </Card>
+
+            {/* Leaderboard Table */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Rankings</CardTitle>
+                <CardDescription>
+                  Participants ranked by total score across all fitness stations
+                  {comparison &&
+                    `. Arrows show movement since "${comparison.label}".`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="text-center py-12">
+                    <div className="w-8 h-8 bg-primary rounded-full flex items-center justify-center mx-auto mb-4">
+                      <div className="w-4 h-4 bg-primary-foreground rounded-full animate-pulse" />
+                    </div>
+                    <p className="text-muted-foreground">Loading leaderboard...</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleSort("rank")}
+                          >
+                            Rank {getSortIcon("rank")}
+                          </Button>
+                        </TableHead>
+                        <TableHead>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleSort("name")}
+                          >
+                            Participant {getSortIcon("name")}
+                          </Button>
+                        </TableHead>
+                        <TableHead>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleSort("organisation")}
+                          >
+                            Organization {getSortIcon("organisation")}
+                          </Button>
+                        </TableHead>
+                        {stationColumns.map((station) => (
+                          <TableHead
+                            key={station.station_type}
+                            className="text-center"
+                          >
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleSort(station.station_type)}
+                            >
+                              {station.name} {getSortIcon(station.station_type)}
+                            </Button>
+                          </TableHead>
+                        ))}
+                        <TableHead className="text-center">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleSort("total_score")}
+                          >
+                            Total {getSortIcon("total_score")}
+                          </Button>
+                        </TableHead>
+                        <TableHead className="text-center">Grade</TableHead>
+                        <TableHead>Completed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {results.map((participant) => {
+                        const grade = participant.grade;
+                        return (
+                          <TableRow
+                            key={participant.id}
+                            className={`hover:bg-muted/50 transition-colors duration-1000 ${
+                              rankChanges[participant.id]
+                                ? "bg-yellow-50 dark:bg-yellow-900/20"
+                                : ""
+                            }`}
+                          >
+                            <TableCell className="font-medium">
+                              <div className="flex items-center gap-2">
+                                {getRankLabel(participant.rank, participant.tied)}
+                                {rankChanges[participant.id]
+                                  ? getRankChangeIndicator(
+                                      rankChanges[participant.id]
+                                    )
+                                  : comparison &&
+                                    getSnapshotMovement(
+                                      participant.rank,
+                                      participant.previous_rank,
+                                      comparison.label
+                                    )}
+                              </div>
+                            </TableCell>
+
+                            <TableCell>
+                              <div>
+                                <p className="font-medium">{participant.name}</p>
+                              </div>
+                            </TableCell>
+
+                            <TableCell className="text-sm">
+                              {participant.organisation || "-"}
+                            </TableCell>
+
+                            {stationColumns.map((station) => {
+                              const score =
+                                participant.scores[station.station_type] ?? null;
+                              const continuousScore =
+                                participant.continuous_scores?.[
+                                  station.station_type
+                                ] ?? null;
+                              const isPending =
+                                participant.pending_stations.includes(
+                                  station.station_type
+                                );
+                              return (
+                                <TableCell
+                                  key={station.station_type}
+                                  className="text-center"
+                                >
+                                  {isPending ? (
+                                    <Badge variant="outline" className="text-xs">
+                                      pending
+                                    </Badge>
+                                  ) : (
+                                    <span
+                                      className={`font-medium ${getScoreColor(
+                                        score
+                                      )}`}
+                                    >
+                                      {score || "-"}
+                                    </span>
+                                  )}
+                                  {continuousScore !== null && (
+                                    <p className="text-xs text-muted-foreground">
+                                      {continuousScore.toFixed(1)}
+                                    </p>
+                                  )}
+                                </TableCell>
+                              );
+                            })}
+
+                            <TableCell className="text-center">
+                              <span className="text-lg font-bold">
+                                {participant.total_score || "-"}
+                              </span>
+                              {participant.continuous_score !== null && (
+                                <p className="text-xs text-muted-foreground">
+                                  {participant.continuous_score.toFixed(1)} / 100
+                                </p>
+                              )}
+                            </TableCell>
+
+                            <TableCell className="text-center">
+                              <Badge variant={getGradeBadgeVariant(grade)}>
+                                {grade || "-"}
+                              </Badge>
+                            </TableCell>
+
+                            <TableCell className="text-sm text-muted-foreground">
+                              <div>
+                                <p>
+                                  {participant.completed_stations}/
+                                  {stationColumns.length} stations
+                                </p>
+                                {participant.pending_stations.length > 0 && (
+                                  <p className="text-xs">
+                                    {participant.pending_stations.length} pending
+                                  </p>
+                                )}
+                                {participant.latest_completion && (
+                                  <p className="text-xs">
+                                    {new Date(
+                                      participant.latest_completion
+                                    ).toLocaleDateString()}
+                                  </p>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+
+                {!isLoading && results.length === 0 && !error && (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Activity className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>
+                      No participants found
+                      {nameFilter || orgFilter || hasSegment
+                        ? " for the selected filters"
+                        : ""}
+                    </p>
+                    <p className="text-sm mt-2">
+                      {nameFilter || orgFilter || hasSegment
+                        ? "Try adjusting your search criteria"
+                        : "Complete your fitness assessment to appear on the leaderboard!"}
+                    </p>
+                  </div>
+                )}
+
+                {/* Pagination Controls */}
+                {!isLoading && results.length > 0 && (
+                  <div className="flex items-center justify-between px-6 py-4 border-t">
+                    <div className="text-sm text-muted-foreground">
+                      Showing {pagination.offset + 1} to{" "}
+                      {Math.min(
+                        pagination.offset + pagination.limit,
+                        pagination.total
+                      )}{" "}
+                      of {pagination.total} results
+                    </div>
+                    <div className="flex items-center gap-2">
                       <Button
-                        variant="ghost"
+                        variant="outline"
                         size="sm"
-                        onClick={() => handleSort("organisation")}
+                        onClick={() => setCurrentPage(currentPage - 1)}
+                        disabled={!hasPrevPage}
                       >
-                        Organization {getSortIcon("organisation")}
+                        <ChevronLeft className="h-4 w-4" />
+                        Previous
                       </Button>
-                    </TableHead>
-                    <TableHead className="text-center">
+                      <div className="flex items-center gap-1">
+                        <span className="text-sm">
+                          Page {currentPage} of {totalPages}
+                        </span>
+                      </div>
                       <Button
-                        variant="ghost"
+                        variant="outline"
                         size="sm"
-                        onClick={() => handleSort("balance")}
+                        onClick={() => setCurrentPage(currentPage + 1)}
+                        disabled={!hasNextPage}
                       >
-                        Balance {getSortIcon("balance")}
+                        Next
+                        <ChevronRight className="h-4 w-4" />
                       </Button>
-                    </TableHead>
-                    <TableHead className="text-center">
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="teams">
+            <Card>
+              <CardHeader>
+                <CardTitle>Team Rankings</CardTitle>
+                <CardDescription>
+                  Organisations ranked by the average total score of their
+                  best {teamData?.scoring.top_members ?? 5} members. Teams
+                  need at least {teamData?.scoring.min_members ?? 3} members
+                  with a score to be ranked.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {teamsError && (
+                  <Alert variant="destructive" className="mb-4">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      Failed to load team rankings. Please try refreshing the
+                      page.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {teamsLoading ? (
+                  <div className="text-center py-12">
+                    <p className="text-muted-foreground">
+                      Loading team rankings...
+                    </p>
+                  </div>
+                ) : teams.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Rank</TableHead>
+                        <TableHead>Organisation</TableHead>
+                        <TableHead className="text-center">
+                          Team Score
+                        </TableHead>
+                        <TableHead className="text-center">
+                          Best Score
+                        </TableHead>
+                        <TableHead className="text-center">Members</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {teams.map((team) => (
+                        <TableRow
+                          key={team.organisation_id}
+                          className="hover:bg-muted/50"
+                        >
+                          <TableCell className="font-medium">
+                            {team.rank !== null ? (
+                              getRankLabel(team.rank, team.tied)
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <p className="font-medium">{team.name}</p>
+                            {!team.eligible && (
+                              <p className="text-xs text-muted-foreground">
+                                Not enough members to be ranked
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <span className="text-lg font-bold">
+                              {team.team_score}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-center">
+                            {team.best_score}
+                          </TableCell>
+                          <TableCell className="text-center text-sm">
+                            {team.members}
+                            {team.counted_members < team.members && (
+                              <span className="text-muted-foreground">
+                                {" "}
+                                ({team.counted_members} counted)
+                              </span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Building2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>No teams have scored yet.</p>
+                  </div>
+                )}
+
+                {/* Pagination */}
+                {teamTotalPages > 1 && (
+                  <div className="flex items-center justify-between mt-6">
+                    <div className="text-sm text-muted-foreground">
+                      Showing {teamPagination.offset + 1} to{" "}
+                      {Math.min(
+                        teamPagination.offset + itemsPerPage,
+                        teamPagination.total
+                      )}{" "}
+                      of {teamPagination.total} teams
+                    </div>
+                    <div className="flex items-center gap-2">
                       <Button
-                        variant="ghost"
+                        variant="outline"
                         size="sm"
-                        onClick={() => handleSort("breath")}
+                        onClick={() => setTeamPage(teamPage - 1)}
+                        disabled={teamPage <= 1}
                       >
-                        Breath {getSortIcon("breath")}
+                        <ChevronLeft className="h-4 w-4" />
+                        Previous
                       </Button>
-                    </TableHead>
-                    <TableHead className="text-center">
+                      <div className="flex items-center gap-1">
+                        <span className="text-sm">
+                          Page {teamPage} of {teamTotalPages}
+                        </span>
+                      </div>
                       <Button
-                        variant="ghost"
+                        variant="outline"
                         size="sm"
-                        onClick={() => handleSort("grip")}
+                        onClick={() => setTeamPage(teamPage + 1)}
+                        disabled={!teamPagination.hasMore}
                       >
-                        Grip {getSortIcon("grip")}
+                        Next
+                        <ChevronRight className="h-4 w-4" />
                       </Button>
-                    </TableHead>
-                    <TableHead className="text-center">
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="snapshots">
+            <Card>
+              <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+                <div>
+                  <CardTitle>Snapshots</CardTitle>
+                  <CardDescription>
+                    {snapshotData?.snapshot.taken_at
+                      ? `Standings frozen at ${new Date(
+                          snapshotData.snapshot.taken_at
+                        ).toLocaleString()}`
+                      : "Standings frozen at points during the event"}
+                  </CardDescription>
+                </div>
+                {snapshots && snapshots.length > 0 && (
+                  <Select
+                    value={snapshotId || undefined}
+                    onValueChange={(value) => {
+                      setSelectedSnapshotId(value);
+                      setSnapshotPage(1);
+                    }}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue placeholder="Choose a snapshot" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {snapshots.map((snapshot) => (
+                        <SelectItem key={snapshot.id} value={snapshot.id}>
+                          {snapshot.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </CardHeader>
+              <CardContent>
+                {snapshotError && (
+                  <Alert variant="destructive" className="mb-4">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      Failed to load the snapshot. Please try refreshing the
+                      page.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {snapshotId && snapshotLoading ? (
+                  <div className="text-center py-12">
+                    <p className="text-muted-foreground">Loading snapshot...</p>
+                  </div>
+                ) : snapshotResults.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Rank</TableHead>
+                        <TableHead>Participant</TableHead>
+                        <TableHead>Organization</TableHead>
+                        {snapshotStations.map((station) => (
+                          <TableHead
+                            key={station.station_type}
+                            className="text-center"
+                          >
+                            {station.name}
+                          </TableHead>
+                        ))}
+                        <TableHead className="text-center">Total</TableHead>
+                        <TableHead className="text-center">Grade</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {snapshotResults.map((participant) => (
+                        <TableRow
+                          key={participant.participant_id}
+                          className="hover:bg-muted/50"
+                        >
+                          <TableCell className="font-medium">
+                            {getRankLabel(participant.rank, participant.tied)}
+                          </TableCell>
+                          <TableCell>
+                            <p className="font-medium">{participant.name}</p>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {participant.organisation || "-"}
+                          </TableCell>
+                          {snapshotStations.map((station) => {
+                            const score =
+                              participant.scores[station.station_type] ?? null;
+                            return (
+                              <TableCell
+                                key={station.station_type}
+                                className="text-center"
+                              >
+                                <span
+                                  className={`font-medium ${getScoreColor(
+                                    score
+                                  )}`}
+                                >
+                                  {score || "-"}
+                                </span>
+                              </TableCell>
+                            );
+                          })}
+                          <TableCell className="text-center">
+                            <span className="text-lg font-bold">
+                              {participant.total_score || "-"}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <Badge
+                              variant={getGradeBadgeVariant(participant.grade)}
+                            >
+                              {participant.grade || "-"}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Camera className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>
+                      {snapshotId
+                        ? "Nobody was on the leaderboard when this snapshot was taken."
+                        : "No snapshots have been taken yet."}
+                    </p>
+                  </div>
+                )}
+
+                {/* Pagination */}
+                {snapshotTotalPages > 1 && snapshotData && (
+                  <div className="flex items-center justify-between mt-6">
+                    <div className="text-sm text-muted-foreground">
+                      Showing {snapshotData.pagination.offset + 1} to{" "}
+                      {Math.min(
+                        snapshotData.pagination.offset + itemsPerPage,
+                        snapshotData.pagination.total
+                      )}{" "}
+                      of {snapshotData.pagination.total} results
+                    </div>
+                    <div className="flex items-center gap-2">
                       <Button
-                        variant="ghost"
+                        variant="outline"
                         size="sm"
-                        onClick={() => handleSort("health")}
+                        onClick={() => setSnapshotPage(snapshotPage - 1)}
+                        disabled={snapshotPage <= 1}
                       >
-                        Health {getSortIcon("health")}
+                        <ChevronLeft className="h-4 w-4" />
+                        Previous
                       </Button>
-                    </TableHead>
-                    <TableHead className="text-center">
+                      <div className="flex items-center gap-1">
+                        <span className="text-sm">
+                          Page {snapshotPage} of {snapshotTotalPages}
+                        </span>
+                      </div>
                       <Button
-                        variant="ghost"
+                        variant="outline"
                         size="sm"
-                        onClick={() => handleSort("total_score")}
+                        onClick={() => setSnapshotPage(snapshotPage + 1)}
+                        disabled={!snapshotData.pagination.hasMore}
                       >
-                        Total {getSortIcon("total_score")}
+                        Next
+                        <ChevronRight className="h-4 w-4" />
                       </Button>
-                    </TableHead>
-                    <TableHead className="text-center">Grade</TableHead>
-                    <TableHead>Completed</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {results.map((participant) => {
-                    const grade = calculateGrade(
-                      participant.total_score,
-                      participant.completed_stations
-                    );
-                    return (
-                      <TableRow
-                        key={participant.id}
-                        className="hover:bg-muted/50"
-                      >
-                        <TableCell className="font-medium">
-                          <div className="flex items-center gap-2">
-                            {getRankIcon(participant.rank)}
-                          </div>
-                        </TableCell>
-
-                        <TableCell>
-                          <div>
-                            <p className="font-medium">{participant.name}</p>
-                          </div>
-                        </TableCell>
-
-                        <TableCell className="text-sm">
-                          {participant.organisation || "-"}
-                        </TableCell>
-
-                        <TableCell className="text-center">
-                          <span
-                            className={`font-medium ${getScoreColor(
-                              participant.balance
-                            )}`}
-                          >
-                            {participant.balance || "-"}
-                          </span>
-                        </TableCell>
-
-                        <TableCell className="text-center">
-                          <span
-                            className={`font-medium ${getScoreColor(
-                              participant.breath
-                            )}`}
-                          >
-                            {participant.breath || "-"}
-                          </span>
-                        </TableCell>
-
-                        <TableCell className="text-center">
-                          <span
-                            className={`font-medium ${getScoreColor(
-                              participant.grip
-                            )}`}
-                          >
-                            {participant.grip || "-"}
-                          </span>
-                        </TableCell>
-
-                        <TableCell className="text-center">
-                          <span
-                            className={`font-medium ${getScoreColor(
-                              participant.health
-                            )}`}
-                          >
-                            {participant.health || "-"}
-                          </span>
-                        </TableCell>
-
-                        <TableCell className="text-center">
-                          <span className="text-lg font-bold">
-                            {participant.total_score || "-"}
-                          </span>
-                        </TableCell>
-
-                        <TableCell className="text-center">
-                          <Badge variant={getGradeBadgeVariant(grade)}>
-                            {grade || "-"}
-                          </Badge>
-                        </TableCell>
-
-                        <TableCell className="text-sm text-muted-foreground">
-                          <div>
-                            <p>{participant.completed_stations}/4 stations</p>
-                            <p className="text-xs">
-                              {new Date(
-                                participant.latest_completion
-                              ).toLocaleDateString()}
-                            </p>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    );
-                  })}
-                </TableBody>
-              </Table>
-            )}
-
-            {!isLoading && results.length === 0 && !error && (
-              <div className="text-center py-8 text-muted-foreground">
-                <Activity className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                <p>
-                  No participants found
-                  {nameFilter || orgFilter ? " for the selected filters" : ""}
-                </p>
-                <p className="text-sm mt-2">
-                  {nameFilter || orgFilter
-                    ? "Try adjusting your search criteria"
-                    : "Complete your fitness assessment to appear on the leaderboard!"}
-                </p>
-              </div>
-            )}
-
-            {/* Pagination Controls */}
-            {!isLoading && results.length > 0 && (
-              <div className="flex items-center justify-between px-6 py-4 border-t">
-                <div className="text-sm text-muted-foreground">
-                  Showing {pagination.offset + 1} to{" "}
-                  {Math.min(
-                    pagination.offset + pagination.limit,
-                    pagination.total
-                  )}{" "}
-                  of {pagination.total} results
-                </div>
-                <div className="flex items-center gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setCurrentPage(currentPage - 1)}
-                    disabled={!hasPrevPage}
-                  >
-                    <ChevronLeft className="h-4 w-4" />
-                    Previous
-                  </Button>
-                  <div className="flex items-center gap-1">
-                    <span className="text-sm">
-                      Page {currentPage} of {totalPages}
-                    </span>
+                    </div>
                   </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setCurrentPage(currentPage + 1)}
-                    disabled={!hasNextPage}
-                  >
-                    Next
-                    <ChevronRight className="h-4 w-4" />
-                  </Button>
-                </div>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
 
         {/* Dynamic Scoring Guide */}
         <Card className="mt-8">
@@ -21,6 +21,8 @@ import { useStations } from "@/lib/hooks/useStations";
 import { useCurrentParticipant } from "@/lib/hooks/useCurrentParticipant";
 import { useParticipantResults } from "@/lib/hooks/useParticipantResults";
 import { getIconByName } from "@/lib/utils/icons";
+import { ScoreExplanationDetails } from "@/components/station/score-explanation";
+import { LeaderboardVisibilityCard } from "@/components/auth/leaderboard-visibility-card";
 
 function ParticipatePageContent() {
   const { user, profile, refreshUser } = useAuthContext();
@@ -38,6 +40,11 @@ function ParticipatePageContent() {
     isLoading: resultsLoading,
     error: resultsError,
   } = useParticipantResults(user?.id);
+  const completedStationTypes =
+    participantResults?.results.map((result) => result.stationType) || [];
+  const remainingStationTypes = (stations || [])
+    .map((station) => station.station_type)
+    .filter((stationType) => !completedStationTypes.includes(stationType));
   // const { data: currentParticipant, isLoading: participantLoading, error: participantError } = useCurrentParticipant(user?.id);
 
   // Check if user's email is confirmed
@@ -296,7 +303,10 @@ function ParticipatePageContent() {
                           <p className="text-2xl font-bold text-blue-600">
                             {participantResults?.progress.completedStations ||
                               0}
-                            /{participantResults?.progress.totalStations || 4}
+                            /
+                            {participantResults?.progress.totalStations ||
+                              stations?.length ||
+                              0}
                           </p>
                           <p className="text-sm text-muted-foreground">
                             Stations Complete
@@ -356,37 +366,52 @@ function ParticipatePageContent() {
                                 return (
                                   <div
                                     key={result.id}
-                                    className="flex items-center gap-4 p-3 border rounded-lg bg-muted/20"
+                                    className="p-3 border rounded-lg bg-muted/20"
                                   >
-                                    <div
-                                      className={`p-2 rounded-full ${
-                                        station?.color_class || "bg-gray-500"
-                                      } text-white`}
-                                    >
-                                      <IconComponent className="h-5 w-5" />
-                                    </div>
-                                    <div className="flex-1">
-                                      <h5 className="font-medium">
-                                        {result.stationName}
-                                      </h5>
-                                      <p className="text-sm text-muted-foreground">
-                                        {new Date(
-                                          result.completedAt
-                                        ).toLocaleDateString()}
-                                      </p>
-                                    </div>
-                                    <div className="text-right">
-                                      <p
-                                        className={`text-lg font-bold ${getScoreColor(
-                                          result.score
-                                        )}`}
+                                    <div className="flex items-center gap-4">
+                                      <div
+                                        className={`p-2 rounded-full ${
+                                          station?.color_class || "bg-gray-500"
+                                        } text-white`}
                                       >
-                                        {result.score}/{result.maxScore || 3}
-                                      </p>
-                                      <p className="text-xs text-muted-foreground">
-                                        Score
-                                      </p>
+                                        <IconComponent className="h-5 w-5" />
+                                      </div>
+                                      <div className="flex-1">
+                                        <h5 className="font-medium">
+                                          {result.stationName}
+                                        </h5>
+                                        <p className="text-sm text-muted-foreground">
+                                          {new Date(
+                                            result.completedAt
+                                          ).toLocaleDateString()}
+                                        </p>
+                                      </div>
+                                      <div className="text-right">
+                                        {result.score === null ? (
+                                          <Badge variant="outline">
+                                            Pending
+                                          </Badge>
+                                        ) : (
+                                          <p
+                                            className={`text-lg font-bold ${getScoreColor(
+                                              result.score
+                                            )}`}
+                                          >
+                                            {result.score}/{result.maxScore || 3}
+                                          </p>
+                                        )}
+                                        <p className="text-xs text-muted-foreground">
+                                          Score
+                                        </p>
+                                      </div>
                                     </div>
+                                    {result.explanation && (
+                                      <div className="mt-2 pl-14">
+                                        <ScoreExplanationDetails
+                                          explanation={result.explanation}
+                                        />
+                                      </div>
+                                    )}
                                   </div>
                                 );
                               })}
@@ -396,9 +421,7 @@ function ParticipatePageContent() {
                       )}
 
                       {/* Remaining Stations */}
-                      {((participantResults?.progress.remainingStations
-                        .length || 4) > 0 ||
-                        !participantResults) && (
+                      {remainingStationTypes.length > 0 && (
                         <>
                           <Separator />
                           <div>
@@ -406,15 +429,7 @@ function ParticipatePageContent() {
                               Remaining Stations
                             </h4>
                             <div className="grid gap-3">
-                              {(
-                                participantResults?.progress
-                                  .remainingStations || [
-                                  "balance",
-                                  "breath",
-                                  "grip",
-                                  "health",
-                                ]
-                              ).map((stationType) => {
+                              {remainingStationTypes.map((stationType) => {
                                 const station = stations?.find(
                                   (s) => s.station_type === stationType
                                 );
@@ -455,6 +470,14 @@ function ParticipatePageContent() {
               </Card>
             )}
 
+            {isEmailConfirmed && profile && (
+              <LeaderboardVisibilityCard
+                name={profile.name}
+                visibility={profile.leaderboard_visibility}
+                alias={profile.leaderboard_alias}
+              />
+            )}
+
             {/* Stations Information */}
             <Card>
               <CardHeader>
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const AUDIT_ACTIONS = ["create", "correct", "delete", "rescore", "recalculate"];
+
+// Match user input literally in ilike patterns, so % and _ aren't wildcards
+function escapeLikePattern(value: string) {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// GET /api/admin/audits - Get station audit records with pagination and filtering
+export async function GET(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const url = new URL(request.url);
+    const page = Math.max(parseInt(url.searchParams.get("page") || "1"), 1);
+    const limit = Math.min(
+      Math.max(parseInt(url.searchParams.get("limit") || "25"), 1),
+      100
+    );
+    const participantCode = url.searchParams.get("participant_code");
+    const stationType = url.searchParams.get("station_type");
+    const action = url.searchParams.get("action");
+    const actor = url.searchParams.get("actor");
+    const resultId = url.searchParams.get("station_result_id");
+    const from = url.searchParams.get("from");
+    const to = url.searchParams.get("to");
+
+    const offset = (page - 1) * limit;
+
+    let query = supabase!
+      .from("station_audits")
+      .select("*", { count: "exact" });
+
+    // Apply filters
+    if (participantCode) {
+      query = query.ilike("participant_code", escapeLikePattern(participantCode));
+    }
+    if (stationType) {
+      query = query.eq("station_type", stationType);
+    }
+    if (action && AUDIT_ACTIONS.includes(action)) {
+      query = query.eq("action", action);
+    }
+    if (actor) {
+      query = query.ilike("actor_email", `%${escapeLikePattern(actor)}%`);
+    }
+    if (resultId) {
+      query = query.eq("station_result_id", resultId);
+    }
+    if (from) {
+      query = query.gte("created_at", from);
+    }
+    if (to) {
+      query = query.lte("created_at", to);
+    }
+
+    // Apply pagination, newest first
+    const { data: audits, error: fetchError, count } = await query
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (fetchError) {
+      console.error("Error fetching station audits:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch audit records" },
+        { status: 500 }
+      );
+    }
+
+    const totalPages = Math.ceil((count || 0) / limit);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        audits: audits || [],
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Station audits API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,272 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import type {
+  HealthMetricBandInsert,
+  HealthMetricBandUpdate,
+} from "@/lib/types/database";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// Helper function to check that the acceptable range contains the optimal range
+function validateBandBounds(band: {
+  optimal_min?: number;
+  optimal_max?: number;
+  acceptable_min?: number;
+  acceptable_max?: number;
+}) {
+  const { optimal_min, optimal_max, acceptable_min, acceptable_max } = band;
+
+  if (
+    optimal_min === undefined ||
+    optimal_max === undefined ||
+    acceptable_min === undefined ||
+    acceptable_max === undefined
+  ) {
+    return null;
+  }
+
+  if (optimal_min > optimal_max) {
+    return "Optimal minimum cannot be greater than optimal maximum";
+  }
+
+  if (acceptable_min > optimal_min || acceptable_max < optimal_max) {
+    return "The acceptable range must contain the optimal range";
+  }
+
+  return null;
+}
+
+// GET /api/admin/health-bands - Get all health metric bands
+export async function GET(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const url = new URL(request.url);
+    const metricName = url.searchParams.get("metric_name");
+    const gender = url.searchParams.get("gender");
+
+    let query = supabase!
+      .from("health_metric_bands")
+      .select("*")
+      .order("metric_name")
+      .order("gender", { nullsFirst: true })
+      .order("min_age", { nullsFirst: true });
+
+    // Apply filters if provided
+    if (metricName) {
+      query = query.eq("metric_name", metricName);
+    }
+    if (gender) {
+      query = query.or(`gender.eq.${gender},gender.is.null`);
+    }
+
+    const { data: bands, error: fetchError } = await query;
+
+    if (fetchError) {
+      console.error("Error fetching health metric bands:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch health metric bands" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(bands);
+  } catch (error) {
+    console.error("Health bands API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/health-bands - Create new health metric band
+export async function POST(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body: HealthMetricBandInsert = await request.json();
+
+    // Validate required fields
+    const { metric_name, optimal_min, optimal_max, acceptable_min, acceptable_max } = body;
+    if (!metric_name || optimal_min === undefined || optimal_max === undefined || acceptable_min === undefined || acceptable_max === undefined) {
+      return NextResponse.json(
+        {
+          error:
+            "Missing required fields: metric_name, optimal_min, optimal_max, acceptable_min, acceptable_max",
+        },
+        { status: 400 }
+      );
+    }
+
+    const boundsError = validateBandBounds(body);
+    if (boundsError) {
+      return NextResponse.json({ error: boundsError }, { status: 400 });
+    }
+
+    const { data: band, error: insertError } = await supabase!
+      .from("health_metric_bands")
+      .insert(body)
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error("Error creating health metric band:", insertError);
+      return NextResponse.json(
+        { error: "Failed to create health metric band" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(band, { status: 201 });
+  } catch (error) {
+    console.error("Health bands POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/health-bands - Update health metric band
+export async function PUT(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body: HealthMetricBandUpdate & { id: string } = await request.json();
+    const { id, ...updateData } = body;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Missing required field: id" },
+        { status: 400 }
+      );
+    }
+
+    const boundsError = validateBandBounds(updateData);
+    if (boundsError) {
+      return NextResponse.json({ error: boundsError }, { status: 400 });
+    }
+
+    const { data: band, error: updateError } = await supabase!
+      .from("health_metric_bands")
+      .update({ ...updateData, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error("Error updating health metric band:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update health metric band" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(band);
+  } catch (error) {
+    console.error("Health bands PUT error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/health-bands - Delete health metric band
+export async function DELETE(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const url = new URL(request.url);
+    const id = url.searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Missing required parameter: id" },
+        { status: 400 }
+      );
+    }
+
+    // Get the band first to return it in the response
+    const { data: band, error: fetchError } = await supabase!
+      .from("health_metric_bands")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (fetchError || !band) {
+      return NextResponse.json(
+        { error: "Health metric band not found" },
+        { status: 404 }
+      );
+    }
+
+    const { error: deleteError } = await supabase!
+      .from("health_metric_bands")
+      .delete()
+      .eq("id", id);
+
+    if (deleteError) {
+      console.error("Error deleting health metric band:", deleteError);
+      return NextResponse.json(
+        { error: "Failed to delete health metric band" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Health metric band deleted successfully",
+      deletedBand: band,
+    });
+  } catch (error) {
+    console.error("Health bands DELETE error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import { kioskDisplaySchema } from "@/lib/kiosk/boards";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// GET /api/admin/kiosk-displays - List kiosk displays
+export async function GET() {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { data: displays, error: fetchError } = await supabase!
+      .from("kiosk_displays")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (fetchError) {
+      console.error("Error fetching kiosk displays:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch kiosk displays" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(displays);
+  } catch (error) {
+    console.error("Kiosk displays GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/kiosk-displays - Create a kiosk display
+export async function POST(request: NextRequest) {
+  try {
+    const { error, status, user, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body = await request.json();
+    const parsed = kioskDisplaySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { data: display, error: insertError } = await supabase!
+      .from("kiosk_displays")
+      .insert({ ...parsed.data, created_by: user!.id })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error("Error creating kiosk display:", insertError);
+      return NextResponse.json(
+        { error: "Failed to create kiosk display" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(display, { status: 201 });
+  } catch (error) {
+    console.error("Kiosk displays POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/kiosk-displays - Update a kiosk display's branding and boards
+export async function PUT(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { id, ...body } = await request.json();
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Missing required field: id" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = kioskDisplaySchema.partial().safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { data: display, error: updateError } = await supabase!
+      .from("kiosk_displays")
+      .update(parsed.data)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error("Error updating kiosk display:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update kiosk display" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(display);
+  } catch (error) {
+    console.error("Kiosk displays PUT error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/kiosk-displays - Delete a kiosk display, ending its tokens
+export async function DELETE(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const url = new URL(request.url);
+    const id = url.searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Missing required parameter: id" },
+        { status: 400 }
+      );
+    }
+
+    const { error: deleteError } = await supabase!
+      .from("kiosk_displays")
+      .delete()
+      .eq("id", id);
+
+    if (deleteError) {
+      console.error("Error deleting kiosk display:", deleteError);
+      return NextResponse.json(
+        { error: "Failed to delete kiosk display" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Kiosk displays DELETE error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
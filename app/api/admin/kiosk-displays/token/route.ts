@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import { createDisplayToken } from "@/lib/kiosk/token";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// POST /api/admin/kiosk-displays/token - Issue a display token and kiosk URL
+export async function POST(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body: {
+      id?: string;
+      expires_in_hours?: number;
+      revoke_existing?: boolean;
+    } = await request.json();
+    const expiresInHours = body.expires_in_hours ?? 24;
+
+    if (!body.id) {
+      return NextResponse.json(
+        { error: "Missing required field: id" },
+        { status: 400 }
+      );
+    }
+
+    if (!(expiresInHours > 0 && expiresInHours <= 24 * 14)) {
+      return NextResponse.json(
+        { error: "Tokens can last between 1 hour and 14 days" },
+        { status: 400 }
+      );
+    }
+
+    const { data: display, error: fetchError } = await supabase!
+      .from("kiosk_displays")
+      .select("id, token_version")
+      .eq("id", body.id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error("Error fetching kiosk display:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch kiosk display" },
+        { status: 500 }
+      );
+    }
+
+    if (!display) {
+      return NextResponse.json(
+        { error: "Kiosk display not found" },
+        { status: 404 }
+      );
+    }
+
+    let version = display.token_version;
+
+    // Bumping the version invalidates every token issued so far
+    if (body.revoke_existing) {
+      version += 1;
+      const { error: updateError } = await supabase!
+        .from("kiosk_displays")
+        .update({ token_version: version })
+        .eq("id", display.id);
+
+      if (updateError) {
+        console.error("Error revoking kiosk tokens:", updateError);
+        return NextResponse.json(
+          { error: "Failed to revoke existing tokens" },
+          { status: 500 }
+        );
+      }
+    }
+
+    const { token, expires_at } = createDisplayToken(
+      display.id,
+      version,
+      expiresInHours
+    );
+    const url = new URL(`/kiosk/${token}`, request.url);
+
+    return NextResponse.json({ token, url: url.toString(), expires_at });
+  } catch (error) {
+    console.error("Kiosk token POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// GET /api/admin/leaderboard-snapshots - List taken and scheduled snapshots
+export async function GET() {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    // Scheduled snapshots first, then the most recently taken
+    const { data: snapshots, error: fetchError } = await supabase!
+      .from("leaderboard_snapshots")
+      .select("*")
+      .order("taken_at", { ascending: false, nullsFirst: true })
+      .order("scheduled_for", { ascending: true });
+
+    if (fetchError) {
+      console.error("Error fetching leaderboard snapshots:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch leaderboard snapshots" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(snapshots);
+  } catch (error) {
+    console.error("Leaderboard snapshots GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/leaderboard-snapshots - Take a snapshot now, or schedule one
+export async function POST(request: NextRequest) {
+  try {
+    const { error, status, user, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body: { label?: string; scheduled_for?: string | null } =
+      await request.json();
+    const label = body.label?.trim() || "";
+
+    if (!label || label.length > 100) {
+      return NextResponse.json(
+        { error: "Label must be between 1 and 100 characters" },
+        { status: 400 }
+      );
+    }
+
+    if (body.scheduled_for) {
+      const scheduledFor = new Date(body.scheduled_for);
+
+      if (isNaN(scheduledFor.getTime()) || scheduledFor <= new Date()) {
+        return NextResponse.json(
+          { error: "Scheduled time must be in the future" },
+          { status: 400 }
+        );
+      }
+
+      // Captured by the database's scheduled job once the time has come
+      const { data: snapshot, error: insertError } = await supabase!
+        .from("leaderboard_snapshots")
+        .insert({
+          label,
+          scheduled_for: scheduledFor.toISOString(),
+          created_by: user!.id,
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error("Error scheduling leaderboard snapshot:", insertError);
+        return NextResponse.json(
+          { error: "Failed to schedule leaderboard snapshot" },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json(snapshot, { status: 201 });
+    }
+
+    const { data: snapshotId, error: takeError } = await supabase!.rpc(
+      "take_leaderboard_snapshot",
+      { p_label: label, p_created_by: user!.id }
+    );
+
+    if (takeError) {
+      console.error("Error taking leaderboard snapshot:", takeError);
+      return NextResponse.json(
+        { error: "Failed to take leaderboard snapshot" },
+        { status: 500 }
+      );
+    }
+
+    const { data: snapshot, error: fetchError } = await supabase!
+      .from("leaderboard_snapshots")
+      .select("*")
+      .eq("id", snapshotId)
+      .single();
+
+    if (fetchError) {
+      console.error("Error fetching leaderboard snapshot:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch leaderboard snapshot" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(snapshot, { status: 201 });
+  } catch (error) {
+    console.error("Leaderboard snapshots POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/leaderboard-snapshots - Delete a snapshot or cancel a scheduled one
+export async function DELETE(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const url = new URL(request.url);
+    const id = url.searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Missing required parameter: id" },
+        { status: 400 }
+      );
+    }
+
+    const { error: deleteError } = await supabase!
+      .from("leaderboard_snapshots")
+      .delete()
+      .eq("id", id);
+
+    if (deleteError) {
+      console.error("Error deleting leaderboard snapshot:", deleteError);
+      return NextResponse.json(
+        { error: "Failed to delete leaderboard snapshot" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Leaderboard snapshots DELETE error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// POST /api/admin/organisations/merge - Merge a duplicate organisation into another
+export async function POST(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body: { source_id?: string; target_id?: string } =
+      await request.json();
+
+    if (!body.source_id || !body.target_id) {
+      return NextResponse.json(
+        { error: "Missing required fields: source_id, target_id" },
+        { status: 400 }
+      );
+    }
+
+    if (body.source_id === body.target_id) {
+      return NextResponse.json(
+        { error: "An organisation cannot be merged into itself" },
+        { status: 400 }
+      );
+    }
+
+    const { data: moved, error: mergeError } = await supabase!.rpc(
+      "merge_organisations",
+      { p_source_id: body.source_id, p_target_id: body.target_id }
+    );
+
+    if (mergeError) {
+      console.error("Error merging organisations:", mergeError);
+      return NextResponse.json(
+        { error: "Failed to merge organisations" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { moved_members: moved },
+    });
+  } catch (error) {
+    console.error("Organisations merge API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
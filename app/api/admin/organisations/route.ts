@@ -0,0 +1,291 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import type { OrganisationSummary } from "@/lib/types/database";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// Helper function to normalise a name the way profiles are matched
+async function normaliseName(
+  supabase: ReturnType<typeof createAdminClient>,
+  name: string
+) {
+  const { data, error } = await supabase.rpc("normalise_organisation_name", {
+    p_name: name,
+  });
+  if (error) throw error;
+  return data;
+}
+
+// GET /api/admin/organisations - List organisations with their aliases and member counts
+export async function GET() {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { data: organisations, error: fetchError } = await supabase!
+      .from("organisations")
+      .select("id, name, organisation_aliases(id, alias)")
+      .order("name", { ascending: true });
+
+    if (fetchError) {
+      console.error("Error fetching organisations:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch organisations" },
+        { status: 500 }
+      );
+    }
+
+    const { data: profiles, error: profilesError } = await supabase!
+      .from("profiles")
+      .select("organisation_id")
+      .not("organisation_id", "is", null);
+
+    if (profilesError) {
+      console.error("Error fetching organisation members:", profilesError);
+      return NextResponse.json(
+        { error: "Failed to fetch organisations" },
+        { status: 500 }
+      );
+    }
+
+    const memberCounts = new Map<string, number>();
+    (profiles || []).forEach((profile) => {
+      if (!profile.organisation_id) return;
+      memberCounts.set(
+        profile.organisation_id,
+        (memberCounts.get(profile.organisation_id) || 0) + 1
+      );
+    });
+
+    const summaries: OrganisationSummary[] = (organisations || []).map(
+      (organisation) => ({
+        id: organisation.id,
+        name: organisation.name,
+        aliases: organisation.organisation_aliases,
+        members: memberCounts.get(organisation.id) || 0,
+      })
+    );
+
+    return NextResponse.json(summaries);
+  } catch (error) {
+    console.error("Organisations GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/organisations - Add an alias to an organisation
+export async function POST(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body: { organisation_id?: string; alias?: string } =
+      await request.json();
+    const alias = body.alias?.trim();
+
+    if (!body.organisation_id || !alias) {
+      return NextResponse.json(
+        { error: "Missing required fields: organisation_id, alias" },
+        { status: 400 }
+      );
+    }
+
+    const normalisedAlias = await normaliseName(supabase!, alias);
+    if (!normalisedAlias) {
+      return NextResponse.json(
+        { error: "The alias must contain letters or numbers" },
+        { status: 400 }
+      );
+    }
+
+    // A name that already belongs to an organisation is a duplicate to merge
+    const { data: existing } = await supabase!
+      .from("organisations")
+      .select("id, name")
+      .eq("normalised_name", normalisedAlias)
+      .maybeSingle();
+
+    if (existing) {
+      return NextResponse.json(
+        {
+          error:
+            existing.id === body.organisation_id
+              ? "The alias matches the organisation's own name"
+              : `"${existing.name}" is already an organisation; merge it instead`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const { data: created, error: insertError } = await supabase!
+      .from("organisation_aliases")
+      .insert({
+        organisation_id: body.organisation_id,
+        alias,
+        normalised_alias: normalisedAlias,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      // Unique violation: the alias is already used
+      if (insertError.code === "23505") {
+        return NextResponse.json(
+          { error: "This alias is already in use" },
+          { status: 409 }
+        );
+      }
+
+      console.error("Error creating organisation alias:", insertError);
+      return NextResponse.json(
+        { error: "Failed to create organisation alias" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Organisations POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/organisations - Rename an organisation
+export async function PUT(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body: { id?: string; name?: string } = await request.json();
+    const name = body.name?.trim();
+
+    if (!body.id || !name) {
+      return NextResponse.json(
+        { error: "Missing required fields: id, name" },
+        { status: 400 }
+      );
+    }
+
+    const normalisedName = await normaliseName(supabase!, name);
+    if (!normalisedName) {
+      return NextResponse.json(
+        { error: "The name must contain letters or numbers" },
+        { status: 400 }
+      );
+    }
+
+    const { data: organisation, error: updateError } = await supabase!
+      .from("organisations")
+      .update({ name, normalised_name: normalisedName })
+      .eq("id", body.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      if (updateError.code === "23505") {
+        return NextResponse.json(
+          { error: "Another organisation already has this name; merge it instead" },
+          { status: 409 }
+        );
+      }
+
+      console.error("Error updating organisation:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update organisation" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(organisation);
+  } catch (error) {
+    console.error("Organisations PUT error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/organisations - Remove an organisation alias
+export async function DELETE(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const url = new URL(request.url);
+    const aliasId = url.searchParams.get("alias_id");
+
+    if (!aliasId) {
+      return NextResponse.json(
+        { error: "Missing required parameter: alias_id" },
+        { status: 400 }
+      );
+    }
+
+    // Profiles already matched by the alias keep their organisation
+    const { error: deleteError } = await supabase!
+      .from("organisation_aliases")
+      .delete()
+      .eq("id", aliasId);
+
+    if (deleteError) {
+      console.error("Error deleting organisation alias:", deleteError);
+      return NextResponse.json(
+        { error: "Failed to delete organisation alias" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Organisations DELETE error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import { rescoreStationResults } from "@/lib/scoring/rescore";
+import { getScoringRuleSet } from "@/lib/scoring/rule-sets";
+import { getAuditRequestMetadata } from "@/lib/audit/station-audits";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+interface RescoreRequest {
+  stationType?: string | null;
+  participantCode?: string | null;
+  unscorableOnly?: boolean;
+  // Score with this rule set instead of the one in effect for each result
+  ruleSetId?: string | null;
+  // Defaults to true so nothing is changed without an explicit apply
+  dryRun?: boolean;
+}
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// POST /api/admin/rescore - Re-run the scoring calculator over stored station results
+export async function POST(request: NextRequest) {
+  try {
+    const { error, status, user } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body: RescoreRequest = await request.json().catch(() => ({}));
+    const dryRun = body.dryRun !== false;
+
+    if (body.ruleSetId && !(await getScoringRuleSet(body.ruleSetId))) {
+      return NextResponse.json(
+        { error: "Scoring rule set not found" },
+        { status: 404 }
+      );
+    }
+
+    // Pending results are re-scored to fix them; anything else is recalculated
+    // because the scoring rules changed
+    const unscorableOnly = body.unscorableOnly === true;
+    const result = await rescoreStationResults(
+      {
+        stationType: body.stationType || null,
+        participantCode: body.participantCode?.trim() || null,
+        unscorableOnly,
+      },
+      {
+        dryRun,
+        ruleSetId: body.ruleSetId || null,
+        actor: { id: user!.id, email: user!.email },
+        metadata: getAuditRequestMetadata(request),
+        audit: unscorableOnly
+          ? {
+              action: "rescore",
+              reason: "Re-scored from the pending results queue",
+            }
+          : {
+              action: "recalculate",
+              reason: "Recalculated after scoring rules changed",
+            },
+      }
+    );
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Rescore POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import { getScoringRuleSet, getWorkingRules } from "@/lib/scoring/rule-sets";
+import {
+  diffHealthBands,
+  diffThresholds,
+  DRAFT_RULE_SET_ID,
+} from "@/lib/scoring/rule-set-diff";
+import type {
+  HealthMetricBand,
+  RuleSetComparison,
+  RuleSetReference,
+  ScoringThreshold,
+} from "@/lib/types/database";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+interface ResolvedRules {
+  reference: RuleSetReference | null;
+  thresholds: ScoringThreshold[];
+  health_bands: HealthMetricBand[];
+}
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// Helper function to load a published version, or the working rules for "draft"
+async function resolveRules(id: string): Promise<ResolvedRules | null> {
+  if (id === DRAFT_RULE_SET_ID) {
+    return { reference: null, ...(await getWorkingRules()) };
+  }
+
+  const ruleSet = await getScoringRuleSet(id);
+  if (!ruleSet) return null;
+
+  return {
+    reference: { id: ruleSet.id, name: ruleSet.name, version: ruleSet.version },
+    thresholds: ruleSet.thresholds,
+    health_bands: ruleSet.health_bands,
+  };
+}
+
+// GET /api/admin/rule-sets/compare?from=<id|draft>&to=<id|draft> - Compare two rule set versions
+export async function GET(request: NextRequest) {
+  try {
+    const { error, status } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const url = new URL(request.url);
+    const fromId = url.searchParams.get("from");
+    const toId = url.searchParams.get("to");
+
+    if (!fromId || !toId) {
+      return NextResponse.json(
+        { error: "Missing required parameters: from, to" },
+        { status: 400 }
+      );
+    }
+
+    const [from, to] = await Promise.all([
+      resolveRules(fromId),
+      resolveRules(toId),
+    ]);
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: "Scoring rule set not found" },
+        { status: 404 }
+      );
+    }
+
+    const comparison: RuleSetComparison = {
+      from: from.reference,
+      to: to.reference,
+      thresholds: diffThresholds(from.thresholds, to.thresholds),
+      health_bands: diffHealthBands(from.health_bands, to.health_bands),
+    };
+
+    return NextResponse.json(comparison);
+  } catch (error) {
+    console.error("Rule set compare API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
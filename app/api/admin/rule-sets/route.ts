@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import { publishRuleSet } from "@/lib/scoring/rule-sets";
+import {
+  pickEffectiveRuleSet,
+  toScoringRuleSetRules,
+} from "@/lib/scoring/rule-set-diff";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+interface PublishRuleSetRequest {
+  name?: string;
+  notes?: string | null;
+  // Defaults to now
+  effective_from?: string | null;
+}
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// GET /api/admin/rule-sets - List published scoring rule set versions
+export async function GET() {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { data: ruleSets, error: fetchError } = await supabase!
+      .from("scoring_rule_sets")
+      .select("*")
+      .order("version", { ascending: false });
+
+    if (fetchError) {
+      console.error("Error fetching scoring rule sets:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch scoring rule sets" },
+        { status: 500 }
+      );
+    }
+
+    const effective = pickEffectiveRuleSet(ruleSets || []);
+
+    const summaries = await Promise.all(
+      (ruleSets || []).map(async (ruleSet) => {
+        const rules = toScoringRuleSetRules(ruleSet);
+        const { count } = await supabase!
+          .from("station_results")
+          .select("id", { count: "exact", head: true })
+          .eq("rule_set_id", ruleSet.id);
+
+        return {
+          id: ruleSet.id,
+          name: ruleSet.name,
+          version: ruleSet.version,
+          notes: ruleSet.notes,
+          effective_from: ruleSet.effective_from,
+          published_by: ruleSet.published_by,
+          created_at: ruleSet.created_at,
+          threshold_count: rules.thresholds.length,
+          health_band_count: rules.health_bands.length,
+          results_count: count || 0,
+          is_effective: ruleSet.id === effective?.id,
+          youth_policy: rules.youth_policy ?? null,
+        };
+      })
+    );
+
+    return NextResponse.json(summaries);
+  } catch (error) {
+    console.error("Rule sets API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/rule-sets - Publish the working thresholds and bands as a new version
+export async function POST(request: NextRequest) {
+  try {
+    const { error, status, user } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body: PublishRuleSetRequest = await request.json();
+    const name = body.name?.trim();
+
+    if (!name) {
+      return NextResponse.json(
+        { error: "Missing required field: name" },
+        { status: 400 }
+      );
+    }
+
+    const effectiveFrom = body.effective_from
+      ? new Date(body.effective_from)
+      : new Date();
+
+    if (Number.isNaN(effectiveFrom.getTime())) {
+      return NextResponse.json(
+        { error: "effective_from must be a valid date" },
+        { status: 400 }
+      );
+    }
+
+    const ruleSet = await publishRuleSet({
+      name,
+      notes: body.notes?.trim() || null,
+      effectiveFrom: effectiveFrom.toISOString(),
+      publishedBy: user!.id,
+    });
+
+    return NextResponse.json(ruleSet, { status: 201 });
+  } catch (error) {
+    console.error("Rule sets POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import { validateScoringProfileUpdate } from "@/lib/scoring/profile";
+import type { ScoringProfileUpdate } from "@/lib/types/database";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// GET /api/admin/scoring-profile - Get the active scoring profile
+export async function GET() {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const { data: profile, error: fetchError } = await supabase!
+      .from("scoring_profiles")
+      .select("*")
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error("Error fetching scoring profile:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch scoring profile" },
+        { status: 500 }
+      );
+    }
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "No active scoring profile" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(profile);
+  } catch (error) {
+    console.error("Scoring profile GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/scoring-profile - Update the scoring profile
+export async function PUT(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body: ScoringProfileUpdate & { id: string } = await request.json();
+    const { id, ...updateData } = body;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Missing required field: id" },
+        { status: 400 }
+      );
+    }
+
+    // Activation and timestamps are not edited through this endpoint
+    const {
+      is_active: _isActive,
+      created_at: _createdAt,
+      updated_at: _updatedAt,
+      ...profileUpdate
+    } = updateData;
+
+    const validationError = validateScoringProfileUpdate(profileUpdate);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { data: profile, error: updateError } = await supabase!
+      .from("scoring_profiles")
+      .update(profileUpdate)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error("Error updating scoring profile:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update scoring profile" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(profile);
+  } catch (error) {
+    console.error("Scoring profile PUT error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
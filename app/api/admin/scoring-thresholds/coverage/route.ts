@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import { parseStationMetrics } from "@/lib/stations/metrics";
+import {
+  buildThresholdCoverage,
+  COVERAGE_MAX_AGE,
+  COVERAGE_MIN_AGE,
+  THRESHOLD_GENDERS,
+} from "@/lib/scoring/thresholds";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// GET /api/admin/scoring-thresholds/coverage - Report age coverage of every
+// threshold-scored station and gender, highlighting gaps and overlaps
+export async function GET(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const url = new URL(request.url);
+    const minAge =
+      parseInt(url.searchParams.get("min_age") || "") || COVERAGE_MIN_AGE;
+    const maxAge =
+      parseInt(url.searchParams.get("max_age") || "") || COVERAGE_MAX_AGE;
+
+    if (minAge > maxAge) {
+      return NextResponse.json(
+        { error: "min_age cannot be greater than max_age" },
+        { status: 400 }
+      );
+    }
+
+    const { data: stations, error: stationsError } = await supabase!
+      .from("stations")
+      .select("station_type, metrics, is_active, sort_order")
+      .order("sort_order");
+
+    if (stationsError) {
+      console.error("Error fetching stations:", stationsError);
+      return NextResponse.json(
+        { error: "Failed to fetch stations" },
+        { status: 500 }
+      );
+    }
+
+    const { data: thresholds, error: thresholdsError } = await supabase!
+      .from("scoring_thresholds")
+      .select("*");
+
+    if (thresholdsError) {
+      console.error("Error fetching scoring thresholds:", thresholdsError);
+      return NextResponse.json(
+        { error: "Failed to fetch scoring thresholds" },
+        { status: 500 }
+      );
+    }
+
+    // Only active stations with a metric scored against thresholds need coverage
+    const stationTypes = (stations || [])
+      .filter(
+        (station) =>
+          station.is_active &&
+          parseStationMetrics(station.metrics).some(
+            (metric) => metric.scoring === "thresholds"
+          )
+      )
+      .map((station) => station.station_type);
+
+    const report = buildThresholdCoverage(
+      thresholds || [],
+      stationTypes,
+      THRESHOLD_GENDERS,
+      minAge,
+      maxAge
+    );
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Scoring threshold coverage API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import {
+  serializeThresholds,
+  type ThresholdFileFormat,
+} from "@/lib/scoring/threshold-files";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// GET /api/admin/scoring-thresholds/export?format=csv|json - Download thresholds in the import format
+export async function GET(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const url = new URL(request.url);
+    const format: ThresholdFileFormat =
+      url.searchParams.get("format") === "json" ? "json" : "csv";
+
+    const { data: thresholds, error: fetchError } = await supabase!
+      .from("scoring_thresholds")
+      .select("*");
+
+    if (fetchError) {
+      console.error("Error fetching scoring thresholds:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch scoring thresholds" },
+        { status: 500 }
+      );
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(serializeThresholds(thresholds || [], format), {
+      headers: {
+        "Content-Type":
+          format === "json"
+            ? "application/json; charset=utf-8"
+            : "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="scoring-thresholds-${date}.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Scoring thresholds export error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
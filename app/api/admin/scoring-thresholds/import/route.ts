@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import {
+  parseThresholdFile,
+  type ThresholdFileFormat,
+} from "@/lib/scoring/threshold-files";
+import { diffThresholds } from "@/lib/scoring/rule-set-diff";
+import type { Json } from "@/lib/types/database";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+interface ImportRequest {
+  format?: ThresholdFileFormat;
+  content?: string;
+  // Defaults to true so nothing is changed without an explicit apply
+  dryRun?: boolean;
+}
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// POST /api/admin/scoring-thresholds/import - Preview or apply a CSV/JSON thresholds file.
+// Stations in the file have their thresholds replaced atomically; other stations are untouched.
+export async function POST(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body: ImportRequest = await request.json().catch(() => ({}));
+    const dryRun = body.dryRun !== false;
+
+    if (!body.content) {
+      return NextResponse.json(
+        { error: "Missing required field: content" },
+        { status: 400 }
+      );
+    }
+
+    const { data: stations, error: stationsError } = await supabase!
+      .from("stations")
+      .select("station_type");
+
+    if (stationsError) {
+      console.error("Error fetching stations:", stationsError);
+      return NextResponse.json(
+        { error: "Failed to fetch stations" },
+        { status: 500 }
+      );
+    }
+
+    const { thresholds, errors } = parseThresholdFile(
+      body.content,
+      body.format === "json" ? "json" : "csv",
+      (stations || []).map((station) => station.station_type)
+    );
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "The file has invalid rows", errors },
+        { status: 400 }
+      );
+    }
+
+    const stationTypes = Array.from(
+      new Set(thresholds.map((threshold) => threshold.station_type))
+    );
+
+    const { data: current, error: fetchError } = await supabase!
+      .from("scoring_thresholds")
+      .select("*")
+      .in("station_type", stationTypes);
+
+    if (fetchError) {
+      console.error("Error fetching scoring thresholds:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch scoring thresholds" },
+        { status: 500 }
+      );
+    }
+
+    const diff = diffThresholds(current || [], thresholds);
+    const summary = {
+      added: diff.filter((row) => row.status === "added").length,
+      removed: diff.filter((row) => row.status === "removed").length,
+      changed: diff.filter((row) => row.status === "changed").length,
+      unchanged: diff.filter((row) => row.status === "unchanged").length,
+    };
+
+    if (!dryRun) {
+      const { error: replaceError } = await supabase!.rpc(
+        "replace_scoring_thresholds",
+        {
+          p_station_types: stationTypes,
+          p_thresholds: thresholds as unknown as Json,
+        }
+      );
+
+      if (replaceError) {
+        console.error("Error importing scoring thresholds:", replaceError);
+        return NextResponse.json(
+          { error: "Failed to import scoring thresholds" },
+          { status: 500 }
+        );
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { dryRun, stationTypes, summary, diff },
+    });
+  } catch (error) {
+    console.error("Scoring thresholds import error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
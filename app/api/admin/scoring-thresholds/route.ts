@@ -7,6 +7,12 @@ import type {
   ScoringThresholdInsert,
   ScoringThresholdUpdate,
 } from "@/lib/types/database";
+import {
+  findThresholdOverlap,
+  formatThresholdAgeRange,
+  validateThresholdBounds,
+  type ThresholdRange,
+} from "@/lib/scoring/thresholds";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -37,6 +43,35 @@ async function verifyAdminAccess() {
   return { error: null, status: 200, user, supabase };
 }
 
+// Helper function to find an existing threshold whose age range overlaps the candidate's
+async function checkThresholdOverlap(
+  supabase: ReturnType<typeof createAdminClient>,
+  candidate: ThresholdRange
+) {
+  const { data: existing, error } = await supabase
+    .from("scoring_thresholds")
+    .select("*")
+    .eq("station_type", candidate.station_type)
+    .eq("gender", candidate.gender);
+
+  if (error) {
+    throw error;
+  }
+
+  const overlap = findThresholdOverlap(candidate, existing || []);
+  if (!overlap) {
+    return null;
+  }
+
+  return `Age range ${formatThresholdAgeRange(
+    candidate.min_age,
+    candidate.max_age
+  )} overlaps the existing ${candidate.gender} threshold for ages ${formatThresholdAgeRange(
+    overlap.min_age,
+    overlap.max_age
+  )}`;
+}
+
 // GET /api/admin/scoring-thresholds - Get all scoring thresholds
 export async function GET(request: NextRequest) {
   try {
@@ -116,32 +151,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if threshold already exists
-    let existingQuery = supabase!
-      .from("scoring_thresholds")
-      .select("id")
-      .eq("station_type", station_type)
-      .eq("gender", gender)
-      .eq("min_age", min_age);
-
-    if (body.max_age === null || body.max_age === undefined) {
-      existingQuery = existingQuery.is("max_age", null);
-    } else {
-      existingQuery = existingQuery.eq("max_age", body.max_age);
+    const candidate: ThresholdRange = {
+      station_type,
+      gender,
+      min_age,
+      max_age: body.max_age ?? null,
+      min_average_value,
+      max_average_value,
+    };
+
+    const boundsError = validateThresholdBounds(candidate);
+    if (boundsError) {
+      return NextResponse.json({ error: boundsError }, { status: 400 });
     }
 
-    const { data: existing } = await existingQuery.single();
-
-    if (existing) {
-      return NextResponse.json(
-        { error: "Scoring threshold already exists for this combination" },
-        { status: 409 }
-      );
+    const overlapError = await checkThresholdOverlap(supabase!, candidate);
+    if (overlapError) {
+      return NextResponse.json({ error: overlapError }, { status: 409 });
     }
 
     const { data: threshold, error: insertError } = await supabase!
       .from("scoring_thresholds")
-      .insert(body)
+      .insert({ ...body, max_age: candidate.max_age })
       .select()
       .single();
 
@@ -181,6 +212,43 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    const { data: current, error: fetchError } = await supabase!
+      .from("scoring_thresholds")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (fetchError || !current) {
+      return NextResponse.json(
+        { error: "Scoring threshold not found" },
+        { status: 404 }
+      );
+    }
+
+    // Validate the row as it will look after the update
+    const candidate: ThresholdRange = {
+      id,
+      station_type: updateData.station_type ?? current.station_type,
+      gender: updateData.gender ?? current.gender,
+      min_age: updateData.min_age ?? current.min_age,
+      max_age:
+        updateData.max_age !== undefined ? updateData.max_age : current.max_age,
+      min_average_value:
+        updateData.min_average_value ?? current.min_average_value,
+      max_average_value:
+        updateData.max_average_value ?? current.max_average_value,
+    };
+
+    const boundsError = validateThresholdBounds(candidate);
+    if (boundsError) {
+      return NextResponse.json({ error: boundsError }, { status: 400 });
+    }
+
+    const overlapError = await checkThresholdOverlap(supabase!, candidate);
+    if (overlapError) {
+      return NextResponse.json({ error: overlapError }, { status: 409 });
+    }
+
     const { data: threshold, error: updateError } = await supabase!
       .from("scoring_thresholds")
       .update(updateData)
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import { validateThresholdRecords } from "@/lib/scoring/threshold-files";
+import {
+  GENDER_OPTIONS,
+  isGender,
+  isScoringReference,
+  requiresScoringReference,
+} from "@/lib/scoring/gender";
+import {
+  buildDraftRuleSet,
+  simulateParticipant,
+} from "@/lib/scoring/simulate";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+interface SimulateParticipantRequest {
+  age?: number;
+  gender?: string;
+  scoringReference?: string | null;
+  // Measurements keyed by station type
+  measurements?: Record<string, unknown>;
+  // Draft thresholds to score with instead of the rules in effect now
+  thresholds?: unknown[] | null;
+}
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// POST /api/admin/simulator/participant - Score a hypothetical participant.
+// Nothing is stored; the draft thresholds, when given, replace all working thresholds.
+export async function POST(request: NextRequest) {
+  try {
+    const { error, status } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body: SimulateParticipantRequest = await request
+      .json()
+      .catch(() => ({}));
+
+    if (
+      typeof body.age !== "number" ||
+      !Number.isInteger(body.age) ||
+      body.age < 0 ||
+      body.age > 120
+    ) {
+      return NextResponse.json(
+        { error: "Age must be a whole number between 0 and 120" },
+        { status: 400 }
+      );
+    }
+
+    if (!isGender(body.gender)) {
+      return NextResponse.json(
+        {
+          error: `Gender must be one of: ${GENDER_OPTIONS.map(
+            (option) => option.value
+          ).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.scoringReference && !isScoringReference(body.scoringReference)) {
+      return NextResponse.json(
+        { error: "Scoring reference must be one of: male, female, average" },
+        { status: 400 }
+      );
+    }
+
+    if (requiresScoringReference(body.gender) && !body.scoringReference) {
+      return NextResponse.json(
+        { error: "Choose a scoring reference for this gender" },
+        { status: 400 }
+      );
+    }
+
+    if (!body.measurements || typeof body.measurements !== "object") {
+      return NextResponse.json(
+        { error: "Missing required field: measurements" },
+        { status: 400 }
+      );
+    }
+
+    let draftRules = null;
+    if (Array.isArray(body.thresholds)) {
+      const { thresholds, errors } = validateThresholdRecords(body.thresholds);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: "The draft thresholds have invalid rows", errors },
+          { status: 400 }
+        );
+      }
+      draftRules = await buildDraftRuleSet(thresholds);
+    }
+
+    const simulation = await simulateParticipant(
+      {
+        age: body.age,
+        gender: body.gender,
+        scoringReference: isScoringReference(body.scoringReference)
+          ? body.scoringReference
+          : null,
+        measurements: body.measurements,
+      },
+      draftRules
+    );
+
+    return NextResponse.json({ success: true, data: simulation });
+  } catch (error) {
+    console.error("Score simulator error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import { validateThresholdRecords } from "@/lib/scoring/threshold-files";
+import { buildDraftRuleSet, replayDraftRules } from "@/lib/scoring/simulate";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+interface ReplayRequest {
+  // The full draft threshold set; it replaces all working thresholds
+  thresholds?: unknown[];
+}
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// POST /api/admin/simulator/replay - Replay draft thresholds against every stored
+// station result and compare grade distributions. Runs as a rescore dry run; nothing is stored.
+export async function POST(request: NextRequest) {
+  try {
+    const { error, status } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const body: ReplayRequest = await request.json().catch(() => ({}));
+
+    if (!Array.isArray(body.thresholds)) {
+      return NextResponse.json(
+        { error: "Missing required field: thresholds" },
+        { status: 400 }
+      );
+    }
+
+    const { thresholds, errors } = validateThresholdRecords(body.thresholds);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "The draft thresholds have invalid rows", errors },
+        { status: 400 }
+      );
+    }
+
+    const replay = await replayDraftRules(await buildDraftRuleSet(thresholds));
+
+    return NextResponse.json({ success: true, data: replay });
+  } catch (error) {
+    console.error("Threshold replay error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
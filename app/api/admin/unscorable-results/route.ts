@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Helper function to verify admin access
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
+// GET /api/admin/unscorable-results - Get station results that couldn't be scored
+export async function GET(request: NextRequest) {
+  try {
+    const { error, status, supabase } = await verifyAdminAccess();
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const url = new URL(request.url);
+    const page = Math.max(parseInt(url.searchParams.get("page") || "1"), 1);
+    const limit = Math.min(
+      Math.max(parseInt(url.searchParams.get("limit") || "25"), 1),
+      100
+    );
+    const stationType = url.searchParams.get("station_type");
+    const reason = url.searchParams.get("reason");
+
+    const offset = (page - 1) * limit;
+
+    let query = supabase!
+      .from("station_results")
+      .select(
+        "id, participant_id, station_type, measurements, unscorable_reason, score_explanation, created_at, updated_at, participants(participant_code)",
+        { count: "exact" }
+      )
+      .not("unscorable_reason", "is", null);
+
+    // Apply filters
+    if (stationType) {
+      query = query.eq("station_type", stationType);
+    }
+    if (reason) {
+      query = query.eq("unscorable_reason", reason);
+    }
+
+    // Oldest first, so the queue is worked through in order
+    const { data: results, error: fetchError, count } = await query
+      .order("created_at", { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (fetchError) {
+      console.error("Error fetching unscorable results:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch unscorable results" },
+        { status: 500 }
+      );
+    }
+
+    const totalPages = Math.ceil((count || 0) / limit);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        results: (results || []).map(({ participants, ...result }) => ({
+          ...result,
+          participant_code: participants?.participant_code || null,
+        })),
+        pagination: {
+          page,
+          limit,
+          total: count || 0,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Unscorable results API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,16 @@ import {
   createRouteHandlerClient,
   createAdminClient,
 } from "@/lib/supabase/server";
+import { getAge, getYouthPolicy } from "@/lib/scoring/calculator";
+import { getEffectiveRuleSet } from "@/lib/scoring/rule-sets";
+import { ADULT_AGE } from "@/lib/scoring/profile";
+import {
+  GENDER_OPTIONS,
+  isGender,
+  isScoringReference,
+  requiresScoringReference,
+} from "@/lib/scoring/gender";
+import { validateLeaderboardVisibility } from "@/lib/leaderboard/visibility";
 import type {
   SignupFormData,
   ParticipantProfileInsert,
@@ -19,6 +29,9 @@ export async function POST(request: NextRequest) {
       password,
       dateOfBirth,
       gender,
+      scoringReference,
+      leaderboardVisibility = "full_name",
+      leaderboardAlias,
       jobTitle,
       organization,
     } = body;
@@ -63,16 +76,68 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate gender
-    if (!["male", "female"].includes(gender)) {
+    if (!isGender(gender)) {
       return NextResponse.json(
         {
           error: "Invalid gender",
-          details: "Gender must be 'male' or 'female'",
+          details: `Gender must be one of: ${GENDER_OPTIONS.map(
+            (option) => option.value
+          ).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Thresholds only exist for male and female, so everyone else picks
+    // which ones they are scored against
+    if (scoringReference && !isScoringReference(scoringReference)) {
+      return NextResponse.json(
+        {
+          error: "Invalid scoring reference",
+          details: "Scoring reference must be 'male', 'female' or 'average'",
         },
         { status: 400 }
       );
     }
 
+    if (requiresScoringReference(gender) && !scoringReference) {
+      return NextResponse.json(
+        {
+          error: "Missing scoring reference",
+          details:
+            "Choose whether to be scored against the male, female or average thresholds",
+        },
+        { status: 400 }
+      );
+    }
+
+    // How the participant appears on the leaderboard
+    const visibilityError = validateLeaderboardVisibility(
+      leaderboardVisibility,
+      leaderboardAlias
+    );
+    if (visibilityError) {
+      return NextResponse.json(
+        { error: "Invalid leaderboard visibility", details: visibilityError },
+        { status: 400 }
+      );
+    }
+
+    // Under-18s can only sign up when the rule set in effect scores them with
+    // youth thresholds
+    if (getAge(dateOfBirth) < ADULT_AGE) {
+      const youthPolicy = await getYouthPolicy(await getEffectiveRuleSet());
+      if (youthPolicy === "block") {
+        return NextResponse.json(
+          {
+            error: "Participant too young",
+            details: `Participants must be at least ${ADULT_AGE} years old to take part in this event`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     // Create regular client for user creation (uses anon key)
     const supabase = await createRouteHandlerClient();
 
@@ -133,7 +198,12 @@ export async function POST(request: NextRequest) {
         name: fullName,
         email: email,
         date_of_birth: dateOfBirth,
-        gender: gender as "male" | "female",
+        gender,
+        scoring_reference: scoringReference || null,
+        leaderboard_visibility: leaderboardVisibility,
+        // Only kept when it is shown
+        leaderboard_alias:
+          leaderboardVisibility === "alias" ? leaderboardAlias!.trim() : null,
         job_title: jobTitle,
         organisation: organization, // Convert American to British spelling
         role: "participant", // Default role for new signups
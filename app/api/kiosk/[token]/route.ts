@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import { verifyDisplayToken } from "@/lib/kiosk/token";
+import { getKioskBoardLabel, parseKioskBoard } from "@/lib/kiosk/boards";
+import { getAgeBand } from "@/lib/leaderboard/segments";
+import type {
+  KioskDisplay,
+  KioskStanding,
+  KioskView,
+} from "@/lib/types/database";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const RECENT_FINISHERS = 10;
+
+async function getParticipantBoard(
+  supabase: ReturnType<typeof createAdminClient>,
+  limit: number,
+  filters: { gender?: string; min_age?: number | null; max_age?: number | null } = {}
+): Promise<KioskStanding[]> {
+  const { data, error } = await supabase.rpc("get_leaderboard", {
+    p_limit: limit,
+    p_offset: 0,
+    p_sort: "total_score",
+    p_order: "desc",
+    p_gender_filter: filters.gender ?? null,
+    p_min_age: filters.min_age ?? null,
+    p_max_age: filters.max_age ?? null,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((entry) => ({
+    rank: Number(entry.rank),
+    tied: entry.tied,
+    name: entry.name || "Unknown",
+    detail: entry.organisation,
+    score: Number(entry.total_score),
+  }));
+}
+
+async function getTeamBoard(
+  supabase: ReturnType<typeof createAdminClient>,
+  limit: number
+): Promise<KioskStanding[]> {
+  const { data, error } = await supabase.rpc("get_team_leaderboard", {
+    p_limit: limit,
+    p_offset: 0,
+  });
+
+  if (error) throw error;
+
+  // Unranked teams are listed after the ranked ones; the kiosk leaves them out
+  return (data || [])
+    .filter((team) => team.eligible)
+    .map((team) => ({
+      rank: team.rank === null ? null : Number(team.rank),
+      tied: team.tied,
+      name: team.name,
+      detail: `${Number(team.members)} members`,
+      score: Number(team.team_score),
+    }));
+}
+
+async function getBoardRows(
+  supabase: ReturnType<typeof createAdminClient>,
+  display: KioskDisplay,
+  board: string
+): Promise<KioskStanding[]> {
+  const parsed = parseKioskBoard(board);
+  const limit = display.rows_per_board;
+
+  switch (parsed?.type) {
+    case "overall":
+      return getParticipantBoard(supabase, limit);
+    case "teams":
+      return getTeamBoard(supabase, limit);
+    case "gender":
+      return getParticipantBoard(supabase, limit, { gender: parsed.gender });
+    case "age": {
+      const band = getAgeBand(parsed.age_band);
+      return getParticipantBoard(supabase, limit, {
+        min_age: band?.min_age,
+        max_age: band?.max_age,
+      });
+    }
+    default:
+      return [];
+  }
+}
+
+// GET /api/kiosk/[token] - Leaderboard boards for a kiosk screen, no login required
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const payload = verifyDisplayToken(params.token);
+    if (!payload) {
+      return NextResponse.json(
+        { error: "Invalid or expired display token" },
+        { status: 401 }
+      );
+    }
+
+    // The token is the only credential, so reads go through the admin client
+    const supabase = createAdminClient();
+
+    const { data: display, error: displayError } = await supabase
+      .from("kiosk_displays")
+      .select("*")
+      .eq("id", payload.display_id)
+      .maybeSingle();
+
+    if (displayError) {
+      console.error("Error fetching kiosk display:", displayError);
+      return NextResponse.json(
+        { error: "Failed to fetch kiosk display" },
+        { status: 500 }
+      );
+    }
+
+    // Tokens from before the display's tokens were revoked no longer work
+    if (!display || display.token_version !== payload.version) {
+      return NextResponse.json(
+        { error: "Invalid or expired display token" },
+        { status: 401 }
+      );
+    }
+
+    const { count: stationCount, error: stationsError } = await supabase
+      .from("stations")
+      .select("id", { count: "exact", head: true })
+      .eq("is_active", true);
+
+    if (stationsError) {
+      console.error("Error counting stations:", stationsError);
+      return NextResponse.json(
+        { error: "Failed to fetch stations" },
+        { status: 500 }
+      );
+    }
+
+    const [boardRows, podium, finishers] = await Promise.all([
+      Promise.all(
+        display.boards.map((board) => getBoardRows(supabase, display, board))
+      ),
+      getParticipantBoard(supabase, 3),
+      // Finishers have a result at every active station
+      supabase
+        .from("leaderboard_entries")
+        .select("name, organisation, total_score, latest_completion")
+        // Participants who chose not to appear aren't announced either
+        .eq("hidden", false)
+        .gte("completed_stations", Math.max(stationCount || 0, 1))
+        .not("latest_completion", "is", null)
+        .order("latest_completion", { ascending: false })
+        .limit(RECENT_FINISHERS),
+    ]);
+
+    if (finishers.error) {
+      console.error("Error fetching recent finishers:", finishers.error);
+    }
+
+    const view: KioskView = {
+      display: {
+        name: display.name,
+        event_name: display.event_name,
+        logo_url: display.logo_url,
+        primary_color: display.primary_color,
+        accent_color: display.accent_color,
+        rotation_seconds: display.rotation_seconds,
+      },
+      boards: display.boards.map((board, index) => ({
+        key: board,
+        title: getKioskBoardLabel(board),
+        rows: boardRows[index],
+      })),
+      podium: podium.filter((standing) => (standing.rank ?? 4) <= 3),
+      recent_finishers: (finishers.data || []).map((entry) => ({
+        name: entry.name || "Unknown",
+        organisation: entry.organisation,
+        total_score: Number(entry.total_score),
+        finished_at: entry.latest_completion!,
+      })),
+      generated_at: new Date().toISOString(),
+    };
+
+    return NextResponse.json(view);
+  } catch (error) {
+    console.error("Kiosk GET API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
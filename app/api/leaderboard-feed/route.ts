@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createRouteHandlerClient } from "@/lib/supabase/server";
+import {
+  createLeaderboardEventStream,
+  getLocalLeaderboardFeed,
+  isLocalLeaderboardFeedEnabled,
+} from "@/lib/leaderboard/local-feed";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// GET /api/leaderboard-feed - Stream leaderboard changes as server-sent events
+// (the local stand-in for realtime, see lib/leaderboard/local-feed.ts)
+export async function GET(request: NextRequest) {
+  try {
+    if (!isLocalLeaderboardFeedEnabled()) {
+      return NextResponse.json(
+        { error: "The local leaderboard feed is not enabled" },
+        { status: 404 }
+      );
+    }
+
+    const supabase = await createRouteHandlerClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const stream = createLeaderboardEventStream(
+      getLocalLeaderboardFeed(),
+      request.signal
+    );
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    console.error("Leaderboard feed GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import type { Grade, LeaderboardSnapshotView } from "@/lib/types/database";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// GET /api/leaderboard-snapshots/[snapshotId] - One page of a snapshot's frozen standings
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { snapshotId: string } }
+) {
+  try {
+    const userSupabase = await createRouteHandlerClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await userSupabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const supabase = createAdminClient();
+
+    const url = new URL(request.url);
+    const limit = Math.min(parseInt(url.searchParams.get("limit") || "10"), 100);
+    const offset = parseInt(url.searchParams.get("offset") || "0");
+
+    const { data: snapshot, error: snapshotError } = await supabase
+      .from("leaderboard_snapshots")
+      .select("id, label, taken_at, participant_count, stations")
+      .eq("id", params.snapshotId)
+      .not("taken_at", "is", null)
+      .maybeSingle();
+
+    if (snapshotError) {
+      console.error("Error fetching leaderboard snapshot:", snapshotError);
+      return NextResponse.json(
+        { error: "Failed to fetch leaderboard snapshot" },
+        { status: 500 }
+      );
+    }
+
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: "Leaderboard snapshot not found" },
+        { status: 404 }
+      );
+    }
+
+    // Same order as the live leaderboard: rank, then participant code. Names
+    // follow each participant's current visibility; hidden participants are
+    // left out.
+    const [
+      { data: entries, error: entriesError },
+      { data: count, error: countError },
+    ] = await Promise.all([
+      supabase.rpc("get_leaderboard_snapshot_entries", {
+        p_snapshot_id: snapshot.id,
+        p_limit: limit,
+        p_offset: offset,
+      }),
+      supabase.rpc("count_leaderboard_snapshot_entries", {
+        p_snapshot_id: snapshot.id,
+      }),
+    ]);
+
+    if (entriesError || countError) {
+      console.error(
+        "Error fetching leaderboard snapshot entries:",
+        entriesError || countError
+      );
+      return NextResponse.json(
+        { error: "Failed to fetch leaderboard snapshot" },
+        { status: 500 }
+      );
+    }
+
+    const total = Number(count ?? 0);
+
+    const stations = (snapshot.stations || []) as {
+      station_type: string;
+      name: string;
+    }[];
+
+    const view: LeaderboardSnapshotView = {
+      snapshot: {
+        id: snapshot.id,
+        label: snapshot.label,
+        taken_at: snapshot.taken_at,
+        participant_count: total,
+      },
+      stations,
+      results: (entries || []).map((entry) => {
+        const scores = (entry.scores || {}) as Record<string, number | null>;
+        return {
+          participant_id: entry.participant_id,
+          participant_code: entry.participant_code,
+          name: entry.name || "Unknown",
+          organisation: entry.organisation,
+          // Stations as they were when the snapshot was taken
+          scores: Object.fromEntries(
+            stations.map((station) => [
+              station.station_type,
+              scores[station.station_type] ?? null,
+            ])
+          ),
+          total_score: Number(entry.total_score),
+          percentage: entry.percentage === null ? null : Number(entry.percentage),
+          grade: entry.grade as Grade | null,
+          completed_stations: entry.completed_stations,
+          rank: entry.rank,
+          tied: entry.tied,
+        };
+      }),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+    };
+
+    return NextResponse.json(view);
+  } catch (error) {
+    console.error("Leaderboard snapshot GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// GET /api/leaderboard-snapshots - List taken leaderboard snapshots, newest first
+export async function GET() {
+  try {
+    const userSupabase = await createRouteHandlerClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await userSupabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Note: Snapshots are accessible to all authenticated users
+    const supabase = createAdminClient();
+
+    // Scheduled snapshots aren't listed until they are taken
+    const { data: snapshots, error: fetchError } = await supabase
+      .from("leaderboard_snapshots")
+      .select("id, label, taken_at, participant_count")
+      .not("taken_at", "is", null)
+      .order("taken_at", { ascending: false });
+
+    if (fetchError) {
+      console.error("Error fetching leaderboard snapshots:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch leaderboard snapshots" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(snapshots);
+  } catch (error) {
+    console.error("Leaderboard snapshots GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -44,7 +44,7 @@ export async function GET(
     // Get profile data separately
     const { data: profile, error: profileError } = await supabase
       .from("profiles")
-      .select("name, email, date_of_birth, gender, job_title, organisation")
+      .select("name, email, date_of_birth, gender, scoring_reference, job_title, organisation")
       .eq("id", participant.user_id)
       .single();
 
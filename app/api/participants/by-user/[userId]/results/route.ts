@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createRouteHandlerClient } from "@/lib/supabase/server";
+import { MAX_STATION_SCORE } from "@/lib/scoring/profile";
+import type { ScoreExplanation } from "@/lib/types/database";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -50,6 +52,8 @@ export async function GET(
         station_type,
         measurements,
         score,
+        score_explanation,
+        unscorable_reason,
         created_at,
         station_id
       `)
@@ -67,7 +71,7 @@ export async function GET(
     // Get station information separately
     const { data: stations, error: stationsError } = await supabase
       .from('stations')
-      .select('id, name, description');
+      .select('id, name, description, station_type, is_active');
 
     if (stationsError) {
       console.error('Error fetching stations:', stationsError);
@@ -83,27 +87,44 @@ export async function GET(
     // Use stored scores from database (don't recalculate)
     const resultsWithScores = (stationResults || []).map(result => {
       const station = stationMap.get(result.station_id);
-      const maxScore = getMaxScoreForStation(result.station_type);
       return {
         id: result.id,
         stationType: result.station_type,
         stationName: station?.name || 'Unknown Station',
         stationDescription: station?.description || '',
         measurements: result.measurements,
-        score: result.score || 0, // Use stored score from database, default to 0 if null
-        maxScore: maxScore,
+        // Use stored score from database; null while the result is pending
+        score: result.unscorable_reason ? null : result.score || 0,
+        pending: !!result.unscorable_reason,
+        maxScore: MAX_STATION_SCORE,
+        // Null for results recorded before explanations were stored
+        explanation: result.score_explanation as unknown as ScoreExplanation | null,
         completedAt: result.created_at
       };
     });
 
     // Calculate overall progress
-    const allStations = ['balance', 'breath', 'grip', 'health'];
+    const allStations = (stations || [])
+      .filter(station => station.is_active)
+      .map(station => station.station_type);
     const completedStations = resultsWithScores.map(r => r.stationType);
     const remainingStations = allStations.filter(station => !completedStations.includes(station));
 
-    const totalScore = resultsWithScores.reduce((sum, result) => sum + (result.score || 0), 0);
-    const maxPossibleScore = completedStations.length * 3;
-    const grade = maxPossibleScore > 0 ? calculateGrade(totalScore, completedStations.length) : null;
+    // Total and grade are the participant's leaderboard entry, which the
+    // database keeps current under the active scoring profile
+    const { data: entry, error: entryError } = await supabase
+      .from('leaderboard_entries')
+      .select('total_score, max_possible_score, percentage, grade')
+      .eq('participant_id', participant.id)
+      .maybeSingle();
+
+    if (entryError) {
+      console.error('Error fetching leaderboard entry:', entryError);
+      return NextResponse.json(
+        { error: "Failed to fetch results" },
+        { status: 500 }
+      );
+    }
 
     return NextResponse.json({
       participantCode: participant.participant_code,
@@ -112,9 +133,10 @@ export async function GET(
         completedStations: completedStations.length,
         totalStations: allStations.length,
         remainingStations,
-        totalScore,
-        maxPossibleScore,
-        grade
+        totalScore: Number(entry?.total_score ?? 0),
+        maxPossibleScore: Number(entry?.max_possible_score ?? 0),
+        percentage: entry?.percentage == null ? null : Number(entry.percentage),
+        grade: entry?.grade ?? null
       }
     });
 
@@ -126,112 +148,3 @@ export async function GET(
     );
   }
 }
-
-// Helper function to get max score for each station type
-function getMaxScoreForStation(stationType: string): number {
-  // All stations currently use 1-3 scoring system
-  return 3;
-}
-
-// Helper functions to calculate scores (same as in leaderboard)
-function calculateStationScore(stationType: string, measurements: any): number {
-  switch (stationType) {
-    case 'balance':
-      return calculateBalanceScore(measurements);
-    case 'breath':
-      return calculateBreathScore(measurements);
-    case 'grip':
-      return calculateGripScore(measurements);
-    case 'health':
-      return calculateHealthScore(measurements);
-    default:
-      return 0;
-  }
-}
-
-function calculateBalanceScore(measurements: any): number {
-  const balanceSeconds = measurements?.balance_seconds || 0;
-  if (balanceSeconds >= 45) return 3;
-  if (balanceSeconds >= 25) return 2;
-  return 1;
-}
-
-function calculateBreathScore(measurements: any): number {
-  const breathSeconds = measurements?.breath_seconds || 0;
-  if (breathSeconds >= 60) return 3;
-  if (breathSeconds >= 30) return 2;
-  return 1;
-}
-
-function calculateGripScore(measurements: any): number {
-  const leftGrip = measurements?.grip_left_kg || 0;
-  const rightGrip = measurements?.grip_right_kg || 0;
-  const avgGrip = (leftGrip + rightGrip) / 2;
-  if (avgGrip >= 40) return 3;
-  if (avgGrip >= 25) return 2;
-  return 1;
-}
-
-function calculateHealthScore(measurements: any): number {
-  // Calculate individual metric scores
-  const scores = [
-    calculateHealthMetricScore("bp_systolic", measurements.bp_systolic || 120),
-    calculateHealthMetricScore("bp_diastolic", measurements.bp_diastolic || 80),
-    calculateHealthMetricScore("pulse", measurements.pulse || 70),
-    calculateHealthMetricScore("spo2", measurements.spo2 || 98),
-    calculateHealthMetricScore("bmi", measurements.bmi || 22),
-  ];
-
-  const totalScore = scores.reduce((sum, score) => sum + score, 0);
-  const averageScore = totalScore / scores.length;
-
-  // Round to nearest integer, but ensure it's between 1 and 3
-  return Math.max(1, Math.min(3, Math.round(averageScore)));
-}
-
-function calculateHealthMetricScore(metricName: string, value: number): number {
-  switch (metricName) {
-    case "bp_systolic":
-      // Above Average: 100–129 mmHg, Average: 130–139 mmHg, Bad: ≥ 140 mmHg
-      if (value >= 100 && value <= 129) return 3;
-      if (value >= 130 && value <= 139) return 2;
-      return 1;
-
-    case "bp_diastolic":
-      // Above Average: 60–79 mmHg, Average: 80–89 mmHg, Bad: ≥ 90 mmHg
-      if (value >= 60 && value <= 79) return 3;
-      if (value >= 80 && value <= 89) return 2;
-      return 1;
-
-    case "pulse":
-      // Above Average: 50–70 bpm, Average: 71–85 bpm, Bad: > 85 bpm
-      if (value >= 50 && value <= 70) return 3;
-      if (value >= 71 && value <= 85) return 2;
-      return 1;
-
-    case "spo2":
-      // Above Average: 97–100%, Average: 94–96%, Bad: ≤ 93%
-      if (value >= 97 && value <= 100) return 3;
-      if (value >= 94 && value <= 96) return 2;
-      return 1;
-
-    case "bmi":
-      // Above Average: 18.5–24.9, Average: 25–29.9, Bad: ≥ 30 or < 18.5
-      if (value >= 18.5 && value <= 24.9) return 3;
-      if (value >= 25 && value <= 29.9) return 2;
-      return 1;
-
-    default:
-      return 1;
-  }
-}
-
-
-function calculateGrade(totalScore: number, completedStations: number): "Above Average" | "Average" | "Bad" {
-  const maxPossibleScore = completedStations * 3;
-  const percentage = (totalScore / maxPossibleScore) * 100;
-
-  if (percentage >= 83) return "Above Average";
-  if (percentage >= 50) return "Average";
-  return "Bad";
-}
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createRouteHandlerClient, createAdminClient } from "@/lib/supabase/server";
+import { validateLeaderboardVisibility } from "@/lib/leaderboard/visibility";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// PUT /api/participants/current/visibility - Change how the current user appears on the leaderboard
+export async function PUT(request: NextRequest) {
+  try {
+    const authSupabase = await createRouteHandlerClient();
+    const { data: { user }, error: authError } = await authSupabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body: {
+      leaderboard_visibility?: string;
+      leaderboard_alias?: string | null;
+    } = await request.json();
+
+    const validationError = validateLeaderboardVisibility(
+      body.leaderboard_visibility,
+      body.leaderboard_alias
+    );
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    // Leaderboard entries are rewritten by the profile trigger
+    const { data: profile, error: updateError } = await supabase
+      .from("profiles")
+      .update({
+        leaderboard_visibility: body.leaderboard_visibility,
+        // Only kept when it is shown
+        leaderboard_alias:
+          body.leaderboard_visibility === "alias"
+            ? body.leaderboard_alias!.trim()
+            : null,
+      })
+      .eq("id", user.id)
+      .select("leaderboard_visibility, leaderboard_alias")
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("Error updating leaderboard visibility:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update leaderboard visibility" },
+        { status: 500 }
+      );
+    }
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(profile);
+  } catch (error) {
+    console.error("Leaderboard visibility PUT error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// GET /api/station-results/[resultId]/versions - Get the correction history of a station result
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { resultId: string } }
+) {
+  try {
+    // First verify user authentication with regular client
+    const userSupabase = await createRouteHandlerClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await userSupabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Now use admin client for database operations
+    const supabase = createAdminClient();
+
+    // Check if user has operator or admin role
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile || (profile.role !== "operator" && profile.role !== "admin")) {
+      return NextResponse.json(
+        { error: "Insufficient permissions. Operator or admin role required." },
+        { status: 403 }
+      );
+    }
+
+    const { data: result, error: resultError } = await supabase
+      .from("station_results")
+      .select("id, measurements, score, version, recorded_by, created_at")
+      .eq("id", params.resultId)
+      .single();
+
+    if (resultError || !result) {
+      return NextResponse.json(
+        { error: "Station result not found" },
+        { status: 404 }
+      );
+    }
+
+    const { data: versions, error: versionsError } = await supabase
+      .from("station_result_versions")
+      .select("*")
+      .eq("station_result_id", params.resultId)
+      .order("version", { ascending: false });
+
+    if (versionsError) {
+      console.error("Error fetching result versions:", versionsError);
+      return NextResponse.json(
+        { error: "Failed to fetch result history" },
+        { status: 500 }
+      );
+    }
+
+    // Results that were never corrected have no history rows yet
+    const history =
+      versions && versions.length > 0
+        ? versions
+        : [
+            {
+              id: result.id,
+              station_result_id: result.id,
+              version: result.version,
+              measurements: result.measurements,
+              score: result.score,
+              changed_by: result.recorded_by,
+              reason: null,
+              created_at: result.created_at,
+            },
+          ];
+
+    return NextResponse.json({
+      result_id: result.id,
+      current_version: result.version,
+      versions: history,
+    });
+  } catch (error) {
+    console.error("Station result versions API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,11 +3,30 @@ import {
   createAdminClient,
   createRouteHandlerClient,
 } from "@/lib/supabase/server";
-import type { StationType, StationResultInsert } from "@/lib/types/database";
+import type { Json, StationType } from "@/lib/types/database";
 import {
-  calculateStationScore,
+  toStationDefinition,
   type MeasurementData,
+  type StationDefinition,
 } from "@/lib/scoring/calculator";
+import {
+  scoreAttempts,
+  toStationAttemptRows,
+  validateAttemptCount,
+  type AggregatedAttempts,
+} from "@/lib/scoring/attempts";
+import { getEffectiveRuleSet } from "@/lib/scoring/rule-sets";
+import { isGender } from "@/lib/scoring/gender";
+import { getAgeBand, isCompletionSegment } from "@/lib/leaderboard/segments";
+import { publishLeaderboardEntry } from "@/lib/leaderboard/local-feed";
+import {
+  compactMeasurements,
+  validateMeasurements,
+} from "@/lib/stations/metrics";
+import {
+  getAuditRequestMetadata,
+  recordStationAudit,
+} from "@/lib/audit/station-audits";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -15,7 +34,83 @@ export const revalidate = 0;
 interface StationResultRequest {
   participantCode: string;
   stationType: StationType;
-  measurements: MeasurementData;
+  // Either a single measurement or every attempt for multi-attempt stations
+  measurements?: MeasurementData;
+  attempts?: MeasurementData[];
+}
+
+interface StationResultCorrectionRequest {
+  resultId: string;
+  measurements?: MeasurementData;
+  attempts?: MeasurementData[];
+  reason: string;
+  expectedVersion?: number;
+}
+
+// Check the attempt count and every attempt's measurements against the station definition
+function validateStationAttempts(
+  station: StationDefinition,
+  attempts: MeasurementData[]
+): string | null {
+  const attemptError = validateAttemptCount(
+    station.attempt_policy,
+    station.max_attempts,
+    attempts.length
+  );
+  if (attemptError) return attemptError;
+
+  for (const attempt of attempts) {
+    const measurementError = validateMeasurements(station.metrics, attempt);
+    if (measurementError) return measurementError;
+  }
+
+  return null;
+}
+
+// Tell the operator when a result was saved without a score
+function getUnscorableWarning(aggregated: AggregatedAttempts): string | null {
+  const unscorable = aggregated.explanation.unscorable;
+  if (!unscorable) return null;
+
+  return `Score pending: ${unscorable.message}. The result was saved and will be scored once this is fixed.`;
+}
+
+// Ranks in the latest taken snapshot for the given participants, to show
+// movement since then
+async function getLatestSnapshotRanks(
+  supabase: ReturnType<typeof createAdminClient>,
+  participantIds: string[]
+) {
+  const { data: snapshot, error: snapshotError } = await supabase
+    .from("leaderboard_snapshots")
+    .select("id, label, taken_at")
+    .not("taken_at", "is", null)
+    .order("taken_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (snapshotError) {
+    console.error("Error fetching latest leaderboard snapshot:", snapshotError);
+  }
+  if (!snapshot || participantIds.length === 0) {
+    return { snapshot: null, ranks: new Map<string, number>() };
+  }
+
+  const { data: entries, error: entriesError } = await supabase
+    .from("leaderboard_snapshot_entries")
+    .select("participant_id, rank")
+    .eq("snapshot_id", snapshot.id)
+    .in("participant_id", participantIds);
+
+  if (entriesError) {
+    console.error("Error fetching leaderboard snapshot ranks:", entriesError);
+    return { snapshot: null, ranks: new Map<string, number>() };
+  }
+
+  return {
+    snapshot: { id: snapshot.id, label: snapshot.label, taken_at: snapshot.taken_at! },
+    ranks: new Map((entries || []).map((entry) => [entry.participant_id, entry.rank])),
+  };
 }
 
 // POST /api/station-results - Save station measurements for a participant
@@ -52,9 +147,14 @@ export async function POST(request: NextRequest) {
     }
 
     const body: StationResultRequest = await request.json();
-    const { participantCode, stationType, measurements } = body;
-
-    if (!participantCode || !stationType || !measurements) {
+    const { participantCode, stationType } = body;
+    const attempts = body.attempts?.length
+      ? body.attempts
+      : body.measurements
+      ? [body.measurements]
+      : [];
+
+    if (!participantCode || !stationType || attempts.length === 0) {
       return NextResponse.json(
         {
           error:
@@ -86,7 +186,7 @@ export async function POST(request: NextRequest) {
     // Find the station to get the station_id
     const { data: station, error: stationError } = await supabase
       .from("stations")
-      .select("id")
+      .select("id, station_type, name, attempt_policy, max_attempts, metrics")
       .eq("station_type", stationType)
       .single();
 
@@ -95,49 +195,76 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Station not found" }, { status: 404 });
     }
 
+    const stationDefinition = toStationDefinition(station);
+    const validationError = validateStationAttempts(
+      stationDefinition,
+      attempts
+    );
+
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
     // Check if participant already has a result for this station
     const { data: existingResult, error: existingError } = await supabase
       .from("station_results")
-      .select("id, created_at")
+      .select("id, created_at, measurements, score, version")
       .eq("participant_id", participant.id)
       .eq("station_id", station.id)
       .single();
 
     if (existingResult) {
+      const { data: existingAttempts } = await supabase
+        .from("station_attempts")
+        .select("attempt_number, measurements, score")
+        .eq("station_result_id", existingResult.id)
+        .order("attempt_number");
+
       return NextResponse.json(
         {
           error: "Participant score is already recorded for this station",
           existingResultId: existingResult.id,
           recordedAt: existingResult.created_at,
+          existingMeasurements: existingResult.measurements,
+          existingScore: existingResult.score,
+          existingVersion: existingResult.version,
+          existingAttempts: existingAttempts || [],
         },
         { status: 409 }
       );
     }
 
-    // Calculate the score using application logic
-    const calculatedScore = await calculateStationScore(
+    // Score every attempt with the rule set in effect now and aggregate them
+    // following the station policy
+    const ruleSet = await getEffectiveRuleSet();
+    const aggregated = await scoreAttempts(
       participant.id,
-      stationType,
-      measurements
+      stationDefinition,
+      attempts.map(compactMeasurements),
+      ruleSet
     );
+    const measurements = aggregated.measurements;
+    const calculatedScore = aggregated.score;
 
-    // Create a new station result record with calculated score
-    const stationResultData: StationResultInsert = {
-      participant_id: participant.id,
-      station_id: station.id,
-      station_type: stationType,
-      measurements: measurements as any, // JSONB field - cast to bypass type checking
-      score: calculatedScore,
-      recorded_by: user.id,
-    };
-
+    // Create a new station result record with calculated score, keeping each
+    // attempt individually for later analysis in the same transaction
     const { data: stationResult, error: insertError } = await supabase
-      .from("station_results")
-      .insert(stationResultData)
-      .select()
+      .rpc("record_station_result", {
+        p_participant_id: participant.id,
+        p_station_id: station.id,
+        p_station_type: stationType,
+        p_measurements: measurements as unknown as Json,
+        p_score: calculatedScore,
+        p_continuous_score: aggregated.continuousScore,
+        p_score_explanation: aggregated.explanation as unknown as Json,
+        p_unscorable_reason: aggregated.unscorableReason,
+        p_rule_set_id: ruleSet?.id ?? null,
+        p_attempts: toStationAttemptRows(aggregated.attempts),
+        p_recorded_by: user.id,
+      })
       .single();
 
-    if (insertError) {
+    if (insertError || !stationResult) {
       console.error("Error saving station result:", insertError);
       return NextResponse.json(
         { error: "Failed to save measurements" },
@@ -145,20 +272,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create an audit record in station_audits table if it exists
-    try {
-      // Note: station_audits table may not exist in current database schema
-      // This is optional functionality for audit trail
-      console.log("Audit record would be created:", {
-        participant_id: participant.id,
-        station: stationType,
-        payload: measurements,
-        actor: user.email || user.id,
-      });
-    } catch (auditError) {
-      // If audit table doesn't exist, that's ok - just continue
-      console.warn("Could not create audit record:", auditError);
-    }
+    // Record the creation in the audit trail
+    await recordStationAudit({
+      action: "create",
+      stationType,
+      stationResultId: stationResult.id,
+      participantId: participant.id,
+      participantCode,
+      actor: { id: user.id, email: user.email },
+      after: { measurements, score: calculatedScore },
+      metadata: getAuditRequestMetadata(request),
+    });
+
+    // Realtime picks the change up from leaderboard_entries; the local feed
+    // is told directly
+    await publishLeaderboardEntry(participant.id);
 
     return NextResponse.json({
       success: true,
@@ -168,6 +296,12 @@ export async function POST(request: NextRequest) {
       station_type: stationType,
       measurements: measurements,
       score: calculatedScore,
+      continuous_score: aggregated.continuousScore,
+      score_explanation: aggregated.explanation,
+      unscorable_reason: aggregated.unscorableReason,
+      warning: getUnscorableWarning(aggregated),
+      attempt_policy: stationDefinition.attempt_policy,
+      attempts: aggregated.attempts,
       created_at: stationResult.created_at,
     });
   } catch (error) {
@@ -179,6 +313,198 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// PATCH /api/station-results - Correct the measurements of an existing station result
+export async function PATCH(request: NextRequest) {
+  try {
+    // First verify user authentication with regular client
+    const userSupabase = await createRouteHandlerClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await userSupabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Now use admin client for database operations
+    const supabase = createAdminClient();
+
+    // Check if user has operator or admin role
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile || (profile.role !== "operator" && profile.role !== "admin")) {
+      return NextResponse.json(
+        { error: "Insufficient permissions. Operator or admin role required." },
+        { status: 403 }
+      );
+    }
+
+    const body: StationResultCorrectionRequest = await request.json();
+    const { resultId, reason, expectedVersion } = body;
+    const attempts = body.attempts?.length
+      ? body.attempts
+      : body.measurements
+      ? [body.measurements]
+      : [];
+
+    if (!resultId || attempts.length === 0 || !reason?.trim()) {
+      return NextResponse.json(
+        {
+          error: "Missing required fields: resultId, measurements, reason",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Get the existing result so we can version it
+    const { data: existingResult, error: fetchError } = await supabase
+      .from("station_results")
+      .select(
+        `
+        id,
+        participant_id,
+        station_type,
+        measurements,
+        score,
+        version,
+        created_at,
+        participants!inner(participant_code),
+        stations!inner(station_type, name, attempt_policy, max_attempts, metrics)
+      `
+      )
+      .eq("id", resultId)
+      .single();
+
+    if (fetchError || !existingResult) {
+      return NextResponse.json(
+        { error: "Station result not found" },
+        { status: 404 }
+      );
+    }
+
+    const stationDefinition = toStationDefinition(existingResult.stations);
+    const validationError = validateStationAttempts(
+      stationDefinition,
+      attempts
+    );
+
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    // Reject stale corrections so two operators can't overwrite each other
+    if (
+      expectedVersion !== undefined &&
+      expectedVersion !== existingResult.version
+    ) {
+      return NextResponse.json(
+        {
+          error: "Station result has been changed since it was loaded",
+          currentVersion: existingResult.version,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Re-run the scoring with the corrected attempts, using the rule set that
+    // was in effect and the participant's age when the result was first recorded
+    const ruleSet = await getEffectiveRuleSet(existingResult.created_at);
+    const aggregated = await scoreAttempts(
+      existingResult.participant_id,
+      stationDefinition,
+      attempts.map(compactMeasurements),
+      ruleSet,
+      existingResult.created_at
+    );
+    const measurements = aggregated.measurements;
+    const calculatedScore = aggregated.score;
+
+    // Update in place (keeps created_at and recorded_by), guarded by version, and
+    // record the version and the corrected attempts in the same transaction
+    const { data: updatedResult, error: updateError } = await supabase
+      .rpc("correct_station_result", {
+        p_result_id: resultId,
+        p_version: existingResult.version,
+        p_measurements: measurements as unknown as Json,
+        p_score: calculatedScore,
+        p_continuous_score: aggregated.continuousScore,
+        p_score_explanation: aggregated.explanation as unknown as Json,
+        p_unscorable_reason: aggregated.unscorableReason,
+        p_rule_set_id: ruleSet?.id ?? null,
+        p_attempts: toStationAttemptRows(aggregated.attempts),
+        p_changed_by: user.id,
+        p_reason: reason.trim(),
+      })
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("Error correcting station result:", updateError);
+      return NextResponse.json(
+        { error: "Failed to correct measurements" },
+        { status: 500 }
+      );
+    }
+
+    if (!updatedResult) {
+      return NextResponse.json(
+        { error: "Station result has been changed since it was loaded" },
+        { status: 409 }
+      );
+    }
+
+    // Record the correction in the audit trail
+    await recordStationAudit({
+      action: "correct",
+      stationType: existingResult.station_type,
+      stationResultId: resultId,
+      participantId: existingResult.participant_id,
+      participantCode: existingResult.participants.participant_code,
+      actor: { id: user.id, email: user.email },
+      before: {
+        measurements: existingResult.measurements,
+        score: existingResult.score,
+      },
+      after: { measurements, score: calculatedScore },
+      reason: reason.trim(),
+      metadata: getAuditRequestMetadata(request),
+    });
+
+    await publishLeaderboardEntry(existingResult.participant_id);
+
+    return NextResponse.json({
+      success: true,
+      result_id: updatedResult.id,
+      participant_id: updatedResult.participant_id,
+      participant_code: existingResult.participants.participant_code,
+      station_type: updatedResult.station_type,
+      measurements: measurements,
+      score: calculatedScore,
+      continuous_score: aggregated.continuousScore,
+      score_explanation: aggregated.explanation,
+      unscorable_reason: aggregated.unscorableReason,
+      warning: getUnscorableWarning(aggregated),
+      attempts: aggregated.attempts,
+      previous_score: existingResult.score,
+      version: updatedResult.version,
+      created_at: updatedResult.created_at,
+      updated_at: updatedResult.updated_at,
+    });
+  } catch (error) {
+    console.error("Station results PATCH API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
 // DELETE /api/station-results - Delete a station result by ID
 export async function DELETE(request: NextRequest) {
   try {
@@ -233,6 +559,7 @@ export async function DELETE(request: NextRequest) {
         station_id,
         station_type,
         measurements,
+        score,
         created_at,
         participants!inner(participant_code),
         stations!inner(station_type)
@@ -262,16 +589,24 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Log the deletion for audit purposes
-    console.log("Station result deleted:", {
-      result_id: resultId,
-      participant_id: existingResult.participant_id,
-      participant_code: existingResult.participants.participant_code,
-      station_type: existingResult.station_type,
-      deleted_by: user.email || user.id,
-      deleted_at: new Date().toISOString(),
+    // Record the deletion in the audit trail
+    await recordStationAudit({
+      action: "delete",
+      stationType: existingResult.station_type,
+      stationResultId: resultId,
+      participantId: existingResult.participant_id,
+      participantCode: existingResult.participants.participant_code,
+      actor: { id: user.id, email: user.email },
+      before: {
+        measurements: existingResult.measurements,
+        score: existingResult.score,
+      },
+      reason: url.searchParams.get("reason"),
+      metadata: getAuditRequestMetadata(request),
     });
 
+    await publishLeaderboardEntry(existingResult.participant_id);
+
     return NextResponse.json({
       success: true,
       message: "Station result deleted successfully",
@@ -291,6 +626,32 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
+// Sort keys of the last row on a page, passed back as the next page's cursor
+interface LeaderboardCursor {
+  sort_value: number;
+  sort_text: string;
+  total_score: number;
+  // Tie-breaker values in the scoring profile's order
+  tie_breaks: number[];
+  participant_code: string;
+}
+
+function encodeLeaderboardCursor(cursor: LeaderboardCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeLeaderboardCursor(value: string): LeaderboardCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    return typeof cursor?.participant_code === "string" &&
+      Array.isArray(cursor.tie_breaks)
+      ? cursor
+      : null;
+  } catch {
+    return null;
+  }
+}
+
 // GET /api/station-results - Get station results with pagination, sorting, and filtering
 export async function GET(request: NextRequest) {
   try {
@@ -321,203 +682,193 @@ export async function GET(request: NextRequest) {
     const order = url.searchParams.get("order") === "asc" ? "asc" : "desc";
     const nameFilter = url.searchParams.get("name_filter") || "";
     const orgFilter = url.searchParams.get("org_filter") || "";
+    const genderFilter = url.searchParams.get("gender_filter") || "";
+    // Segments rank participants among themselves
+    const ageBand = getAgeBand(url.searchParams.get("age_band"));
+    const organisation = url.searchParams.get("organisation")?.trim() || "";
+    const completionParam = url.searchParams.get("completion") || "";
+
+    // Leaderboard columns follow the active stations
+    const { data: stations, error: stationsError } = await supabase
+      .from("stations")
+      .select("station_type, name")
+      .eq("is_active", true)
+      .order("sort_order", { ascending: true });
 
-    // Validate sort field
-    const validSortFields = ["rank", "balance", "breath", "grip", "health", "total_score", "name", "organisation"];
-    const sortField = validSortFields.includes(sortBy) ? sortBy : "total_score";
-
-    // First get all participants with their station results
-    const { data: participants, error: participantsError } = await supabase
-      .from("participants")
-      .select(`
-        id,
-        participant_code,
-        user_id,
-        created_at,
-        station_results(
-          station_type,
-          score,
-          created_at
-        )
-      `);
-
-    if (participantsError) {
-      console.error("Error fetching participants:", participantsError);
+    if (stationsError) {
+      console.error("Error fetching stations:", stationsError);
       return NextResponse.json(
-        { error: "Failed to fetch station results" },
+        { error: "Failed to fetch stations" },
         { status: 500 }
       );
     }
 
-    if (!participants) {
-      return NextResponse.json({
-        results: [],
-        pagination: {
-          total: 0,
-          limit,
-          offset,
-          hasMore: false
-        }
-      });
-    }
-
-    // Get all user profiles for the participants
-    const userIds = participants.map((p) => p.user_id);
-    let profileQuery = supabase
-      .from("profiles")
-      .select("id, name, organisation, gender")
-      .in("id", userIds);
+    const stationColumns = stations || [];
+    const stationTypes = stationColumns.map((station) => station.station_type);
 
-    // Apply name filter if provided
-    if (nameFilter) {
-      profileQuery = profileQuery.ilike("name", `%${nameFilter}%`);
-    }
+    // Validate sort field
+    const validSortFields = ["rank", "total_score", "name", "organisation", ...stationTypes];
+    const sortField = validSortFields.includes(sortBy) ? sortBy : "total_score";
 
-    // Apply organisation filter if provided
-    if (orgFilter) {
-      profileQuery = profileQuery.ilike("organisation", `%${orgFilter}%`);
+    // Completion is all, partial or none of the stations, or one station type
+    const completion =
+      isCompletionSegment(completionParam) ||
+      stationTypes.includes(completionParam)
+        ? completionParam
+        : "";
+
+    const cursorParam = url.searchParams.get("cursor");
+    const cursor = cursorParam ? decodeLeaderboardCursor(cursorParam) : null;
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
     }
 
-    const { data: profiles, error: profilesError } = await profileQuery;
+    // Filters and segments, shared by the page and the count
+    const filters = {
+      p_name_filter: nameFilter || null,
+      p_org_filter: orgFilter || null,
+      p_gender_filter: isGender(genderFilter) ? genderFilter : null,
+      p_min_age: ageBand?.min_age ?? null,
+      p_max_age: ageBand?.max_age ?? null,
+      p_organisation: organisation || null,
+      p_completion: completion || null,
+    };
 
-    if (profilesError) {
-      console.error("Error fetching profiles:", profilesError);
+    // Totals and ranks are kept current by the database; this reads one ranked
+    // page and counts the participants it is a page of
+    const [
+      { data: entries, error: entriesError },
+      { data: count, error: countError },
+    ] = await Promise.all([
+      supabase.rpc("get_leaderboard", {
+        ...filters,
+        p_sort: sortField,
+        p_order: order,
+        // One extra row tells whether there is another page
+        p_limit: limit + 1,
+        p_offset: offset,
+        p_cursor: cursor ? { ...cursor } : null,
+      }),
+      supabase.rpc("count_leaderboard", filters),
+    ]);
+
+    if (entriesError || countError) {
+      console.error("Error fetching leaderboard:", entriesError || countError);
       return NextResponse.json(
-        { error: "Failed to fetch profile data" },
+        { error: "Failed to fetch station results" },
         { status: 500 }
       );
     }
 
-    // Create a map of profiles for quick lookup
-    const profileMap = new Map(profiles?.map((p) => [p.id, p]) || []);
-
-    // Process participants to calculate scores and rankings
-    const processedResults = participants
-      .filter((participant) => {
-        const profile = profileMap.get(participant.user_id);
-        if (!profile) return false;
-
-        // Apply filters at this stage
-        if (nameFilter && !profile.name?.toLowerCase().includes(nameFilter.toLowerCase())) {
-          return false;
-        }
-        if (orgFilter && !profile.organisation?.toLowerCase().includes(orgFilter.toLowerCase())) {
-          return false;
-        }
+    // Organisations to choose a segment from
+    const { data: organisations, error: organisationsError } =
+      await supabase.rpc("get_leaderboard_organisations");
 
-        return true;
-      })
-      .map((participant) => {
-        const profile = profileMap.get(participant.user_id);
+    if (organisationsError) {
+      console.error("Error fetching leaderboard organisations:", organisationsError);
+    }
 
-        // Extract scores from station results
-        const balanceResult = participant.station_results.find(
-          (r) => r.station_type === "balance"
-        );
-        const breathResult = participant.station_results.find(
-          (r) => r.station_type === "breath"
-        );
-        const gripResult = participant.station_results.find(
-          (r) => r.station_type === "grip"
-        );
-        const healthResult = participant.station_results.find(
-          (r) => r.station_type === "health"
+    const rows = (entries || []).slice(0, limit);
+    const hasMore = (entries || []).length > limit;
+
+    // Filters and segments rank participants among themselves, so only the
+    // full leaderboard is comparable with the last snapshot
+    const isFiltered = [
+      nameFilter,
+      orgFilter,
+      isGender(genderFilter) ? genderFilter : "",
+      ageBand?.value || "",
+      organisation,
+      completion,
+    ].some(Boolean);
+    const comparison = isFiltered
+      ? null
+      : await getLatestSnapshotRanks(
+          supabase,
+          rows.map((entry) => entry.participant_id)
         );
 
-        const scoreBalance = balanceResult?.score || null;
-        const scoreBreath = breathResult?.score || null;
-        const scoreGrip = gripResult?.score || null;
-        const scoreHealth = healthResult?.score || null;
-
-        // Calculate total score (only count completed stations)
-        const scores = [
-          scoreBalance,
-          scoreBreath,
-          scoreGrip,
-          scoreHealth,
-        ].filter((s) => s !== null) as number[];
-        const totalScore =
-          scores.length > 0
-            ? scores.reduce((sum, score) => sum + score, 0)
-            : 0;
-
-        // Get the most recent completion date
-        const completionDates = participant.station_results.map(
-          (r) => new Date(r.created_at)
-        );
-        const latestDate =
-          completionDates.length > 0
-            ? new Date(
-                Math.max(...completionDates.map((d) => d.getTime()))
-              ).toISOString()
-            : participant.created_at;
-
-        return {
-          id: participant.id,
-          participant_code: participant.participant_code,
-          name: profile?.name || "Unknown",
-          organisation: profile?.organisation || null,
-          gender: profile?.gender || null,
-          balance: scoreBalance,
-          breath: scoreBreath,
-          grip: scoreGrip,
-          health: scoreHealth,
-          total_score: totalScore,
-          completed_stations: scores.length,
-          latest_completion: latestDate,
-          rank: 0, // Will be set after sorting
-        };
-      })
-      // Sort by total score first to calculate ranks
-      .sort((a, b) => (b.total_score || 0) - (a.total_score || 0))
-      .map((entry, index) => ({
-        ...entry,
-        rank: index + 1,
-      }));
-
-    // Now apply the requested sorting
-    let sortedResults = [...processedResults];
-
-    if (sortField === "name") {
-      sortedResults.sort((a, b) => {
-        const aVal = a.name || "";
-        const bVal = b.name || "";
-        return order === "asc" ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal);
-      });
-    } else if (sortField === "organisation") {
-      sortedResults.sort((a, b) => {
-        const aVal = a.organisation || "";
-        const bVal = b.organisation || "";
-        return order === "asc" ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal);
-      });
-    } else {
-      // Numeric sorting for scores and rank
-      sortedResults.sort((a, b) => {
-        const aVal = a[sortField as keyof typeof a] as number || 0;
-        const bVal = b[sortField as keyof typeof b] as number || 0;
-        return order === "asc" ? aVal - bVal : bVal - aVal;
-      });
-    }
+    const results = rows.map((entry) => {
+      const scores = (entry.scores || {}) as Record<string, number | null>;
+      const continuousScores = entry.continuous_scores as Record<
+        string,
+        number | null
+      > | null;
+
+      return {
+        id: entry.participant_id,
+        participant_code: entry.participant_code,
+        name: entry.name || "Unknown",
+        organisation: entry.organisation,
+        gender: entry.gender,
+        // One score per active station, null when not completed
+        scores: Object.fromEntries(
+          stationTypes.map((stationType) => [stationType, scores[stationType] ?? null])
+        ),
+        total_score: Number(entry.total_score),
+        max_possible_score: Number(entry.max_possible_score),
+        percentage: entry.percentage === null ? null : Number(entry.percentage),
+        grade: entry.grade,
+        // Continuous scores are only returned when the profile enables them
+        continuous_score:
+          entry.continuous_score === null ? null : Number(entry.continuous_score),
+        continuous_scores: continuousScores
+          ? Object.fromEntries(
+              stationTypes.map((stationType) => [
+                stationType,
+                continuousScores[stationType] ?? null,
+              ])
+            )
+          : null,
+        completed_stations: entry.completed_stations,
+        pending_stations: entry.pending_stations,
+        latest_completion: entry.latest_completion,
+        // Participants who can't be separated share a rank
+        rank: Number(entry.rank),
+        tied: entry.tied,
+        // Rank in the last snapshot; null when not compared or not in it
+        previous_rank: comparison?.ranks.get(entry.participant_id) ?? null,
+      };
+    });
 
-    // Apply pagination
-    const total = sortedResults.length;
-    const paginatedResults = sortedResults.slice(offset, offset + limit);
-    const hasMore = offset + limit < total;
+    const total = Number(count ?? 0);
+    const lastRow = rows[rows.length - 1];
 
     return NextResponse.json({
-      results: paginatedResults,
+      results,
+      stations: stationColumns,
       pagination: {
         total,
         limit,
         offset,
-        hasMore
+        hasMore,
+        // Keyset cursor for the page after this one
+        nextCursor:
+          hasMore && lastRow
+            ? encodeLeaderboardCursor({
+                sort_value: Number(lastRow.sort_value),
+                sort_text: lastRow.sort_text,
+                total_score: Number(lastRow.total_score),
+                tie_breaks: lastRow.tie_breaks.map(Number),
+                participant_code: lastRow.participant_code,
+              })
+            : null,
       },
       filters: {
         sort: sortField,
         order,
         name_filter: nameFilter,
-        org_filter: orgFilter
-      }
+        org_filter: orgFilter,
+        gender_filter: isGender(genderFilter) ? genderFilter : "",
+        age_band: ageBand?.value || "",
+        organisation,
+        completion
+      },
+      segments: {
+        organisations: (organisations || []).map((org) => org.organisation),
+      },
+      // Snapshot that previous_rank comes from
+      comparison: comparison?.snapshot || null,
     });
   } catch (error) {
     console.error("Station results GET API error:", error);
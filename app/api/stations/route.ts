@@ -1,10 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createAdminClient } from "@/lib/supabase/server";
+import { createAdminClient, createRouteHandlerClient } from "@/lib/supabase/server";
+import { validateStationMetrics } from "@/lib/stations/metrics";
 import type { Station } from "@/lib/types/database";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
+async function verifyAdminAccess() {
+  const userSupabase = await createRouteHandlerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await userSupabase.auth.getUser();
+
+  if (userError || !user) {
+    return { error: "Authentication required", status: 401, user: null };
+  }
+
+  const supabase = createAdminClient();
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile || profile.role !== "admin") {
+    return { error: "Admin access required", status: 403, user: null };
+  }
+
+  return { error: null, status: 200, user, supabase };
+}
+
 // GET /api/stations - Get all active stations
 export async function GET(request: NextRequest) {
   try {
@@ -42,10 +68,12 @@ export async function GET(request: NextRequest) {
 // PUT /api/stations - Update station (admin only)
 export async function PUT(request: NextRequest) {
   try {
-    const supabase = createAdminClient();
-
-    // For admin client, we skip auth check since it bypasses RLS
-    // In production, add proper API key validation here
+    // Metrics drive validation and scoring, and every change re-scores the
+    // leaderboard
+    const { error: authError, status, supabase } = await verifyAdminAccess();
+    if (authError) {
+      return NextResponse.json({ error: authError }, { status });
+    }
 
     const body = await request.json();
     const { id, ...updateData } = body;
@@ -57,8 +85,16 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // Forms, scoring and the leaderboard are generated from the metrics
+    if (updateData.metrics !== undefined) {
+      const metricsError = validateStationMetrics(updateData.metrics);
+      if (metricsError) {
+        return NextResponse.json({ error: metricsError }, { status: 400 });
+      }
+    }
+
     // Update the station
-    const { data: station, error } = await supabase
+    const { data: station, error } = await supabase!
       .from('stations')
       .update(updateData)
       .eq('id', id)
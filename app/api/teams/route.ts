@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminClient,
+  createRouteHandlerClient,
+} from "@/lib/supabase/server";
+import { getActiveScoringProfile } from "@/lib/scoring/calculator";
+import type { TeamStanding } from "@/lib/types/database";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// GET /api/teams - Organisations ranked by the mean total of their best members
+export async function GET(request: NextRequest) {
+  try {
+    const userSupabase = await createRouteHandlerClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await userSupabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Note: The team leaderboard is accessible to all authenticated users
+    const supabase = createAdminClient();
+
+    const url = new URL(request.url);
+    const limit = Math.min(parseInt(url.searchParams.get("limit") || "20"), 100);
+    const offset = parseInt(url.searchParams.get("offset") || "0");
+
+    const { data: teams, error: teamsError } = await supabase.rpc(
+      "get_team_leaderboard",
+      { p_limit: limit, p_offset: offset }
+    );
+
+    if (teamsError) {
+      console.error("Error fetching team leaderboard:", teamsError);
+      return NextResponse.json(
+        { error: "Failed to fetch team leaderboard" },
+        { status: 500 }
+      );
+    }
+
+    const { team_top_members, team_min_members } =
+      await getActiveScoringProfile();
+
+    const rows = teams || [];
+    const results: TeamStanding[] = rows.map((team) => ({
+      organisation_id: team.organisation_id,
+      name: team.name,
+      members: Number(team.members),
+      counted_members: Number(team.counted_members),
+      team_score: Number(team.team_score),
+      best_score: Number(team.best_score),
+      eligible: team.eligible,
+      rank: team.rank === null ? null : Number(team.rank),
+      tied: team.tied,
+    }));
+
+    const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+    return NextResponse.json({
+      results,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+      // How team scores are calculated, from the active scoring profile
+      scoring: {
+        top_members: team_top_members,
+        min_members: team_min_members,
+      },
+    });
+  } catch (error) {
+    console.error("Team leaderboard GET API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
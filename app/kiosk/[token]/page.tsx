@@ -0,0 +1,247 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { Trophy, Medal, Award, Flag, AlertCircle } from "lucide-react";
+import { useKioskView } from "@/lib/hooks/useKioskDisplays";
+import type { KioskStanding } from "@/lib/types/database";
+
+const TICKER_SECONDS = 5;
+
+const PODIUM_STYLES = [
+  { icon: Trophy, color: "text-yellow-400", height: "h-40" },
+  { icon: Medal, color: "text-gray-300", height: "h-32" },
+  { icon: Award, color: "text-amber-600", height: "h-24" },
+];
+
+function formatRank(standing: KioskStanding) {
+  if (standing.rank === null) return "-";
+  return `${standing.tied ? "=" : ""}${standing.rank}`;
+}
+
+// Cycle through a list, restarting when its length changes
+function useRotation(length: number, seconds: number) {
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    setIndex(0);
+    if (length < 2) return;
+
+    const interval = setInterval(() => {
+      setIndex((current) => (current + 1) % length);
+    }, seconds * 1000);
+
+    return () => clearInterval(interval);
+  }, [length, seconds]);
+
+  return length > 0 ? index % length : 0;
+}
+
+function useClock() {
+  const [now, setNow] = useState<Date | null>(null);
+
+  useEffect(() => {
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return now;
+}
+
+export default function KioskPage() {
+  const params = useParams();
+  const token = params.token as string;
+
+  const { data, error, isLoading } = useKioskView(token);
+  const now = useClock();
+
+  const boards = data?.boards || [];
+  const finishers = data?.recent_finishers || [];
+  const boardIndex = useRotation(
+    boards.length,
+    data?.display.rotation_seconds || 20
+  );
+  const finisherIndex = useRotation(finishers.length, TICKER_SECONDS);
+
+  // Without data there's nothing to show; with data, keep showing the last
+  // boards through a failed refresh
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-gray-950 text-white flex items-center justify-center">
+        {isLoading ? (
+          <p className="text-2xl text-gray-400 animate-pulse">
+            Loading leaderboard...
+          </p>
+        ) : (
+          <div className="text-center space-y-4">
+            <AlertCircle className="h-16 w-16 mx-auto text-red-500" />
+            <p className="text-3xl font-bold">This display can't be shown</p>
+            <p className="text-xl text-gray-400">
+              {error?.message || "Failed to load the leaderboard"}
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const { display, podium } = data;
+  const board = boards[boardIndex];
+  const finisher = finishers[finisherIndex];
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white flex flex-col overflow-hidden">
+      {/* Branding */}
+      <header
+        className="flex items-center justify-between px-10 py-6"
+        style={{ backgroundColor: display.primary_color }}
+      >
+        <div className="flex items-center gap-6">
+          {display.logo_url && (
+            <img
+              src={display.logo_url}
+              alt=""
+              className="h-16 w-auto object-contain"
+            />
+          )}
+          <h1 className="text-5xl font-bold tracking-tight">
+            {display.event_name}
+          </h1>
+        </div>
+        <div className="text-right">
+          <p className="text-4xl font-semibold tabular-nums">
+            {now?.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+          </p>
+          {error && (
+            <p className="text-sm opacity-75">Reconnecting...</p>
+          )}
+        </div>
+      </header>
+
+      <main className="flex-1 grid grid-cols-3 gap-10 px-10 py-8">
+        {/* Rotating board */}
+        <section className="col-span-2 flex flex-col">
+          <div className="flex items-center justify-between mb-6">
+            <h2
+              key={board?.key}
+              className="text-4xl font-bold animate-in fade-in slide-in-from-left-4 duration-700"
+              style={{ color: display.accent_color }}
+            >
+              {board?.title}
+            </h2>
+            <div className="flex gap-2">
+              {boards.map((item, index) => (
+                <span
+                  key={item.key}
+                  className="h-3 w-3 rounded-full transition-colors"
+                  style={{
+                    backgroundColor:
+                      index === boardIndex
+                        ? display.accent_color
+                        : "rgb(75 85 99)",
+                  }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div
+            key={board?.key}
+            className="flex-1 space-y-3 animate-in fade-in duration-700"
+          >
+            {board && board.rows.length > 0 ? (
+              board.rows.map((row, index) => (
+                <div
+                  key={`${row.name}-${index}`}
+                  className="flex items-center gap-6 rounded-xl bg-gray-900 px-6 py-4"
+                >
+                  <span className="w-16 text-3xl font-bold text-gray-400 tabular-nums">
+                    {formatRank(row)}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-3xl font-semibold truncate">{row.name}</p>
+                    {row.detail && (
+                      <p className="text-lg text-gray-400 truncate">
+                        {row.detail}
+                      </p>
+                    )}
+                  </div>
+                  <span
+                    className="text-4xl font-bold tabular-nums"
+                    style={{ color: display.accent_color }}
+                  >
+                    {row.score}
+                  </span>
+                </div>
+              ))
+            ) : (
+              <p className="text-2xl text-gray-500">No scores yet</p>
+            )}
+          </div>
+        </section>
+
+        {/* Podium */}
+        <section className="flex flex-col">
+          <h2 className="text-4xl font-bold mb-6">Podium</h2>
+          <div className="flex-1 flex items-end justify-center gap-4">
+            {[1, 0, 2].map((position) => {
+              const standing = podium[position];
+              const style = PODIUM_STYLES[position];
+              const Icon = style.icon;
+              return (
+                <div
+                  key={position}
+                  className="flex-1 flex flex-col items-center text-center"
+                >
+                  {standing && (
+                    <>
+                      <Icon className={`h-12 w-12 mb-2 ${style.color}`} />
+                      <p className="text-xl font-semibold line-clamp-2">
+                        {standing.name}
+                      </p>
+                      <p className="text-lg text-gray-400 mb-3 tabular-nums">
+                        {standing.score} pts
+                      </p>
+                    </>
+                  )}
+                  <div
+                    className={`w-full ${style.height} rounded-t-xl flex items-start justify-center pt-3 text-4xl font-bold`}
+                    style={{ backgroundColor: display.primary_color }}
+                  >
+                    {standing ? formatRank(standing) : position + 1}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      </main>
+
+      {/* Recent finishers ticker */}
+      <footer className="flex items-center gap-6 bg-gray-900 px-10 py-5 text-2xl">
+        <span
+          className="flex items-center gap-2 font-bold uppercase tracking-wide shrink-0"
+          style={{ color: display.accent_color }}
+        >
+          <Flag className="h-6 w-6" />
+          Just finished
+        </span>
+        {finisher ? (
+          <p
+            key={`${finisher.name}-${finisher.finished_at}`}
+            className="truncate animate-in fade-in slide-in-from-right-8 duration-700"
+          >
+            <span className="font-semibold">{finisher.name}</span>
+            {finisher.organisation && (
+              <span className="text-gray-400"> · {finisher.organisation}</span>
+            )}
+            <span className="text-gray-400"> · {finisher.total_score} pts</span>
+          </p>
+        ) : (
+          <p className="text-gray-500">Waiting for the first finishers</p>
+        )}
+      </footer>
+    </div>
+  );
+}
@@ -13,15 +13,19 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AuthenticatedLayout } from "@/components/layout/authenticated-layout";
-import { Users, CheckCircle, AlertTriangle, Trash2 } from "lucide-react";
-import { StationEntryForm } from "@/components/station/station-entry-form";
+import { Users, CheckCircle, AlertTriangle, PencilLine } from "lucide-react";
+import {
+  StationEntryForm,
+  type StationSubmission,
+} from "@/components/station/station-entry-form";
+import { ResultHistory } from "@/components/station/result-history";
 import { useAuthContext } from "@/components/providers/auth-provider";
 import { isOperator } from "@/lib/auth/useApiAuth";
 import { useStations } from "@/lib/hooks/useStations";
 import { useParticipant } from "@/lib/hooks/useParticipant";
 import {
   useSubmitStationResult,
-  useDeleteStationResult,
+  useCorrectStationResult,
 } from "@/lib/hooks/useStationResults";
 import { getIconByName } from "@/lib/utils/icons";
 import type { StationType } from "@/lib/types/database";
@@ -42,13 +46,17 @@ export default function StationParticipantPage() {
     error: participantError,
   } = useParticipant(participantCode);
   const submitStationResult = useSubmitStationResult();
-  const deleteStationResult = useDeleteStationResult();
+  const correctStationResult = useCorrectStationResult();
   const [selectedStation, setSelectedStation] = useState<StationType | null>(
     null
   );
-  const [submitted, setSubmitted] = useState(false);
+  const [submitted, setSubmitted] = useState<"recorded" | "corrected" | null>(
+    null
+  );
+  // Set when the result was saved but its score is pending
+  const [submitWarning, setSubmitWarning] = useState<string | null>(null);
   const [existingResult, setExistingResult] = useState<any>(null);
-  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [isCorrecting, setIsCorrecting] = useState(false);
 
   const currentStation =
     selectedStation && stations
@@ -126,26 +134,48 @@ export default function StationParticipantPage() {
   const handleStationSelect = (stationId: StationType) => {
     setSelectedStation(stationId);
     setExistingResult(null); // Clear any existing result when selecting new station
+    setIsCorrecting(false);
+  };
+
+  const resetEntry = () => {
+    setSubmitted(null);
+    setSubmitWarning(null);
+    setSelectedStation(null);
+    setExistingResult(null);
+    setIsCorrecting(false);
   };
 
-  const handleDataSubmit = async (measurements: any) => {
+  const showConfirmation = (
+    kind: "recorded" | "corrected",
+    warning: string | null
+  ) => {
+    setSubmitted(kind);
+    setSubmitWarning(warning);
+
+    // Reset after a delay, unless the operator needs to read a warning
+    if (!warning) {
+      setTimeout(resetEntry, 3000);
+    }
+  };
+
+  // Multi-attempt stations submit their attempts for server-side aggregation
+  const toSubmissionPayload = (data: StationSubmission) =>
+    "attempts" in data
+      ? { attempts: data.attempts as Record<string, number>[] }
+      : { measurements: data as Record<string, number> };
+
+  const handleDataSubmit = async (data: StationSubmission) => {
     if (!selectedStation) return;
 
     try {
-      await submitStationResult.mutateAsync({
+      const result = await submitStationResult.mutateAsync({
         participantCode,
         stationType: selectedStation,
-        measurements,
+        ...toSubmissionPayload(data),
       });
 
       // Success! Show confirmation and reset
-      setSubmitted(true);
-
-      // Reset after a delay
-      setTimeout(() => {
-        setSubmitted(false);
-        setSelectedStation(null);
-      }, 3000);
+      showConfirmation("recorded", result.warning);
     } catch (error: any) {
       // Handle duplicate result (409 Conflict)
       if (error.isConflict) {
@@ -153,6 +183,12 @@ export default function StationParticipantPage() {
           error: error.message,
           existingResultId: error.existingResultId || "unknown",
           recordedAt: error.recordedAt || new Date().toISOString(),
+          measurements: error.existingMeasurements || null,
+          score: error.existingScore ?? null,
+          version: error.existingVersion,
+          attempts: (error.existingAttempts || []).map(
+            (attempt: any) => attempt.measurements
+          ),
           stationType: selectedStation,
           participantCode,
         });
@@ -168,24 +204,25 @@ export default function StationParticipantPage() {
     }
   };
 
-  const handleDeleteExistingResult = async () => {
-    if (!existingResult?.existingResultId) return;
+  const handleCorrectionSubmit = async (
+    data: StationSubmission,
+    correctionReason?: string
+  ) => {
+    if (!existingResult?.existingResultId || !correctionReason) return;
 
     try {
-      await deleteStationResult.mutateAsync(existingResult.existingResultId);
-
-      // Clear existing result and hide confirmation dialog
-      setExistingResult(null);
-      setShowDeleteConfirm(false);
+      const result = await correctStationResult.mutateAsync({
+        resultId: existingResult.existingResultId,
+        ...toSubmissionPayload(data),
+        reason: correctionReason,
+        expectedVersion: existingResult.version,
+      });
 
-      // Show success message
-      alert(
-        "Existing result has been deleted. You can now enter new measurements."
-      );
+      showConfirmation("corrected", result.warning);
     } catch (error) {
-      console.error("Error deleting existing result:", error);
+      console.error("Error correcting existing result:", error);
       alert(
-        `Failed to delete existing result: ${
+        `Failed to correct result: ${
           error instanceof Error ? error.message : "Unknown error"
         }`
       );
@@ -233,15 +270,33 @@ export default function StationParticipantPage() {
           </div>
         </div>
 
-        {submitted ? (
+        {submitted && submitWarning ? (
+          <Card className="max-w-md mx-auto">
+            <CardContent className="text-center py-8">
+              <AlertTriangle className="h-16 w-16 text-amber-500 mx-auto mb-4" />
+              <h2 className="text-2xl font-bold text-amber-700 dark:text-amber-400 mb-2">
+                Saved - Score Pending
+              </h2>
+              <p className="text-gray-600 dark:text-gray-300 mb-4">
+                {submitWarning}
+              </p>
+              <p className="text-sm text-muted-foreground mb-4">
+                Let an admin know so it can be fixed and re-scored.
+              </p>
+              <Button onClick={resetEntry}>Continue</Button>
+            </CardContent>
+          </Card>
+        ) : submitted ? (
           <Card className="max-w-md mx-auto">
             <CardContent className="text-center py-8">
               <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
               <h2 className="text-2xl font-bold text-green-700 dark:text-green-400 mb-2">
-                Score Recorded!
+                {submitted === "corrected" ? "Result Corrected!" : "Score Recorded!"}
               </h2>
               <p className="text-gray-600 dark:text-gray-300">
-                Measurements for {participantCode} have been saved.
+                {submitted === "corrected"
+                  ? `The corrected measurements for ${participantCode} have been saved.`
+                  : `Measurements for ${participantCode} have been saved.`}
               </p>
             </CardContent>
           </Card>
@@ -278,10 +333,7 @@ export default function StationParticipantPage() {
                           key={station.id}
                           variant="outline"
                           onClick={() =>
-                            handleStationSelect(
-                              (station.station_type as StationType) ??
-                                ("balance" as StationType)
-                            )
+                            handleStationSelect(station.station_type)
                           }
                           className="h-auto p-6 flex flex-col items-center gap-4 hover:bg-muted/50"
                         >
@@ -384,63 +436,43 @@ export default function StationParticipantPage() {
                               existingResult.recordedAt
                             ).toLocaleString()}
                           </p>
+                          <p>
+                            <span className="font-medium">Score:</span>{" "}
+                            {existingResult.score ?? "Pending"}
+                          </p>
                         </div>
 
-                        {showDeleteConfirm ? (
-                          <div className="space-y-4 p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
-                            <div className="flex items-center gap-2 text-red-800 dark:text-red-200">
-                              <AlertTriangle className="h-5 w-5" />
-                              <span className="font-medium">
-                                Confirm Deletion
-                              </span>
-                            </div>
-                            <p className="text-sm text-red-700 dark:text-red-300">
-                              Are you sure you want to delete the existing
-                              result? This action cannot be undone.
-                            </p>
-                            <div className="flex gap-2">
-                              <Button
-                                variant="destructive"
-                                size="sm"
-                                onClick={handleDeleteExistingResult}
-                                disabled={deleteStationResult.isPending}
-                              >
-                                {deleteStationResult.isPending ? (
-                                  <>
-                                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-                                    Deleting...
-                                  </>
-                                ) : (
-                                  <>
-                                    <Trash2 className="h-4 w-4 mr-2" />
-                                    Yes, Delete
-                                  </>
-                                )}
-                              </Button>
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => setShowDeleteConfirm(false)}
-                                disabled={deleteStationResult.isPending}
-                              >
-                                Cancel
-                              </Button>
-                            </div>
-                          </div>
+                        {existingResult.existingResultId !== "unknown" && (
+                          <ResultHistory
+                            resultId={existingResult.existingResultId}
+                          />
+                        )}
+
+                        {isCorrecting && currentStation ? (
+                          <StationEntryForm
+                            station={currentStation}
+                            participantCode={participantCode}
+                            onSubmit={handleCorrectionSubmit}
+                            isSubmitting={correctStationResult.isPending}
+                            initialValues={existingResult.measurements}
+                            initialAttempts={existingResult.attempts}
+                            isCorrection
+                          />
                         ) : (
                           <div className="space-y-2">
                             <p className="text-sm text-orange-700 dark:text-orange-300">
-                              To enter new measurements, you must first delete
-                              the existing result.
+                              If the recorded measurements are wrong, correct
+                              them in place. The original values are kept in
+                              the result history.
                             </p>
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => setShowDeleteConfirm(true)}
+                              onClick={() => setIsCorrecting(true)}
                               className="border-orange-300 text-orange-800 hover:bg-orange-100 dark:border-orange-700 dark:text-orange-200 dark:hover:bg-orange-900/20"
                             >
-                              <Trash2 className="h-4 w-4 mr-2" />
-                              Delete Existing Result
+                              <PencilLine className="h-4 w-4 mr-2" />
+                              Correct Result
                             </Button>
                           </div>
                         )}
@@ -450,9 +482,9 @@ export default function StationParticipantPage() {
                 )}
 
                 {/* Only show form if no existing result */}
-                {!existingResult && (
+                {!existingResult && currentStation && (
                   <StationEntryForm
-                    station={selectedStation}
+                    station={currentStation}
                     participantCode={participantCode}
                     onSubmit={handleDataSubmit}
                     isSubmitting={submitStationResult.isPending}
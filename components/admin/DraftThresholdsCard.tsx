@@ -0,0 +1,308 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileUp, Plus, RotateCcw, Trash2 } from "lucide-react";
+import {
+  getThresholdFileFormat,
+  parseThresholdFile,
+} from "@/lib/scoring/threshold-files";
+import {
+  THRESHOLD_GENDERS,
+  type ThresholdRange,
+} from "@/lib/scoring/thresholds";
+
+interface DraftThresholdsCardProps {
+  thresholds: ThresholdRange[];
+  onChange: (thresholds: ThresholdRange[]) => void;
+  // Restore the working thresholds
+  onReset: () => void;
+  stationTypes: string[];
+}
+
+function formatLabel(value: string) {
+  return value.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+}
+
+function toNumber(value: string) {
+  return value === "" ? NaN : Number(value);
+}
+
+export function DraftThresholdsCard({
+  thresholds,
+  onChange,
+  onReset,
+  stationTypes,
+}: DraftThresholdsCardProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const updateRow = (index: number, update: Partial<ThresholdRange>) => {
+    onChange(
+      thresholds.map((threshold, rowIndex) =>
+        rowIndex === index ? { ...threshold, ...update } : threshold
+      )
+    );
+  };
+
+  const addRow = () => {
+    onChange([
+      ...thresholds,
+      {
+        station_type: stationTypes[0] || "",
+        gender: THRESHOLD_GENDERS[0],
+        min_age: 18,
+        max_age: null,
+        min_average_value: 0,
+        max_average_value: 0,
+      },
+    ]);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+
+    const { thresholds: parsed, errors } = parseThresholdFile(
+      await selected.text(),
+      getThresholdFileFormat(selected.name),
+      stationTypes
+    );
+
+    if (errors.length > 0) {
+      setFileError(
+        errors
+          .map((error) =>
+            error.row > 0 ? `Row ${error.row}: ${error.message}` : error.message
+          )
+          .join("\n")
+      );
+      return;
+    }
+
+    setFileError(null);
+    onChange(parsed);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>Draft Thresholds</CardTitle>
+            <CardDescription>
+              Edit a copy of the working thresholds, or load a CSV/JSON
+              thresholds file. The draft replaces all thresholds when
+              simulating; health bands are taken from the working rules.
+              Nothing is saved.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button variant="outline" onClick={() => fileInput.current?.click()}>
+              <FileUp className="h-4 w-4 mr-2" />
+              Load File
+            </Button>
+            <Button variant="outline" onClick={onReset}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset
+            </Button>
+            <Button variant="outline" onClick={addRow}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Row
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {fileError && (
+          <Alert variant="destructive">
+            <AlertDescription className="whitespace-pre-line">
+              {fileError}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {thresholds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            The draft has no thresholds.
+          </p>
+        ) : (
+          <div className="max-h-[28rem] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Station</TableHead>
+                  <TableHead>Gender</TableHead>
+                  <TableHead>Min Age</TableHead>
+                  <TableHead>Max Age</TableHead>
+                  <TableHead>Min Average</TableHead>
+                  <TableHead>Max Average</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {thresholds.map((threshold, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Select
+                        value={threshold.station_type}
+                        onValueChange={(value) =>
+                          updateRow(index, { station_type: value })
+                        }
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue placeholder="Select station" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {stationTypes.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {formatLabel(type)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={threshold.gender}
+                        onValueChange={(value) =>
+                          updateRow(index, { gender: value })
+                        }
+                      >
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {THRESHOLD_GENDERS.map((gender) => (
+                            <SelectItem key={gender} value={gender}>
+                              {formatLabel(gender)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-20"
+                        value={
+                          Number.isNaN(threshold.min_age)
+                            ? ""
+                            : threshold.min_age
+                        }
+                        onChange={(e) =>
+                          updateRow(index, {
+                            min_age: toNumber(e.target.value),
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-20"
+                        placeholder="None"
+                        value={threshold.max_age ?? ""}
+                        onChange={(e) =>
+                          updateRow(index, {
+                            max_age:
+                              e.target.value === ""
+                                ? null
+                                : Number(e.target.value),
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        className="w-24"
+                        value={
+                          Number.isNaN(threshold.min_average_value)
+                            ? ""
+                            : threshold.min_average_value
+                        }
+                        onChange={(e) =>
+                          updateRow(index, {
+                            min_average_value: toNumber(e.target.value),
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        className="w-24"
+                        value={
+                          Number.isNaN(threshold.max_average_value)
+                            ? ""
+                            : threshold.max_average_value
+                        }
+                        onChange={(e) =>
+                          updateRow(index, {
+                            max_average_value: toNumber(e.target.value),
+                          })
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          onChange(
+                            thresholds.filter(
+                              (_, rowIndex) => rowIndex !== index
+                            )
+                          )
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
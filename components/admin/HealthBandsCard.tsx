@@ -0,0 +1,590 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { HeartPulse, Plus, Edit, Trash2 } from "lucide-react";
+import {
+  useHealthMetricBands,
+  useCreateHealthMetricBand,
+  useUpdateHealthMetricBand,
+  useDeleteHealthMetricBand,
+} from "@/lib/hooks/useHealthMetricBands";
+import { useStations, useUpdateStation } from "@/lib/hooks/useStations";
+import {
+  formatMetricLabel,
+  isMetricRequired,
+  isMetricScored,
+  parseStationMetrics,
+} from "@/lib/stations/metrics";
+import type {
+  ThresholdGender,
+  HealthMetricBand,
+  Json,
+  Station,
+  StationMetricDefinition,
+} from "@/lib/types/database";
+
+const GENDERS: ThresholdGender[] = ["male", "female"];
+const ANY_GENDER = "any";
+
+interface BandFormData {
+  metric_name: string;
+  gender: ThresholdGender | null;
+  min_age: number | null;
+  max_age: number | null;
+  optimal_min: number;
+  optimal_max: number;
+  acceptable_min: number;
+  acceptable_max: number;
+  description: string;
+}
+
+const EMPTY_FORM: BandFormData = {
+  metric_name: "",
+  gender: null,
+  min_age: null,
+  max_age: null,
+  optimal_min: 0,
+  optimal_max: 0,
+  acceptable_min: 0,
+  acceptable_max: 0,
+  description: "",
+};
+
+function getAgeRangeDisplay(minAge: number | null, maxAge: number | null) {
+  if (minAge === null && maxAge === null) return "All ages";
+  if (maxAge === null) return `${minAge}+`;
+  if (minAge === null) return `Up to ${maxAge}`;
+  return `${minAge}-${maxAge}`;
+}
+
+function getBandDescription(band: BandFormData | HealthMetricBand) {
+  return `Above Average: ${band.optimal_min}-${band.optimal_max} | Average: ${band.acceptable_min}-${band.acceptable_max} | Bad: outside`;
+}
+
+interface HealthBandsCardProps {
+  // Called after a change that can alter stored station scores
+  onScoringChange?: (stationType: string | null) => void;
+}
+
+export function HealthBandsCard({ onScoringChange }: HealthBandsCardProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingBand, setEditingBand] = useState<HealthMetricBand | null>(
+    null
+  );
+  const [formData, setFormData] = useState<BandFormData>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data: bands, isLoading, error } = useHealthMetricBands();
+  const { data: stations } = useStations();
+  const createBand = useCreateHealthMetricBand();
+  const updateBand = useUpdateHealthMetricBand();
+  const deleteBand = useDeleteHealthMetricBand();
+  const updateStation = useUpdateStation();
+
+  // Only metrics declared as band-scored can use health bands
+  const bandMetrics = (stations || []).flatMap((station) =>
+    parseStationMetrics(station.metrics).filter(
+      (metric) => metric.scoring === "bands"
+    )
+  );
+
+  // Stations scored against bands, e.g. the health station
+  const bandStations = (stations || []).filter((station) =>
+    parseStationMetrics(station.metrics).some(
+      (metric) => metric.scoring === "bands"
+    )
+  );
+
+  const handleToggleScored = async (
+    station: Station,
+    metric: StationMetricDefinition,
+    includeInScore: boolean
+  ) => {
+    const metrics = parseStationMetrics(station.metrics).map((m) =>
+      m.key === metric.key ? { ...m, include_in_score: includeInScore } : m
+    );
+
+    try {
+      await updateStation.mutateAsync({
+        id: station.id,
+        metrics: metrics as unknown as Json,
+      });
+      onScoringChange?.(station.station_type);
+    } catch (error) {
+      console.error("Error updating station metrics:", error);
+    }
+  };
+
+  const getMetricStationType = (metricName: string) =>
+    bandStations.find((station) =>
+      parseStationMetrics(station.metrics).some((m) => m.key === metricName)
+    )?.station_type ?? null;
+
+  const getMetricLabel = (metricName: string) => {
+    const metric = bandMetrics.find((m) => m.key === metricName);
+    return metric ? formatMetricLabel(metric) : metricName;
+  };
+
+  const openCreate = () => {
+    setEditingBand(null);
+    setFormData(EMPTY_FORM);
+    setFormError(null);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (band: HealthMetricBand) => {
+    setEditingBand(band);
+    setFormData({
+      metric_name: band.metric_name,
+      gender: band.gender as ThresholdGender | null,
+      min_age: band.min_age,
+      max_age: band.max_age,
+      optimal_min: band.optimal_min,
+      optimal_max: band.optimal_max,
+      acceptable_min: band.acceptable_min,
+      acceptable_max: band.acceptable_max,
+      description: band.description || "",
+    });
+    setFormError(null);
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingBand(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const payload = {
+      ...formData,
+      description: formData.description.trim() || null,
+    };
+
+    try {
+      if (editingBand) {
+        await updateBand.mutateAsync({ ...payload, id: editingBand.id });
+      } else {
+        await createBand.mutateAsync(payload);
+      }
+      onScoringChange?.(getMetricStationType(payload.metric_name));
+      closeDialog();
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to save health band"
+      );
+    }
+  };
+
+  const handleDelete = async (band: HealthMetricBand) => {
+    if (!confirm("Are you sure you want to delete this health metric band?"))
+      return;
+
+    try {
+      await deleteBand.mutateAsync(band.id);
+      onScoringChange?.(getMetricStationType(band.metric_name));
+    } catch (error) {
+      console.error("Error deleting health metric band:", error);
+    }
+  };
+
+  const setNumber = (field: keyof BandFormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: parseFloat(value) || 0 }));
+  };
+
+  const setOptionalAge = (field: "min_age" | "max_age", value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: value ? parseInt(value) : null,
+    }));
+  };
+
+  const isSaving = createBand.isPending || updateBand.isPending;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <HeartPulse className="h-5 w-5" />
+              Health Metric Bands
+            </CardTitle>
+            <CardDescription>
+              Optimal and acceptable ranges for health station metrics. The
+              most specific band for a participant's gender and age is used.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Band
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {bandStations.map((station) => (
+          <div key={station.id} className="mb-6 rounded-lg border p-4">
+            <h3 className="font-semibold mb-1">{station.name} Score</h3>
+            <p className="text-sm text-muted-foreground mb-3">
+              The station score averages the metrics that count and were
+              recorded; optional metrics left blank are skipped.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {parseStationMetrics(station.metrics)
+                .filter((metric) => metric.scoring === "bands")
+                .map((metric) => (
+                  <div
+                    key={metric.key}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <Label htmlFor={`scored_${station.id}_${metric.key}`}>
+                      {formatMetricLabel(metric)}
+                      {!isMetricRequired(metric) && (
+                        <span className="ml-1 font-normal text-muted-foreground">
+                          (optional)
+                        </span>
+                      )}
+                    </Label>
+                    <Switch
+                      id={`scored_${station.id}_${metric.key}`}
+                      checked={isMetricScored(metric)}
+                      onCheckedChange={(checked) =>
+                        handleToggleScored(station, metric, checked)
+                      }
+                      disabled={updateStation.isPending}
+                    />
+                  </div>
+                ))}
+            </div>
+          </div>
+        ))}
+
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>
+              Failed to load health metric bands. Please try refreshing the
+              page.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="text-sm text-muted-foreground">
+              Loading health metric bands...
+            </div>
+          </div>
+        ) : bands && bands.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Metric</TableHead>
+                  <TableHead>Gender</TableHead>
+                  <TableHead>Age Range</TableHead>
+                  <TableHead>Optimal</TableHead>
+                  <TableHead>Acceptable</TableHead>
+                  <TableHead>Scoring Description</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bands.map((band) => (
+                  <TableRow key={band.id}>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {getMetricLabel(band.metric_name)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {band.gender
+                        ? band.gender.charAt(0).toUpperCase() +
+                          band.gender.slice(1)
+                        : "Any"}
+                    </TableCell>
+                    <TableCell>
+                      {getAgeRangeDisplay(band.min_age, band.max_age)}
+                    </TableCell>
+                    <TableCell>
+                      {band.optimal_min} - {band.optimal_max}
+                    </TableCell>
+                    <TableCell>
+                      {band.acceptable_min} - {band.acceptable_max}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-xs text-muted-foreground">
+                        {band.description || getBandDescription(band)}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openEdit(band)}
+                          disabled={updateBand.isPending}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(band)}
+                          disabled={deleteBand.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <HeartPulse className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No health metric bands found. Create one to get started.</p>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Create / Edit Modal */}
+      <Dialog
+        open={isDialogOpen}
+        onOpenChange={(open) => (open ? setIsDialogOpen(true) : closeDialog())}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {editingBand ? "Edit Health Metric Band" : "Create Health Metric Band"}
+            </DialogTitle>
+            <DialogDescription>
+              Values inside the optimal range score 3, inside the acceptable
+              range 2, and anything else 1.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4">
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="band_metric_name">Metric</Label>
+                  <Select
+                    value={formData.metric_name}
+                    onValueChange={(value) =>
+                      setFormData((prev) => ({ ...prev, metric_name: value }))
+                    }
+                    disabled={!!editingBand}
+                  >
+                    <SelectTrigger id="band_metric_name">
+                      <SelectValue placeholder="Select metric" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {bandMetrics.map((metric) => (
+                        <SelectItem key={metric.key} value={metric.key}>
+                          {formatMetricLabel(metric)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="band_gender">Gender</Label>
+                  <Select
+                    value={formData.gender || ANY_GENDER}
+                    onValueChange={(value) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        gender:
+                          value === ANY_GENDER
+                            ? null
+                            : (value as ThresholdGender),
+                      }))
+                    }
+                  >
+                    <SelectTrigger id="band_gender">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_GENDER}>Any</SelectItem>
+                      {GENDERS.map((gender) => (
+                        <SelectItem key={gender} value={gender}>
+                          {gender.charAt(0).toUpperCase() + gender.slice(1)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="band_min_age">Min Age</Label>
+                  <Input
+                    id="band_min_age"
+                    type="number"
+                    min="0"
+                    value={formData.min_age ?? ""}
+                    onChange={(e) => setOptionalAge("min_age", e.target.value)}
+                    placeholder="Any"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="band_max_age">Max Age</Label>
+                  <Input
+                    id="band_max_age"
+                    type="number"
+                    min="0"
+                    value={formData.max_age ?? ""}
+                    onChange={(e) => setOptionalAge("max_age", e.target.value)}
+                    placeholder="No limit"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="band_optimal_min">Optimal Min</Label>
+                  <Input
+                    id="band_optimal_min"
+                    type="number"
+                    step="0.1"
+                    value={formData.optimal_min}
+                    onChange={(e) => setNumber("optimal_min", e.target.value)}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="band_optimal_max">Optimal Max</Label>
+                  <Input
+                    id="band_optimal_max"
+                    type="number"
+                    step="0.1"
+                    value={formData.optimal_max}
+                    onChange={(e) => setNumber("optimal_max", e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="band_acceptable_min">Acceptable Min</Label>
+                  <Input
+                    id="band_acceptable_min"
+                    type="number"
+                    step="0.1"
+                    value={formData.acceptable_min}
+                    onChange={(e) =>
+                      setNumber("acceptable_min", e.target.value)
+                    }
+                    required
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="band_acceptable_max">Acceptable Max</Label>
+                  <Input
+                    id="band_acceptable_max"
+                    type="number"
+                    step="0.1"
+                    value={formData.acceptable_max}
+                    onChange={(e) =>
+                      setNumber("acceptable_max", e.target.value)
+                    }
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="band_description">Description</Label>
+                <Input
+                  id="band_description"
+                  value={formData.description}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      description: e.target.value,
+                    }))
+                  }
+                  placeholder="Shown to operators and admins"
+                />
+              </div>
+
+              <div className="text-sm text-muted-foreground">
+                Scoring: {getBandDescription(formData)}
+              </div>
+            </div>
+
+            <DialogFooter className="mt-6">
+              <Button type="button" variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSaving || !formData.metric_name}
+              >
+                {isSaving
+                  ? editingBand
+                    ? "Updating..."
+                    : "Creating..."
+                  : editingBand
+                  ? "Update"
+                  : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,489 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, Edit, Link2, Monitor, Plus, Trash2 } from "lucide-react";
+import {
+  useKioskDisplays,
+  useCreateKioskDisplay,
+  useUpdateKioskDisplay,
+  useDeleteKioskDisplay,
+  useIssueKioskToken,
+  type KioskToken,
+} from "@/lib/hooks/useKioskDisplays";
+import {
+  KIOSK_BOARD_OPTIONS,
+  getKioskBoardLabel,
+  type KioskDisplayInput,
+} from "@/lib/kiosk/boards";
+import type { KioskDisplay } from "@/lib/types/database";
+
+const TOKEN_LIFETIMES = [
+  { value: "12", label: "12 hours" },
+  { value: "24", label: "1 day" },
+  { value: "72", label: "3 days" },
+  { value: "168", label: "1 week" },
+  { value: "336", label: "2 weeks" },
+];
+
+const EMPTY_FORM: Required<KioskDisplayInput> = {
+  name: "",
+  event_name: "",
+  logo_url: "",
+  primary_color: "#2563eb",
+  accent_color: "#facc15",
+  boards: ["overall", "teams"],
+  rotation_seconds: 20,
+  rows_per_board: 10,
+};
+
+function toFormData(display: KioskDisplay): Required<KioskDisplayInput> {
+  return {
+    name: display.name,
+    event_name: display.event_name,
+    logo_url: display.logo_url || "",
+    primary_color: display.primary_color,
+    accent_color: display.accent_color,
+    boards: display.boards,
+    rotation_seconds: display.rotation_seconds,
+    rows_per_board: display.rows_per_board,
+  };
+}
+
+export function KioskDisplaysCard() {
+  const [editing, setEditing] = useState<KioskDisplay | "new" | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const [linkDisplay, setLinkDisplay] = useState<KioskDisplay | null>(null);
+  const [lifetime, setLifetime] = useState("24");
+  const [revokeExisting, setRevokeExisting] = useState(false);
+  const [issuedToken, setIssuedToken] = useState<KioskToken | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  const { data: displays, isLoading, error } = useKioskDisplays();
+  const createDisplay = useCreateKioskDisplay();
+  const updateDisplay = useUpdateKioskDisplay();
+  const deleteDisplay = useDeleteKioskDisplay();
+  const issueToken = useIssueKioskToken();
+
+  const openEditor = (display: KioskDisplay | "new") => {
+    setEditing(display);
+    setFormData(display === "new" ? EMPTY_FORM : toFormData(display));
+    setFormError(null);
+  };
+
+  const toggleBoard = (board: string, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      boards: checked
+        ? KIOSK_BOARD_OPTIONS.map((option) => option.value).filter(
+            (value) => value === board || prev.boards.includes(value)
+          )
+        : prev.boards.filter((value) => value !== board),
+    }));
+  };
+
+  const handleSave = async () => {
+    const data = { ...formData, logo_url: formData.logo_url?.trim() || null };
+
+    setFormError(null);
+    try {
+      if (editing === "new") {
+        await createDisplay.mutateAsync(data);
+      } else if (editing) {
+        await updateDisplay.mutateAsync({ id: editing.id, ...data });
+      }
+      setEditing(null);
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to save kiosk display"
+      );
+    }
+  };
+
+  const handleDelete = async (display: KioskDisplay) => {
+    if (!confirm(`Delete "${display.name}"? Its screens will stop working.`)) {
+      return;
+    }
+
+    try {
+      await deleteDisplay.mutateAsync(display.id);
+    } catch (error) {
+      console.error("Error deleting kiosk display:", error);
+    }
+  };
+
+  const openLinkDialog = (display: KioskDisplay) => {
+    setLinkDisplay(display);
+    setLifetime("24");
+    setRevokeExisting(false);
+    setIssuedToken(null);
+    setLinkError(null);
+  };
+
+  const handleIssueToken = async () => {
+    if (!linkDisplay) return;
+
+    setLinkError(null);
+    try {
+      const token = await issueToken.mutateAsync({
+        id: linkDisplay.id,
+        expires_in_hours: parseInt(lifetime),
+        revoke_existing: revokeExisting,
+      });
+      setIssuedToken(token);
+    } catch (error) {
+      setLinkError(
+        error instanceof Error ? error.message : "Failed to create link"
+      );
+    }
+  };
+
+  const isSaving = createDisplay.isPending || updateDisplay.isPending;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Monitor className="h-5 w-5" />
+            Kiosk Displays
+          </CardTitle>
+          <CardDescription>
+            Read-only leaderboard screens for TVs at events. Screens open a
+            signed link, so they don&apos;t need anyone to log in.
+          </CardDescription>
+        </div>
+        <Button onClick={() => openEditor("new")}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Display
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>
+              Failed to load kiosk displays. Please try refreshing the page.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            Loading kiosk displays...
+          </div>
+        ) : displays && displays.length > 0 ? (
+          <div className="space-y-3">
+            {displays.map((display) => (
+              <div
+                key={display.id}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-4 rounded-lg border p-4"
+              >
+                <div className="flex items-center gap-4">
+                  <div className="flex gap-1">
+                    <span
+                      className="h-8 w-4 rounded-l"
+                      style={{ backgroundColor: display.primary_color }}
+                    />
+                    <span
+                      className="h-8 w-4 rounded-r"
+                      style={{ backgroundColor: display.accent_color }}
+                    />
+                  </div>
+                  <div>
+                    <p className="font-medium">{display.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {display.event_name} · every {display.rotation_seconds}s
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {display.boards.map((board) => (
+                        <Badge key={board} variant="outline">
+                          {getKioskBoardLabel(board)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openLinkDialog(display)}
+                  >
+                    <Link2 className="h-4 w-4 mr-1" />
+                    Link
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openEditor(display)}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(display)}
+                    disabled={deleteDisplay.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Monitor className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No kiosk displays yet.</p>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Display settings */}
+      <Dialog
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+      >
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editing === "new" ? "New Kiosk Display" : "Edit Kiosk Display"}
+            </DialogTitle>
+            <DialogDescription>
+              Branding and the boards the screen rotates through.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label>Display name</Label>
+              <Input
+                value={formData.name}
+                placeholder="e.g. Main hall TV"
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, name: e.target.value }))
+                }
+              />
+            </div>
+            <div>
+              <Label>Event name</Label>
+              <Input
+                value={formData.event_name}
+                placeholder="Shown in the screen header"
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    event_name: e.target.value,
+                  }))
+                }
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label>Logo URL</Label>
+              <Input
+                value={formData.logo_url || ""}
+                placeholder="https://..."
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, logo_url: e.target.value }))
+                }
+              />
+            </div>
+            <div>
+              <Label>Primary colour</Label>
+              <Input
+                type="color"
+                value={formData.primary_color}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    primary_color: e.target.value,
+                  }))
+                }
+              />
+            </div>
+            <div>
+              <Label>Accent colour</Label>
+              <Input
+                type="color"
+                value={formData.accent_color}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    accent_color: e.target.value,
+                  }))
+                }
+              />
+            </div>
+            <div>
+              <Label>Seconds per board</Label>
+              <Input
+                type="number"
+                min={5}
+                max={300}
+                value={formData.rotation_seconds}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    rotation_seconds: parseInt(e.target.value) || 0,
+                  }))
+                }
+              />
+            </div>
+            <div>
+              <Label>Rows per board</Label>
+              <Input
+                type="number"
+                min={3}
+                max={25}
+                value={formData.rows_per_board}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    rows_per_board: parseInt(e.target.value) || 0,
+                  }))
+                }
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label>Boards</Label>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2">
+                {KIOSK_BOARD_OPTIONS.map((option) => (
+                  <label
+                    key={option.value}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <Checkbox
+                      checked={formData.boards.includes(option.value)}
+                      onCheckedChange={(checked) =>
+                        toggleBoard(option.value, checked === true)
+                      }
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {formError && (
+            <Alert variant="destructive">
+              <AlertDescription>{formError}</AlertDescription>
+            </Alert>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Display link */}
+      <Dialog
+        open={linkDisplay !== null}
+        onOpenChange={(open) => !open && setLinkDisplay(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Kiosk Link</DialogTitle>
+            <DialogDescription>
+              Open this link on the screen for {linkDisplay?.name}. Anyone with
+              the link can view the display until it expires.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label>Valid for</Label>
+              <Select value={lifetime} onValueChange={setLifetime}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TOKEN_LIFETIMES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={revokeExisting}
+                onCheckedChange={(checked) => setRevokeExisting(checked === true)}
+              />
+              Stop earlier links for this display from working
+            </label>
+
+            {issuedToken && (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Input readOnly value={issuedToken.url} />
+                  <Button
+                    variant="outline"
+                    onClick={() => navigator.clipboard.writeText(issuedToken.url)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Expires {new Date(issuedToken.expires_at).toLocaleString()}
+                </p>
+              </div>
+            )}
+
+            {linkError && (
+              <Alert variant="destructive">
+                <AlertDescription>{linkError}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLinkDisplay(null)}>
+              Close
+            </Button>
+            <Button onClick={handleIssueToken} disabled={issueToken.isPending}>
+              {issueToken.isPending ? "Creating..." : "Create Link"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
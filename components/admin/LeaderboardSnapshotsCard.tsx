@@ -0,0 +1,217 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Camera, Clock, Plus, Trash2 } from "lucide-react";
+import {
+  useAdminLeaderboardSnapshots,
+  useCreateLeaderboardSnapshot,
+  useDeleteLeaderboardSnapshot,
+} from "@/lib/hooks/useLeaderboardSnapshots";
+import type { LeaderboardSnapshot } from "@/lib/types/database";
+
+export function LeaderboardSnapshotsCard() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [label, setLabel] = useState("");
+  // Local date and time from the datetime-local input; empty takes it now
+  const [scheduledFor, setScheduledFor] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data: snapshots, isLoading, error } = useAdminLeaderboardSnapshots();
+  const createSnapshot = useCreateLeaderboardSnapshot();
+  const deleteSnapshot = useDeleteLeaderboardSnapshot();
+
+  const openDialog = () => {
+    setLabel("");
+    setScheduledFor("");
+    setFormError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleCreate = async () => {
+    setFormError(null);
+    try {
+      await createSnapshot.mutateAsync({
+        label,
+        scheduled_for: scheduledFor
+          ? new Date(scheduledFor).toISOString()
+          : null,
+      });
+      setIsDialogOpen(false);
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to create snapshot"
+      );
+    }
+  };
+
+  const handleDelete = async (snapshot: LeaderboardSnapshot) => {
+    const message = snapshot.taken_at
+      ? `Delete "${snapshot.label}"? Its frozen standings will be lost.`
+      : `Cancel the scheduled snapshot "${snapshot.label}"?`;
+    if (!confirm(message)) return;
+
+    try {
+      await deleteSnapshot.mutateAsync(snapshot.id);
+    } catch (error) {
+      console.error("Error deleting leaderboard snapshot:", error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Camera className="h-5 w-5" />
+            Leaderboard Snapshots
+          </CardTitle>
+          <CardDescription>
+            Freeze the ranked leaderboard, e.g. at the close of each day or for
+            prize-giving. Participants can view snapshots from the leaderboard.
+          </CardDescription>
+        </div>
+        <Button onClick={openDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Snapshot
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>
+              Failed to load leaderboard snapshots. Please try refreshing the
+              page.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            Loading leaderboard snapshots...
+          </div>
+        ) : snapshots && snapshots.length > 0 ? (
+          <div className="space-y-3">
+            {snapshots.map((snapshot) => (
+              <div
+                key={snapshot.id}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-4 rounded-lg border p-4"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{snapshot.label}</p>
+                    {snapshot.taken_at ? (
+                      <Badge variant="outline">
+                        {snapshot.participant_count} participants
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary" className="gap-1">
+                        <Clock className="h-3 w-3" />
+                        Scheduled
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {snapshot.taken_at
+                      ? `Taken ${new Date(snapshot.taken_at).toLocaleString()}`
+                      : `Will be taken ${new Date(
+                          snapshot.scheduled_for!
+                        ).toLocaleString()}`}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDelete(snapshot)}
+                  disabled={deleteSnapshot.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Camera className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No snapshots yet.</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Snapshot</DialogTitle>
+            <DialogDescription>
+              Take a snapshot of the current standings now, or schedule one.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label>Label</Label>
+              <Input
+                value={label}
+                placeholder="e.g. Close of day 1"
+                maxLength={100}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Take at</Label>
+              <Input
+                type="datetime-local"
+                value={scheduledFor}
+                onChange={(e) => setScheduledFor(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Leave empty to take the snapshot now.
+              </p>
+            </div>
+
+            {formError && (
+              <Alert variant="destructive">
+                <AlertDescription>{formError}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={createSnapshot.isPending || !label.trim()}
+            >
+              {createSnapshot.isPending
+                ? "Saving..."
+                : scheduledFor
+                ? "Schedule"
+                : "Take Snapshot"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
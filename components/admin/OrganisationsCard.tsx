@@ -0,0 +1,314 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Building2, Edit, GitMerge, Plus, X } from "lucide-react";
+import {
+  useOrganisations,
+  useRenameOrganisation,
+  useAddOrganisationAlias,
+  useDeleteOrganisationAlias,
+  useMergeOrganisations,
+} from "@/lib/hooks/useOrganisations";
+import type { OrganisationSummary } from "@/lib/types/database";
+
+type DialogMode = "rename" | "alias" | "merge";
+
+const DIALOG_TITLES: Record<DialogMode, string> = {
+  rename: "Rename Organisation",
+  alias: "Add Alias",
+  merge: "Merge Organisation",
+};
+
+export function OrganisationsCard() {
+  const [search, setSearch] = useState("");
+  const [dialogMode, setDialogMode] = useState<DialogMode | null>(null);
+  const [selected, setSelected] = useState<OrganisationSummary | null>(null);
+  const [value, setValue] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data: organisations, isLoading, error } = useOrganisations();
+  const renameOrganisation = useRenameOrganisation();
+  const addAlias = useAddOrganisationAlias();
+  const deleteAlias = useDeleteOrganisationAlias();
+  const mergeOrganisations = useMergeOrganisations();
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return organisations || [];
+    return (organisations || []).filter(
+      (organisation) =>
+        organisation.name.toLowerCase().includes(term) ||
+        organisation.aliases.some((alias) =>
+          alias.alias.toLowerCase().includes(term)
+        )
+    );
+  }, [organisations, search]);
+
+  const openDialog = (mode: DialogMode, organisation: OrganisationSummary) => {
+    setDialogMode(mode);
+    setSelected(organisation);
+    setValue(mode === "rename" ? organisation.name : "");
+    setFormError(null);
+  };
+
+  const closeDialog = () => {
+    setDialogMode(null);
+    setSelected(null);
+    setValue("");
+    setFormError(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!selected || !dialogMode || !value.trim()) return;
+
+    setFormError(null);
+    try {
+      if (dialogMode === "rename") {
+        await renameOrganisation.mutateAsync({ id: selected.id, name: value });
+      } else if (dialogMode === "alias") {
+        await addAlias.mutateAsync({ organisation_id: selected.id, alias: value });
+      } else {
+        await mergeOrganisations.mutateAsync({
+          source_id: selected.id,
+          target_id: value,
+        });
+      }
+      closeDialog();
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to save organisation"
+      );
+    }
+  };
+
+  const handleDeleteAlias = async (aliasId: string) => {
+    try {
+      await deleteAlias.mutateAsync(aliasId);
+    } catch (error) {
+      console.error("Error deleting organisation alias:", error);
+    }
+  };
+
+  const isSaving =
+    renameOrganisation.isPending ||
+    addAlias.isPending ||
+    mergeOrganisations.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Organisations
+        </CardTitle>
+        <CardDescription>
+          Participants are grouped by the organisation they enter at signup,
+          ignoring case, punctuation and suffixes such as &quot;Ltd&quot;. Add
+          aliases for other spellings and merge duplicates into one team.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Input
+          placeholder="Search organisations or aliases"
+          className="max-w-sm"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              Failed to load organisations. Please try refreshing the page.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            Loading organisations...
+          </div>
+        ) : filtered.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Aliases</TableHead>
+                  <TableHead className="text-right">Members</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((organisation) => (
+                  <TableRow key={organisation.id}>
+                    <TableCell className="font-medium">
+                      {organisation.name}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {organisation.aliases.map((alias) => (
+                          <Badge
+                            key={alias.id}
+                            variant="secondary"
+                            className="gap-1"
+                          >
+                            {alias.alias}
+                            <button
+                              type="button"
+                              aria-label={`Remove alias ${alias.alias}`}
+                              onClick={() => handleDeleteAlias(alias.id)}
+                              disabled={deleteAlias.isPending}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {organisation.members}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openDialog("rename", organisation)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openDialog("alias", organisation)}
+                        >
+                          <Plus className="h-4 w-4 mr-1" />
+                          Alias
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openDialog("merge", organisation)}
+                        >
+                          <GitMerge className="h-4 w-4 mr-1" />
+                          Merge
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Building2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No organisations found.</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={dialogMode !== null}
+        onOpenChange={(open) => !open && closeDialog()}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialogMode && DIALOG_TITLES[dialogMode]}</DialogTitle>
+            <DialogDescription>
+              {dialogMode === "rename" &&
+                "The display name used on the team leaderboard."}
+              {dialogMode === "alias" &&
+                `Participants entering this name will join ${selected?.name}.`}
+              {dialogMode === "merge" &&
+                `${selected?.name} and its aliases become aliases of the chosen organisation, and its ${selected?.members} member(s) move across.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {dialogMode === "merge" ? (
+              <>
+                <Label>Merge into</Label>
+                <Select value={value} onValueChange={setValue}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select organisation" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(organisations || [])
+                      .filter((organisation) => organisation.id !== selected?.id)
+                      .map((organisation) => (
+                        <SelectItem key={organisation.id} value={organisation.id}>
+                          {organisation.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </>
+            ) : (
+              <>
+                <Label>{dialogMode === "rename" ? "Name" : "Alias"}</Label>
+                <Input
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  placeholder={
+                    dialogMode === "rename" ? "Organisation name" : "e.g. ACME"
+                  }
+                />
+              </>
+            )}
+
+            {formError && (
+              <Alert variant="destructive">
+                <AlertDescription>{formError}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSaving || !value.trim()}>
+              {isSaving ? "Saving..." : dialogMode === "merge" ? "Merge" : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
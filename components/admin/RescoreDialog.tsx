@@ -0,0 +1,393 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Calculator, Loader2 } from "lucide-react";
+import { useRescore } from "@/lib/hooks/useRescore";
+import { useRuleSets } from "@/lib/hooks/useRuleSets";
+import type { RescoreResult } from "@/lib/scoring/rescore";
+import type { Station } from "@/lib/types/database";
+
+const ALL_STATIONS = "all";
+// Score each result with the rule set in effect when it was recorded
+const RECORDED_RULE_SET = "recorded";
+// Keep the preview readable; the summary counts cover everything
+const PREVIEW_ROWS = 50;
+
+interface RescoreDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stations: Station[];
+  // Station whose scoring rules changed; null re-scores every station
+  initialStationType?: string | null;
+  onApplied?: (result: RescoreResult) => void;
+}
+
+function pluralize(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+export function RescoreDialog({
+  open,
+  onOpenChange,
+  stations,
+  initialStationType = null,
+  onApplied,
+}: RescoreDialogProps) {
+  const [stationType, setStationType] = useState<string>(ALL_STATIONS);
+  const [participantCode, setParticipantCode] = useState("");
+  const [ruleSetId, setRuleSetId] = useState<string>(RECORDED_RULE_SET);
+  const [preview, setPreview] = useState<RescoreResult | null>(null);
+  const [applied, setApplied] = useState<RescoreResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const rescore = useRescore();
+  const { data: ruleSets } = useRuleSets();
+
+  // Start from the station that was edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setStationType(initialStationType || ALL_STATIONS);
+    setParticipantCode("");
+    setRuleSetId(RECORDED_RULE_SET);
+    setPreview(null);
+    setApplied(null);
+    setError(null);
+  }, [open, initialStationType]);
+
+  const filters = {
+    stationType: stationType === ALL_STATIONS ? null : stationType,
+    participantCode: participantCode.trim() || null,
+    ruleSetId: ruleSetId === RECORDED_RULE_SET ? null : ruleSetId,
+  };
+
+  const handlePreview = async () => {
+    setError(null);
+    setApplied(null);
+    try {
+      setPreview(await rescore.mutateAsync({ ...filters, dryRun: true }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to preview re-score");
+    }
+  };
+
+  const handleApply = async () => {
+    setError(null);
+    try {
+      const result = await rescore.mutateAsync({ ...filters, dryRun: false });
+      setApplied(result);
+      setPreview(null);
+      onApplied?.(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to apply re-score");
+    }
+  };
+
+  const getStationName = (type: string) =>
+    stations.find((station) => station.station_type === type)?.name || type;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Calculator className="h-5 w-5" />
+            Re-score Station Results
+          </DialogTitle>
+          <DialogDescription>
+            Re-run the scoring calculator over recorded results with the current
+            scoring profile and, unless another is chosen, the rule set in
+            effect when each result was recorded. Preview the changes before
+            applying them; applied changes are recorded in the audit trail.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="rescore_station_type">Station</Label>
+              <Select
+                value={stationType}
+                onValueChange={(value) => {
+                  setStationType(value);
+                  setPreview(null);
+                }}
+              >
+                <SelectTrigger id="rescore_station_type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STATIONS}>All Stations</SelectItem>
+                  {stations.map((station) => (
+                    <SelectItem
+                      key={station.station_type}
+                      value={station.station_type}
+                    >
+                      {station.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="rescore_participant_code">Participant Code</Label>
+              <Input
+                id="rescore_participant_code"
+                value={participantCode}
+                onChange={(e) => {
+                  setParticipantCode(e.target.value);
+                  setPreview(null);
+                }}
+                placeholder="All participants"
+              />
+            </div>
+
+            {ruleSets && ruleSets.length > 0 && (
+              <div className="col-span-2">
+                <Label htmlFor="rescore_rule_set">Rule Set</Label>
+                <Select
+                  value={ruleSetId}
+                  onValueChange={(value) => {
+                    setRuleSetId(value);
+                    setPreview(null);
+                  }}
+                >
+                  <SelectTrigger id="rescore_rule_set">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={RECORDED_RULE_SET}>
+                      Version in effect when each result was recorded
+                    </SelectItem>
+                    {ruleSets.map((ruleSet) => (
+                      <SelectItem key={ruleSet.id} value={ruleSet.id}>
+                        v{ruleSet.version} {ruleSet.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {applied && (
+            <Alert>
+              <AlertDescription>
+                Updated {pluralize(applied.summary.resultsChanged, "result")}{" "}
+                for {pluralize(applied.summary.participantsAffected, "participant")}
+                ; {pluralize(applied.summary.gradesChanged, "participant")}{" "}
+                changed grade.
+                {applied.summary.resultsSkipped > 0 &&
+                  ` ${pluralize(
+                    applied.summary.resultsSkipped,
+                    "result"
+                  )} were corrected while the job ran and were skipped.`}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {preview && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="rounded-lg border p-3">
+                  <p className="text-2xl font-bold">
+                    {preview.summary.resultsChecked}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Results checked
+                  </p>
+                </div>
+                <div className="rounded-lg border p-3">
+                  <p className="text-2xl font-bold">
+                    {preview.summary.scoresChanged}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Scores change
+                  </p>
+                </div>
+                <div className="rounded-lg border p-3">
+                  <p className="text-2xl font-bold">
+                    {preview.summary.participantsAffected}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Participants affected
+                  </p>
+                </div>
+                <div className="rounded-lg border p-3">
+                  <p className="text-2xl font-bold">
+                    {preview.summary.gradesChanged}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Participants change grade
+                  </p>
+                </div>
+              </div>
+
+              {preview.summary.resultsUnscorable > 0 && (
+                <p className="text-sm text-amber-600">
+                  {pluralize(preview.summary.resultsUnscorable, "result")} can't
+                  be scored with the current rules and will stay pending.
+                </p>
+              )}
+
+              {preview.summary.resultsChanged === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  All stored scores already match the current scoring rules.
+                </p>
+              ) : (
+                <>
+                  {preview.gradeChanges.length > 0 && (
+                    <div>
+                      <h3 className="font-semibold mb-2">Totals and Grades</h3>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Participant</TableHead>
+                            <TableHead>Total</TableHead>
+                            <TableHead>Grade</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {preview.gradeChanges
+                            .slice(0, PREVIEW_ROWS)
+                            .map((change) => (
+                              <TableRow key={change.participantId}>
+                                <TableCell className="font-mono">
+                                  {change.participantCode}
+                                </TableCell>
+                                <TableCell>
+                                  {change.beforeTotal} → {change.afterTotal}
+                                </TableCell>
+                                <TableCell>
+                                  {change.beforeGrade === change.afterGrade ? (
+                                    change.afterGrade || "-"
+                                  ) : (
+                                    <Badge variant="outline">
+                                      {change.beforeGrade || "-"} →{" "}
+                                      {change.afterGrade || "-"}
+                                    </Badge>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+
+                  <div>
+                    <h3 className="font-semibold mb-2">Station Scores</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Participant</TableHead>
+                          <TableHead>Station</TableHead>
+                          <TableHead>Score</TableHead>
+                          <TableHead>Continuous</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.changes.slice(0, PREVIEW_ROWS).map((change) => (
+                          <TableRow key={change.resultId}>
+                            <TableCell className="font-mono">
+                              {change.participantCode}
+                            </TableCell>
+                            <TableCell>
+                              {getStationName(change.stationType)}
+                            </TableCell>
+                            <TableCell>
+                              {change.beforeScore ?? "-"} →{" "}
+                              {change.afterScore ?? "pending"}
+                            </TableCell>
+                            <TableCell className="text-muted-foreground">
+                              {change.beforeContinuousScore ?? "-"} →{" "}
+                              {change.afterContinuousScore ?? "-"}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    {preview.changes.length > PREVIEW_ROWS && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Showing the first {PREVIEW_ROWS} of{" "}
+                        {preview.changes.length} changed results
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Close
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handlePreview}
+            disabled={rescore.isPending}
+          >
+            {rescore.isPending && (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            )}
+            Preview Changes
+          </Button>
+          <Button
+            type="button"
+            onClick={handleApply}
+            disabled={
+              rescore.isPending ||
+              !preview ||
+              preview.summary.resultsChanged === 0
+            }
+          >
+            Apply{" "}
+            {preview
+              ? pluralize(preview.summary.resultsChanged, "Change")
+              : "Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
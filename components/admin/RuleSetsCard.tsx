@@ -0,0 +1,525 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { GitCompare, History, Upload } from "lucide-react";
+import {
+  usePublishRuleSet,
+  useRuleSetComparison,
+  useRuleSets,
+} from "@/lib/hooks/useRuleSets";
+import { DRAFT_RULE_SET_ID } from "@/lib/scoring/rule-set-diff";
+import type {
+  HealthBandDiff,
+  RuleSetReference,
+  ThresholdDiff,
+} from "@/lib/types/database";
+
+const STATUS_VARIANTS: Record<
+  ThresholdDiff["status"],
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  added: "default",
+  removed: "destructive",
+  changed: "secondary",
+  unchanged: "outline",
+};
+
+function formatLabel(value: string) {
+  return value.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+}
+
+function formatAgeRange(minAge: number | null, maxAge: number | null) {
+  if (minAge === null && maxAge === null) return "All ages";
+  if (maxAge === null) return `${minAge}+`;
+  if (minAge === null) return `Up to ${maxAge}`;
+  return `${minAge}-${maxAge}`;
+}
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString();
+}
+
+function formatReference(reference: RuleSetReference | null) {
+  return reference ? `v${reference.version} ${reference.name}` : "Working draft";
+}
+
+function formatThresholdValues(values: ThresholdDiff["before"]) {
+  return values
+    ? `${values.min_average_value} - ${values.max_average_value}`
+    : "—";
+}
+
+function formatBandValues(values: HealthBandDiff["before"]) {
+  return values
+    ? `${values.optimal_min}-${values.optimal_max} / ${values.acceptable_min}-${values.acceptable_max}`
+    : "—";
+}
+
+// Current local time in the format a datetime-local input expects
+function nowForInput() {
+  const now = new Date();
+  now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
+  return now.toISOString().slice(0, 16);
+}
+
+interface RuleSetsCardProps {
+  // Called after a change that can alter stored station scores
+  onScoringChange?: (stationType: string | null) => void;
+}
+
+export function RuleSetsCard({ onScoringChange }: RuleSetsCardProps) {
+  const [isPublishOpen, setIsPublishOpen] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [notes, setNotes] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState(nowForInput());
+  const [formError, setFormError] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState<string | undefined>();
+  const [compareTo, setCompareTo] = useState<string | undefined>();
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const { data: ruleSets, isLoading, error } = useRuleSets();
+  const publishRuleSet = usePublishRuleSet();
+  const {
+    data: comparison,
+    isLoading: isComparing,
+    error: compareError,
+  } = useRuleSetComparison(
+    isCompareOpen ? compareFrom : undefined,
+    isCompareOpen ? compareTo : undefined
+  );
+
+  const openPublish = () => {
+    setName("");
+    setNotes("");
+    setEffectiveFrom(nowForInput());
+    setFormError(null);
+    setIsPublishOpen(true);
+  };
+
+  const openCompare = (from?: string, to?: string) => {
+    const effective = ruleSets?.find((ruleSet) => ruleSet.is_effective);
+    setCompareFrom(from ?? effective?.id ?? ruleSets?.[0]?.id);
+    setCompareTo(to ?? DRAFT_RULE_SET_ID);
+    setShowUnchanged(false);
+    setIsCompareOpen(true);
+  };
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const effectiveDate = new Date(effectiveFrom);
+    try {
+      await publishRuleSet.mutateAsync({
+        name,
+        notes: notes.trim() || null,
+        effective_from: effectiveDate.toISOString(),
+      });
+      // Results already recorded after a backdated effective date were scored
+      // with the previous rules
+      if (effectiveDate.getTime() < Date.now() - 60 * 1000) {
+        onScoringChange?.(null);
+      }
+      setIsPublishOpen(false);
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to publish rule set"
+      );
+    }
+  };
+
+  const visibleThresholds = (comparison?.thresholds || []).filter(
+    (row) => showUnchanged || row.status !== "unchanged"
+  );
+  const visibleBands = (comparison?.health_bands || []).filter(
+    (row) => showUnchanged || row.status !== "unchanged"
+  );
+  const unchangedCount = comparison
+    ? comparison.thresholds.length +
+      comparison.health_bands.length -
+      comparison.thresholds.filter((row) => row.status !== "unchanged")
+        .length -
+      comparison.health_bands.filter((row) => row.status !== "unchanged")
+        .length
+    : 0;
+
+  const versionOptions = (
+    <>
+      <SelectItem value={DRAFT_RULE_SET_ID}>Working draft</SelectItem>
+      {(ruleSets || []).map((ruleSet) => (
+        <SelectItem key={ruleSet.id} value={ruleSet.id}>
+          v{ruleSet.version} {ruleSet.name}
+        </SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Rule Set Versions
+            </CardTitle>
+            <CardDescription>
+              Results are scored with the published version in effect when
+              they are recorded, and keep a record of it. Edits to thresholds
+              and health bands below are a working draft until published.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => openCompare()}
+              disabled={!ruleSets || ruleSets.length === 0}
+            >
+              <GitCompare className="h-4 w-4 mr-2" />
+              Compare
+            </Button>
+            <Button onClick={openPublish}>
+              <Upload className="h-4 w-4 mr-2" />
+              Publish Version
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>Failed to load rule set versions.</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            Loading rule set versions...
+          </div>
+        ) : ruleSets && ruleSets.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Effective From</TableHead>
+                  <TableHead>Rules</TableHead>
+                  <TableHead>Results</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ruleSets.map((ruleSet) => (
+                  <TableRow key={ruleSet.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">
+                          v{ruleSet.version} {ruleSet.name}
+                        </span>
+                        {ruleSet.is_effective && <Badge>In effect</Badge>}
+                      </div>
+                      {ruleSet.notes && (
+                        <div className="text-xs text-muted-foreground">
+                          {ruleSet.notes}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDateTime(ruleSet.effective_from)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {ruleSet.threshold_count} thresholds,{" "}
+                      {ruleSet.health_band_count} bands
+                      {ruleSet.youth_policy && (
+                        <div className="text-xs">
+                          {ruleSet.youth_policy === "block"
+                            ? "Adults only"
+                            : "Youth thresholds for under-18s"}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{ruleSet.results_count}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          openCompare(ruleSet.id, DRAFT_RULE_SET_ID)
+                        }
+                        title="Compare with the working draft"
+                      >
+                        <GitCompare className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            No versions published yet. Results are scored with the working
+            thresholds and bands until one is.
+          </div>
+        )}
+      </CardContent>
+
+      {/* Publish dialog */}
+      <Dialog open={isPublishOpen} onOpenChange={setIsPublishOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Publish Rule Set Version</DialogTitle>
+            <DialogDescription>
+              Snapshot the current thresholds, health bands and under-18
+              policy. Results recorded from the effective date on are scored
+              with this version.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handlePublish}>
+            <div className="space-y-4">
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div>
+                <Label htmlFor="rule_set_name">Name</Label>
+                <Input
+                  id="rule_set_name"
+                  placeholder="e.g. Spring event 2025"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="rule_set_effective_from">Effective From</Label>
+                <Input
+                  id="rule_set_effective_from"
+                  type="datetime-local"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="rule_set_notes">Notes</Label>
+                <Textarea
+                  id="rule_set_notes"
+                  placeholder="What changed in this version"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <DialogFooter className="mt-6">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsPublishOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={publishRuleSet.isPending}>
+                {publishRuleSet.isPending ? "Publishing..." : "Publish"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Compare dialog */}
+      <Dialog open={isCompareOpen} onOpenChange={setIsCompareOpen}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Compare Rule Sets</DialogTitle>
+            <DialogDescription>
+              Rows are matched on station or metric, gender and age range.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex gap-4 items-end flex-wrap">
+            <div>
+              <Label>From</Label>
+              <Select value={compareFrom} onValueChange={setCompareFrom}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Choose a version" />
+                </SelectTrigger>
+                <SelectContent>{versionOptions}</SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>To</Label>
+              <Select value={compareTo} onValueChange={setCompareTo}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Choose a version" />
+                </SelectTrigger>
+                <SelectContent>{versionOptions}</SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowUnchanged((prev) => !prev)}
+            >
+              {showUnchanged ? "Hide unchanged" : "Show unchanged"}
+            </Button>
+          </div>
+
+          {compareError && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {compareError instanceof Error
+                  ? compareError.message
+                  : "Failed to compare rule sets"}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {isComparing ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              Comparing...
+            </div>
+          ) : (
+            comparison && (
+              <div className="space-y-6">
+                <p className="text-sm text-muted-foreground">
+                  {formatReference(comparison.from)} →{" "}
+                  {formatReference(comparison.to)}
+                  {!showUnchanged && unchangedCount > 0 && (
+                    <> · {unchangedCount} unchanged rows hidden</>
+                  )}
+                </p>
+
+                <div>
+                  <h3 className="font-semibold mb-2">Scoring Thresholds</h3>
+                  {visibleThresholds.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Station</TableHead>
+                          <TableHead>Gender</TableHead>
+                          <TableHead>Age Range</TableHead>
+                          <TableHead>Before</TableHead>
+                          <TableHead>After</TableHead>
+                          <TableHead>Change</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {visibleThresholds.map((row) => (
+                          <TableRow key={row.key}>
+                            <TableCell>{formatLabel(row.station_type)}</TableCell>
+                            <TableCell>{formatLabel(row.gender)}</TableCell>
+                            <TableCell>
+                              {formatAgeRange(row.min_age, row.max_age)}
+                            </TableCell>
+                            <TableCell>
+                              {formatThresholdValues(row.before)}
+                            </TableCell>
+                            <TableCell>
+                              {formatThresholdValues(row.after)}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={STATUS_VARIANTS[row.status]}>
+                                {row.status}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      No threshold differences
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <h3 className="font-semibold mb-2">Health Bands</h3>
+                  {visibleBands.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Metric</TableHead>
+                          <TableHead>Gender</TableHead>
+                          <TableHead>Age Range</TableHead>
+                          <TableHead>Before (optimal / acceptable)</TableHead>
+                          <TableHead>After (optimal / acceptable)</TableHead>
+                          <TableHead>Change</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {visibleBands.map((row) => (
+                          <TableRow key={row.key}>
+                            <TableCell>{formatLabel(row.metric_name)}</TableCell>
+                            <TableCell>
+                              {row.gender ? formatLabel(row.gender) : "Any"}
+                            </TableCell>
+                            <TableCell>
+                              {formatAgeRange(row.min_age, row.max_age)}
+                            </TableCell>
+                            <TableCell>{formatBandValues(row.before)}</TableCell>
+                            <TableCell>{formatBandValues(row.after)}</TableCell>
+                            <TableCell>
+                              <Badge variant={STATUS_VARIANTS[row.status]}>
+                                {row.status}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      No health band differences
+                    </p>
+                  )}
+                </div>
+              </div>
+            )
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
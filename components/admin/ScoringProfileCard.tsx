@@ -0,0 +1,671 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Scale, Save } from "lucide-react";
+import {
+  useScoringProfile,
+  useUpdateScoringProfile,
+} from "@/lib/hooks/useScoringProfile";
+import { useStations } from "@/lib/hooks/useStations";
+import {
+  parseContinuousLimits,
+  parseStationWeights,
+  TIE_BREAKERS,
+  type ContinuousLimits,
+} from "@/lib/scoring/profile";
+import { parseStationMetrics } from "@/lib/stations/metrics";
+import type {
+  Json,
+  MissingStationPolicy,
+  RankingMethod,
+  TieBreaker,
+  YouthPolicy,
+} from "@/lib/types/database";
+
+interface ProfileFormData {
+  station_weights: Record<string, number>;
+  missing_station_policy: MissingStationPolicy;
+  missing_station_penalty: number;
+  above_average_min_pct: number;
+  average_min_pct: number;
+  continuous_scoring: boolean;
+  continuous_limits: Record<string, ContinuousLimits>;
+  youth_policy: YouthPolicy;
+  ranking_method: RankingMethod;
+  tie_breakers: TieBreaker[];
+  team_top_members: number;
+  team_min_members: number;
+}
+
+const MISSING_STATION_POLICIES: {
+  value: MissingStationPolicy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "exclude",
+    label: "Exclude",
+    description: "Missing stations are left out of the total and the maximum",
+  },
+  {
+    value: "zero",
+    label: "Count as zero",
+    description: "Missing stations score 0 but still count towards the maximum",
+  },
+  {
+    value: "penalise",
+    label: "Penalise",
+    description:
+      "Missing stations score 0 and deduct the penalty (times the station weight)",
+  },
+];
+
+const YOUTH_POLICIES: {
+  value: YouthPolicy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "block",
+    label: "Adults only",
+    description:
+      "Under-18s can't sign up, and any results recorded for them stay pending",
+  },
+  {
+    value: "youth_thresholds",
+    label: "Score with youth thresholds",
+    description:
+      "Under-18s are scored with thresholds and health bands whose age ranges start below 18",
+  },
+];
+
+const RANKING_METHODS: {
+  value: RankingMethod;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "competition",
+    label: "Standard (1, 2, 2, 4)",
+    description: "Tied participants share a rank and the next rank is skipped",
+  },
+  {
+    value: "dense",
+    label: "Dense (1, 2, 2, 3)",
+    description: "Tied participants share a rank and no ranks are skipped",
+  },
+];
+
+const TIE_BREAKER_LABELS: Record<TieBreaker, string> = {
+  completed_stations: "Most completed stations",
+  continuous_score: "Highest continuous score",
+  earliest_completion: "Earliest completion",
+};
+
+interface ScoringProfileCardProps {
+  // Called after a change that can alter stored station scores
+  onScoringChange?: (stationType: string | null) => void;
+}
+
+export function ScoringProfileCard({
+  onScoringChange,
+}: ScoringProfileCardProps) {
+  const { data: profile, isLoading, error } = useScoringProfile();
+  const { data: stations } = useStations();
+  const updateProfile = useUpdateScoringProfile();
+
+  const [formData, setFormData] = useState<ProfileFormData | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // Reset the form whenever the stored profile changes
+  useEffect(() => {
+    if (!profile) return;
+    setFormData({
+      station_weights: parseStationWeights(profile.station_weights),
+      missing_station_policy:
+        profile.missing_station_policy as MissingStationPolicy,
+      missing_station_penalty: profile.missing_station_penalty,
+      above_average_min_pct: profile.above_average_min_pct,
+      average_min_pct: profile.average_min_pct,
+      continuous_scoring: profile.continuous_scoring,
+      continuous_limits: parseContinuousLimits(profile.continuous_limits),
+      youth_policy: profile.youth_policy as YouthPolicy,
+      ranking_method: profile.ranking_method as RankingMethod,
+      tie_breakers: (profile.tie_breakers || []) as TieBreaker[],
+      team_top_members: profile.team_top_members,
+      team_min_members: profile.team_min_members,
+    });
+  }, [profile]);
+
+  const activeStations = (stations || []).filter(
+    (station) => station.is_active
+  );
+
+  // Floors and caps apply to the metric each station scores against thresholds
+  const thresholdStations = activeStations.flatMap((station) => {
+    const metric = parseStationMetrics(station.metrics).find(
+      (m) => m.scoring === "thresholds"
+    );
+    return metric ? [{ station, metric }] : [];
+  });
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !formData) return;
+
+    setFormError(null);
+    setSaved(false);
+
+    try {
+      await updateProfile.mutateAsync({
+        id: profile.id,
+        ...formData,
+        continuous_limits: formData.continuous_limits as Json,
+      });
+      setSaved(true);
+
+      // Totals and grades are derived on read, but continuous scores and
+      // under-18 results are stored
+      const limitsChanged =
+        JSON.stringify(formData.continuous_limits) !==
+        JSON.stringify(parseContinuousLimits(profile.continuous_limits));
+      if (limitsChanged || formData.youth_policy !== profile.youth_policy) {
+        onScoringChange?.(null);
+      }
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to save scoring profile"
+      );
+    }
+  };
+
+  const setWeight = (stationType: string, value: string) => {
+    setFormData((prev) =>
+      prev
+        ? {
+            ...prev,
+            station_weights: {
+              ...prev.station_weights,
+              [stationType]: value === "" ? 1 : parseFloat(value) || 0,
+            },
+          }
+        : prev
+    );
+  };
+
+  const setLimit = (
+    stationType: string,
+    field: keyof ContinuousLimits,
+    value: string
+  ) => {
+    setFormData((prev) => {
+      if (!prev) return prev;
+
+      const { [field]: _previous, ...rest } =
+        prev.continuous_limits[stationType] || {};
+      const limits =
+        value === "" ? rest : { ...rest, [field]: parseFloat(value) };
+
+      return {
+        ...prev,
+        continuous_limits: {
+          ...prev.continuous_limits,
+          [stationType]: limits,
+        },
+      };
+    });
+  };
+
+  // Tie-breakers are edited as ordered slots; clearing one drops the later ones
+  const setTieBreaker = (position: number, value: string) => {
+    setFormData((prev) => {
+      if (!prev) return prev;
+
+      const earlier = prev.tie_breakers.slice(0, position);
+      const tieBreakers =
+        value === "none"
+          ? earlier
+          : [
+              ...earlier,
+              value as TieBreaker,
+              ...prev.tie_breakers
+                .slice(position + 1)
+                .filter((tieBreaker) => tieBreaker !== value),
+            ];
+      return { ...prev, tie_breakers: tieBreakers };
+    });
+  };
+
+  const setNumber = (
+    field:
+      | "missing_station_penalty"
+      | "above_average_min_pct"
+      | "average_min_pct"
+      | "team_top_members"
+      | "team_min_members",
+    value: string
+  ) => {
+    setFormData((prev) =>
+      prev ? { ...prev, [field]: parseFloat(value) || 0 } : prev
+    );
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Scoring Profile
+        </CardTitle>
+        <CardDescription>
+          How station scores combine into leaderboard totals and grades
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>
+              Failed to load the scoring profile. Please try refreshing the
+              page.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading || !formData ? (
+          !error && (
+            <div className="text-center py-8">
+              <div className="text-sm text-muted-foreground">
+                Loading scoring profile...
+              </div>
+            </div>
+          )
+        ) : (
+          <form onSubmit={handleSave} className="space-y-6">
+            {formError && (
+              <Alert variant="destructive">
+                <AlertDescription>{formError}</AlertDescription>
+              </Alert>
+            )}
+
+            <div>
+              <h3 className="font-semibold mb-1">Station Weights</h3>
+              <p className="text-sm text-muted-foreground mb-3">
+                Each station score (1-3) is multiplied by its weight
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {activeStations.map((station) => (
+                  <div key={station.station_type}>
+                    <Label htmlFor={`weight_${station.station_type}`}>
+                      {station.name}
+                    </Label>
+                    <Input
+                      id={`weight_${station.station_type}`}
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={
+                        formData.station_weights[station.station_type] ?? 1
+                      }
+                      onChange={(e) =>
+                        setWeight(station.station_type, e.target.value)
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="missing_station_policy">Missing Stations</Label>
+                <Select
+                  value={formData.missing_station_policy}
+                  onValueChange={(value) =>
+                    setFormData((prev) =>
+                      prev
+                        ? {
+                            ...prev,
+                            missing_station_policy:
+                              value as MissingStationPolicy,
+                          }
+                        : prev
+                    )
+                  }
+                >
+                  <SelectTrigger id="missing_station_policy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MISSING_STATION_POLICIES.map((policy) => (
+                      <SelectItem key={policy.value} value={policy.value}>
+                        {policy.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {
+                    MISSING_STATION_POLICIES.find(
+                      (policy) =>
+                        policy.value === formData.missing_station_policy
+                    )?.description
+                  }
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="missing_station_penalty">
+                  Penalty per Missing Station
+                </Label>
+                <Input
+                  id="missing_station_penalty"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={formData.missing_station_penalty}
+                  onChange={(e) =>
+                    setNumber("missing_station_penalty", e.target.value)
+                  }
+                  disabled={formData.missing_station_policy !== "penalise"}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="youth_policy">Participants Under 18</Label>
+              <Select
+                value={formData.youth_policy}
+                onValueChange={(value) =>
+                  setFormData((prev) =>
+                    prev ? { ...prev, youth_policy: value as YouthPolicy } : prev
+                  )
+                }
+              >
+                <SelectTrigger id="youth_policy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {YOUTH_POLICIES.map((policy) => (
+                    <SelectItem key={policy.value} value={policy.value}>
+                      {policy.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                {
+                  YOUTH_POLICIES.find(
+                    (policy) => policy.value === formData.youth_policy
+                  )?.description
+                }
+                . Ages are taken on the date each result was recorded. Published
+                rule set versions keep the policy they were published with.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="font-semibold mb-1">Grade Cut-offs</h3>
+              <p className="text-sm text-muted-foreground mb-3">
+                Percentage of the maximum possible total needed for each grade
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="above_average_min_pct">
+                    Above Average from (%)
+                  </Label>
+                  <Input
+                    id="above_average_min_pct"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.above_average_min_pct}
+                    onChange={(e) =>
+                      setNumber("above_average_min_pct", e.target.value)
+                    }
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="average_min_pct">Average from (%)</Label>
+                  <Input
+                    id="average_min_pct"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.average_min_pct}
+                    onChange={(e) =>
+                      setNumber("average_min_pct", e.target.value)
+                    }
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="font-semibold mb-1">Ranking</h3>
+              <p className="text-sm text-muted-foreground mb-3">
+                Participants with equal totals are separated by the
+                tie-breakers in order; anyone still level shares a rank
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="ranking_method">Tied Ranks</Label>
+                  <Select
+                    value={formData.ranking_method}
+                    onValueChange={(value) =>
+                      setFormData((prev) =>
+                        prev
+                          ? { ...prev, ranking_method: value as RankingMethod }
+                          : prev
+                      )
+                    }
+                  >
+                    <SelectTrigger id="ranking_method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RANKING_METHODS.map((method) => (
+                        <SelectItem key={method.value} value={method.value}>
+                          {method.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {
+                      RANKING_METHODS.find(
+                        (method) => method.value === formData.ranking_method
+                      )?.description
+                    }
+                  </p>
+                </div>
+                {TIE_BREAKERS.map((_, position) => {
+                  // Each slot offers the tie-breakers not used by earlier slots
+                  if (position > formData.tie_breakers.length) return null;
+                  const options = TIE_BREAKERS.filter(
+                    (tieBreaker) =>
+                      !formData.tie_breakers
+                        .slice(0, position)
+                        .includes(tieBreaker)
+                  );
+                  return (
+                    <div key={position}>
+                      <Label htmlFor={`tie_breaker_${position}`}>
+                        Tie-breaker {position + 1}
+                      </Label>
+                      <Select
+                        value={formData.tie_breakers[position] || "none"}
+                        onValueChange={(value) =>
+                          setTieBreaker(position, value)
+                        }
+                      >
+                        <SelectTrigger id={`tie_breaker_${position}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          {options.map((tieBreaker) => (
+                            <SelectItem key={tieBreaker} value={tieBreaker}>
+                              {TIE_BREAKER_LABELS[tieBreaker]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="font-semibold mb-1">Team Leaderboard</h3>
+              <p className="text-sm text-muted-foreground mb-3">
+                Organisations are ranked by the mean total of their best
+                members. Only participants with a scored station count.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="team_top_members">Members counted</Label>
+                  <Input
+                    id="team_top_members"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={formData.team_top_members}
+                    onChange={(e) =>
+                      setNumber("team_top_members", e.target.value)
+                    }
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="team_min_members">Minimum members</Label>
+                  <Input
+                    id="team_min_members"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={formData.team_min_members}
+                    onChange={(e) =>
+                      setNumber("team_min_members", e.target.value)
+                    }
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between gap-4 mb-1">
+                <h3 className="font-semibold">Continuous Scoring</h3>
+                <Switch
+                  id="continuous_scoring"
+                  checked={formData.continuous_scoring}
+                  onCheckedChange={(checked) =>
+                    setFormData((prev) =>
+                      prev ? { ...prev, continuous_scoring: checked } : prev
+                    )
+                  }
+                />
+              </div>
+              <p className="text-sm text-muted-foreground mb-3">
+                Each result also gets a 0-100 score interpolated between the
+                thresholds. When enabled, it is shown on the leaderboard and
+                can be used as a tie-breaker. The floor and cap are the
+                measurements that score 0 and 100; left blank, the metric's
+                input range is used.
+              </p>
+              {formData.continuous_scoring && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {thresholdStations.map(({ station, metric }) => {
+                    const limits =
+                      formData.continuous_limits[station.station_type] || {};
+                    const isLowerBetter = metric.direction === "lower";
+                    return (
+                      <div
+                        key={station.station_type}
+                        className="grid grid-cols-2 gap-2"
+                      >
+                        <div>
+                          <Label htmlFor={`floor_${station.station_type}`}>
+                            {station.name} Floor
+                          </Label>
+                          <Input
+                            id={`floor_${station.station_type}`}
+                            type="number"
+                            step="any"
+                            value={limits.floor ?? ""}
+                            placeholder={String(
+                              isLowerBetter ? metric.max : metric.min
+                            )}
+                            onChange={(e) =>
+                              setLimit(
+                                station.station_type,
+                                "floor",
+                                e.target.value
+                              )
+                            }
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`cap_${station.station_type}`}>
+                            {station.name} Cap
+                          </Label>
+                          <Input
+                            id={`cap_${station.station_type}`}
+                            type="number"
+                            step="any"
+                            value={limits.cap ?? ""}
+                            placeholder={String(
+                              isLowerBetter ? metric.min : metric.max
+                            )}
+                            onChange={(e) =>
+                              setLimit(
+                                station.station_type,
+                                "cap",
+                                e.target.value
+                              )
+                            }
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Button type="submit" disabled={updateProfile.isPending}>
+                <Save className="h-4 w-4 mr-2" />
+                {updateProfile.isPending ? "Saving..." : "Save Profile"}
+              </Button>
+              {saved && (
+                <span className="text-sm text-muted-foreground">
+                  Saved - totals and grades use the new profile
+                </span>
+              )}
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
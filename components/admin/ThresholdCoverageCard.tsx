@@ -0,0 +1,169 @@
+"use client";
+
+import React from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Grid3x3 } from "lucide-react";
+import { useThresholdCoverage } from "@/lib/hooks/useScoringThresholds";
+import type {
+  CoverageRow,
+  CoverageSegment,
+  CoverageStatus,
+} from "@/lib/scoring/thresholds";
+
+const STATUS_CLASSES: Record<CoverageStatus, string> = {
+  covered: "bg-green-500/70",
+  gap: "bg-red-500",
+  overlap: "bg-amber-500",
+};
+
+function formatLabel(value: string) {
+  return value.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+}
+
+function formatSegmentAges(segment: CoverageSegment) {
+  return segment.min_age === segment.max_age
+    ? String(segment.min_age)
+    : `${segment.min_age}-${segment.max_age}`;
+}
+
+function describeProblems(row: CoverageRow) {
+  const gaps = row.segments.filter((segment) => segment.status === "gap");
+  const overlaps = row.segments.filter(
+    (segment) => segment.status === "overlap"
+  );
+
+  return [
+    gaps.length > 0 ? `Gaps: ${gaps.map(formatSegmentAges).join(", ")}` : null,
+    overlaps.length > 0
+      ? `Overlaps: ${overlaps.map(formatSegmentAges).join(", ")}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export function ThresholdCoverageCard() {
+  const { data: coverage, isLoading, error } = useThresholdCoverage();
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Grid3x3 className="h-5 w-5" />
+          Threshold Coverage
+        </CardTitle>
+        <CardDescription>
+          Every age from {coverage?.min_age ?? 18} to {coverage?.max_age ?? 100}{" "}
+          should match exactly one threshold for each station and gender.
+          Participants in a gap cannot be scored.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>
+              Failed to load threshold coverage.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            Checking coverage...
+          </div>
+        ) : coverage && coverage.rows.length > 0 ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-xs">
+              {coverage.summary.rows_with_gaps === 0 &&
+              coverage.summary.rows_with_overlaps === 0 ? (
+                <Badge variant="outline">All ages covered</Badge>
+              ) : (
+                <>
+                  {coverage.summary.rows_with_gaps > 0 && (
+                    <Badge variant="destructive">
+                      {coverage.summary.rows_with_gaps} with gaps
+                    </Badge>
+                  )}
+                  {coverage.summary.rows_with_overlaps > 0 && (
+                    <Badge variant="secondary">
+                      {coverage.summary.rows_with_overlaps} with overlaps
+                    </Badge>
+                  )}
+                </>
+              )}
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <span
+                  className={`h-3 w-3 rounded-sm ${STATUS_CLASSES.covered}`}
+                />
+                Covered
+              </span>
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <span
+                  className={`h-3 w-3 rounded-sm ${STATUS_CLASSES.gap}`}
+                />
+                Gap
+              </span>
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <span
+                  className={`h-3 w-3 rounded-sm ${STATUS_CLASSES.overlap}`}
+                />
+                Overlap
+              </span>
+            </div>
+
+            {coverage.rows.map((row) => {
+              const problems = describeProblems(row);
+              return (
+                <div key={`${row.station_type}-${row.gender}`}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-medium">
+                      {formatLabel(row.station_type)} ·{" "}
+                      {formatLabel(row.gender)}
+                    </span>
+                    {problems && (
+                      <span className="text-xs text-red-600">{problems}</span>
+                    )}
+                  </div>
+                  <div className="flex h-4 overflow-hidden rounded-sm">
+                    {row.segments.flatMap((segment) =>
+                      Array.from(
+                        { length: segment.max_age - segment.min_age + 1 },
+                        (_, index) => {
+                          const age = segment.min_age + index;
+                          return (
+                            <div
+                              key={age}
+                              className={`flex-1 border-r border-background last:border-r-0 ${STATUS_CLASSES[segment.status]}`}
+                              title={`Age ${age}: ${segment.status}`}
+                            />
+                          );
+                        }
+                      )
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{coverage.min_age}</span>
+              <span>{coverage.max_age}</span>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            No active stations are scored against thresholds.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
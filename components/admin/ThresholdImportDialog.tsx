@@ -0,0 +1,278 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileUp, Loader2 } from "lucide-react";
+import { useImportScoringThresholds } from "@/lib/hooks/useScoringThresholds";
+import {
+  getThresholdFileFormat,
+  THRESHOLD_FILE_COLUMNS,
+  type ThresholdFileFormat,
+  type ThresholdImportResult,
+} from "@/lib/scoring/threshold-files";
+import { formatThresholdAgeRange } from "@/lib/scoring/thresholds";
+import type { ThresholdDiff } from "@/lib/types/database";
+
+const STATUS_VARIANTS: Record<
+  ThresholdDiff["status"],
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  added: "default",
+  removed: "destructive",
+  changed: "secondary",
+  unchanged: "outline",
+};
+
+interface ThresholdImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApplied?: (result: ThresholdImportResult) => void;
+}
+
+function formatLabel(value: string) {
+  return value.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+}
+
+function formatValues(values: ThresholdDiff["before"]) {
+  return values
+    ? `${values.min_average_value} - ${values.max_average_value}`
+    : "—";
+}
+
+export function ThresholdImportDialog({
+  open,
+  onOpenChange,
+  onApplied,
+}: ThresholdImportDialogProps) {
+  const [file, setFile] = useState<{
+    name: string;
+    format: ThresholdFileFormat;
+    content: string;
+  } | null>(null);
+  const [preview, setPreview] = useState<ThresholdImportResult | null>(null);
+  const [applied, setApplied] = useState<ThresholdImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importThresholds = useImportScoringThresholds();
+
+  useEffect(() => {
+    if (!open) return;
+    setFile(null);
+    setPreview(null);
+    setApplied(null);
+    setError(null);
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    setPreview(null);
+    setApplied(null);
+    setError(null);
+
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+
+    setFile({
+      name: selected.name,
+      format: getThresholdFileFormat(selected.name),
+      content: await selected.text(),
+    });
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+    setError(null);
+    try {
+      setPreview(
+        await importThresholds.mutateAsync({
+          format: file.format,
+          content: file.content,
+          dryRun: true,
+        })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the file");
+    }
+  };
+
+  const handleApply = async () => {
+    if (!file) return;
+    setError(null);
+    try {
+      const result = await importThresholds.mutateAsync({
+        format: file.format,
+        content: file.content,
+        dryRun: false,
+      });
+      setApplied(result);
+      setPreview(null);
+      onApplied?.(result);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to import thresholds"
+      );
+    }
+  };
+
+  const changedRows = (preview?.diff || []).filter(
+    (row) => row.status !== "unchanged"
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Import Scoring Thresholds
+          </DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file with the columns{" "}
+            <span className="font-mono">{THRESHOLD_FILE_COLUMNS.join(", ")}</span>
+            . Leave max_age blank for open-ended ranges. The thresholds of
+            every station in the file are replaced in one step; other stations
+            are left alone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription className="whitespace-pre-line">
+                {error}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div>
+            <Label htmlFor="threshold_import_file">File</Label>
+            <Input
+              id="threshold_import_file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFileChange}
+            />
+          </div>
+
+          {applied && (
+            <Alert>
+              <AlertDescription>
+                Imported thresholds for{" "}
+                {applied.stationTypes.map(formatLabel).join(", ")}:{" "}
+                {applied.summary.added} added, {applied.summary.changed}{" "}
+                changed, {applied.summary.removed} removed.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="outline">
+                  Stations: {preview.stationTypes.map(formatLabel).join(", ")}
+                </Badge>
+                <Badge>{preview.summary.added} added</Badge>
+                <Badge variant="secondary">
+                  {preview.summary.changed} changed
+                </Badge>
+                <Badge variant="destructive">
+                  {preview.summary.removed} removed
+                </Badge>
+                <Badge variant="outline">
+                  {preview.summary.unchanged} unchanged
+                </Badge>
+              </div>
+
+              {changedRows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  The file matches the current thresholds.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Station</TableHead>
+                      <TableHead>Gender</TableHead>
+                      <TableHead>Age Range</TableHead>
+                      <TableHead>Current</TableHead>
+                      <TableHead>File</TableHead>
+                      <TableHead>Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changedRows.map((row) => (
+                      <TableRow key={row.key}>
+                        <TableCell>{formatLabel(row.station_type)}</TableCell>
+                        <TableCell>{formatLabel(row.gender)}</TableCell>
+                        <TableCell>
+                          {formatThresholdAgeRange(row.min_age, row.max_age)}
+                        </TableCell>
+                        <TableCell>{formatValues(row.before)}</TableCell>
+                        <TableCell>{formatValues(row.after)}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[row.status]}>
+                            {row.status}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handlePreview}
+            disabled={!file || importThresholds.isPending}
+          >
+            {importThresholds.isPending && !preview && (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            )}
+            Preview
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={
+              !preview ||
+              changedRows.length === 0 ||
+              importThresholds.isPending
+            }
+          >
+            {importThresholds.isPending && preview && (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            )}
+            Apply Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Loader2, EyeOff } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useUpdateLeaderboardVisibility } from "@/lib/hooks/useLeaderboardVisibility";
+import {
+  formatLeaderboardName,
+  isLeaderboardVisibility,
+  LEADERBOARD_ALIAS_MAX_LENGTH,
+  LEADERBOARD_VISIBILITY_OPTIONS,
+  validateLeaderboardVisibility,
+} from "@/lib/leaderboard/visibility";
+import type { LeaderboardVisibility } from "@/lib/types/database";
+
+interface LeaderboardVisibilityCardProps {
+  name: string;
+  visibility: string | null | undefined;
+  alias: string | null | undefined;
+}
+
+export function LeaderboardVisibilityCard({
+  name,
+  visibility,
+  alias,
+}: LeaderboardVisibilityCardProps) {
+  const savedVisibility: LeaderboardVisibility = isLeaderboardVisibility(visibility)
+    ? visibility
+    : "full_name";
+  const [selected, setSelected] = useState<LeaderboardVisibility>(savedVisibility);
+  const [aliasInput, setAliasInput] = useState(alias || "");
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const updateVisibility = useUpdateLeaderboardVisibility();
+
+  // Follow the profile when it is refreshed
+  useEffect(() => {
+    setSelected(savedVisibility);
+    setAliasInput(alias || "");
+  }, [savedVisibility, alias]);
+
+  const hasChanges =
+    selected !== savedVisibility ||
+    (selected === "alias" && aliasInput.trim() !== (alias || ""));
+  const preview = formatLeaderboardName(name, selected, aliasInput);
+
+  const handleSave = async () => {
+    setError(null);
+    setSaved(false);
+
+    const validationError = validateLeaderboardVisibility(selected, aliasInput);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      await updateVisibility.mutateAsync({
+        leaderboard_visibility: selected,
+        leaderboard_alias: selected === "alias" ? aliasInput.trim() : null,
+      });
+      setSaved(true);
+    } catch (err: any) {
+      setError(err?.message || "Failed to update leaderboard visibility");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <EyeOff className="h-5 w-5" />
+          Leaderboard Privacy
+        </CardTitle>
+        <CardDescription>
+          Choose how other participants see you on the leaderboard
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <RadioGroup
+          value={selected}
+          onValueChange={(value) => {
+            setSelected(value as LeaderboardVisibility);
+            setSaved(false);
+          }}
+          className="space-y-2"
+          disabled={updateVisibility.isPending}
+        >
+          {LEADERBOARD_VISIBILITY_OPTIONS.map((option) => (
+            <div key={option.value} className="flex items-start space-x-2">
+              <RadioGroupItem
+                value={option.value}
+                id={`visibility_${option.value}`}
+                className="mt-0.5"
+              />
+              <Label
+                htmlFor={`visibility_${option.value}`}
+                className="font-normal"
+              >
+                <span className="font-medium">{option.label}</span>
+                <span className="block text-xs text-muted-foreground">
+                  {option.description}
+                </span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        {selected === "alias" && (
+          <div className="space-y-2">
+            <Label htmlFor="leaderboard_alias">Alias</Label>
+            <Input
+              id="leaderboard_alias"
+              value={aliasInput}
+              onChange={(e) => {
+                setAliasInput(e.target.value);
+                setSaved(false);
+              }}
+              placeholder="Choose a leaderboard name"
+              maxLength={LEADERBOARD_ALIAS_MAX_LENGTH}
+              disabled={updateVisibility.isPending}
+            />
+          </div>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          {preview
+            ? `You appear as "${preview}".`
+            : "You don't appear on the leaderboard."}
+        </p>
+
+        <div className="flex items-center gap-3">
+          <Button
+            onClick={handleSave}
+            disabled={!hasChanges || updateVisibility.isPending}
+          >
+            {updateVisibility.isPending && (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            )}
+            Save
+          </Button>
+          {saved && !hasChanges && (
+            <span className="text-sm text-green-600">Saved</span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
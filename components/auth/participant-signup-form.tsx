@@ -25,6 +25,17 @@ import {
 } from "@/components/ui/form";
 
 import type { SignupData } from "@/lib/api/auth";
+import {
+  GENDER_OPTIONS,
+  requiresScoringReference,
+  SCORING_REFERENCE_OPTIONS,
+} from "@/lib/scoring/gender";
+import {
+  formatLeaderboardName,
+  LEADERBOARD_ALIAS_MAX_LENGTH,
+  LEADERBOARD_ALIAS_MIN_LENGTH,
+  LEADERBOARD_VISIBILITY_OPTIONS,
+} from "@/lib/leaderboard/visibility";
 
 const participantSignupSchema = z.object({
   // Personal Information
@@ -47,9 +58,10 @@ const participantSignupSchema = z.object({
           : age;
       return finalAge >= 10 && finalAge <= 95;
     }, "Age must be between 10 and 95 years"),
-  gender: z.enum(["male", "female"], {
+  gender: z.enum(["male", "female", "non_binary", "other", "prefer_not_to_say"], {
     required_error: "Please select your gender",
   }),
+  scoringReference: z.enum(["male", "female", "average"]).optional(),
   jobTitle: z
     .string()
     .max(100, "Job title must be less than 100 characters")
@@ -68,6 +80,16 @@ const participantSignupSchema = z.object({
     .max(20, "Phone number must be less than 20 characters")
     .optional(),
 
+  // Leaderboard Privacy
+  leaderboardVisibility: z.enum(["full_name", "initials", "alias", "hidden"]),
+  leaderboardAlias: z
+    .string()
+    .max(
+      LEADERBOARD_ALIAS_MAX_LENGTH,
+      `Alias must be ${LEADERBOARD_ALIAS_MAX_LENGTH} characters or fewer`
+    )
+    .optional(),
+
   // Password fields (required only if email is provided)
   password: z
     .string()
@@ -87,6 +109,23 @@ const participantSignupSchema = z.object({
     message: "You must agree to the data collection and use consent",
   }),
 })
+.refine((data) => {
+  // Thresholds exist for male and female only, so everyone else picks one
+  return !requiresScoringReference(data.gender) || !!data.scoringReference;
+}, {
+  message: "Please choose which thresholds you are scored against",
+  path: ["scoringReference"],
+})
+.refine((data) => {
+  // An alias has to be chosen before it can be shown
+  return (
+    data.leaderboardVisibility !== "alias" ||
+    (data.leaderboardAlias?.trim().length || 0) >= LEADERBOARD_ALIAS_MIN_LENGTH
+  );
+}, {
+  message: `Alias must be at least ${LEADERBOARD_ALIAS_MIN_LENGTH} characters`,
+  path: ["leaderboardAlias"],
+})
 .refine((data) => {
   // If email is provided, password is required
   if (data.email && data.email.trim()) {
@@ -133,10 +172,13 @@ export function ParticipantSignupForm({
       fullName: "",
       dateOfBirth: "",
       gender: undefined,
+      scoringReference: undefined,
       jobTitle: "",
       organization: "",
       email: "",
       phone: "",
+      leaderboardVisibility: "full_name",
+      leaderboardAlias: "",
       password: "",
       confirmPassword: "",
       consentWellness: false,
@@ -157,9 +199,17 @@ export function ParticipantSignupForm({
         password: data.password || "",
         dateOfBirth: data.dateOfBirth,
         gender: data.gender,
+        scoringReference: requiresScoringReference(data.gender)
+          ? data.scoringReference
+          : null,
         jobTitle: data.jobTitle?.trim() || "Not specified",
         organization: data.organization?.trim() || "Not specified",
         phone: data.phone?.trim(),
+        leaderboardVisibility: data.leaderboardVisibility,
+        leaderboardAlias:
+          data.leaderboardVisibility === "alias"
+            ? data.leaderboardAlias?.trim()
+            : null,
         consentWellness: data.consentWellness,
         consentLiability: data.consentLiability,
         consentData: data.consentData,
@@ -307,17 +357,23 @@ export function ParticipantSignupForm({
                         <RadioGroup
                           onValueChange={field.onChange}
                           value={field.value}
-                          className="flex gap-4"
+                          className="flex flex-wrap gap-x-4 gap-y-2"
                           disabled={isSubmitting}
                         >
-                          <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="male" id="male" />
-                            <Label htmlFor="male">Male</Label>
-                          </div>
-                          <div className="flex items-center space-x-2">
-                            <RadioGroupItem value="female" id="female" />
-                            <Label htmlFor="female">Female</Label>
-                          </div>
+                          {GENDER_OPTIONS.map((option) => (
+                            <div
+                              key={option.value}
+                              className="flex items-center space-x-2"
+                            >
+                              <RadioGroupItem
+                                value={option.value}
+                                id={option.value}
+                              />
+                              <Label htmlFor={option.value}>
+                                {option.label}
+                              </Label>
+                            </div>
+                          ))}
                         </RadioGroup>
                       </FormControl>
                       <FormMessage />
@@ -326,6 +382,50 @@ export function ParticipantSignupForm({
                 />
               </div>
 
+              {form.watch("gender") &&
+                requiresScoringReference(form.watch("gender")) && (
+                  <FormField
+                    control={form.control}
+                    name="scoringReference"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Score me against *</FormLabel>
+                        <FormDescription>
+                          Fitness norms are published for men and women. Choose
+                          which set your results are compared with; your gender
+                          is still recorded as you selected it.
+                        </FormDescription>
+                        <FormControl>
+                          <RadioGroup
+                            onValueChange={field.onChange}
+                            value={field.value}
+                            className="flex flex-wrap gap-x-4 gap-y-2"
+                            disabled={isSubmitting}
+                          >
+                            {SCORING_REFERENCE_OPTIONS.map((option) => (
+                              <div
+                                key={option.value}
+                                className="flex items-center space-x-2"
+                              >
+                                <RadioGroupItem
+                                  value={option.value}
+                                  id={`scoring_reference_${option.value}`}
+                                />
+                                <Label
+                                  htmlFor={`scoring_reference_${option.value}`}
+                                >
+                                  {option.label}
+                                </Label>
+                              </div>
+                            ))}
+                          </RadioGroup>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
               <FormField
                 control={form.control}
                 name="jobTitle"
@@ -492,6 +592,90 @@ export function ParticipantSignupForm({
               )}
             </div>
 
+            {/* Leaderboard Privacy Section */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold">Leaderboard Privacy</h3>
+
+              <FormField
+                control={form.control}
+                name="leaderboardVisibility"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Show me on the leaderboard as *</FormLabel>
+                    <FormDescription>
+                      You can change this later from your participation page.
+                    </FormDescription>
+                    <FormControl>
+                      <RadioGroup
+                        onValueChange={field.onChange}
+                        value={field.value}
+                        className="space-y-2"
+                        disabled={isSubmitting}
+                      >
+                        {LEADERBOARD_VISIBILITY_OPTIONS.map((option) => (
+                          <div
+                            key={option.value}
+                            className="flex items-start space-x-2"
+                          >
+                            <RadioGroupItem
+                              value={option.value}
+                              id={`leaderboard_visibility_${option.value}`}
+                              className="mt-0.5"
+                            />
+                            <Label
+                              htmlFor={`leaderboard_visibility_${option.value}`}
+                              className="font-normal"
+                            >
+                              <span className="font-medium">{option.label}</span>
+                              <span className="block text-xs text-muted-foreground">
+                                {option.description}
+                              </span>
+                            </Label>
+                          </div>
+                        ))}
+                      </RadioGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {form.watch("leaderboardVisibility") === "alias" && (
+                <FormField
+                  control={form.control}
+                  name="leaderboardAlias"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Alias *</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          placeholder="Choose a leaderboard name"
+                          disabled={isSubmitting}
+                          autoComplete="off"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {form.watch("fullName") && (
+                <p className="text-sm text-muted-foreground">
+                  {form.watch("leaderboardVisibility") === "hidden"
+                    ? "You won't appear on the leaderboard."
+                    : `You'll appear as "${
+                        formatLeaderboardName(
+                          form.watch("fullName"),
+                          form.watch("leaderboardVisibility"),
+                          form.watch("leaderboardAlias")
+                        ) || form.watch("fullName")
+                      }".`}
+                </p>
+              )}
+            </div>
+
             {/* Consent Forms Section */}
             <div className="space-y-4">
               <h3 className="text-lg font-semibold">Consent & Waivers</h3>
@@ -14,7 +14,20 @@ import {
 } from "@/components/ui/sheet";
 import { LogoutButton } from "@/components/auth/logout-button";
 import { useAuthContext } from "@/components/providers/auth-provider";
-import { Menu, Users, User, Settings, QrCode, BarChart3 } from "lucide-react";
+import {
+  Menu,
+  Users,
+  User,
+  Settings,
+  QrCode,
+  BarChart3,
+  History,
+  Clock,
+  FlaskConical,
+  Building2,
+  Monitor,
+  Camera,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 
 const navigationItems = [
@@ -37,6 +50,48 @@ const navigationItems = [
     description: "Manage scoring thresholds and demographics",
     adminOnly: true,
   },
+  {
+    title: "Audit Trail",
+    href: "/admin/audits",
+    icon: History,
+    description: "Review changes to station results",
+    adminOnly: true,
+  },
+  {
+    title: "Pending Results",
+    href: "/admin/pending-results",
+    icon: Clock,
+    description: "Fix and re-score results that couldn't be scored",
+    adminOnly: true,
+  },
+  {
+    title: "Score Simulator",
+    href: "/admin/score-simulator",
+    icon: FlaskConical,
+    description: "Try out scores and draft thresholds",
+    adminOnly: true,
+  },
+  {
+    title: "Organisations",
+    href: "/admin/organisations",
+    icon: Building2,
+    description: "Merge duplicate organisations and manage aliases",
+    adminOnly: true,
+  },
+  {
+    title: "Kiosk Displays",
+    href: "/admin/kiosk",
+    icon: Monitor,
+    description: "Leaderboard screens for events",
+    adminOnly: true,
+  },
+  {
+    title: "Snapshots",
+    href: "/admin/snapshots",
+    icon: Camera,
+    description: "Frozen leaderboard standings",
+    adminOnly: true,
+  },
 ];
 
 interface MobileAuthHeaderProps {
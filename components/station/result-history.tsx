@@ -0,0 +1,87 @@
+"use client";
+
+import React from "react";
+import { ChevronDown, History } from "lucide-react";
+
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Badge } from "@/components/ui/badge";
+import { useStationResultVersions } from "@/lib/hooks/useStationResults";
+import type { Json } from "@/lib/types/database";
+
+interface ResultHistoryProps {
+  resultId: string;
+}
+
+function formatMeasurements(measurements: Json): string {
+  if (!measurements || typeof measurements !== "object" || Array.isArray(measurements)) {
+    return "-";
+  }
+
+  return Object.entries(measurements)
+    .map(([key, value]) => `${key.replace(/_/g, " ")}: ${value}`)
+    .join(", ");
+}
+
+/**
+ * Every recorded version of a station result, newest first, with who changed
+ * it and why
+ */
+export function ResultHistory({ resultId }: ResultHistoryProps) {
+  const { data, isLoading, error } = useStationResultVersions(resultId);
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-muted-foreground">Loading result history...</p>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Result history is not available.
+      </p>
+    );
+  }
+
+  return (
+    <Collapsible>
+      <CollapsibleTrigger className="flex items-center gap-2 text-sm font-medium">
+        <History className="h-4 w-4" />
+        Result history ({data.versions.length}{" "}
+        {data.versions.length === 1 ? "version" : "versions"})
+        <ChevronDown className="h-4 w-4" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-3 space-y-2">
+        {data.versions.map((version) => (
+          <div key={version.id} className="rounded-md border bg-background p-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Version {version.version}</span>
+                {version.version === data.current_version && (
+                  <Badge variant="secondary">Current</Badge>
+                )}
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {new Date(version.created_at).toLocaleString()}
+              </span>
+            </div>
+            <p className="mt-1 text-muted-foreground">
+              {formatMeasurements(version.measurements)}
+            </p>
+            <p>
+              <span className="font-medium">Score:</span>{" "}
+              {version.score ?? "Pending"}
+            </p>
+            <p className="text-muted-foreground">
+              {version.reason ? `Reason: ${version.reason}` : "Originally recorded"}
+            </p>
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
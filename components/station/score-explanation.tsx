@@ -0,0 +1,166 @@
+"use client";
+
+import React from "react";
+import { ChevronDown, Info } from "lucide-react";
+
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import type {
+  MetricScoreExplanation,
+  ScoreExplanation,
+} from "@/lib/types/database";
+import { formatGender } from "@/lib/scoring/gender";
+
+interface ScoreExplanationDetailsProps {
+  explanation: ScoreExplanation;
+}
+
+function formatValue(value: number, unit?: string | null) {
+  return unit ? `${value} ${unit}` : String(value);
+}
+
+function formatAgeRange(minAge: number | null, maxAge: number | null) {
+  if (minAge === null && maxAge === null) return "all ages";
+  if (maxAge === null) return `age ${minAge}+`;
+  if (minAge === null) return `age up to ${maxAge}`;
+  return `age ${minAge}-${maxAge}`;
+}
+
+// Averaged thresholds and bands are recorded with the gender "average"
+function describeGender(gender: string) {
+  return gender === "average"
+    ? "the average of male and female participants"
+    : `${gender} participants`;
+}
+
+function describeDemographics(
+  demographics: NonNullable<ScoreExplanation["demographics"]>
+) {
+  const { age, gender, scoring_reference } = demographics;
+  if (!scoring_reference || scoring_reference === gender) {
+    return `Scored as a ${gender} participant aged ${age}`;
+  }
+
+  const reference =
+    scoring_reference === "average"
+      ? "the average of the male and female"
+      : `the ${scoring_reference}`;
+  return `Participant aged ${age} (${formatGender(
+    gender
+  )}), scored against ${reference} thresholds`;
+}
+
+/**
+ * Describe the ranges a metric's value was compared against
+ */
+function describeRule(metric: MetricScoreExplanation): string | null {
+  const unit = metric.unit;
+
+  if (metric.threshold) {
+    const { min_average_value, max_average_value, gender, min_age, max_age } =
+      metric.threshold;
+    const range = `${formatValue(min_average_value, unit)} to ${formatValue(
+      max_average_value,
+      unit
+    )}`;
+    const better = metric.direction === "lower" ? "below" : "above";
+    const worse = metric.direction === "lower" ? "above" : "below";
+
+    return `Average is ${range} for ${describeGender(gender)}, ${formatAgeRange(
+      min_age,
+      max_age
+    )}: ${worse} scores 1, inside scores 2, ${better} scores 3`;
+  }
+
+  if (metric.band) {
+    const { optimal_min, optimal_max, acceptable_min, acceptable_max } =
+      metric.band;
+    const who = [
+      metric.band.gender ? describeGender(metric.band.gender) : null,
+      formatAgeRange(metric.band.min_age, metric.band.max_age),
+    ]
+      .filter(Boolean)
+      .join(", ");
+
+    return `Optimal ${optimal_min}-${optimal_max} scores 3, acceptable ${acceptable_min}-${acceptable_max} scores 2, otherwise 1 (${who})`;
+  }
+
+  return null;
+}
+
+export function ScoreExplanationDetails({
+  explanation,
+}: ScoreExplanationDetailsProps) {
+  return (
+    <Collapsible>
+      <CollapsibleTrigger className="group flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+        <Info className="h-3 w-3" />
+        Why this score?
+        <ChevronDown className="h-3 w-3 transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="mt-2 space-y-2 rounded-md border bg-background p-3 text-sm">
+          {explanation.demographics && (
+            <p className="text-muted-foreground">
+              {describeDemographics(explanation.demographics)}
+            </p>
+          )}
+          {explanation.attempts && (
+            <p className="text-muted-foreground">{explanation.attempts}</p>
+          )}
+          {explanation.rule_set && (
+            <p className="text-muted-foreground">
+              Scoring rules: v{explanation.rule_set.version}{" "}
+              {explanation.rule_set.name}
+            </p>
+          )}
+
+          {explanation.metrics.map((metric) => {
+            const rule = describeRule(metric);
+            return (
+              <div key={metric.key}>
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">{metric.label}</span>
+                  <span>
+                    {metric.value !== null
+                      ? formatValue(metric.value, metric.unit)
+                      : "Not recorded"}
+                    {metric.score !== null && (
+                      <span className="font-semibold"> → {metric.score}</span>
+                    )}
+                  </span>
+                </div>
+                {metric.skipped_reason ? (
+                  <p className="text-xs text-muted-foreground">
+                    Not counted: {metric.skipped_reason}
+                  </p>
+                ) : (
+                  rule && (
+                    <p className="text-xs text-muted-foreground">{rule}</p>
+                  )
+                )}
+              </div>
+            );
+          })}
+
+          {explanation.unscorable ? (
+            <p className="text-xs text-amber-600">
+              {explanation.unscorable.message}. The score is pending until
+              this is fixed.
+            </p>
+          ) : (
+            explanation.metrics.filter((metric) => metric.score !== null)
+              .length > 1 && (
+              <p className="text-xs text-muted-foreground">
+                The station score is the average of the metric scores, rounded
+              </p>
+            )
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -1,10 +1,10 @@
 "use client";
 
 import React, { useState } from "react";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Loader2 } from "lucide-react";
+import { Loader2, Plus, X } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -19,71 +19,74 @@ import {
 } from "@/components/ui/form";
 import { TimeInput } from "@/components/ui/time-input";
 import { NumberInput } from "@/components/ui/number-input";
+import { Textarea } from "@/components/ui/textarea";
 
+import {
+  buildMeasurementSchema,
+  compactMeasurements,
+  formatMetricLabel,
+  getMeasurementDefaults,
+  isMetricRequired,
+  parseStationMetrics,
+} from "@/lib/stations/metrics";
 import type {
-  StationType,
-  BalanceMeasurement,
-  BreathMeasurement,
-  GripMeasurement,
-  HealthMeasurement,
+  AttemptPolicy,
+  Station,
+  StationMetricDefinition,
 } from "@/lib/types/database";
 
-// Schemas for each station type
-const balanceSchema = z.object({
-  balance_seconds: z
-    .number({ required_error: "Balance time is required" })
-    .min(0, "Balance time cannot be negative")
-    .max(60, "Balance time cannot exceed 60 seconds"),
-});
-
-const breathSchema = z.object({
-  balloon_diameter_cm: z
-    .number({ required_error: "Balloon diameter is required" })
-    .min(0, "Balloon diameter cannot be negative")
-    .max(100, "Balloon diameter cannot exceed 100cm"),
-});
+// Corrections must say why the original measurement was wrong
+const correctionReasonSchema = z
+  .string({ required_error: "A correction reason is required" })
+  .trim()
+  .min(3, "Please describe why this result is being corrected")
+  .max(500, "Correction reason cannot exceed 500 characters");
 
-const gripSchema = z.object({
-  grip_seconds: z
-    .number({ required_error: "Grip time is required" })
-    .min(0, "Grip time cannot be negative")
-    .max(600, "Grip time cannot exceed 10 minutes"),
-});
+type StationMeasurement = Record<string, number>;
 
-const healthSchema = z.object({
-  bp_systolic: z
-    .number({ required_error: "Systolic BP is required" })
-    .min(50, "Systolic BP too low")
-    .max(250, "Systolic BP too high"),
-  bp_diastolic: z
-    .number({ required_error: "Diastolic BP is required" })
-    .min(30, "Diastolic BP too low")
-    .max(150, "Diastolic BP too high"),
-  pulse: z
-    .number({ required_error: "Heart rate is required" })
-    .min(30, "Heart rate too low")
-    .max(200, "Heart rate too high"),
-  spo2: z
-    .number({ required_error: "SpO₂ is required" })
-    .min(70, "SpO₂ too low")
-    .max(100, "SpO₂ cannot exceed 100%"),
-  bmi: z
-    .number({ required_error: "BMI is required" })
-    .min(10, "BMI too low")
-    .max(60, "BMI too high"),
-});
+// Multi-attempt stations submit every attempt; the server aggregates them
+export type StationSubmission =
+  | StationMeasurement
+  | { attempts: StationMeasurement[] };
 
 interface StationEntryFormProps {
-  station: StationType;
+  // The station definition drives the fields, validation and attempts
+  station: Station;
   participantCode: string;
-  onSubmit: (
-    data:
-      | BalanceMeasurement
-      | BreathMeasurement
-      | GripMeasurement
-      | HealthMeasurement
-  ) => void;
+  onSubmit: (data: StationSubmission, correctionReason?: string) => void;
   isSubmitting?: boolean;
+  // Pre-fill the form with previously recorded measurements
+  initialValues?: Record<string, unknown> | null;
+  initialAttempts?: Record<string, unknown>[] | null;
+  // Correction mode requires a reason and changes the submit wording
+  isCorrection?: boolean;
+}
+
+function describeAttemptPolicy(policy: AttemptPolicy, maxAttempts: number) {
+  switch (policy) {
+    case "best_of":
+      return `Up to ${maxAttempts} attempts - the best attempt counts`;
+    case "average_of":
+      return `Up to ${maxAttempts} attempts - the average of all attempts counts`;
+    default:
+      return "Single attempt";
+  }
+}
+
+// Group consecutive metrics that share a group heading (e.g. "Blood Pressure")
+function groupMetrics(metrics: StationMetricDefinition[]) {
+  return metrics.reduce<
+    { group: string | null; metrics: StationMetricDefinition[] }[]
+  >((groups, metric) => {
+    const group = metric.group || null;
+    const last = groups[groups.length - 1];
+    if (last && last.group === group) {
+      last.metrics.push(metric);
+    } else {
+      groups.push({ group, metrics: [metric] });
+    }
+    return groups;
+  }, []);
 }
 
 export function StationEntryForm({
@@ -91,287 +94,194 @@ export function StationEntryForm({
   participantCode,
   onSubmit,
   isSubmitting = false,
+  initialValues = null,
+  initialAttempts = null,
+  isCorrection = false,
 }: StationEntryFormProps) {
   const [error, setError] = useState<string | null>(null);
+  const metrics = parseStationMetrics(station.metrics);
+  const attemptPolicy = (station.attempt_policy || "single") as AttemptPolicy;
+  const maxAttempts = station.max_attempts || 1;
+  const isMultiAttempt = attemptPolicy !== "single" && maxAttempts > 1;
 
-  // Get the appropriate schema and default values based on station type
-  const getSchemaAndDefaults = () => {
-    switch (station) {
-      case "balance":
-        return {
-          schema: balanceSchema,
-          defaults: { balance_seconds: null },
-        };
-      case "breath":
-        return {
-          schema: breathSchema,
-          defaults: { balloon_diameter_cm: null },
-        };
-      case "grip":
-        return {
-          schema: gripSchema,
-          defaults: { grip_seconds: null },
-        };
-      case "health":
-        return {
-          schema: healthSchema,
-          defaults: {
-            bp_systolic: null,
-            bp_diastolic: null,
-            pulse: null,
-            spo2: null,
-            bmi: null,
-          },
-        };
-      default:
-        return {
-          schema: z.object({}),
-          defaults: {},
-        };
-    }
-  };
-
-  // Use any to avoid TypeScript union type issues with useForm
-  const { schema, defaults } = getSchemaAndDefaults();
+  // Use any to avoid TypeScript issues with dynamically generated fields
+  const schema = buildMeasurementSchema(metrics);
+  const defaults = getMeasurementDefaults(metrics);
+  const baseSchema: z.AnyZodObject = isMultiAttempt
+    ? z.object({
+        attempts: z
+          .array(schema)
+          .min(1, "At least one attempt is required")
+          .max(maxAttempts, `No more than ${maxAttempts} attempts`),
+      })
+    : schema;
   const form = useForm<any>({
-    resolver: zodResolver(schema),
-    defaultValues: defaults,
+    resolver: zodResolver(
+      isCorrection
+        ? baseSchema.extend({ correction_reason: correctionReasonSchema })
+        : baseSchema
+    ),
+    defaultValues: {
+      ...(isMultiAttempt
+        ? {
+            attempts: initialAttempts?.length
+              ? initialAttempts
+              : [{ ...defaults, ...(initialValues || {}) }],
+          }
+        : { ...defaults, ...(initialValues || {}) }),
+      ...(isCorrection && { correction_reason: "" }),
+    },
+  });
+  const attemptFields = useFieldArray({
+    control: form.control,
+    name: "attempts",
   });
 
   const handleSubmit = async (data: any) => {
     setError(null);
 
     try {
-      await onSubmit(data);
+      const { correction_reason, ...measurements } = data;
+      // Optional metrics left blank are not submitted
+      const submission: StationSubmission = isMultiAttempt
+        ? { attempts: measurements.attempts.map(compactMeasurements) }
+        : compactMeasurements(measurements);
+      await onSubmit(submission, correction_reason);
     } catch (err: any) {
       setError(err.message || "Failed to submit measurements");
     }
   };
 
-  const renderBalanceForm = () => (
+  const renderMetricField = (metric: StationMetricDefinition, prefix = "") => (
     <FormField
+      key={metric.key}
       control={form.control}
-      name="balance_seconds"
+      name={`${prefix}${metric.key}`}
       render={({ field }) => (
         <FormItem>
-          <FormLabel>Balance Time</FormLabel>
+          <FormLabel>
+            {formatMetricLabel(metric)}
+            {!isMetricRequired(metric) && (
+              <span className="ml-1 font-normal text-muted-foreground">
+                (optional)
+              </span>
+            )}
+          </FormLabel>
           <FormControl>
-            <TimeInput
-              value={field.value}
-              onChange={field.onChange}
-              placeholder="0:00"
-              maxMinutes={1}
-            />
+            {metric.input === "time" ? (
+              <TimeInput
+                value={field.value}
+                onChange={field.onChange}
+                placeholder="0:00"
+                maxMinutes={Math.max(1, Math.ceil(metric.max / 60))}
+              />
+            ) : (
+              <NumberInput
+                value={field.value}
+                onChange={field.onChange}
+                min={metric.min}
+                max={metric.max}
+                step={metric.step}
+              />
+            )}
           </FormControl>
-          <FormDescription>
-            Time participant maintained balance (maximum 1 minute)
-          </FormDescription>
+          {metric.description && (
+            <FormDescription>{metric.description}</FormDescription>
+          )}
           <FormMessage />
         </FormItem>
       )}
     />
   );
 
-  const renderBreathForm = () => (
-    <FormField
-      control={form.control}
-      name="balloon_diameter_cm"
-      render={({ field }) => (
-        <FormItem>
-          <FormLabel>Balloon Diameter (cm)</FormLabel>
-          <FormControl>
-            <NumberInput
-              value={field.value}
-              onChange={field.onChange}
-              min={0}
-              max={100}
-            />
-          </FormControl>
-          <FormDescription>
-            Diameter of the balloon in centimeters (0-100cm)
-          </FormDescription>
-          <FormMessage />
-        </FormItem>
-      )}
-    />
-  );
+  const renderFormFields = (prefix = "") => {
+    if (metrics.length === 0) {
+      return <div>This station has no measurements configured</div>;
+    }
 
-  const renderGripForm = () => (
-    <FormField
-      control={form.control}
-      name="grip_seconds"
-      render={({ field }) => (
-        <FormItem>
-          <FormLabel>Grip Strength Time</FormLabel>
-          <FormControl>
-            <TimeInput
-              value={field.value}
-              onChange={field.onChange}
-              maxMinutes={10}
-            />
-          </FormControl>
-          <FormDescription>
-            Time participant maintained grip strength (maximum 10 minutes)
-          </FormDescription>
-          <FormMessage />
-        </FormItem>
-      )}
-    />
-  );
+    if (metrics.length === 1) {
+      return renderMetricField(metrics[0], prefix);
+    }
 
-  const renderHealthForm = () => (
+    return (
+      <div className="space-y-4">
+        <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg mb-4">
+          <p className="text-sm font-medium text-blue-700 dark:text-blue-300">
+            Complete all {station.name} measurements for this participant
+            {metrics.some((metric) => !isMetricRequired(metric)) &&
+              " - optional measurements can be left blank"}
+          </p>
+        </div>
+
+        {groupMetrics(metrics).map(({ group, metrics: groupedMetrics }) =>
+          group ? (
+            <div
+              key={group}
+              className="border rounded-lg p-4 bg-gray-50 dark:bg-gray-800"
+            >
+              <h3 className="text-lg font-semibold mb-3">{group}</h3>
+              <div
+                className={
+                  groupedMetrics.length > 1
+                    ? "grid grid-cols-1 md:grid-cols-2 gap-4"
+                    : undefined
+                }
+              >
+                {groupedMetrics.map((metric) =>
+                  renderMetricField(metric, prefix)
+                )}
+              </div>
+            </div>
+          ) : (
+            groupedMetrics.map((metric) => renderMetricField(metric, prefix))
+          )
+        )}
+      </div>
+    );
+  };
+
+  const renderAttempts = () => (
     <div className="space-y-4">
-      <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg mb-4">
+      <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg">
         <p className="text-sm font-medium text-blue-700 dark:text-blue-300">
-          Complete all health measurements for this participant
+          {describeAttemptPolicy(attemptPolicy, maxAttempts)}
         </p>
       </div>
 
-      {/* Blood Pressure */}
-      <div className="border rounded-lg p-4 bg-gray-50 dark:bg-gray-800">
-        <h3 className="text-lg font-semibold mb-3">Blood Pressure</h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <FormField
-            control={form.control}
-            name="bp_systolic"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Systolic BP (mmHg)</FormLabel>
-                <FormControl>
-                  <NumberInput
-                    value={field.value}
-                    onChange={field.onChange}
-                    min={50}
-                    max={250}
-                  />
-                </FormControl>
-                <FormDescription>
-                  Above Average: 100-129, Average: 130-139, Bad: &ge;140
-                </FormDescription>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-
-          <FormField
-            control={form.control}
-            name="bp_diastolic"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Diastolic BP (mmHg)</FormLabel>
-                <FormControl>
-                  <NumberInput
-                    value={field.value}
-                    onChange={field.onChange}
-                    min={30}
-                    max={150}
-                  />
-                </FormControl>
-                <FormDescription>
-                  Above Average: 60-79, Average: 80-89, Bad: &ge;90
-                </FormDescription>
-                <FormMessage />
-              </FormItem>
+      {attemptFields.fields.map((attempt, index) => (
+        <div key={attempt.id} className="border rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">Attempt {index + 1}</h3>
+            {attemptFields.fields.length > 1 && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => attemptFields.remove(index)}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove attempt {index + 1}</span>
+              </Button>
             )}
-          />
+          </div>
+          {renderFormFields(`attempts.${index}.`)}
         </div>
-      </div>
-
-      {/* Heart Rate and SpO2 */}
-      <div className="border rounded-lg p-4 bg-gray-50 dark:bg-gray-800">
-        <h3 className="text-lg font-semibold mb-3">Vital Signs</h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <FormField
-            control={form.control}
-            name="pulse"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Heart Rate (bpm)</FormLabel>
-                <FormControl>
-                  <NumberInput
-                    value={field.value}
-                    onChange={field.onChange}
-                    min={30}
-                    max={200}
-                  />
-                </FormControl>
-                <FormDescription>
-                  Above Average: 50-70, Average: 71-85, Bad: &gt;85
-                </FormDescription>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-
-          <FormField
-            control={form.control}
-            name="spo2"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>SpO₂ (%)</FormLabel>
-                <FormControl>
-                  <NumberInput
-                    value={field.value}
-                    onChange={field.onChange}
-                    min={70}
-                    max={100}
-                  />
-                </FormControl>
-                <FormDescription>
-                  Above Average: 97-100%, Average: 94-96%, Bad: &le;93%
-                </FormDescription>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </div>
-      </div>
+      ))}
 
-      {/* BMI */}
-      <div className="border rounded-lg p-4 bg-gray-50 dark:bg-gray-800">
-        <h3 className="text-lg font-semibold mb-3">Body Mass Index</h3>
-        <FormField
-          control={form.control}
-          name="bmi"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>BMI</FormLabel>
-              <FormControl>
-                <NumberInput
-                  value={field.value}
-                  onChange={field.onChange}
-                  min={10}
-                  max={60}
-                  step={0.1}
-                />
-              </FormControl>
-              <FormDescription>
-                Above Average: 18.5-24.9, Average: 25-29.9, Bad: &ge;30 or
-                &lt;18.5
-              </FormDescription>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-      </div>
+      {attemptFields.fields.length < maxAttempts && (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={() => attemptFields.append({ ...defaults })}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Attempt
+        </Button>
+      )}
     </div>
   );
 
-  const renderFormFields = () => {
-    switch (station) {
-      case "balance":
-        return renderBalanceForm();
-      case "breath":
-        return renderBreathForm();
-      case "grip":
-        return renderGripForm();
-      case "health":
-        return renderHealthForm();
-      default:
-        return <div>Unknown station type</div>;
-    }
-  };
-
   return (
     <div className="space-y-4">
       <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg">
@@ -391,14 +301,41 @@ export function StationEntryForm({
 
       <Form {...form}>
         <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
-          {renderFormFields()}
+          {isMultiAttempt ? renderAttempts() : renderFormFields()}
+
+          {isCorrection && (
+            <FormField
+              control={form.control}
+              name="correction_reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason for Correction</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      placeholder="e.g. Timer was stopped late, re-measured on second attempt"
+                      rows={3}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Stored with the result history and audit trail
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
 
           <Button type="submit" disabled={isSubmitting} className="w-full">
             {isSubmitting ? (
               <>
                 <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                Recording Measurements...
+                {isCorrection
+                  ? "Saving Correction..."
+                  : "Recording Measurements..."}
               </>
+            ) : isCorrection ? (
+              "Save Correction"
             ) : (
               "Record Measurements"
             )}
@@ -1,6 +1,12 @@
 // Client-side authentication API service
 // This can be used by both web and mobile applications
 
+import type {
+  Gender,
+  LeaderboardVisibility,
+  ScoringReference,
+} from '@/lib/types/database';
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -11,7 +17,12 @@ export interface SignupData {
   email: string;
   password: string;
   dateOfBirth: string;
-  gender: 'male' | 'female';
+  gender: Gender;
+  // Required unless the gender is male or female
+  scoringReference?: ScoringReference | null;
+  // Defaults to the full name; an alias is required when it is "alias"
+  leaderboardVisibility?: LeaderboardVisibility;
+  leaderboardAlias?: string | null;
   jobTitle: string;
   organization: string;
   phone?: string;
@@ -32,7 +43,10 @@ export interface UserProfile {
   name: string;
   email: string;
   date_of_birth: string;
-  gender: 'male' | 'female';
+  gender: Gender;
+  scoring_reference: ScoringReference | null;
+  leaderboard_visibility: LeaderboardVisibility;
+  leaderboard_alias: string | null;
   job_title: string;
   organisation: string;
   created_at: string;
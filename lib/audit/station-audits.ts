@@ -0,0 +1,104 @@
+import type { NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/server";
+import type {
+  Json,
+  StationAuditAction,
+  StationAuditInsert,
+} from "@/lib/types/database";
+
+export interface AuditActor {
+  id: string;
+  email?: string | null;
+}
+
+export interface AuditRequestMetadata {
+  ip: string | null;
+  user_agent: string | null;
+  method: string;
+  path: string;
+}
+
+export interface StationAuditEntry {
+  action: StationAuditAction;
+  stationType: string;
+  stationResultId?: string | null;
+  participantId?: string | null;
+  participantCode?: string | null;
+  actor?: AuditActor | null;
+  before?: { measurements: unknown; score: number | null } | null;
+  after?: { measurements: unknown; score: number | null } | null;
+  reason?: string | null;
+  metadata?: AuditRequestMetadata | Record<string, unknown>;
+}
+
+/**
+ * Extract request metadata worth keeping alongside an audit record
+ */
+export function getAuditRequestMetadata(
+  request: NextRequest
+): AuditRequestMetadata {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+
+  return {
+    ip: forwardedFor
+      ? forwardedFor.split(",")[0].trim()
+      : request.headers.get("x-real-ip"),
+    user_agent: request.headers.get("user-agent"),
+    method: request.method,
+    path: request.nextUrl.pathname,
+  };
+}
+
+/**
+ * Map an audit entry to a station_audits row
+ */
+export function toStationAuditInsert(
+  entry: StationAuditEntry
+): StationAuditInsert {
+  return {
+    action: entry.action,
+    station_type: entry.stationType,
+    station_result_id: entry.stationResultId ?? null,
+    participant_id: entry.participantId ?? null,
+    participant_code: entry.participantCode ?? null,
+    actor_id: entry.actor?.id ?? null,
+    actor_email: entry.actor?.email ?? null,
+    before_measurements: (entry.before?.measurements ?? null) as Json,
+    before_score: entry.before?.score ?? null,
+    after_measurements: (entry.after?.measurements ?? null) as Json,
+    after_score: entry.after?.score ?? null,
+    reason: entry.reason ?? null,
+    metadata: (entry.metadata ?? {}) as Json,
+  };
+}
+
+/**
+ * Append one or more records to the station audit trail.
+ * Audit failures are logged but never fail the originating request.
+ */
+export async function recordStationAudit(
+  entries: StationAuditEntry | StationAuditEntry[]
+): Promise<boolean> {
+  const rows = (Array.isArray(entries) ? entries : [entries]).map(
+    toStationAuditInsert
+  );
+
+  if (rows.length === 0) {
+    return true;
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const { error } = await supabase.from("station_audits").insert(rows);
+
+    if (error) {
+      console.error("Error writing station audit records:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Station audit error:", error);
+    return false;
+  }
+}
@@ -128,6 +128,9 @@ export function useParticipantSignupMutation() {
           password: formData.password,
           dateOfBirth: formData.dateOfBirth,
           gender: formData.gender,
+          scoringReference: formData.scoringReference,
+          leaderboardVisibility: formData.leaderboardVisibility,
+          leaderboardAlias: formData.leaderboardAlias,
           jobTitle: formData.jobTitle,
           organization: formData.organization,
         }),
@@ -0,0 +1,186 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { HealthMetricBand, HealthMetricBandInsert, HealthMetricBandUpdate } from "@/lib/types/database";
+
+// Query key for health metric bands data
+export const healthMetricBandsQueryKey = (filters?: {
+  metric_name?: string;
+  gender?: string;
+}) => ["healthMetricBands", filters] as const;
+
+interface HealthMetricBandFilters {
+  metric_name?: string;
+  gender?: string;
+}
+
+// Hook to fetch health metric bands (admin only)
+export function useHealthMetricBands(filters?: HealthMetricBandFilters) {
+  return useQuery({
+    queryKey: healthMetricBandsQueryKey(filters),
+    queryFn: async (): Promise<HealthMetricBand[]> => {
+      const params = new URLSearchParams();
+      if (filters?.metric_name) params.set('metric_name', filters.metric_name);
+      if (filters?.gender) params.set('gender', filters.gender);
+
+      const url = `/api/admin/health-bands${params.toString() ? `?${params.toString()}` : ''}`;
+
+      console.log("🔄 Fetching health metric bands:", url);
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch health metric bands');
+      }
+
+      const data = await response.json();
+      console.log("✅ Health metric bands received:", data);
+      return data;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: true,
+  });
+}
+
+// Hook to create health metric band (admin only)
+export function useCreateHealthMetricBand() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: HealthMetricBandInsert): Promise<HealthMetricBand> => {
+      console.log("🔄 Creating health metric band:", data);
+
+      const response = await fetch('/api/admin/health-bands', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create health metric band');
+      }
+
+      const result = await response.json();
+      console.log("✅ Health metric band created:", result);
+      return result;
+    },
+    onSuccess: () => {
+      // Invalidate and refetch health metric bands
+      queryClient.invalidateQueries({
+        queryKey: ["healthMetricBands"],
+        exact: false
+      });
+
+      // Also invalidate participant results since scoring may have changed
+      queryClient.invalidateQueries({
+        queryKey: ["participantResults"],
+        exact: false
+      });
+
+      console.log("🔄 Cache invalidated after health band creation");
+    },
+    onError: (error) => {
+      console.error('❌ Failed to create health metric band:', error);
+    },
+  });
+}
+
+// Hook to update health metric band (admin only)
+export function useUpdateHealthMetricBand() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: HealthMetricBandUpdate & { id: string }): Promise<HealthMetricBand> => {
+      console.log("🔄 Updating health metric band:", data);
+
+      const response = await fetch('/api/admin/health-bands', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update health metric band');
+      }
+
+      const result = await response.json();
+      console.log("✅ Health metric band updated:", result);
+      return result;
+    },
+    onSuccess: () => {
+      // Invalidate and refetch health metric bands
+      queryClient.invalidateQueries({
+        queryKey: ["healthMetricBands"],
+        exact: false
+      });
+
+      // Also invalidate participant results since scoring may have changed
+      queryClient.invalidateQueries({
+        queryKey: ["participantResults"],
+        exact: false
+      });
+
+      // Invalidate leaderboard since scores may have changed
+      queryClient.invalidateQueries({
+        queryKey: ["leaderboard"]
+      });
+
+      console.log("🔄 Cache invalidated after health band update");
+    },
+    onError: (error) => {
+      console.error('❌ Failed to update health metric band:', error);
+    },
+  });
+}
+
+// Hook to delete health metric band (admin only)
+export function useDeleteHealthMetricBand() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<{ success: boolean; message: string }> => {
+      console.log("🔄 Deleting health metric band:", id);
+
+      const response = await fetch(`/api/admin/health-bands?id=${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete health metric band');
+      }
+
+      const result = await response.json();
+      console.log("✅ Health metric band deleted:", result);
+      return result;
+    },
+    onSuccess: () => {
+      // Invalidate and refetch health metric bands
+      queryClient.invalidateQueries({
+        queryKey: ["healthMetricBands"],
+        exact: false
+      });
+
+      // Also invalidate participant results since scoring may have changed
+      queryClient.invalidateQueries({
+        queryKey: ["participantResults"],
+        exact: false
+      });
+
+      // Invalidate leaderboard since scores may have changed
+      queryClient.invalidateQueries({
+        queryKey: ["leaderboard"]
+      });
+
+      console.log("🔄 Cache invalidated after health band deletion");
+    },
+    onError: (error) => {
+      console.error('❌ Failed to delete health metric band:', error);
+    },
+  });
+}
\ No newline at end of file
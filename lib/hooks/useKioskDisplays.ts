@@ -0,0 +1,204 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  KioskDisplay,
+  KioskDisplayUpdate,
+  KioskView,
+} from "@/lib/types/database";
+import type { KioskDisplayInput } from "@/lib/kiosk/boards";
+
+// Query key for kiosk displays data
+export const kioskDisplaysQueryKey = ["kioskDisplays"] as const;
+
+// Query key for a kiosk screen's boards
+export const kioskViewQueryKey = (token: string) =>
+  ["kioskView", token] as const;
+
+export interface KioskToken {
+  token: string;
+  url: string;
+  expires_at: string;
+}
+
+// Hook to fetch kiosk displays (admin only)
+export function useKioskDisplays() {
+  return useQuery({
+    queryKey: kioskDisplaysQueryKey,
+    queryFn: async (): Promise<KioskDisplay[]> => {
+      console.log("🔄 Fetching kiosk displays");
+      const response = await fetch('/api/admin/kiosk-displays');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch kiosk displays');
+      }
+
+      const data = await response.json();
+      console.log("✅ Kiosk displays received:", data.length);
+      return data;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+// Hook to create a kiosk display (admin only)
+export function useCreateKioskDisplay() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: KioskDisplayInput): Promise<KioskDisplay> => {
+      console.log("🔄 Creating kiosk display:", data);
+
+      const response = await fetch('/api/admin/kiosk-displays', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create kiosk display');
+      }
+
+      const result = await response.json();
+      console.log("✅ Kiosk display created:", result);
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: kioskDisplaysQueryKey });
+    },
+    onError: (error) => {
+      console.error('❌ Failed to create kiosk display:', error);
+    },
+  });
+}
+
+// Hook to update a kiosk display (admin only)
+export function useUpdateKioskDisplay() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      data: KioskDisplayUpdate & { id: string }
+    ): Promise<KioskDisplay> => {
+      console.log("🔄 Updating kiosk display:", data);
+
+      const response = await fetch('/api/admin/kiosk-displays', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update kiosk display');
+      }
+
+      const result = await response.json();
+      console.log("✅ Kiosk display updated:", result);
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: kioskDisplaysQueryKey });
+    },
+    onError: (error) => {
+      console.error('❌ Failed to update kiosk display:', error);
+    },
+  });
+}
+
+// Hook to delete a kiosk display (admin only)
+export function useDeleteKioskDisplay() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<{ success: boolean }> => {
+      console.log("🔄 Deleting kiosk display:", id);
+
+      const response = await fetch(`/api/admin/kiosk-displays?id=${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete kiosk display');
+      }
+
+      const result = await response.json();
+      console.log("✅ Kiosk display deleted:", result);
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: kioskDisplaysQueryKey });
+    },
+    onError: (error) => {
+      console.error('❌ Failed to delete kiosk display:', error);
+    },
+  });
+}
+
+// Hook to issue a display token, optionally revoking earlier ones (admin only)
+export function useIssueKioskToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      id: string;
+      expires_in_hours: number;
+      revoke_existing?: boolean;
+    }): Promise<KioskToken> => {
+      console.log("🔄 Issuing kiosk token:", data);
+
+      const response = await fetch('/api/admin/kiosk-displays/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to issue kiosk token');
+      }
+
+      const result = await response.json();
+      console.log("✅ Kiosk token issued, expires:", result.expires_at);
+      return result;
+    },
+    onSuccess: (_data, variables) => {
+      if (variables.revoke_existing) {
+        queryClient.invalidateQueries({ queryKey: kioskDisplaysQueryKey });
+      }
+    },
+    onError: (error) => {
+      console.error('❌ Failed to issue kiosk token:', error);
+    },
+  });
+}
+
+// Hook to fetch a kiosk screen's boards with its display token
+export function useKioskView(token: string) {
+  return useQuery({
+    queryKey: kioskViewQueryKey(token),
+    queryFn: async (): Promise<KioskView> => {
+      const response = await fetch(`/api/kiosk/${encodeURIComponent(token)}`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch kiosk boards');
+      }
+
+      return response.json();
+    },
+    // Screens run unattended, so keep polling and keep showing the last boards
+    refetchInterval: 15 * 1000, // 15 seconds
+    refetchIntervalInBackground: true,
+    retry: (failureCount, error) =>
+      !error.message.includes("token") && failureCount < 3,
+  });
+}
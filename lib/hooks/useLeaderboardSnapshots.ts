@@ -0,0 +1,169 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  LeaderboardSnapshot,
+  LeaderboardSnapshotView,
+} from "@/lib/types/database";
+
+export type LeaderboardSnapshotSummary = Pick<
+  LeaderboardSnapshot,
+  "id" | "label" | "taken_at" | "participant_count"
+>;
+
+// Query key for taken leaderboard snapshots
+export const leaderboardSnapshotsQueryKey = ["leaderboardSnapshots"] as const;
+
+// Query key for taken and scheduled snapshots (admin)
+export const adminLeaderboardSnapshotsQueryKey = [
+  "leaderboardSnapshots",
+  "admin",
+] as const;
+
+// Query key for a page of one snapshot's standings
+export const leaderboardSnapshotQueryKey = (
+  id: string,
+  params: { limit: number; offset: number }
+) => ["leaderboardSnapshot", id, params] as const;
+
+// Hook to fetch taken leaderboard snapshots, newest first
+export function useLeaderboardSnapshots() {
+  return useQuery({
+    queryKey: leaderboardSnapshotsQueryKey,
+    queryFn: async (): Promise<LeaderboardSnapshotSummary[]> => {
+      console.log("🔄 Fetching leaderboard snapshots");
+      const response = await fetch('/api/leaderboard-snapshots');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch leaderboard snapshots');
+      }
+
+      const data = await response.json();
+      console.log("✅ Leaderboard snapshots received:", data.length);
+      return data;
+    },
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+// Hook to fetch a page of a snapshot's frozen standings
+export function useLeaderboardSnapshot(
+  id: string | null,
+  params: { limit: number; offset: number }
+) {
+  return useQuery({
+    queryKey: leaderboardSnapshotQueryKey(id || "", params),
+    queryFn: async (): Promise<LeaderboardSnapshotView> => {
+      console.log("🔄 Fetching leaderboard snapshot:", id);
+      const searchParams = new URLSearchParams({
+        limit: params.limit.toString(),
+        offset: params.offset.toString(),
+      });
+      const response = await fetch(
+        `/api/leaderboard-snapshots/${id}?${searchParams}`
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch leaderboard snapshot');
+      }
+
+      const data = await response.json();
+      console.log("✅ Leaderboard snapshot received:", data.results.length);
+      return data;
+    },
+    enabled: !!id,
+    // Snapshots never change once taken
+    staleTime: Infinity,
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+// Hook to fetch taken and scheduled snapshots (admin only)
+export function useAdminLeaderboardSnapshots() {
+  return useQuery({
+    queryKey: adminLeaderboardSnapshotsQueryKey,
+    queryFn: async (): Promise<LeaderboardSnapshot[]> => {
+      console.log("🔄 Fetching leaderboard snapshots (admin)");
+      const response = await fetch('/api/admin/leaderboard-snapshots');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch leaderboard snapshots');
+      }
+
+      const data = await response.json();
+      console.log("✅ Leaderboard snapshots received:", data.length);
+      return data;
+    },
+    // Scheduled snapshots are taken in the background
+    refetchInterval: 60 * 1000, // 1 minute
+  });
+}
+
+// Hook to take a snapshot now, or schedule one (admin only)
+export function useCreateLeaderboardSnapshot() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      label: string;
+      scheduled_for?: string | null;
+    }): Promise<LeaderboardSnapshot> => {
+      console.log("🔄 Creating leaderboard snapshot:", data);
+
+      const response = await fetch('/api/admin/leaderboard-snapshots', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create leaderboard snapshot');
+      }
+
+      const result = await response.json();
+      console.log("✅ Leaderboard snapshot created:", result);
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: leaderboardSnapshotsQueryKey });
+    },
+    onError: (error) => {
+      console.error('❌ Failed to create leaderboard snapshot:', error);
+    },
+  });
+}
+
+// Hook to delete a snapshot or cancel a scheduled one (admin only)
+export function useDeleteLeaderboardSnapshot() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<{ success: boolean }> => {
+      console.log("🔄 Deleting leaderboard snapshot:", id);
+
+      const response = await fetch(`/api/admin/leaderboard-snapshots?id=${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete leaderboard snapshot');
+      }
+
+      const result = await response.json();
+      console.log("✅ Leaderboard snapshot deleted:", result);
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: leaderboardSnapshotsQueryKey });
+    },
+    onError: (error) => {
+      console.error('❌ Failed to delete leaderboard snapshot:', error);
+    },
+  });
+}
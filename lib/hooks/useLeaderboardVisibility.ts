@@ -0,0 +1,44 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { LeaderboardVisibility } from "@/lib/types/database";
+
+export interface LeaderboardVisibilitySettings {
+  leaderboard_visibility: LeaderboardVisibility;
+  leaderboard_alias: string | null;
+}
+
+// Hook to change how the current user appears on the leaderboard
+export function useUpdateLeaderboardVisibility() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      data: LeaderboardVisibilitySettings
+    ): Promise<LeaderboardVisibilitySettings> => {
+      console.log("🔄 Updating leaderboard visibility:", data.leaderboard_visibility);
+
+      const response = await fetch('/api/participants/current/visibility', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update leaderboard visibility');
+      }
+
+      const result = await response.json();
+      console.log("✅ Leaderboard visibility updated:", result);
+      return result;
+    },
+    onSuccess: () => {
+      // The profile in the auth session holds the saved choice
+      queryClient.invalidateQueries({ queryKey: ["auth", "session"] });
+    },
+    onError: (error) => {
+      console.error('❌ Failed to update leaderboard visibility:', error);
+    },
+  });
+}
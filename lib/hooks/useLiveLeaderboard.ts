@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  createEventStreamLeaderboardFeed,
+  createRealtimeLeaderboardFeed,
+  type LeaderboardChange,
+  type LeaderboardFeed,
+  type LeaderboardFeedStatus,
+} from "@/lib/leaderboard/live";
+
+// The server's local feed stands in for realtime when
+// NEXT_PUBLIC_LEADERBOARD_FEED=local
+function getDefaultFeed(): LeaderboardFeed {
+  if (process.env.NEXT_PUBLIC_LEADERBOARD_FEED === "local") {
+    return createEventStreamLeaderboardFeed("/api/leaderboard-feed");
+  }
+  return createRealtimeLeaderboardFeed(createClient());
+}
+
+interface UseLiveLeaderboardOptions {
+  // Defaults to Supabase realtime, or the local feed (see above)
+  feed?: LeaderboardFeed;
+  enabled?: boolean;
+}
+
+// Calls onChange for every pushed leaderboard change and reports whether the
+// feed is connected, so callers can fall back to polling while it isn't
+export function useLiveLeaderboard(
+  onChange: (change: LeaderboardChange) => void,
+  { feed, enabled = true }: UseLiveLeaderboardOptions = {}
+) {
+  const [status, setStatus] = useState<LeaderboardFeedStatus>("connecting");
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus("offline");
+      return;
+    }
+
+    const activeFeed = feed ?? getDefaultFeed();
+    const unsubscribe = activeFeed.subscribe(
+      (change) => {
+        console.log("🔄 Leaderboard change received:", change.participant_code);
+        onChangeRef.current(change);
+      },
+      setStatus
+    );
+
+    return unsubscribe;
+  }, [feed, enabled]);
+
+  return { status, isLive: status === "live" };
+}
@@ -0,0 +1,233 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  Organisation,
+  OrganisationAlias,
+  OrganisationSummary,
+  TeamStanding,
+} from "@/lib/types/database";
+
+// Query key for organisations data
+export const organisationsQueryKey = ["organisations"] as const;
+
+// Query key for team leaderboard data
+export const teamLeaderboardQueryKey = (params?: {
+  limit?: number;
+  offset?: number;
+}) => ["teamLeaderboard", params] as const;
+
+export interface TeamLeaderboardResponse {
+  results: TeamStanding[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+  scoring: {
+    top_members: number;
+    min_members: number;
+  };
+}
+
+// Organisation changes move members between teams
+function invalidateOrganisationQueries(
+  queryClient: ReturnType<typeof useQueryClient>
+) {
+  queryClient.invalidateQueries({ queryKey: organisationsQueryKey });
+  queryClient.invalidateQueries({
+    queryKey: ["teamLeaderboard"],
+    exact: false,
+  });
+}
+
+// Hook to fetch organisations with aliases and member counts (admin only)
+export function useOrganisations() {
+  return useQuery({
+    queryKey: organisationsQueryKey,
+    queryFn: async (): Promise<OrganisationSummary[]> => {
+      console.log("🔄 Fetching organisations");
+      const response = await fetch('/api/admin/organisations');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch organisations');
+      }
+
+      const data = await response.json();
+      console.log("✅ Organisations received:", data.length);
+      return data;
+    },
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: true,
+  });
+}
+
+// Hook to rename an organisation (admin only)
+export function useRenameOrganisation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { id: string; name: string }): Promise<Organisation> => {
+      console.log("🔄 Renaming organisation:", data);
+
+      const response = await fetch('/api/admin/organisations', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to rename organisation');
+      }
+
+      const result = await response.json();
+      console.log("✅ Organisation renamed:", result);
+      return result;
+    },
+    onSuccess: () => {
+      invalidateOrganisationQueries(queryClient);
+    },
+    onError: (error) => {
+      console.error('❌ Failed to rename organisation:', error);
+    },
+  });
+}
+
+// Hook to add an alias to an organisation (admin only)
+export function useAddOrganisationAlias() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      organisation_id: string;
+      alias: string;
+    }): Promise<OrganisationAlias> => {
+      console.log("🔄 Adding organisation alias:", data);
+
+      const response = await fetch('/api/admin/organisations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add organisation alias');
+      }
+
+      const result = await response.json();
+      console.log("✅ Organisation alias added:", result);
+      return result;
+    },
+    onSuccess: () => {
+      invalidateOrganisationQueries(queryClient);
+    },
+    onError: (error) => {
+      console.error('❌ Failed to add organisation alias:', error);
+    },
+  });
+}
+
+// Hook to remove an organisation alias (admin only)
+export function useDeleteOrganisationAlias() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (aliasId: string): Promise<{ success: boolean }> => {
+      console.log("🔄 Deleting organisation alias:", aliasId);
+
+      const response = await fetch(`/api/admin/organisations?alias_id=${aliasId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete organisation alias');
+      }
+
+      const result = await response.json();
+      console.log("✅ Organisation alias deleted:", result);
+      return result;
+    },
+    onSuccess: () => {
+      invalidateOrganisationQueries(queryClient);
+    },
+    onError: (error) => {
+      console.error('❌ Failed to delete organisation alias:', error);
+    },
+  });
+}
+
+// Hook to merge a duplicate organisation into another (admin only)
+export function useMergeOrganisations() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      source_id: string;
+      target_id: string;
+    }): Promise<{ success: boolean; data: { moved_members: number } }> => {
+      console.log("🔄 Merging organisations:", data);
+
+      const response = await fetch('/api/admin/organisations/merge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to merge organisations');
+      }
+
+      const result = await response.json();
+      console.log("✅ Organisations merged:", result);
+      return result;
+    },
+    onSuccess: () => {
+      invalidateOrganisationQueries(queryClient);
+    },
+    onError: (error) => {
+      console.error('❌ Failed to merge organisations:', error);
+    },
+  });
+}
+
+// Hook to fetch the team leaderboard
+export function useTeamLeaderboard(
+  params: { limit?: number; offset?: number } = {}
+) {
+  return useQuery({
+    queryKey: teamLeaderboardQueryKey(params),
+    queryFn: async (): Promise<TeamLeaderboardResponse> => {
+      const searchParams = new URLSearchParams();
+      if (params.limit) searchParams.set('limit', params.limit.toString());
+      if (params.offset) searchParams.set('offset', params.offset.toString());
+
+      const url = `/api/teams${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
+
+      console.log("🔄 Fetching team leaderboard:", url);
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch team leaderboard');
+      }
+
+      const data = await response.json();
+      console.log("✅ Team leaderboard received:", data.results.length);
+      return data;
+    },
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: true,
+  });
+}
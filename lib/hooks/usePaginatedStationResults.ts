@@ -1,6 +1,7 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { Grade } from "@/lib/types/database";
 
 interface StationResult {
   id: string;
@@ -8,30 +9,63 @@ interface StationResult {
   name: string;
   organisation: string | null;
   gender: string | null;
-  balance: number | null;
-  breath: number | null;
-  grip: number | null;
-  health: number | null;
+  // Score per station type, null when the station hasn't been completed
+  scores: Record<string, number | null>;
+  // Weighted total, maximum and grade from the active scoring profile
   total_score: number;
+  max_possible_score: number;
+  percentage: number | null;
+  grade: Grade | null;
+  // Continuous 0-100 scores, null unless the profile enables continuous scoring
+  continuous_score: number | null;
+  continuous_scores: Record<string, number | null> | null;
   completed_stations: number;
-  latest_completion: string;
+  // Stations recorded but not yet scorable, shown as pending
+  pending_stations: string[];
+  // Time of the latest result; null until the participant has one
+  latest_completion: string | null;
+  // Shared with other participants when tied
   rank: number;
+  tied: boolean;
+  // Rank in the last snapshot, only compared on the unfiltered leaderboard
+  previous_rank: number | null;
+}
+
+interface LeaderboardStation {
+  station_type: string;
+  name: string;
 }
 
 interface StationResultsResponse {
   results: StationResult[];
+  stations: LeaderboardStation[];
   pagination: {
     total: number;
     limit: number;
     offset: number;
     hasMore: boolean;
+    // Pass back as `cursor` to fetch the next page by keyset
+    nextCursor: string | null;
   };
   filters: {
     sort: string;
     order: string;
     name_filter: string;
     org_filter: string;
+    gender_filter: string;
+    age_band: string;
+    organisation: string;
+    completion: string;
   };
+  segments: {
+    organisations: string[];
+  };
+  // Snapshot that previous ranks come from
+  comparison: {
+    id: string;
+    label: string;
+    taken_at: string;
+  } | null;
 }
 
 interface UsePaginatedStationResultsParams {
@@ -41,12 +75,23 @@ interface UsePaginatedStationResultsParams {
   order?: "asc" | "desc";
   nameFilter?: string;
   orgFilter?: string;
+  genderFilter?: string;
+  // Segments; each has its own ranks
+  ageBand?: string;
+  organisation?: string;
+  // all, partial, none or a station type
+  completion?: string;
+  // Keyset cursor from a previous page; takes precedence over offset
+  cursor?: string | null;
 }
 
 export function usePaginatedStationResults(params: UsePaginatedStationResultsParams = {}) {
   const [data, setData] = useState<StationResultsResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isFetching, setIsFetching] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Only the latest request may update state
+  const requestId = useRef(0);
 
   const {
     limit = 10,
@@ -55,11 +100,20 @@ export function usePaginatedStationResults(params: UsePaginatedStationResultsPar
     order = "desc",
     nameFilter = "",
     orgFilter = "",
+    genderFilter = "",
+    ageBand = "",
+    organisation = "",
+    completion = "",
+    cursor = null,
   } = params;
 
-  const fetchResults = useCallback(async () => {
+  // Background fetches keep the current results on screen while loading
+  const fetchResults = useCallback(async (background = false) => {
+    const currentRequest = ++requestId.current;
+
     try {
-      setIsLoading(true);
+      if (!background) setIsLoading(true);
+      setIsFetching(true);
       setError(null);
 
       const searchParams = new URLSearchParams({
@@ -69,6 +123,11 @@ export function usePaginatedStationResults(params: UsePaginatedStationResultsPar
         order,
         ...(nameFilter && { name_filter: nameFilter }),
         ...(orgFilter && { org_filter: orgFilter }),
+        ...(genderFilter && { gender_filter: genderFilter }),
+        ...(ageBand && { age_band: ageBand }),
+        ...(organisation && { organisation }),
+        ...(completion && { completion }),
+        ...(cursor && { cursor }),
       });
 
       const response = await fetch(`/api/station-results?${searchParams}`);
@@ -78,26 +137,47 @@ export function usePaginatedStationResults(params: UsePaginatedStationResultsPar
       }
 
       const result: StationResultsResponse = await response.json();
-      setData(result);
+      if (currentRequest === requestId.current) setData(result);
     } catch (err) {
       console.error("Error fetching station results:", err);
-      setError(err instanceof Error ? err.message : "Failed to fetch results");
+      if (currentRequest === requestId.current) {
+        setError(err instanceof Error ? err.message : "Failed to fetch results");
+      }
     } finally {
-      setIsLoading(false);
+      if (currentRequest === requestId.current) {
+        setIsLoading(false);
+        setIsFetching(false);
+      }
     }
-  }, [limit, offset, sort, order, nameFilter, orgFilter]);
+  }, [
+    limit,
+    offset,
+    sort,
+    order,
+    nameFilter,
+    orgFilter,
+    genderFilter,
+    ageBand,
+    organisation,
+    completion,
+    cursor,
+  ]);
 
   useEffect(() => {
     fetchResults();
   }, [fetchResults]);
 
-  const refetch = useCallback(() => {
-    fetchResults();
-  }, [fetchResults]);
+  const refetch = useCallback(
+    (options: { background?: boolean } = {}) => {
+      fetchResults(options.background);
+    },
+    [fetchResults]
+  );
 
   return {
     data,
     isLoading,
+    isFetching,
     error,
     refetch,
   };
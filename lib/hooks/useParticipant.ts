@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import type { Gender, ScoringReference } from "@/lib/types/database";
 
 // Participant data type from the API response
 export interface ParticipantData {
@@ -10,7 +11,8 @@ export interface ParticipantData {
     name: string;
     email: string;
     date_of_birth: string;
-    gender: 'male' | 'female';
+    gender: Gender;
+    scoring_reference: ScoringReference | null;
     job_title: string;
     organisation: string;
   };
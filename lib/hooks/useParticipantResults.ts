@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import type { ScoreExplanation } from "@/lib/types/database";
 
 interface ParticipantResult {
   id: string;
@@ -6,8 +7,11 @@ interface ParticipantResult {
   stationName: string;
   stationDescription: string;
   measurements: any;
-  score: number;
+  // Null while the result is pending (recorded but not yet scorable)
+  score: number | null;
+  pending: boolean;
   maxScore: number;
+  explanation: ScoreExplanation | null;
   completedAt: string;
 }
 
@@ -17,6 +21,7 @@ interface ParticipantProgress {
   remainingStations: string[];
   totalScore: number;
   maxPossibleScore: number;
+  percentage: number | null;
   grade: string | null;
 }
 
@@ -40,10 +45,11 @@ export function useParticipantResults(userId: string | undefined) {
           results: [],
           progress: {
             completedStations: 0,
-            totalStations: 4,
-            remainingStations: ['balance', 'breath', 'grip', 'health'],
+            totalStations: 0,
+            remainingStations: [],
             totalScore: 0,
             maxPossibleScore: 0,
+            percentage: null,
             grade: null
           }
         };
@@ -67,10 +73,11 @@ export function useParticipantResults(userId: string | undefined) {
               results: [],
               progress: {
                 completedStations: 0,
-                totalStations: 4,
-                remainingStations: ['balance', 'breath', 'grip', 'health'],
+                totalStations: 0,
+                remainingStations: [],
                 totalScore: 0,
                 maxPossibleScore: 0,
+                percentage: null,
                 grade: null
               }
             };
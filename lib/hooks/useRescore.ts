@@ -0,0 +1,66 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { RescoreResult } from "@/lib/scoring/rescore";
+
+interface RescoreParams {
+  stationType?: string | null;
+  participantCode?: string | null;
+  unscorableOnly?: boolean;
+  ruleSetId?: string | null;
+  dryRun: boolean;
+}
+
+// Hook to preview or apply a bulk re-score of station results (admin only)
+export function useRescore() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: RescoreParams): Promise<RescoreResult> => {
+      console.log("🔄 Running re-score:", params);
+
+      const response = await fetch('/api/admin/rescore', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(params),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to re-score station results');
+      }
+
+      const result = await response.json();
+      console.log("✅ Re-score completed:", result.data.summary);
+      return result.data;
+    },
+    onSuccess: (result) => {
+      // A dry run changes nothing
+      if (result.dryRun) return;
+
+      queryClient.invalidateQueries({
+        queryKey: ["participantResults"],
+        exact: false
+      });
+
+      queryClient.invalidateQueries({
+        queryKey: ["leaderboard"]
+      });
+
+      queryClient.invalidateQueries({
+        queryKey: ["stationAudits"],
+        exact: false
+      });
+
+      queryClient.invalidateQueries({
+        queryKey: ["unscorableResults"],
+        exact: false
+      });
+
+      console.log("🔄 Cache invalidated after re-score");
+    },
+    onError: (error) => {
+      console.error('❌ Failed to re-score station results:', error);
+    },
+  });
+}
@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  RuleSetComparison,
+  ScoringRuleSet,
+  ScoringRuleSetSummary,
+} from "@/lib/types/database";
+
+interface PublishRuleSetParams {
+  name: string;
+  notes?: string | null;
+  effective_from?: string | null;
+}
+
+// Query key for scoring rule set versions
+export const ruleSetsQueryKey = ["ruleSets"] as const;
+
+// Query key for a comparison of two rule set versions
+export const ruleSetComparisonQueryKey = (from?: string, to?: string) =>
+  ["ruleSetComparison", from, to] as const;
+
+// Hook to fetch published scoring rule set versions (admin only)
+export function useRuleSets() {
+  return useQuery({
+    queryKey: ruleSetsQueryKey,
+    queryFn: async (): Promise<ScoringRuleSetSummary[]> => {
+      console.log("🔄 Fetching scoring rule sets");
+      const response = await fetch('/api/admin/rule-sets');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch scoring rule sets');
+      }
+
+      const data = await response.json();
+      console.log("✅ Scoring rule sets received:", data);
+      return data;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: true,
+  });
+}
+
+// Hook to compare two rule set versions, or a version with the working rules ("draft")
+export function useRuleSetComparison(from?: string, to?: string) {
+  return useQuery({
+    queryKey: ruleSetComparisonQueryKey(from, to),
+    queryFn: async (): Promise<RuleSetComparison> => {
+      const params = new URLSearchParams({ from: from!, to: to! });
+
+      console.log("🔄 Comparing scoring rule sets:", from, to);
+      const response = await fetch(`/api/admin/rule-sets/compare?${params.toString()}`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to compare scoring rule sets');
+      }
+
+      const data = await response.json();
+      console.log("✅ Scoring rule set comparison received");
+      return data;
+    },
+    enabled: !!from && !!to, // Only run once both sides are chosen
+    staleTime: 60 * 1000, // 1 minute - the working rules can change
+    gcTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+// Hook to publish the working thresholds and bands as a new version (admin only)
+export function usePublishRuleSet() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: PublishRuleSetParams): Promise<ScoringRuleSet> => {
+      console.log("🔄 Publishing scoring rule set:", data);
+
+      const response = await fetch('/api/admin/rule-sets', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to publish scoring rule set');
+      }
+
+      const result = await response.json();
+      console.log("✅ Scoring rule set published:", result.version);
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ruleSetsQueryKey
+      });
+
+      queryClient.invalidateQueries({
+        queryKey: ["ruleSetComparison"],
+        exact: false
+      });
+
+      console.log("🔄 Cache invalidated after rule set publish");
+    },
+    onError: (error) => {
+      console.error('❌ Failed to publish scoring rule set:', error);
+    },
+  });
+}
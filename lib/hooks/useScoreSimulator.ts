@@ -0,0 +1,90 @@
+import { useMutation } from "@tanstack/react-query";
+import type {
+  ParticipantSimulation,
+  ThresholdReplay,
+} from "@/lib/scoring/simulate";
+import type { ThresholdRange } from "@/lib/scoring/thresholds";
+
+interface SimulateParticipantParams {
+  age: number;
+  gender: string;
+  // Required unless the gender is male or female
+  scoringReference?: string | null;
+  // Measurements keyed by station type
+  measurements: Record<string, Record<string, number | null>>;
+  // Draft thresholds to score with; omit to use the rules in effect now
+  thresholds?: ThresholdRange[] | null;
+}
+
+interface ReplayThresholdsParams {
+  thresholds: ThresholdRange[];
+}
+
+// Turn a 400 response with row errors into one readable message
+function toSimulatorError(
+  error: { error?: string; errors?: { row: number; message: string }[] },
+  fallback: string
+) {
+  const rowErrors = (error.errors || [])
+    .map((rowError) =>
+      rowError.row > 0 ? `Row ${rowError.row}: ${rowError.message}` : rowError.message
+    )
+    .join('\n');
+  return new Error([error.error || fallback, rowErrors].filter(Boolean).join('\n'));
+}
+
+// Hook to score a hypothetical participant (admin only). Nothing is stored.
+export function useSimulateParticipant() {
+  return useMutation({
+    mutationFn: async (params: SimulateParticipantParams): Promise<ParticipantSimulation> => {
+      console.log("🔄 Simulating participant scores:", params.age, params.gender);
+
+      const response = await fetch('/api/admin/simulator/participant', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(params),
+      });
+
+      if (!response.ok) {
+        throw toSimulatorError(await response.json(), 'Failed to simulate scores');
+      }
+
+      const result = await response.json();
+      console.log("✅ Simulated scores:", result.data.composite);
+      return result.data;
+    },
+    onError: (error) => {
+      console.error('❌ Failed to simulate scores:', error);
+    },
+  });
+}
+
+// Hook to replay draft thresholds against all stored results (admin only). Nothing is stored.
+export function useReplayThresholds() {
+  return useMutation({
+    mutationFn: async (params: ReplayThresholdsParams): Promise<ThresholdReplay> => {
+      console.log("🔄 Replaying draft thresholds:", params.thresholds.length);
+
+      const response = await fetch('/api/admin/simulator/replay', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(params),
+      });
+
+      if (!response.ok) {
+        throw toSimulatorError(await response.json(), 'Failed to replay thresholds');
+      }
+
+      const result = await response.json();
+      console.log("✅ Threshold replay:", result.data.summary);
+      return result.data;
+    },
+    onError: (error) => {
+      console.error('❌ Failed to replay thresholds:', error);
+    },
+  });
+}
@@ -0,0 +1,74 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ScoringProfile, ScoringProfileUpdate } from "@/lib/types/database";
+
+// Query key for the active scoring profile
+export const scoringProfileQueryKey = ["scoringProfile"] as const;
+
+// Hook to fetch the active scoring profile (admin only)
+export function useScoringProfile() {
+  return useQuery({
+    queryKey: scoringProfileQueryKey,
+    queryFn: async (): Promise<ScoringProfile> => {
+      console.log("🔄 Fetching scoring profile");
+      const response = await fetch('/api/admin/scoring-profile');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch scoring profile');
+      }
+
+      const data = await response.json();
+      console.log("✅ Scoring profile received:", data);
+      return data;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: true,
+  });
+}
+
+// Hook to update the scoring profile (admin only)
+export function useUpdateScoringProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: ScoringProfileUpdate & { id: string }): Promise<ScoringProfile> => {
+      console.log("🔄 Updating scoring profile:", data);
+
+      const response = await fetch('/api/admin/scoring-profile', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update scoring profile');
+      }
+
+      const result = await response.json();
+      console.log("✅ Scoring profile updated:", result);
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: scoringProfileQueryKey });
+
+      // Totals and grades are derived from the profile
+      queryClient.invalidateQueries({
+        queryKey: ["participantResults"],
+        exact: false
+      });
+
+      queryClient.invalidateQueries({
+        queryKey: ["leaderboard"]
+      });
+
+      console.log("🔄 Cache invalidated after scoring profile update");
+    },
+    onError: (error) => {
+      console.error('❌ Failed to update scoring profile:', error);
+    },
+  });
+}
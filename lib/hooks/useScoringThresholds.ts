@@ -1,5 +1,10 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import type { ScoringThreshold, ScoringThresholdInsert, ScoringThresholdUpdate } from "@/lib/types/database";
+import type { ThresholdCoverageReport } from "@/lib/scoring/thresholds";
+import type {
+  ThresholdFileFormat,
+  ThresholdImportResult,
+} from "@/lib/scoring/threshold-files";
 
 // Query key for scoring thresholds data
 export const scoringThresholdsQueryKey = (filters?: {
@@ -44,6 +49,32 @@ export function useScoringThresholds(filters?: ScoringThresholdFilters) {
   });
 }
 
+// Query key for the threshold coverage report
+export const thresholdCoverageQueryKey = ["thresholdCoverage"] as const;
+
+// Hook to fetch age coverage of scoring thresholds per station and gender (admin only)
+export function useThresholdCoverage() {
+  return useQuery({
+    queryKey: thresholdCoverageQueryKey,
+    queryFn: async (): Promise<ThresholdCoverageReport> => {
+      console.log("🔄 Fetching scoring threshold coverage");
+      const response = await fetch('/api/admin/scoring-thresholds/coverage');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch threshold coverage');
+      }
+
+      const data = await response.json();
+      console.log("✅ Scoring threshold coverage received:", data.summary);
+      return data;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: true,
+  });
+}
+
 // Hook to create scoring threshold (admin only)
 export function useCreateScoringThreshold() {
   const queryClient = useQueryClient();
@@ -76,6 +107,11 @@ export function useCreateScoringThreshold() {
         exact: false
       });
 
+      // Coverage depends on the full set of thresholds
+      queryClient.invalidateQueries({
+        queryKey: thresholdCoverageQueryKey
+      });
+
       // Also invalidate participant results since scoring may have changed
       queryClient.invalidateQueries({
         queryKey: ["participantResults"],
@@ -122,6 +158,11 @@ export function useUpdateScoringThreshold() {
         exact: false
       });
 
+      // Coverage depends on the full set of thresholds
+      queryClient.invalidateQueries({
+        queryKey: thresholdCoverageQueryKey
+      });
+
       // Also invalidate participant results since scoring may have changed
       queryClient.invalidateQueries({
         queryKey: ["participantResults"],
@@ -169,6 +210,11 @@ export function useDeleteScoringThreshold() {
         exact: false
       });
 
+      // Coverage depends on the full set of thresholds
+      queryClient.invalidateQueries({
+        queryKey: thresholdCoverageQueryKey
+      });
+
       // Also invalidate participant results since scoring may have changed
       queryClient.invalidateQueries({
         queryKey: ["participantResults"],
@@ -186,4 +232,69 @@ export function useDeleteScoringThreshold() {
       console.error('❌ Failed to delete scoring threshold:', error);
     },
   });
-}
\ No newline at end of file
+}
+
+interface ImportScoringThresholdsParams {
+  format: ThresholdFileFormat;
+  content: string;
+  dryRun: boolean;
+}
+
+// Hook to preview or apply a CSV/JSON thresholds file (admin only)
+export function useImportScoringThresholds() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: ImportScoringThresholdsParams): Promise<ThresholdImportResult> => {
+      console.log("🔄 Importing scoring thresholds:", params.format, params.dryRun ? "(preview)" : "");
+
+      const response = await fetch('/api/admin/scoring-thresholds/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(params),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        // List the invalid rows so they can be fixed in the spreadsheet
+        const rowErrors = (error.errors || [])
+          .map((rowError: { row: number; message: string }) =>
+            rowError.row > 0 ? `Row ${rowError.row}: ${rowError.message}` : rowError.message
+          )
+          .join('\n');
+        throw new Error(
+          [error.error || 'Failed to import scoring thresholds', rowErrors].filter(Boolean).join('\n')
+        );
+      }
+
+      const result = await response.json();
+      console.log("✅ Scoring thresholds import:", result.data.summary);
+      return result.data;
+    },
+    onSuccess: (result) => {
+      // A preview changes nothing
+      if (result.dryRun) return;
+
+      queryClient.invalidateQueries({
+        queryKey: ["scoringThresholds"],
+        exact: false
+      });
+
+      queryClient.invalidateQueries({
+        queryKey: thresholdCoverageQueryKey
+      });
+
+      queryClient.invalidateQueries({
+        queryKey: ["ruleSetComparison"],
+        exact: false
+      });
+
+      console.log("🔄 Cache invalidated after threshold import");
+    },
+    onError: (error) => {
+      console.error('❌ Failed to import scoring thresholds:', error);
+    },
+  });
+}
@@ -0,0 +1,60 @@
+import { useQuery } from "@tanstack/react-query";
+import type { StationAudit } from "@/lib/types/database";
+
+export interface StationAuditFilters {
+  page?: number;
+  limit?: number;
+  participant_code?: string;
+  station_type?: string;
+  action?: string;
+  actor?: string;
+  station_result_id?: string;
+}
+
+interface StationAuditsResponse {
+  audits: StationAudit[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+// Query key for station audit data
+export const stationAuditsQueryKey = (filters?: StationAuditFilters) =>
+  ["stationAudits", filters] as const;
+
+// Hook to fetch the station audit trail (admin only)
+export function useStationAudits(filters: StationAuditFilters = {}) {
+  return useQuery({
+    queryKey: stationAuditsQueryKey(filters),
+    queryFn: async (): Promise<StationAuditsResponse> => {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== "") {
+          params.set(key, String(value));
+        }
+      });
+
+      const url = `/api/admin/audits${params.toString() ? `?${params.toString()}` : ''}`;
+
+      console.log("🔄 Fetching station audits:", url);
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch audit records');
+      }
+
+      const result = await response.json();
+      console.log("✅ Station audits received:", result.data?.pagination);
+      return result.data;
+    },
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    placeholderData: (previous) => previous,
+  });
+}
@@ -1,13 +1,16 @@
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { participantResultsQueryKey } from "./useParticipantResults";
-import type { StationType, BalanceMeasurement, BreathMeasurement, GripMeasurement } from "@/lib/types/database";
+import type { StationType, StationAttempt, StationResultVersion, UnscorableReason } from "@/lib/types/database";
 
-type MeasurementData = BalanceMeasurement | BreathMeasurement | GripMeasurement;
+// Measurements are keyed by the metric keys declared on the station
+type MeasurementData = Record<string, number>;
 
 interface StationResultRequest {
   participantCode: string;
   stationType: StationType;
-  measurements: MeasurementData;
+  // Single-attempt stations send measurements, multi-attempt stations send attempts
+  measurements?: MeasurementData;
+  attempts?: MeasurementData[];
 }
 
 interface StationResultResponse {
@@ -17,15 +20,48 @@ interface StationResultResponse {
   participant_code: string;
   station_type: StationType;
   measurements: MeasurementData;
+  // Null when the result was saved but couldn't be scored
+  score: number | null;
+  unscorable_reason: UnscorableReason | null;
+  // Shown to the operator when the score is pending
+  warning: string | null;
+  attempts?: { attemptNumber: number; measurements: MeasurementData; score: number | null }[];
   created_at: string;
 }
 
+interface StationResultCorrection {
+  resultId: string;
+  measurements?: MeasurementData;
+  attempts?: MeasurementData[];
+  reason: string;
+  expectedVersion?: number;
+}
+
+interface StationResultCorrectionResponse extends StationResultResponse {
+  previous_score: number | null;
+  version: number;
+  updated_at: string;
+}
+
+interface StationResultVersionsResponse {
+  result_id: string;
+  current_version: number;
+  versions: StationResultVersion[];
+}
+
 interface ConflictError extends Error {
   isConflict: boolean;
   existingResultId?: string;
   recordedAt?: string;
+  existingMeasurements?: MeasurementData;
+  existingScore?: number | null;
+  existingVersion?: number;
+  existingAttempts?: StationAttempt[];
 }
 
+// Query key for the correction history of a station result
+export const stationResultVersionsQueryKey = (resultId: string) => ["stationResultVersions", resultId] as const;
+
 // Hook to submit station results and invalidate related caches
 export function useSubmitStationResult() {
   const queryClient = useQueryClient();
@@ -51,6 +87,10 @@ export function useSubmitStationResult() {
           conflictError.isConflict = true;
           conflictError.existingResultId = error.existingResultId;
           conflictError.recordedAt = error.recordedAt;
+          conflictError.existingMeasurements = error.existingMeasurements;
+          conflictError.existingScore = error.existingScore;
+          conflictError.existingVersion = error.existingVersion;
+          conflictError.existingAttempts = error.existingAttempts;
           throw conflictError;
         }
 
@@ -83,6 +123,72 @@ export function useSubmitStationResult() {
   });
 }
 
+// Hook to correct an existing station result in place and invalidate related caches
+export function useCorrectStationResult() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: StationResultCorrection): Promise<StationResultCorrectionResponse> => {
+      console.log("🔄 Correcting station result:", data);
+
+      const response = await fetch('/api/station-results', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to correct measurements');
+      }
+
+      const result = await response.json();
+      console.log("✅ Station result corrected successfully:", result);
+      return result;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: ["participantResults"],
+        exact: false
+      });
+
+      queryClient.invalidateQueries({
+        queryKey: ["leaderboard"]
+      });
+
+      queryClient.invalidateQueries({
+        queryKey: stationResultVersionsQueryKey(data.result_id)
+      });
+
+      console.log("🔄 Cache invalidated after correction");
+    },
+    onError: (error) => {
+      console.error('❌ Failed to correct station result:', error);
+    },
+  });
+}
+
+// Hook to fetch the correction history of a station result (operator/admin only)
+export function useStationResultVersions(resultId: string | undefined) {
+  return useQuery({
+    queryKey: stationResultVersionsQueryKey(resultId || ''),
+    queryFn: async (): Promise<StationResultVersionsResponse> => {
+      const response = await fetch(`/api/station-results/${resultId}/versions`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch result history');
+      }
+
+      return response.json();
+    },
+    enabled: !!resultId,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
 // Hook to delete station results and invalidate related caches
 export function useDeleteStationResult() {
   const queryClient = useQueryClient();
@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Json, UnscorableReason } from "@/lib/types/database";
+
+export interface UnscorableResultFilters {
+  page?: number;
+  limit?: number;
+  station_type?: string;
+  reason?: UnscorableReason;
+}
+
+export interface UnscorableResult {
+  id: string;
+  participant_id: string;
+  participant_code: string | null;
+  station_type: string;
+  measurements: Json;
+  unscorable_reason: UnscorableReason;
+  score_explanation: Json | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface UnscorableResultsResponse {
+  results: UnscorableResult[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+// Query key for the queue of results that couldn't be scored
+export const unscorableResultsQueryKey = (filters?: UnscorableResultFilters) =>
+  ["unscorableResults", filters] as const;
+
+// Hook to fetch station results that are pending because they couldn't be scored (admin only)
+export function useUnscorableResults(filters: UnscorableResultFilters = {}) {
+  return useQuery({
+    queryKey: unscorableResultsQueryKey(filters),
+    queryFn: async (): Promise<UnscorableResultsResponse> => {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== "") {
+          params.set(key, String(value));
+        }
+      });
+
+      const url = `/api/admin/unscorable-results${params.toString() ? `?${params.toString()}` : ''}`;
+
+      console.log("🔄 Fetching unscorable results:", url);
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch unscorable results');
+      }
+
+      const result = await response.json();
+      console.log("✅ Unscorable results received:", result.data?.pagination);
+      return result.data;
+    },
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    placeholderData: (previous) => previous,
+  });
+}
@@ -0,0 +1,76 @@
+// Kiosk boards, shared by the kiosk API and the admin display settings.
+// Kept free of server imports so client components can use them.
+import { z } from "zod";
+import { GENDER_OPTIONS } from "@/lib/scoring/gender";
+import { AGE_BANDS, getAgeBand } from "@/lib/leaderboard/segments";
+import type { AgeGroup, Gender } from "@/lib/types/database";
+
+// A board is "overall", "teams", "gender:<gender>" or "age:<age band>"
+export type KioskBoard =
+  | { type: "overall" }
+  | { type: "teams" }
+  | { type: "gender"; gender: Gender }
+  | { type: "age"; age_band: AgeGroup };
+
+export const KIOSK_BOARD_OPTIONS: { value: string; label: string }[] = [
+  { value: "overall", label: "Overall" },
+  { value: "teams", label: "Teams" },
+  ...GENDER_OPTIONS.filter(
+    (option) => option.value !== "prefer_not_to_say"
+  ).map((option) => ({
+    value: `gender:${option.value}`,
+    label: option.label,
+  })),
+  ...AGE_BANDS.map((band) => ({
+    value: `age:${band.value}`,
+    label: `Age ${band.label}`,
+  })),
+];
+
+export function parseKioskBoard(value: string): KioskBoard | null {
+  if (value === "overall" || value === "teams") {
+    return { type: value };
+  }
+
+  const [type, segment] = value.split(":");
+  if (type === "gender") {
+    const option = GENDER_OPTIONS.find((option) => option.value === segment);
+    return option ? { type: "gender", gender: option.value } : null;
+  }
+  if (type === "age") {
+    const band = getAgeBand(segment);
+    return band ? { type: "age", age_band: band.value } : null;
+  }
+
+  return null;
+}
+
+export function getKioskBoardLabel(value: string) {
+  return (
+    KIOSK_BOARD_OPTIONS.find((option) => option.value === value)?.label ||
+    value
+  );
+}
+
+const hexColor = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Use a hex colour such as #2563eb");
+
+export const kioskDisplaySchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  event_name: z.string().trim().min(1, "Event name is required"),
+  logo_url: z.string().trim().url().nullable().optional(),
+  primary_color: hexColor.optional(),
+  accent_color: hexColor.optional(),
+  boards: z
+    .array(z.string())
+    .min(1, "Choose at least one board")
+    .refine((boards) => boards.every((board) => parseKioskBoard(board)), {
+      message: "Unknown board",
+    })
+    .optional(),
+  rotation_seconds: z.number().int().min(5).max(300).optional(),
+  rows_per_board: z.number().int().min(3).max(25).optional(),
+});
+
+export type KioskDisplayInput = z.infer<typeof kioskDisplaySchema>;
@@ -0,0 +1,74 @@
+// Signed display tokens for kiosk screens: base64url JSON payload and an
+// HMAC-SHA256 signature, keyed with KIOSK_TOKEN_SECRET. Server only.
+import { createHmac, timingSafeEqual } from "crypto";
+
+export interface DisplayTokenPayload {
+  display_id: string;
+  // Must match kiosk_displays.token_version
+  version: number;
+  // Expiry, seconds since the epoch
+  exp: number;
+}
+
+function getSecret() {
+  const secret = process.env.KIOSK_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("Missing KIOSK_TOKEN_SECRET environment variable");
+  }
+  return secret;
+}
+
+function sign(encodedPayload: string) {
+  return createHmac("sha256", getSecret())
+    .update(encodedPayload)
+    .digest("base64url");
+}
+
+export function createDisplayToken(
+  displayId: string,
+  version: number,
+  expiresInHours: number
+) {
+  const payload: DisplayTokenPayload = {
+    display_id: displayId,
+    version,
+    exp: Math.floor(Date.now() / 1000) + Math.round(expiresInHours * 3600),
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+    "base64url"
+  );
+
+  return {
+    token: `${encodedPayload}.${sign(encodedPayload)}`,
+    expires_at: new Date(payload.exp * 1000).toISOString(),
+  };
+}
+
+// Returns the payload of a genuine, unexpired token, otherwise null
+export function verifyDisplayToken(token: string): DisplayTokenPayload | null {
+  const [encodedPayload, signature] = token.split(".");
+  if (!encodedPayload || !signature) return null;
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload, "base64url").toString("utf8")
+    );
+    if (
+      typeof payload?.display_id !== "string" ||
+      typeof payload?.version !== "number" ||
+      typeof payload?.exp !== "number" ||
+      payload.exp * 1000 < Date.now()
+    ) {
+      return null;
+    }
+    return payload as DisplayTokenPayload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,157 @@
+// Live leaderboard updates. The leaderboard page listens to a feed of changed
+// leaderboard entries; in the app the feed is Supabase realtime on
+// leaderboard_entries (kept up to date from station_results by triggers). In
+// development and tests the server's local feed stands in for it: the
+// station-results routes publish to it and the page reads it as a stream of
+// server-sent events.
+// Kept free of server imports so client components can use them.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/types/database";
+
+export interface LeaderboardChange {
+  type: "upsert" | "delete";
+  participant_id: string;
+  participant_code: string | null;
+  total_score: number | null;
+}
+
+export type LeaderboardFeedStatus = "connecting" | "live" | "offline";
+
+export interface LeaderboardFeed {
+  // Returns a function that stops listening
+  subscribe(
+    onChange: (change: LeaderboardChange) => void,
+    onStatus?: (status: LeaderboardFeedStatus) => void
+  ): () => void;
+}
+
+type LeaderboardEntryRow =
+  Database["public"]["Tables"]["leaderboard_entries"]["Row"];
+
+export function createRealtimeLeaderboardFeed(
+  client: SupabaseClient<Database>
+): LeaderboardFeed {
+  return {
+    subscribe(onChange, onStatus) {
+      onStatus?.("connecting");
+
+      const channel = client
+        .channel("leaderboard-entries")
+        .on<LeaderboardEntryRow>(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "leaderboard_entries" },
+          (payload) => {
+            if (payload.eventType === "DELETE") {
+              if (!payload.old.participant_id) return;
+              onChange({
+                type: "delete",
+                participant_id: payload.old.participant_id,
+                participant_code: payload.old.participant_code ?? null,
+                total_score: null,
+              });
+              return;
+            }
+
+            onChange({
+              type: "upsert",
+              participant_id: payload.new.participant_id,
+              participant_code: payload.new.participant_code,
+              total_score: payload.new.total_score,
+            });
+          }
+        )
+        .subscribe((status) => {
+          if (status === "SUBSCRIBED") {
+            onStatus?.("live");
+          } else if (status !== "CLOSED") {
+            // CHANNEL_ERROR and TIMED_OUT; the client keeps retrying
+            onStatus?.("offline");
+          }
+        });
+
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+  };
+}
+
+export interface LocalLeaderboardFeed extends LeaderboardFeed {
+  // Deliver a change to every subscriber, as realtime would
+  publish(change: LeaderboardChange): void;
+  setStatus(status: LeaderboardFeedStatus): void;
+}
+
+// In-memory feed. It reports "connecting" until whoever publishes to it marks
+// it live with setStatus.
+export function createLocalLeaderboardFeed(): LocalLeaderboardFeed {
+  const listeners = new Set<(change: LeaderboardChange) => void>();
+  const statusListeners = new Set<(status: LeaderboardFeedStatus) => void>();
+  let currentStatus: LeaderboardFeedStatus = "connecting";
+
+  return {
+    subscribe(onChange, onStatus) {
+      listeners.add(onChange);
+      if (onStatus) {
+        statusListeners.add(onStatus);
+        onStatus(currentStatus);
+      }
+
+      return () => {
+        listeners.delete(onChange);
+        if (onStatus) statusListeners.delete(onStatus);
+      };
+    },
+    publish(change) {
+      listeners.forEach((listener) => listener(change));
+    },
+    setStatus(status) {
+      currentStatus = status;
+      statusListeners.forEach((listener) => listener(status));
+    },
+  };
+}
+
+// Server-sent event stream of leaderboard changes, e.g. /api/leaderboard-feed.
+// Live while the stream is open; the browser reconnects after an error.
+export function createEventStreamLeaderboardFeed(url: string): LeaderboardFeed {
+  return {
+    subscribe(onChange, onStatus) {
+      onStatus?.("connecting");
+
+      const source = new EventSource(url);
+      source.onopen = () => onStatus?.("live");
+      source.onerror = () => onStatus?.("offline");
+      source.onmessage = (event) => {
+        try {
+          onChange(JSON.parse(event.data) as LeaderboardChange);
+        } catch (error) {
+          console.error("Invalid leaderboard change:", error);
+        }
+      };
+
+      return () => {
+        source.close();
+      };
+    },
+  };
+}
+
+// Rank movement per participant between two pages of results: positive when a
+// participant moved up. Participants new to the page are not included.
+export function getRankChanges(
+  previous: { id: string; rank: number }[],
+  current: { id: string; rank: number }[]
+): Record<string, number> {
+  const previousRanks = new Map(previous.map((row) => [row.id, row.rank]));
+  const changes: Record<string, number> = {};
+
+  current.forEach((row) => {
+    const previousRank = previousRanks.get(row.id);
+    if (previousRank !== undefined && previousRank !== row.rank) {
+      changes[row.id] = previousRank - row.rank;
+    }
+  });
+
+  return changes;
+}
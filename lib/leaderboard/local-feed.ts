@@ -0,0 +1,110 @@
+// Server side of the local leaderboard feed, which stands in for Supabase
+// realtime when NEXT_PUBLIC_LEADERBOARD_FEED=local. The station-results routes
+// publish each participant's changed entry here and /api/leaderboard-feed
+// streams the changes to the leaderboard page as server-sent events.
+import { createAdminClient } from "@/lib/supabase/server";
+import {
+  createLocalLeaderboardFeed,
+  type LeaderboardChange,
+  type LeaderboardFeed,
+  type LocalLeaderboardFeed,
+} from "@/lib/leaderboard/live";
+
+// One feed per server process, shared by every route (and kept across hot
+// reloads in development)
+const globalForFeed = globalThis as typeof globalThis & {
+  localLeaderboardFeed?: LocalLeaderboardFeed;
+};
+
+export function isLocalLeaderboardFeedEnabled() {
+  return process.env.NEXT_PUBLIC_LEADERBOARD_FEED === "local";
+}
+
+export function getLocalLeaderboardFeed(): LocalLeaderboardFeed {
+  if (!globalForFeed.localLeaderboardFeed) {
+    const feed = createLocalLeaderboardFeed();
+    // Its publishers run in this process, so it is live from the start
+    feed.setStatus("live");
+    globalForFeed.localLeaderboardFeed = feed;
+  }
+  return globalForFeed.localLeaderboardFeed;
+}
+
+/**
+ * Publish a participant's leaderboard entry to the local feed after their
+ * results change. Does nothing unless the local feed is enabled; failures are
+ * logged, not thrown, so they never fail the write that triggered them.
+ */
+export async function publishLeaderboardEntry(participantId: string) {
+  if (!isLocalLeaderboardFeedEnabled()) return;
+
+  const supabase = createAdminClient();
+  const { data: entry, error } = await supabase
+    .from("leaderboard_entries")
+    .select("participant_id, participant_code, total_score, hidden")
+    .eq("participant_id", participantId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching leaderboard entry to publish:", error);
+    return;
+  }
+
+  // Hidden participants aren't on the leaderboard, as with realtime
+  const change: LeaderboardChange =
+    entry && !entry.hidden
+      ? {
+          type: "upsert",
+          participant_id: entry.participant_id,
+          participant_code: entry.participant_code,
+          total_score: Number(entry.total_score),
+        }
+      : {
+          type: "delete",
+          participant_id: participantId,
+          participant_code: null,
+          total_score: null,
+        };
+
+  getLocalLeaderboardFeed().publish(change);
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Server-sent events for every change published to the feed, one JSON change
+ * per event, until the client disconnects
+ */
+export function createLeaderboardEventStream(
+  feed: LeaderboardFeed,
+  signal?: AbortSignal
+): ReadableStream<Uint8Array> {
+  let unsubscribe = () => {};
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      // A comment line, so the client sees the stream open straight away
+      controller.enqueue(encoder.encode(": connected\n\n"));
+
+      unsubscribe = feed.subscribe((change) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(change)}\n\n`));
+      });
+
+      signal?.addEventListener(
+        "abort",
+        () => {
+          if (closed) return;
+          closed = true;
+          unsubscribe();
+          controller.close();
+        },
+        { once: true }
+      );
+    },
+    cancel() {
+      closed = true;
+      unsubscribe();
+    },
+  });
+}
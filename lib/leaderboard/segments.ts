@@ -0,0 +1,35 @@
+// Leaderboard segment options, shared by the station results API and the leaderboard page.
+// Kept free of server imports so client components can use them.
+import type { AgeGroup, CompletionSegment } from "@/lib/types/database";
+
+export const AGE_BANDS: {
+  value: AgeGroup;
+  label: string;
+  min_age: number | null;
+  max_age: number | null;
+}[] = [
+  { value: "under-18", label: "Under 18", min_age: null, max_age: 17 },
+  { value: "18-25", label: "18-25", min_age: 18, max_age: 25 },
+  { value: "26-35", label: "26-35", min_age: 26, max_age: 35 },
+  { value: "36-45", label: "36-45", min_age: 36, max_age: 45 },
+  { value: "46-55", label: "46-55", min_age: 46, max_age: 55 },
+  { value: "56-65", label: "56-65", min_age: 56, max_age: 65 },
+  { value: "65+", label: "Over 65", min_age: 66, max_age: null },
+];
+
+export const COMPLETION_SEGMENTS: {
+  value: CompletionSegment;
+  label: string;
+}[] = [
+  { value: "all", label: "All stations completed" },
+  { value: "partial", label: "Some stations completed" },
+  { value: "none", label: "No stations completed" },
+];
+
+export function getAgeBand(value: string | null | undefined) {
+  return AGE_BANDS.find((band) => band.value === value) || null;
+}
+
+export function isCompletionSegment(value: unknown): value is CompletionSegment {
+  return COMPLETION_SEGMENTS.some((segment) => segment.value === value);
+}
@@ -0,0 +1,89 @@
+// Leaderboard visibility options, shared by the signup form, the participant's
+// settings and the API routes that save them. The database applies the choice
+// (see leaderboard_display_name); formatLeaderboardName() previews it.
+// Kept free of server imports so client components can use them.
+import type { LeaderboardVisibility } from "@/lib/types/database";
+
+export const LEADERBOARD_ALIAS_MIN_LENGTH = 2;
+export const LEADERBOARD_ALIAS_MAX_LENGTH = 30;
+
+export const LEADERBOARD_VISIBILITY_OPTIONS: {
+  value: LeaderboardVisibility;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "full_name",
+    label: "Full name",
+    description: "Your name and organisation are shown",
+  },
+  {
+    value: "initials",
+    label: "Initials",
+    description: "Your first name and surname initials, with your organisation",
+  },
+  {
+    value: "alias",
+    label: "Alias",
+    description: "A name you choose, without your organisation",
+  },
+  {
+    value: "hidden",
+    label: "Hidden",
+    description: "You're left off the leaderboard; your scores still count for your team",
+  },
+];
+
+export function isLeaderboardVisibility(
+  value: unknown
+): value is LeaderboardVisibility {
+  return LEADERBOARD_VISIBILITY_OPTIONS.some((option) => option.value === value);
+}
+
+/**
+ * Check a visibility choice and alias before saving. Returns an error message,
+ * or null when they are valid.
+ */
+export function validateLeaderboardVisibility(
+  visibility: unknown,
+  alias: string | null | undefined
+): string | null {
+  if (!isLeaderboardVisibility(visibility)) {
+    return "Invalid leaderboard visibility";
+  }
+
+  const trimmed = alias?.trim() || "";
+  if (visibility === "alias" && !trimmed) {
+    return "Please choose an alias";
+  }
+  if (
+    trimmed &&
+    (trimmed.length < LEADERBOARD_ALIAS_MIN_LENGTH ||
+      trimmed.length > LEADERBOARD_ALIAS_MAX_LENGTH)
+  ) {
+    return `Alias must be between ${LEADERBOARD_ALIAS_MIN_LENGTH} and ${LEADERBOARD_ALIAS_MAX_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * The name shown on the leaderboard under a visibility choice, or null when
+ * hidden. Aliases fall back to initials when none is set.
+ */
+export function formatLeaderboardName(
+  name: string,
+  visibility: LeaderboardVisibility,
+  alias?: string | null
+): string | null {
+  if (visibility === "hidden") return null;
+  if (visibility === "alias" && alias?.trim()) return alias.trim();
+  if (visibility === "full_name") return name;
+
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const initials = [parts[0], ...(parts.length > 1 ? [parts[parts.length - 1]] : [])];
+  // First characters, not UTF-16 units, as left() takes in the database
+  return initials.map((part) => `${Array.from(part)[0].toUpperCase()}.`).join(" ");
+}
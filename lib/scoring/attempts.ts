@@ -0,0 +1,216 @@
+import type {
+  AttemptPolicy,
+  Json,
+  ScoreExplanation,
+  ScoringRuleSetRules,
+  StationMetricDefinition,
+  UnscorableReason,
+} from "@/lib/types/database";
+import {
+  scoreStation,
+  type MeasurementData,
+  type StationDefinition,
+} from "@/lib/scoring/calculator";
+import { getMetricValue, getPrimaryMetric } from "@/lib/stations/metrics";
+
+export interface ScoredAttempt {
+  attemptNumber: number;
+  measurements: MeasurementData;
+  score: number | null;
+  continuousScore: number | null;
+  unscorableReason: UnscorableReason | null;
+  explanation: ScoreExplanation;
+}
+
+export interface AggregatedAttempts {
+  measurements: MeasurementData;
+  score: number | null;
+  continuousScore: number | null;
+  unscorableReason: UnscorableReason | null;
+  explanation: ScoreExplanation;
+  attempts: ScoredAttempt[];
+}
+
+/**
+ * Validate the number of attempts against a station's attempt policy.
+ * Returns an error message, or null when the attempts are acceptable.
+ */
+export function validateAttemptCount(
+  policy: AttemptPolicy,
+  maxAttempts: number,
+  attemptCount: number
+): string | null {
+  if (attemptCount < 1) {
+    return "At least one attempt is required";
+  }
+
+  if (policy === "single" && attemptCount > 1) {
+    return "This station only allows a single attempt";
+  }
+
+  if (attemptCount > maxAttempts) {
+    return `This station allows at most ${maxAttempts} attempts`;
+  }
+
+  return null;
+}
+
+/**
+ * Pick the best attempt: highest score first, then the highest continuous
+ * score, then the better value of the station's primary metric in that
+ * metric's direction. Unscorable attempts only win when none can be scored.
+ */
+export function selectBestAttempt(
+  metrics: StationMetricDefinition[],
+  attempts: ScoredAttempt[]
+): ScoredAttempt {
+  const primaryMetric = getPrimaryMetric(metrics);
+
+  return attempts.reduce((best, attempt) => {
+    if (attempt.score !== best.score) {
+      return (attempt.score ?? 0) > (best.score ?? 0) ? attempt : best;
+    }
+
+    if (attempt.continuousScore !== best.continuousScore) {
+      return (attempt.continuousScore ?? -1) > (best.continuousScore ?? -1)
+        ? attempt
+        : best;
+    }
+
+    // Range metrics have no better side, so the earlier attempt stands
+    if (!primaryMetric || primaryMetric.direction === "range") return best;
+
+    const bestValue = getMetricValue(best.measurements, primaryMetric.key);
+    const attemptValue = getMetricValue(
+      attempt.measurements,
+      primaryMetric.key
+    );
+    if (attemptValue === null || bestValue === null) return best;
+
+    const isBetter =
+      primaryMetric.direction === "lower"
+        ? attemptValue < bestValue
+        : attemptValue > bestValue;
+
+    return isBetter ? attempt : best;
+  });
+}
+
+/**
+ * Average every numeric field across attempts (rounded to 2 decimals)
+ */
+export function averageAttemptMeasurements(
+  attempts: MeasurementData[]
+): MeasurementData {
+  const totals: Record<string, { sum: number; count: number }> = {};
+
+  attempts.forEach((attempt) => {
+    Object.entries(attempt).forEach(([key, value]) => {
+      if (typeof value !== "number" || Number.isNaN(value)) return;
+      totals[key] = totals[key] || { sum: 0, count: 0 };
+      totals[key].sum += value;
+      totals[key].count += 1;
+    });
+  });
+
+  return Object.fromEntries(
+    Object.entries(totals).map(([key, { sum, count }]) => [
+      key,
+      Math.round((sum / count) * 100) / 100,
+    ])
+  ) as unknown as MeasurementData;
+}
+
+/**
+ * Scored attempts as station_attempts rows for the database functions that
+ * store them with their station result
+ */
+export function toStationAttemptRows(attempts: ScoredAttempt[]): Json {
+  return attempts.map((attempt) => ({
+    attempt_number: attempt.attemptNumber,
+    measurements: attempt.measurements,
+    score: attempt.score,
+    continuous_score: attempt.continuousScore,
+    score_explanation: attempt.explanation,
+    unscorable_reason: attempt.unscorableReason,
+  })) as unknown as Json;
+}
+
+/**
+ * Score each attempt individually and aggregate them into the measurements
+ * and score stored on the station result, following the station's policy.
+ * Attempts are scored with the given rule set, or the working rules without one,
+ * and with the participant's age on the date they were measured.
+ */
+export async function scoreAttempts(
+  participantId: string,
+  station: StationDefinition,
+  attempts: MeasurementData[],
+  ruleSet: ScoringRuleSetRules | null = null,
+  measuredAt: string | Date = new Date()
+): Promise<AggregatedAttempts> {
+  const scoredAttempts: ScoredAttempt[] = [];
+
+  for (const [index, measurements] of attempts.entries()) {
+    const { score, continuousScore, unscorableReason, explanation } =
+      await scoreStation(
+        participantId,
+        station.station_type,
+        measurements,
+        station,
+        ruleSet,
+        measuredAt
+      );
+    scoredAttempts.push({
+      attemptNumber: index + 1,
+      measurements,
+      score,
+      continuousScore,
+      unscorableReason,
+      explanation,
+    });
+  }
+
+  if (station.attempt_policy === "average_of" && scoredAttempts.length > 1) {
+    const measurements = averageAttemptMeasurements(attempts);
+    const { score, continuousScore, unscorableReason, explanation } =
+      await scoreStation(
+        participantId,
+        station.station_type,
+        measurements,
+        station,
+        ruleSet,
+        measuredAt
+      );
+
+    return {
+      measurements,
+      score,
+      continuousScore,
+      unscorableReason,
+      explanation: {
+        ...explanation,
+        attempts: `Average of ${scoredAttempts.length} attempts`,
+      },
+      attempts: scoredAttempts,
+    };
+  }
+
+  // Single attempts and best-of both store the best attempt
+  const best = selectBestAttempt(station.metrics, scoredAttempts);
+
+  return {
+    measurements: best.measurements,
+    score: best.score,
+    continuousScore: best.continuousScore,
+    unscorableReason: best.unscorableReason,
+    explanation:
+      scoredAttempts.length > 1
+        ? {
+            ...best.explanation,
+            attempts: `Best of ${scoredAttempts.length} attempts (attempt ${best.attemptNumber})`,
+          }
+        : best.explanation,
+    attempts: scoredAttempts,
+  };
+}
@@ -1,51 +1,100 @@
 import { createAdminClient } from "@/lib/supabase/server";
+import {
+  getMetricValue,
+  isMetricRequired,
+  isMetricScored,
+  parseStationMetrics,
+} from "@/lib/stations/metrics";
+import {
+  ADULT_AGE,
+  DEFAULT_SCORING_PROFILE,
+  toScoringProfileSettings,
+  type CompositeScore,
+  type ContinuousLimits,
+  type ScoringProfileSettings,
+} from "@/lib/scoring/profile";
+import { resolveScoringReference } from "@/lib/scoring/gender";
 import type {
+  AttemptPolicy,
+  HealthMetricBand,
+  MetricDirection,
+  MetricScoreExplanation,
+  ScoreExplanation,
+  Grade,
+  Json,
+  ScoringReference,
+  ScoringRuleSetRules,
+  Station,
   StationType,
+  StationMetricDefinition,
+  UnscorableReason,
   BalanceMeasurement,
   BreathMeasurement,
   GripMeasurement,
   HealthMeasurement,
+  YouthPolicy,
 } from "@/lib/types/database";
 
 export type MeasurementData =
   | BalanceMeasurement
   | BreathMeasurement
   | GripMeasurement
-  | HealthMeasurement;
+  | HealthMeasurement
+  | Record<string, number>;
+
+export interface StationDefinition {
+  station_type: StationType;
+  name: string;
+  attempt_policy: AttemptPolicy;
+  max_attempts: number;
+  metrics: StationMetricDefinition[];
+}
 
 interface ScoringThreshold {
   min_average_value: number;
   max_average_value: number;
 }
 
-interface ParticipantDemographics {
+interface MatchedScoringThreshold extends ScoringThreshold {
+  id: string;
   gender: string;
+  min_age: number;
+  max_age: number | null;
+}
+
+export interface ParticipantDemographics {
+  gender: string;
+  // Thresholds and bands to score against; null when it can't be determined
+  scoring_reference: ScoringReference | null;
   age: number;
 }
 
 /**
- * Calculate age from date of birth
+ * Calculate age from date of birth on a given date (today by default).
+ * Under-18s are not clamped; the youth policy handles them.
  */
-export function getAge(dateOfBirth: string): number {
+export function getAge(
+  dateOfBirth: string,
+  at: string | Date = new Date()
+): number {
   const birthDate = new Date(dateOfBirth);
-  const today = new Date();
-  const age = today.getFullYear() - birthDate.getFullYear();
-  const monthDiff = today.getMonth() - birthDate.getMonth();
-
-  // Adjust age if birthday hasn't occurred this year
-  const actualAge =
-    monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())
-      ? age - 1
-      : age;
+  const onDate = new Date(at);
+  const age = onDate.getFullYear() - birthDate.getFullYear();
+  const monthDiff = onDate.getMonth() - birthDate.getMonth();
 
-  return Math.max(18, actualAge); // Minimum age of 18 for scoring
+  // Adjust age if birthday hadn't occurred yet that year
+  return monthDiff < 0 ||
+    (monthDiff === 0 && onDate.getDate() < birthDate.getDate())
+    ? age - 1
+    : age;
 }
 
 /**
- * Get participant demographics (gender and age group)
+ * Get participant demographics (gender, and age on the date measured)
  */
 export async function getParticipantDemographics(
-  participantId: string
+  participantId: string,
+  measuredAt: string | Date = new Date()
 ): Promise<ParticipantDemographics | null> {
   const supabase = createAdminClient();
 
@@ -61,7 +110,7 @@ export async function getParticipantDemographics(
 
   const { data: profile, error: profileError } = await supabase
     .from("profiles")
-    .select("gender, date_of_birth")
+    .select("gender, scoring_reference, date_of_birth")
     .eq("id", participant.user_id)
     .single();
 
@@ -69,33 +118,246 @@ export async function getParticipantDemographics(
     return null;
   }
 
-  const age = getAge(profile.date_of_birth);
+  const age = getAge(profile.date_of_birth, measuredAt);
 
   return {
     gender: profile.gender,
+    scoring_reference: resolveScoringReference(
+      profile.gender,
+      profile.scoring_reference
+    ),
     age: age,
   };
 }
 
 /**
- * Get scoring thresholds for a specific station type and demographics
+ * Build a station definition from a stations row
+ */
+export function toStationDefinition(
+  station: Pick<
+    Station,
+    "station_type" | "name" | "attempt_policy" | "max_attempts" | "metrics"
+  >
+): StationDefinition {
+  return {
+    station_type: station.station_type,
+    name: station.name,
+    attempt_policy: station.attempt_policy as AttemptPolicy,
+    max_attempts: station.max_attempts,
+    metrics: parseStationMetrics(station.metrics),
+  };
+}
+
+/**
+ * Get a station's definition (attempt policy and metrics) by station type
+ */
+export async function getStationDefinition(
+  stationType: StationType
+): Promise<StationDefinition | null> {
+  const supabase = createAdminClient();
+
+  const { data: station, error } = await supabase
+    .from("stations")
+    .select("station_type, name, attempt_policy, max_attempts, metrics")
+    .eq("station_type", stationType)
+    .single();
+
+  if (error || !station) {
+    return null;
+  }
+
+  return toStationDefinition(station);
+}
+
+/**
+ * Get the active scoring profile, falling back to the default settings
+ */
+export async function getActiveScoringProfile(): Promise<ScoringProfileSettings> {
+  const supabase = createAdminClient();
+
+  const { data: profile, error } = await supabase
+    .from("scoring_profiles")
+    .select(
+      "station_weights, missing_station_policy, missing_station_penalty, above_average_min_pct, average_min_pct, continuous_scoring, continuous_limits, youth_policy, ranking_method, tie_breakers, team_top_members, team_min_members"
+    )
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error || !profile) {
+    if (error) console.error("Error fetching scoring profile:", error);
+    return DEFAULT_SCORING_PROFILE;
+  }
+
+  return toScoringProfileSettings(profile);
+}
+
+/**
+ * How under-18s are handled under a rule set: the policy published with it,
+ * or the active scoring profile's for older versions and the working rules
+ */
+export async function getYouthPolicy(
+  ruleSet: ScoringRuleSetRules | null
+): Promise<YouthPolicy> {
+  return (
+    ruleSet?.youth_policy ?? (await getActiveScoringProfile()).youth_policy
+  );
+}
+
+// Keep composite requests within PostgREST's row limit
+const COMPOSITE_BATCH_SIZE = 500;
+
+export interface CompositeScoreInput {
+  // Returned with the composite, e.g. a participant id
+  key: string;
+  scores: Record<string, number | null | undefined>;
+  continuousScores?: Record<string, number | null | undefined>;
+  // Stations recorded but not yet scorable
+  pendingStationTypes?: string[];
+}
+
+// Composite input for a participant's results; pending results count as pending stations
+export function toCompositeInput(
+  key: string,
+  results: {
+    station_type: string;
+    score: number | null;
+    unscorable_reason: string | null;
+  }[]
+): CompositeScoreInput {
+  return {
+    key,
+    scores: Object.fromEntries(
+      results.map((result) => [result.station_type, result.score])
+    ),
+    pendingStationTypes: results
+      .filter((result) => result.unscorable_reason)
+      .map((result) => result.station_type),
+  };
+}
+
+/**
+ * Combine sets of station scores into weighted totals and grades under the
+ * active scoring profile.
+ * The database does the calculation, so these always match the leaderboard.
+ */
+export async function calculateCompositeScores(
+  inputs: CompositeScoreInput[]
+): Promise<Map<string, CompositeScore>> {
+  const supabase = createAdminClient();
+  const composites = new Map<string, CompositeScore>();
+
+  for (let start = 0; start < inputs.length; start += COMPOSITE_BATCH_SIZE) {
+    const batch = inputs.slice(start, start + COMPOSITE_BATCH_SIZE);
+    const { data, error } = await supabase.rpc("calculate_composite_scores", {
+      p_participants: batch.map((input) => ({
+        key: input.key,
+        scores: input.scores,
+        continuous_scores: input.continuousScores || {},
+        pending_stations: input.pendingStationTypes || [],
+      })) as unknown as Json,
+    });
+
+    if (error) {
+      throw new Error(`Failed to calculate composite scores: ${error.message}`);
+    }
+
+    (data || []).forEach((row) => {
+      composites.set(row.key, {
+        total_score: Number(row.total_score),
+        max_possible_score: Number(row.max_possible_score),
+        percentage: row.percentage === null ? null : Number(row.percentage),
+        grade: row.grade as Grade | null,
+        completed_stations: row.completed_stations,
+        pending_stations: row.pending_stations.length,
+        continuous_score:
+          row.continuous_score === null ? null : Number(row.continuous_score),
+      });
+    });
+  }
+
+  return composites;
+}
+
+function midpoint(a: number, b: number) {
+  return (a + b) / 2;
+}
+
+// The ages two ranges have in common; a null bound is open-ended
+function commonAgeRange(
+  a: { min_age: number | null; max_age: number | null },
+  b: { min_age: number | null; max_age: number | null }
+) {
+  const bound = (x: number | null, y: number | null, pick: typeof Math.max) =>
+    x === null ? y : y === null ? x : pick(x, y);
+  return {
+    min_age: bound(a.min_age, b.min_age, Math.max),
+    max_age: bound(a.max_age, b.max_age, Math.min),
+  };
+}
+
+/**
+ * Get scoring thresholds for a specific station type and demographics.
+ * The "average" scoring reference uses the midpoint of the male and female
+ * thresholds, and needs both to exist.
+ * Thresholds come from the given rule set's snapshot, or the working table
+ * when no published rule set applies.
  */
 export async function getScoringThresholds(
+  stationType: StationType,
+  scoringReference: string,
+  age: number,
+  ruleSet: ScoringRuleSetRules | null = null
+): Promise<MatchedScoringThreshold | null> {
+  if (scoringReference !== "average") {
+    return getGenderThreshold(stationType, scoringReference, age, ruleSet);
+  }
+
+  const [male, female] = await Promise.all([
+    getGenderThreshold(stationType, "male", age, ruleSet),
+    getGenderThreshold(stationType, "female", age, ruleSet),
+  ]);
+  if (!male || !female) return null;
+
+  return {
+    id: `${male.id}+${female.id}`,
+    gender: "average",
+    min_age: Math.max(male.min_age, female.min_age),
+    max_age: commonAgeRange(male, female).max_age,
+    min_average_value: midpoint(male.min_average_value, female.min_average_value),
+    max_average_value: midpoint(male.max_average_value, female.max_average_value),
+  };
+}
+
+async function getGenderThreshold(
   stationType: StationType,
   gender: string,
-  age: number
-): Promise<ScoringThreshold | null> {
-  const supabase = createAdminClient();
+  age: number,
+  ruleSet: ScoringRuleSetRules | null
+): Promise<MatchedScoringThreshold | null> {
+  let thresholds: MatchedScoringThreshold[] | null;
 
-  const { data: thresholds, error } = await supabase
-    .from("scoring_thresholds")
-    .select("min_average_value, max_average_value, min_age, max_age")
-    .eq("station_type", stationType)
-    .eq("gender", gender)
-    .lte("min_age", age)
-    .or(`max_age.gte.${age},max_age.is.null`); // Handle open-ended age ranges
+  if (ruleSet) {
+    thresholds = ruleSet.thresholds.filter(
+      (threshold) =>
+        threshold.station_type === stationType && threshold.gender === gender
+    );
+  } else {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from("scoring_thresholds")
+      .select(
+        "id, gender, min_average_value, max_average_value, min_age, max_age"
+      )
+      .eq("station_type", stationType)
+      .eq("gender", gender)
+      .lte("min_age", age)
+      .or(`max_age.gte.${age},max_age.is.null`); // Handle open-ended age ranges
+
+    thresholds = error ? null : data;
+  }
 
-  if (error || !thresholds || thresholds.length === 0) {
+  if (!thresholds || thresholds.length === 0) {
     return null;
   }
 
@@ -118,206 +380,706 @@ export async function getScoringThresholds(
     return null;
   }
 
-  return {
-    min_average_value: matchingThreshold.min_average_value,
-    max_average_value: matchingThreshold.max_average_value,
-  };
+  return matchingThreshold;
 }
 
 /**
  * Calculate score for a measurement using the scoring thresholds
- * poor score = 1 (below min_average_value)
+ * poor score = 1 (on the wrong side of the average range)
  * average score = 2 (between min_average_value and max_average_value)
- * excellent score = 3 (above max_average_value)
+ * excellent score = 3 (beyond the average range in the metric's better direction)
  */
 export function calculateMeasurementScore(
   value: number,
-  threshold: ScoringThreshold
+  threshold: ScoringThreshold,
+  direction: MetricDirection = "higher"
 ): number {
   const { min_average_value, max_average_value } = threshold;
 
-  // Excellent score: above max_average_value
-  if (value > max_average_value) {
-    return 3;
-  }
-
   // Average score: between min_average_value and max_average_value (inclusive)
   if (value >= min_average_value && value <= max_average_value) {
     return 2;
   }
 
-  // Poor score: below min_average_value
-  return 1;
+  // Excellent score: above the range, or below it when lower is better
+  if (direction === "lower") {
+    return value < min_average_value ? 3 : 1;
+  }
+
+  return value > max_average_value ? 3 : 1;
+}
+
+/**
+ * Get the health metric bands that apply to a participant, keyed by metric name.
+ * Bands specific to the participant's scoring reference and age win over
+ * general ones; for the "average" reference, where the male and female bands
+ * differ their limits are averaged.
+ * Bands come from the given rule set's snapshot, or the working table.
+ */
+export async function getHealthMetricBands(
+  metricNames: string[],
+  demographics: ParticipantDemographics | null,
+  ruleSet: ScoringRuleSetRules | null = null
+): Promise<Map<string, HealthMetricBand>> {
+  let bands: HealthMetricBand[] | null;
+
+  if (ruleSet) {
+    bands = ruleSet.health_bands.filter((band) =>
+      metricNames.includes(band.metric_name)
+    );
+  } else {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from("health_metric_bands")
+      .select("*")
+      .in("metric_name", metricNames);
+
+    bands = error ? null : data;
+  }
+
+  if (!bands) {
+    return new Map<string, HealthMetricBand>();
+  }
+
+  if (demographics?.scoring_reference !== "average") {
+    return selectHealthMetricBands(
+      bands,
+      demographics,
+      demographics?.scoring_reference ?? null
+    );
+  }
+
+  const male = selectHealthMetricBands(bands, demographics, "male");
+  const female = selectHealthMetricBands(bands, demographics, "female");
+  const averaged = new Map<string, HealthMetricBand>();
+
+  male.forEach((maleBand, metricName) => {
+    const femaleBand = female.get(metricName);
+    if (!femaleBand) return;
+
+    averaged.set(
+      metricName,
+      maleBand.id === femaleBand.id
+        ? maleBand
+        : {
+            ...maleBand,
+            id: `${maleBand.id}+${femaleBand.id}`,
+            gender: "average",
+            ...commonAgeRange(maleBand, femaleBand),
+            optimal_min: midpoint(maleBand.optimal_min, femaleBand.optimal_min),
+            optimal_max: midpoint(maleBand.optimal_max, femaleBand.optimal_max),
+            acceptable_min: midpoint(
+              maleBand.acceptable_min,
+              femaleBand.acceptable_min
+            ),
+            acceptable_max: midpoint(
+              maleBand.acceptable_max,
+              femaleBand.acceptable_max
+            ),
+          }
+    );
+  });
+
+  return averaged;
 }
 
 /**
- * Calculate score for health measurements with custom logic for each metric
+ * Pick the most specific band per metric for a gender and age
  */
-export function calculateHealthMetricScore(
-  metricName: string,
-  value: number
+function selectHealthMetricBands(
+  bands: HealthMetricBand[],
+  demographics: ParticipantDemographics | null,
+  gender: string | null
+): Map<string, HealthMetricBand> {
+  const bandsByMetric = new Map<string, HealthMetricBand>();
+
+  const specificity = (band: HealthMetricBand) =>
+    (band.gender ? 1 : 0) +
+    (band.min_age !== null || band.max_age !== null ? 1 : 0);
+
+  bands
+    .filter((band) => {
+      // Without demographics only bands that apply to everyone can be used
+      if (!demographics) return specificity(band) === 0;
+
+      if (band.gender && band.gender !== gender) return false;
+      if (band.min_age !== null && demographics.age < band.min_age)
+        return false;
+      if (band.max_age !== null && demographics.age > band.max_age)
+        return false;
+      return true;
+    })
+    .forEach((band) => {
+      const current = bandsByMetric.get(band.metric_name);
+      if (!current || specificity(band) > specificity(current)) {
+        bandsByMetric.set(band.metric_name, band);
+      }
+    });
+
+  return bandsByMetric;
+}
+
+/**
+ * Calculate score for a health metric using its bands
+ * excellent score = 3 (inside the optimal range)
+ * average score = 2 (inside the acceptable range)
+ * poor score = 1 (outside both ranges)
+ */
+export function calculateBandScore(
+  value: number,
+  band: Pick<
+    HealthMetricBand,
+    "optimal_min" | "optimal_max" | "acceptable_min" | "acceptable_max"
+  >
 ): number {
-  switch (metricName) {
-    case "bp_systolic":
-      // Above Average: 100–129 mmHg, Average: 130–139 mmHg, Bad: ≥ 140 mmHg
-      if (value >= 100 && value <= 129) return 3;
-      if (value >= 130 && value <= 139) return 2;
-      return 1;
-
-    case "bp_diastolic":
-      // Above Average: 60–79 mmHg, Average: 80–89 mmHg, Bad: ≥ 90 mmHg
-      if (value >= 60 && value <= 79) return 3;
-      if (value >= 80 && value <= 89) return 2;
-      return 1;
-
-    case "pulse":
-      // Above Average: 50–70 bpm, Average: 71–85 bpm, Bad: > 85 bpm
-      if (value >= 50 && value <= 70) return 3;
-      if (value >= 71 && value <= 85) return 2;
-      return 1;
-
-    case "spo2":
-      // Above Average: 97–100%, Average: 94–96%, Bad: ≤ 93%
-      if (value >= 97 && value <= 100) return 3;
-      if (value >= 94 && value <= 96) return 2;
-      return 1;
-
-    case "bmi":
-      // Above Average: 18.5–24.9, Average: 25–29.9, Bad: ≥ 30 or < 18.5
-      if (value >= 18.5 && value <= 24.9) return 3;
-      if (value >= 25 && value <= 29.9) return 2;
-      return 1;
-
-    default:
-      return 1;
+  if (value >= band.optimal_min && value <= band.optimal_max) return 3;
+  if (value >= band.acceptable_min && value <= band.acceptable_max) return 2;
+  return 1;
+}
+
+// Continuous scores at the edges of the discrete bands:
+// 1 = below 33.3, 2 = 33.3-66.7, 3 = above 66.7
+const CONTINUOUS_AVERAGE_MIN = 100 / 3;
+const CONTINUOUS_AVERAGE_MAX = 200 / 3;
+
+/**
+ * Piecewise-linear interpolation through [value, score] points ordered by value.
+ * Values outside the points take the score of the nearest end.
+ */
+function interpolateScore(points: [number, number][], value: number): number {
+  // Keep the points ordered even when limits overlap the thresholds
+  const ordered = points.map(([x, y], index) => [
+    Math.max(x, ...points.slice(0, index).map(([previous]) => previous)),
+    y,
+  ]);
+
+  if (value <= ordered[0][0]) return ordered[0][1];
+
+  for (let index = 1; index < ordered.length; index++) {
+    const [x0, y0] = ordered[index - 1];
+    const [x1, y1] = ordered[index];
+    if (value <= x1) {
+      return y0 + ((value - x0) / (x1 - x0)) * (y1 - y0);
+    }
   }
+
+  return ordered[ordered.length - 1][1];
 }
 
 /**
- * Calculate overall health station score by averaging all metrics
+ * Calculate a continuous 0-100 score for a measurement using the scoring thresholds.
+ * The average range maps to 33.3-66.7; the floor and cap (measurement values)
+ * map to 0 and 100, so the discrete score can always be read back from it.
  */
-export function calculateHealthStationScore(
-  measurements: HealthMeasurement
+export function calculateContinuousMeasurementScore(
+  value: number,
+  threshold: ScoringThreshold,
+  direction: MetricDirection,
+  limits: { floor: number; cap: number }
 ): number {
-  const scores = [
-    calculateHealthMetricScore("bp_systolic", measurements.bp_systolic),
-    calculateHealthMetricScore("bp_diastolic", measurements.bp_diastolic),
-    calculateHealthMetricScore("pulse", measurements.pulse),
-    calculateHealthMetricScore("spo2", measurements.spo2),
-    calculateHealthMetricScore("bmi", measurements.bmi),
-  ];
+  const { min_average_value, max_average_value } = threshold;
 
-  const totalScore = scores.reduce((sum, score) => sum + score, 0);
-  const averageScore = totalScore / scores.length;
+  const score =
+    direction === "lower"
+      ? interpolateScore(
+          [
+            [Math.min(limits.cap, min_average_value), 100],
+            [min_average_value, CONTINUOUS_AVERAGE_MAX],
+            [max_average_value, CONTINUOUS_AVERAGE_MIN],
+            [limits.floor, 0],
+          ],
+          value
+        )
+      : interpolateScore(
+          [
+            [Math.min(limits.floor, min_average_value), 0],
+            [min_average_value, CONTINUOUS_AVERAGE_MIN],
+            [max_average_value, CONTINUOUS_AVERAGE_MAX],
+            [limits.cap, 100],
+          ],
+          value
+        );
 
-  // Round to nearest integer, but ensure it's between 1 and 3
-  return Math.max(1, Math.min(3, Math.round(averageScore)));
+  return Math.max(0, Math.min(100, score));
 }
 
 /**
- * Extract measurement value from station measurements based on station type
+ * Calculate a continuous 0-100 score for a health metric using its bands.
+ * The optimal range maps to 66.7-100 (peaking at its better end, or its middle
+ * for range metrics), the acceptable range to 33.3-66.7 and the metric's
+ * input limits to 0.
  */
-export function extractMeasurementValue(
-  stationType: StationType,
-  measurements: MeasurementData
-): { value: number; metricName: string } | null {
-  switch (stationType) {
-    case "balance":
-      const balanceMeasurement = measurements as BalanceMeasurement;
-      return {
-        value: balanceMeasurement.balance_seconds,
-        metricName: "balance_seconds",
-      };
+export function calculateContinuousBandScore(
+  value: number,
+  band: Pick<
+    HealthMetricBand,
+    "optimal_min" | "optimal_max" | "acceptable_min" | "acceptable_max"
+  >,
+  metric: Pick<StationMetricDefinition, "min" | "max" | "direction">
+): number {
+  const peak =
+    metric.direction === "higher"
+      ? band.optimal_max
+      : metric.direction === "lower"
+      ? band.optimal_min
+      : (band.optimal_min + band.optimal_max) / 2;
 
-    case "breath":
-      const breathMeasurement = measurements as BreathMeasurement;
-      return {
-        value: breathMeasurement.balloon_diameter_cm,
-        metricName: "balloon_diameter_cm",
-      };
+  const score = interpolateScore(
+    [
+      [Math.min(metric.min, band.acceptable_min), 0],
+      [band.acceptable_min, CONTINUOUS_AVERAGE_MIN],
+      [band.optimal_min, CONTINUOUS_AVERAGE_MAX],
+      [peak, 100],
+      [band.optimal_max, CONTINUOUS_AVERAGE_MAX],
+      [band.acceptable_max, CONTINUOUS_AVERAGE_MIN],
+      [Math.max(metric.max, band.acceptable_max), 0],
+    ],
+    value
+  );
 
-    case "grip":
-      const gripMeasurement = measurements as GripMeasurement;
-      return {
-        value: gripMeasurement.grip_seconds,
-        metricName: "grip_seconds",
-      };
+  return Math.max(0, Math.min(100, score));
+}
 
-    case "health":
-      // Health station uses custom scoring, return a dummy value
-      return {
-        value: 0,
-        metricName: "health_composite",
-      };
+/**
+ * Measurement values that score 0 and 100 for a threshold-scored metric:
+ * the profile's limits for the station, otherwise the metric's input range
+ */
+function getContinuousLimits(
+  metric: StationMetricDefinition,
+  limits: ContinuousLimits | undefined
+): { floor: number; cap: number } {
+  const isLowerBetter = metric.direction === "lower";
 
-    default:
-      return null;
-  }
+  return {
+    floor: limits?.floor ?? (isLowerBetter ? metric.max : metric.min),
+    cap: limits?.cap ?? (isLowerBetter ? metric.min : metric.max),
+  };
+}
+
+export interface StationScore {
+  // Discrete 1-3 score shown to operators and on the leaderboard;
+  // null when the result couldn't be scored
+  score: number | null;
+  // Continuous 0-100 score used to break leaderboard ties
+  continuousScore: number | null;
+  // Why the result couldn't be scored, when it couldn't
+  unscorableReason: UnscorableReason | null;
+  // How the score was reached, stored with the result
+  explanation: ScoreExplanation;
 }
 
 /**
- * Calculate station score for given measurements and participant
+ * A result that can't be scored is left pending rather than given a default
+ * score, so it can be fixed and re-scored instead of quietly ranking last
  */
-export async function calculateStationScore(
+function unscorableStationScore(
+  stationType: StationType,
+  reason: UnscorableReason,
+  message: string,
+  demographics: ParticipantDemographics | null = null,
+  metrics: MetricScoreExplanation[] = []
+): StationScore {
+  return {
+    score: null,
+    continuousScore: null,
+    unscorableReason: reason,
+    explanation: {
+      station_type: stationType,
+      score: null,
+      continuous_score: null,
+      demographics,
+      metrics,
+      unscorable: { reason, message },
+      calculated_at: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Start a metric's explanation from its definition and recorded value
+ */
+function explainMetric(
+  metric: StationMetricDefinition,
+  value: number | null
+): MetricScoreExplanation {
+  return {
+    key: metric.key,
+    label: metric.label,
+    unit: metric.unit ?? null,
+    value,
+    scoring: metric.scoring,
+    direction: metric.direction,
+    score: null,
+    continuous_score: null,
+  };
+}
+
+/**
+ * Calculate the discrete and continuous station scores for given measurements
+ * and participant. Every scored metric that was recorded is scored and the
+ * station scores are their averages; optional metrics left blank are skipped.
+ * The returned explanation records the demographics, the threshold or band
+ * rows matched, each metric's sub-score and the rule set used. When the
+ * station can't be scored the score is null and the reason is returned instead.
+ * Without a rule set the working thresholds and bands are used.
+ * The participant's age is taken on the date the result was measured, so
+ * re-scoring later doesn't move them into another age band.
+ */
+export async function scoreStation(
   participantId: string,
   stationType: StationType,
-  measurements: MeasurementData
-): Promise<number> {
-  try {
-    // Special handling for health station
-    if (stationType === "health") {
-      const healthMeasurements = measurements as HealthMeasurement;
-      const score = calculateHealthStationScore(healthMeasurements);
+  measurements: MeasurementData,
+  definition?: StationDefinition | null,
+  ruleSet: ScoringRuleSetRules | null = null,
+  measuredAt: string | Date = new Date()
+): Promise<StationScore> {
+  return withRuleSet(
+    await scoreStationWithRules(
+      participantId,
+      stationType,
+      measurements,
+      definition,
+      ruleSet,
+      measuredAt
+    ),
+    ruleSet
+  );
+}
 
-      console.log(
-        `Calculated health score for participant ${participantId}: ${score} (BP: ${healthMeasurements.bp_systolic}/${healthMeasurements.bp_diastolic}, HR: ${healthMeasurements.pulse}, SpO2: ${healthMeasurements.spo2}%, BMI: ${healthMeasurements.bmi})`
-      );
+/**
+ * Score a hypothetical participant without a stored participant record,
+ * e.g. in the admin score simulator. Nothing is read or written for them.
+ */
+export async function simulateStationScore(
+  demographics: ParticipantDemographics,
+  stationType: StationType,
+  measurements: MeasurementData,
+  definition: StationDefinition,
+  ruleSet: ScoringRuleSetRules | null = null
+): Promise<StationScore> {
+  return withRuleSet(
+    await scoreStationWithRules(
+      "simulated",
+      stationType,
+      measurements,
+      definition,
+      ruleSet,
+      new Date(),
+      demographics
+    ),
+    ruleSet
+  );
+}
 
-      return score;
-    }
+/**
+ * Record the rule set a score was calculated with in its explanation
+ */
+function withRuleSet(
+  result: StationScore,
+  ruleSet: ScoringRuleSetRules | null
+): StationScore {
+  result.explanation.rule_set = ruleSet
+    ? { id: ruleSet.id, name: ruleSet.name, version: ruleSet.version }
+    : null;
+  return result;
+}
 
-    // Get participant demographics for other stations
-    const demographics = await getParticipantDemographics(participantId);
-    if (!demographics) {
+async function scoreStationWithRules(
+  participantId: string,
+  stationType: StationType,
+  measurements: MeasurementData,
+  definition: StationDefinition | null | undefined,
+  ruleSet: ScoringRuleSetRules | null,
+  measuredAt: string | Date,
+  // Known demographics skip the participant lookup
+  knownDemographics?: ParticipantDemographics
+): Promise<StationScore> {
+  try {
+    const station = definition || (await getStationDefinition(stationType));
+    if (!station || station.metrics.length === 0) {
       console.warn(
-        `Could not get demographics for participant ${participantId}, using default score`
+        `No metric definitions found for station type ${stationType}, result is unscorable`
+      );
+      return unscorableStationScore(
+        stationType,
+        "no_metric_definitions",
+        "No metrics are defined for this station"
       );
-      return 1;
     }
 
-    // Extract measurement value and metric name
-    const measurementData = extractMeasurementValue(stationType, measurements);
-    if (!measurementData) {
+    const scoredMetrics = station.metrics.filter(isMetricScored);
+    if (scoredMetrics.length === 0) {
       console.warn(
-        `Could not extract measurement for station type ${stationType}, using default score`
+        `No scored metrics configured for station type ${stationType}, result is unscorable`
+      );
+      return unscorableStationScore(
+        stationType,
+        "no_scored_metrics",
+        "No metrics at this station count towards the score"
       );
-      return 1;
     }
 
-    // Get scoring thresholds
-    const threshold = await getScoringThresholds(
-      stationType,
-      demographics.gender,
-      demographics.age
-    );
+    const demographics =
+      knownDemographics ||
+      (await getParticipantDemographics(participantId, measuredAt));
+
+    if (demographics && demographics.age < ADULT_AGE) {
+      if ((await getYouthPolicy(ruleSet)) === "block") {
+        console.warn(
+          `Participant ${participantId} was under ${ADULT_AGE} when measured, result is unscorable`
+        );
+        return unscorableStationScore(
+          stationType,
+          "under_age",
+          `The participant was ${demographics.age} when measured; this event only scores participants aged ${ADULT_AGE} and over`,
+          demographics
+        );
+      }
+    }
+    const bandMetricNames = scoredMetrics
+      .filter((metric) => metric.scoring === "bands")
+      .map((metric) => metric.key);
+    const bands =
+      bandMetricNames.length > 0
+        ? await getHealthMetricBands(bandMetricNames, demographics, ruleSet)
+        : new Map<string, HealthMetricBand>();
+
+    const metricExplanations: MetricScoreExplanation[] = [];
+    let scoredCount = 0;
+    let totalScore = 0;
+    let totalContinuousScore = 0;
+    // Floors and caps for threshold-scored metrics come from the scoring profile
+    const profile = scoredMetrics.some(
+      (metric) => metric.scoring === "thresholds"
+    )
+      ? await getActiveScoringProfile()
+      : DEFAULT_SCORING_PROFILE;
 
-    if (!threshold) {
+    for (const metric of scoredMetrics) {
+      const value = getMetricValue(measurements, metric.key);
+      const explanation = explainMetric(metric, value);
+      metricExplanations.push(explanation);
+
+      if (value === null && !isMetricRequired(metric)) {
+        explanation.skipped_reason = "Optional and not recorded";
+        continue;
+      }
+      if (value === null) {
+        console.warn(
+          `Missing ${metric.key} measurement for station type ${stationType}, result is unscorable`
+        );
+        return unscorableStationScore(
+          stationType,
+          "missing_measurement",
+          `No ${metric.label} measurement was recorded`,
+          demographics,
+          metricExplanations
+        );
+      }
+
+      // Health-style metrics are scored against configurable bands
+      if (metric.scoring === "bands") {
+        const band = bands.get(metric.key);
+        if (!band && !isMetricRequired(metric)) {
+          console.warn(
+            `No health metric band found for optional ${metric.key}, skipping it`
+          );
+          explanation.skipped_reason =
+            "Optional and no health band applies to this participant";
+          continue;
+        }
+        if (!band) {
+          console.warn(
+            `No health metric band found for ${metric.key}, result is unscorable`
+          );
+          return unscorableStationScore(
+            stationType,
+            "missing_band",
+            `No health band found for ${metric.label}`,
+            demographics,
+            metricExplanations
+          );
+        }
+
+        explanation.band = {
+          id: band.id,
+          gender: band.gender,
+          min_age: band.min_age,
+          max_age: band.max_age,
+          optimal_min: band.optimal_min,
+          optimal_max: band.optimal_max,
+          acceptable_min: band.acceptable_min,
+          acceptable_max: band.acceptable_max,
+        };
+        const metricScore = calculateBandScore(value, band);
+        const continuousMetricScore = calculateContinuousBandScore(
+          value,
+          band,
+          metric
+        );
+        explanation.score = metricScore;
+        explanation.continuous_score =
+          Math.round(continuousMetricScore * 10) / 10;
+        scoredCount += 1;
+        totalScore += metricScore;
+        totalContinuousScore += continuousMetricScore;
+        continue;
+      }
+
+      // Threshold-scored metrics depend on participant demographics
+      if (!demographics) {
+        console.warn(
+          `Could not get demographics for participant ${participantId}, result is unscorable`
+        );
+        return unscorableStationScore(
+          stationType,
+          "missing_demographics",
+          "The participant's age and gender are unknown",
+          demographics,
+          metricExplanations
+        );
+      }
+
+      if (!demographics.scoring_reference) {
+        console.warn(
+          `No scoring reference for participant ${participantId} (${demographics.gender}), result is unscorable`
+        );
+        return unscorableStationScore(
+          stationType,
+          "missing_demographics",
+          "The participant hasn't chosen which thresholds to be scored against",
+          demographics,
+          metricExplanations
+        );
+      }
+
+      // Get scoring thresholds
+      const threshold = await getScoringThresholds(
+        stationType,
+        demographics.scoring_reference,
+        demographics.age,
+        ruleSet
+      );
+
+      if (!threshold) {
+        console.warn(
+          `No scoring thresholds found for ${stationType}/${demographics.scoring_reference}/${demographics.age}, result is unscorable`
+        );
+        return unscorableStationScore(
+          stationType,
+          "missing_thresholds",
+          demographics.scoring_reference === "average"
+            ? `No male and female scoring thresholds found for participants aged ${demographics.age}`
+            : `No scoring thresholds found for ${demographics.scoring_reference} participants aged ${demographics.age}`,
+          demographics,
+          metricExplanations
+        );
+      }
+
+      explanation.threshold = {
+        id: threshold.id,
+        gender: threshold.gender,
+        min_age: threshold.min_age,
+        max_age: threshold.max_age,
+        min_average_value: threshold.min_average_value,
+        max_average_value: threshold.max_average_value,
+      };
+      const metricScore = calculateMeasurementScore(
+        value,
+        threshold,
+        metric.direction
+      );
+      const continuousMetricScore = calculateContinuousMeasurementScore(
+        value,
+        threshold,
+        metric.direction,
+        getContinuousLimits(metric, profile.continuous_limits[stationType])
+      );
+      explanation.score = metricScore;
+      explanation.continuous_score =
+        Math.round(continuousMetricScore * 10) / 10;
+      scoredCount += 1;
+      totalScore += metricScore;
+      totalContinuousScore += continuousMetricScore;
+    }
+
+    if (scoredCount === 0) {
       console.warn(
-        `No scoring thresholds found for ${stationType}/${demographics.gender}/${demographics.age}, using default score`
+        `No scorable measurements for station type ${stationType}, result is unscorable`
+      );
+      return unscorableStationScore(
+        stationType,
+        "no_scorable_measurements",
+        "None of the recorded measurements could be scored",
+        demographics,
+        metricExplanations
       );
-      return 1;
     }
 
-    // Calculate and return score
-    const score = calculateMeasurementScore(measurementData.value, threshold);
+    // Round to nearest integer, but ensure it's between 1 and 3
+    const score = Math.max(
+      1,
+      Math.min(3, Math.round(totalScore / scoredCount))
+    );
+    const continuousScore =
+      Math.round((totalContinuousScore / scoredCount) * 10) / 10;
 
     console.log(
-      `Calculated score for participant ${participantId}: ${stationType} = ${score} (${measurementData.value} ${measurementData.metricName}, age: ${demographics.age}, gender: ${demographics.gender})`
+      `Calculated score for participant ${participantId}: ${stationType} = ${score} / ${continuousScore} (${metricExplanations
+        .filter((metric) => metric.score !== null)
+        .map((metric) => `${metric.key}: ${metric.value} -> ${metric.score}`)
+        .join(", ")}${
+        demographics
+          ? `, age: ${demographics.age}, scored as: ${demographics.scoring_reference}`
+          : ""
+      })`
     );
 
-    return score;
+    return {
+      score,
+      continuousScore,
+      unscorableReason: null,
+      explanation: {
+        station_type: stationType,
+        score,
+        continuous_score: continuousScore,
+        demographics,
+        metrics: metricExplanations,
+        unscorable: null,
+        calculated_at: new Date().toISOString(),
+      },
+    };
   } catch (error) {
     console.error("Error calculating station score:", error);
-    return 1; // Default score on error
+    return unscorableStationScore(
+      stationType,
+      "scoring_error",
+      "An error occurred while calculating the score"
+    );
   }
 }
+
+/**
+ * Calculate the discrete 1-3 station score for given measurements and
+ * participant, with the explanation of how it was reached.
+ * The score is null when the result can't be scored.
+ */
+export async function calculateStationScore(
+  participantId: string,
+  stationType: StationType,
+  measurements: MeasurementData,
+  definition?: StationDefinition | null,
+  ruleSet: ScoringRuleSetRules | null = null,
+  measuredAt: string | Date = new Date()
+): Promise<{ score: number | null; explanation: ScoreExplanation }> {
+  const { score, explanation } = await scoreStation(
+    participantId,
+    stationType,
+    measurements,
+    definition,
+    ruleSet,
+    measuredAt
+  );
+  return { score, explanation };
+}
@@ -0,0 +1,77 @@
+// Gender options and the scoring reference used to pick thresholds.
+// Kept free of server imports so the signup form and admin UI can use them.
+import type { Gender, ScoringReference } from "@/lib/types/database";
+
+export const GENDER_OPTIONS: { value: Gender; label: string }[] = [
+  { value: "male", label: "Male" },
+  { value: "female", label: "Female" },
+  { value: "non_binary", label: "Non-binary" },
+  { value: "other", label: "Other" },
+  { value: "prefer_not_to_say", label: "Prefer not to say" },
+];
+
+export const SCORING_REFERENCE_OPTIONS: {
+  value: ScoringReference;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "male",
+    label: "Male",
+    description: "Scored against the male thresholds",
+  },
+  {
+    value: "female",
+    label: "Female",
+    description: "Scored against the female thresholds",
+  },
+  {
+    value: "average",
+    label: "Average of both",
+    description: "Scored against the midpoint of the male and female thresholds",
+  },
+];
+
+export function isGender(value: unknown): value is Gender {
+  return GENDER_OPTIONS.some((option) => option.value === value);
+}
+
+export function isScoringReference(value: unknown): value is ScoringReference {
+  return SCORING_REFERENCE_OPTIONS.some((option) => option.value === value);
+}
+
+/**
+ * Whether a participant of this gender has to choose a scoring reference;
+ * male and female participants are scored as their gender by default
+ */
+export function requiresScoringReference(gender: string) {
+  return gender !== "male" && gender !== "female";
+}
+
+/**
+ * The thresholds a participant is scored against: their chosen reference, or
+ * their gender when it is male or female. Null when neither applies.
+ */
+export function resolveScoringReference(
+  gender: string,
+  scoringReference: string | null | undefined
+): ScoringReference | null {
+  if (isScoringReference(scoringReference)) return scoringReference;
+  return requiresScoringReference(gender) ? null : (gender as ScoringReference);
+}
+
+export function formatGender(gender: string | null | undefined) {
+  if (!gender) return "-";
+  return (
+    GENDER_OPTIONS.find((option) => option.value === gender)?.label ||
+    gender.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase())
+  );
+}
+
+export function formatScoringReference(reference: string | null | undefined) {
+  if (!reference) return "-";
+  return (
+    SCORING_REFERENCE_OPTIONS.find((option) => option.value === reference)
+      ?.label || reference
+  );
+}
@@ -0,0 +1,223 @@
+import { z } from "zod";
+import type {
+  Grade,
+  Json,
+  MissingStationPolicy,
+  RankingMethod,
+  ScoringProfile,
+  TieBreaker,
+  YouthPolicy,
+} from "@/lib/types/database";
+
+// Every station is scored from 1 to 3
+export const MAX_STATION_SCORE = 3;
+
+// Participants younger than this are handled by the youth policy of the rule
+// set in effect, or of the profile
+export const ADULT_AGE = 18;
+
+// Measurement values that map to a continuous score of 0 (floor) and 100 (cap)
+export interface ContinuousLimits {
+  floor?: number;
+  cap?: number;
+}
+
+export interface ScoringProfileSettings {
+  station_weights: Record<string, number>;
+  missing_station_policy: MissingStationPolicy;
+  missing_station_penalty: number;
+  above_average_min_pct: number;
+  average_min_pct: number;
+  continuous_scoring: boolean;
+  continuous_limits: Record<string, ContinuousLimits>;
+  youth_policy: YouthPolicy;
+  ranking_method: RankingMethod;
+  // Applied in order when totals are equal
+  tie_breakers: TieBreaker[];
+  // Team score is the mean total of the best team_top_members members;
+  // teams need team_min_members scored members to be ranked
+  team_top_members: number;
+  team_min_members: number;
+}
+
+export interface CompositeScore {
+  total_score: number;
+  max_possible_score: number;
+  percentage: number | null;
+  grade: Grade | null;
+  completed_stations: number;
+  // Stations recorded but not yet scorable
+  pending_stations: number;
+  // Weighted average of the continuous 0-100 station scores
+  continuous_score: number | null;
+}
+
+// Used when no profile is active: plain sum of completed stations, 83% / 50% cut-offs
+export const DEFAULT_SCORING_PROFILE: ScoringProfileSettings = {
+  station_weights: {},
+  missing_station_policy: "exclude",
+  missing_station_penalty: 0,
+  above_average_min_pct: 83,
+  average_min_pct: 50,
+  continuous_scoring: false,
+  continuous_limits: {},
+  youth_policy: "block",
+  ranking_method: "competition",
+  tie_breakers: ["continuous_score"],
+  team_top_members: 5,
+  team_min_members: 3,
+};
+
+export const TIE_BREAKERS: TieBreaker[] = [
+  "completed_stations",
+  "continuous_score",
+  "earliest_completion",
+];
+
+const scoringProfileUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1, "Profile name is required").optional(),
+    station_weights: z
+      .record(z.number().min(0, "Station weights cannot be negative"))
+      .optional(),
+    missing_station_policy: z.enum(["exclude", "zero", "penalise"]).optional(),
+    missing_station_penalty: z
+      .number()
+      .min(0, "Missing station penalty cannot be negative")
+      .optional(),
+    above_average_min_pct: z.number().min(0).max(100).optional(),
+    average_min_pct: z.number().min(0).max(100).optional(),
+    continuous_scoring: z.boolean().optional(),
+    continuous_limits: z
+      .record(
+        z.object({
+          floor: z.number().optional(),
+          cap: z.number().optional(),
+        })
+      )
+      .optional(),
+    youth_policy: z.enum(["block", "youth_thresholds"]).optional(),
+    ranking_method: z.enum(["competition", "dense"]).optional(),
+    tie_breakers: z
+      .array(
+        z.enum(["completed_stations", "continuous_score", "earliest_completion"])
+      )
+      .refine((tieBreakers) => new Set(tieBreakers).size === tieBreakers.length, {
+        message: "Each tie-breaker can only be used once",
+      })
+      .optional(),
+    team_top_members: z
+      .number()
+      .int()
+      .min(1, "Teams must count at least one member")
+      .optional(),
+    team_min_members: z
+      .number()
+      .int()
+      .min(1, "Teams must need at least one member")
+      .optional(),
+  })
+  .refine(
+    (profile) =>
+      profile.above_average_min_pct === undefined ||
+      profile.average_min_pct === undefined ||
+      profile.average_min_pct <= profile.above_average_min_pct,
+    { message: "The Average cut-off cannot be above the Above Average cut-off" }
+  );
+
+/**
+ * Validate changes submitted for a scoring profile.
+ * Returns an error message, or null when the changes are valid.
+ */
+export function validateScoringProfileUpdate(update: unknown): string | null {
+  const result = scoringProfileUpdateSchema.safeParse(update);
+  return result.success ? null : result.error.errors[0].message;
+}
+
+/**
+ * Read the station weights stored on a profile, dropping invalid entries
+ */
+export function parseStationWeights(
+  weights: Json | null | undefined
+): Record<string, number> {
+  if (!weights || typeof weights !== "object" || Array.isArray(weights)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(weights).filter(
+      (entry): entry is [string, number] =>
+        typeof entry[1] === "number" && entry[1] >= 0
+    )
+  );
+}
+
+/**
+ * Read the continuous score limits stored on a profile, dropping invalid entries
+ */
+export function parseContinuousLimits(
+  limits: Json | null | undefined
+): Record<string, ContinuousLimits> {
+  if (!limits || typeof limits !== "object" || Array.isArray(limits)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(limits).flatMap(([stationType, value]) => {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return [];
+      }
+
+      const { floor, cap } = value;
+      return [
+        [
+          stationType,
+          {
+            ...(typeof floor === "number" && { floor }),
+            ...(typeof cap === "number" && { cap }),
+          },
+        ],
+      ];
+    })
+  );
+}
+
+/**
+ * Build scoring settings from a scoring_profiles row
+ */
+export function toScoringProfileSettings(
+  profile: Pick<
+    ScoringProfile,
+    | "station_weights"
+    | "missing_station_policy"
+    | "missing_station_penalty"
+    | "above_average_min_pct"
+    | "average_min_pct"
+    | "continuous_scoring"
+    | "continuous_limits"
+    | "youth_policy"
+    | "ranking_method"
+    | "tie_breakers"
+    | "team_top_members"
+    | "team_min_members"
+  >
+): ScoringProfileSettings {
+  return {
+    station_weights: parseStationWeights(profile.station_weights),
+    missing_station_policy:
+      profile.missing_station_policy as MissingStationPolicy,
+    missing_station_penalty: profile.missing_station_penalty,
+    above_average_min_pct: profile.above_average_min_pct,
+    average_min_pct: profile.average_min_pct,
+    continuous_scoring: profile.continuous_scoring,
+    continuous_limits: parseContinuousLimits(profile.continuous_limits),
+    youth_policy: profile.youth_policy as YouthPolicy,
+    ranking_method: profile.ranking_method as RankingMethod,
+    tie_breakers: (profile.tie_breakers || []).filter(
+      (tieBreaker): tieBreaker is TieBreaker =>
+        TIE_BREAKERS.includes(tieBreaker as TieBreaker)
+    ),
+    team_top_members: profile.team_top_members,
+    team_min_members: profile.team_min_members,
+  };
+}
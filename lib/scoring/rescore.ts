@@ -0,0 +1,488 @@
+import { createAdminClient } from "@/lib/supabase/server";
+import {
+  calculateCompositeScores,
+  toCompositeInput,
+  toStationDefinition,
+  type MeasurementData,
+  type StationDefinition,
+} from "@/lib/scoring/calculator";
+import {
+  scoreAttempts,
+  type AggregatedAttempts,
+} from "@/lib/scoring/attempts";
+import { getScoringRuleSets } from "@/lib/scoring/rule-sets";
+import { pickEffectiveRuleSet } from "@/lib/scoring/rule-set-diff";
+import {
+  recordStationAudit,
+  type AuditActor,
+  type AuditRequestMetadata,
+  type StationAuditEntry,
+} from "@/lib/audit/station-audits";
+import type {
+  Grade,
+  Json,
+  ScoringRuleSetRules,
+  StationAuditAction,
+  UnscorableReason,
+} from "@/lib/types/database";
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+// Keep `in` filters short enough for the request URL
+const ID_BATCH_SIZE = 200;
+
+export interface RescoreFilters {
+  stationType?: string | null;
+  participantCode?: string | null;
+  // Only re-score results that are pending because they couldn't be scored
+  unscorableOnly?: boolean;
+}
+
+export interface RescoreOptions {
+  dryRun: boolean;
+  // Score every result with this published rule set instead of the one in
+  // effect when the result was recorded
+  ruleSetId?: string | null;
+  // Score with unpublished rules instead, e.g. a simulator draft (dry runs only)
+  draftRules?: ScoringRuleSetRules | null;
+  actor?: AuditActor | null;
+  metadata?: AuditRequestMetadata;
+  // How applied changes are recorded in the audit trail: "recalculate" after
+  // the scoring rules change, "rescore" when fixing pending results
+  audit?: { action: StationAuditAction; reason: string };
+}
+
+export interface RescoreChange {
+  resultId: string;
+  participantId: string;
+  participantCode: string;
+  stationType: string;
+  beforeScore: number | null;
+  afterScore: number | null;
+  beforeContinuousScore: number | null;
+  afterContinuousScore: number | null;
+  // Set when the result is (still) unscorable with the current rules
+  unscorableReason: UnscorableReason | null;
+  // Rule set versions before and after; null means the working rules
+  beforeRuleSetVersion: number | null;
+  afterRuleSetVersion: number | null;
+}
+
+export interface GradeChange {
+  participantId: string;
+  participantCode: string;
+  beforeTotal: number;
+  afterTotal: number;
+  beforeGrade: Grade | null;
+  afterGrade: Grade | null;
+}
+
+export interface RescoreResult {
+  dryRun: boolean;
+  summary: {
+    resultsChecked: number;
+    resultsChanged: number;
+    scoresChanged: number;
+    participantsAffected: number;
+    gradesChanged: number;
+    // Results corrected by someone else while the job was running
+    resultsSkipped: number;
+    // Results that still can't be scored after re-scoring
+    resultsUnscorable: number;
+  };
+  changes: RescoreChange[];
+  gradeChanges: GradeChange[];
+}
+
+interface StoredResult {
+  id: string;
+  participant_id: string;
+  station_type: string;
+  measurements: Json;
+  score: number | null;
+  continuous_score: number | null;
+  unscorable_reason: string | null;
+  rule_set_id: string | null;
+  version: number;
+  created_at: string;
+  participants: { participant_code: string };
+}
+
+interface StoredAttempt {
+  id: string;
+  station_result_id: string;
+  attempt_number: number;
+  measurements: Json;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+/**
+ * Load every station result matching the filters, page by page
+ */
+async function fetchStationResults(
+  filters: RescoreFilters
+): Promise<StoredResult[]> {
+  const supabase = createAdminClient();
+  const results: StoredResult[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from("station_results")
+      .select(
+        "id, participant_id, station_type, measurements, score, continuous_score, unscorable_reason, rule_set_id, version, created_at, participants!inner(participant_code)"
+      )
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (filters.stationType) {
+      query = query.eq("station_type", filters.stationType);
+    }
+
+    if (filters.participantCode) {
+      query = query.eq(
+        "participants.participant_code",
+        filters.participantCode
+      );
+    }
+
+    if (filters.unscorableOnly) {
+      query = query.not("unscorable_reason", "is", null);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to fetch station results: ${error.message}`);
+    }
+
+    results.push(...((data || []) as unknown as StoredResult[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return results;
+}
+
+/**
+ * Load the individual attempts stored for the given results
+ */
+async function fetchAttempts(
+  resultIds: string[]
+): Promise<Map<string, StoredAttempt[]>> {
+  const supabase = createAdminClient();
+  const attemptsByResult = new Map<string, StoredAttempt[]>();
+
+  for (const ids of chunk(resultIds, ID_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("station_attempts")
+      .select("id, station_result_id, attempt_number, measurements")
+      .in("station_result_id", ids)
+      .order("attempt_number", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch station attempts: ${error.message}`);
+    }
+
+    (data || []).forEach((attempt) => {
+      const attempts = attemptsByResult.get(attempt.station_result_id) || [];
+      attempts.push(attempt);
+      attemptsByResult.set(attempt.station_result_id, attempts);
+    });
+  }
+
+  return attemptsByResult;
+}
+
+/**
+ * Work out which participants' totals and grades change with the new scores
+ */
+async function calculateGradeChanges(
+  changes: RescoreChange[]
+): Promise<GradeChange[]> {
+  if (changes.length === 0) return [];
+
+  const supabase = createAdminClient();
+  const participantIds = Array.from(
+    new Set(changes.map((change) => change.participantId))
+  );
+  const changesByResult = new Map(
+    changes.map((change) => [change.resultId, change])
+  );
+
+  const gradeChanges: GradeChange[] = [];
+
+  for (const ids of chunk(participantIds, ID_BATCH_SIZE)) {
+    const { data: results, error } = await supabase
+      .from("station_results")
+      .select("id, participant_id, station_type, score, unscorable_reason")
+      .in("participant_id", ids);
+
+    if (error) {
+      throw new Error(`Failed to fetch participant results: ${error.message}`);
+    }
+
+    const composites = await calculateCompositeScores(
+      ids.flatMap((participantId) => {
+        const participantResults = (results || []).filter(
+          (result) => result.participant_id === participantId
+        );
+        const afterResults = participantResults.map((result) => {
+          const change = changesByResult.get(result.id);
+          return change
+            ? {
+                ...result,
+                score: change.afterScore,
+                unscorable_reason: change.unscorableReason,
+              }
+            : result;
+        });
+
+        return [
+          toCompositeInput(`${participantId}:before`, participantResults),
+          toCompositeInput(`${participantId}:after`, afterResults),
+        ];
+      })
+    );
+
+    ids.forEach((participantId) => {
+      const before = composites.get(`${participantId}:before`);
+      const after = composites.get(`${participantId}:after`);
+      if (!before || !after) return;
+
+      if (
+        before.grade !== after.grade ||
+        before.total_score !== after.total_score
+      ) {
+        gradeChanges.push({
+          participantId,
+          participantCode:
+            changes.find((change) => change.participantId === participantId)
+              ?.participantCode || "",
+          beforeTotal: before.total_score,
+          afterTotal: after.total_score,
+          beforeGrade: before.grade,
+          afterGrade: after.grade,
+        });
+      }
+    });
+  }
+
+  return gradeChanges;
+}
+
+/**
+ * Re-run the scoring calculator over stored station results.
+ * Each result is scored with the rule set in effect when it was recorded,
+ * unless a rule set is chosen in the options.
+ * A dry run only reports what would change; otherwise changed results are
+ * updated and each change is recorded in the audit trail with the action and
+ * reason given in the options.
+ */
+export async function rescoreStationResults(
+  filters: RescoreFilters,
+  options: RescoreOptions
+): Promise<RescoreResult> {
+  const supabase = createAdminClient();
+
+  const { data: stations, error: stationsError } = await supabase
+    .from("stations")
+    .select("station_type, name, attempt_policy, max_attempts, metrics");
+
+  if (stationsError) {
+    throw new Error(`Failed to fetch stations: ${stationsError.message}`);
+  }
+
+  const definitions = new Map<string, StationDefinition>(
+    (stations || []).map((station) => [
+      station.station_type,
+      toStationDefinition(station),
+    ])
+  );
+
+  if (options.draftRules && !options.dryRun) {
+    throw new Error("Draft scoring rules can only be used for a dry run");
+  }
+
+  if (!options.dryRun && !options.audit) {
+    throw new Error("Applying a re-score needs an audit action and reason");
+  }
+
+  const ruleSets = await getScoringRuleSets();
+  const ruleSetsById = new Map(
+    ruleSets.map((ruleSet) => [ruleSet.id, ruleSet])
+  );
+  const forcedRuleSet = options.ruleSetId
+    ? ruleSetsById.get(options.ruleSetId)
+    : null;
+  if (options.ruleSetId && !forcedRuleSet) {
+    throw new Error(`Scoring rule set ${options.ruleSetId} not found`);
+  }
+
+  const results = await fetchStationResults(filters);
+  const attemptsByResult = await fetchAttempts(
+    results.map((result) => result.id)
+  );
+
+  const changes: RescoreChange[] = [];
+  const rescored = new Map<string, AggregatedAttempts>();
+  let resultsUnscorable = 0;
+
+  for (const result of results) {
+    const definition = definitions.get(result.station_type);
+    if (!definition) {
+      console.warn(
+        `Skipping result ${result.id}: no station definition for ${result.station_type}`
+      );
+      continue;
+    }
+
+    // Re-aggregate from the individual attempts when they were kept
+    const storedAttempts = attemptsByResult.get(result.id);
+    const attempts = (
+      storedAttempts?.length
+        ? storedAttempts.map((attempt) => attempt.measurements)
+        : [result.measurements]
+    ) as unknown as MeasurementData[];
+
+    const ruleSet =
+      options.draftRules ||
+      forcedRuleSet ||
+      pickEffectiveRuleSet(ruleSets, result.created_at);
+    const aggregated = await scoreAttempts(
+      result.participant_id,
+      definition,
+      attempts,
+      ruleSet,
+      result.created_at
+    );
+    if (aggregated.unscorableReason) resultsUnscorable += 1;
+
+    if (
+      aggregated.score === result.score &&
+      aggregated.continuousScore === result.continuous_score &&
+      aggregated.unscorableReason === result.unscorable_reason &&
+      (ruleSet?.id ?? null) === result.rule_set_id
+    ) {
+      continue;
+    }
+
+    rescored.set(result.id, aggregated);
+    changes.push({
+      resultId: result.id,
+      participantId: result.participant_id,
+      participantCode: result.participants.participant_code,
+      stationType: result.station_type,
+      beforeScore: result.score,
+      afterScore: aggregated.score,
+      beforeContinuousScore: result.continuous_score,
+      afterContinuousScore: aggregated.continuousScore,
+      unscorableReason: aggregated.unscorableReason,
+      beforeRuleSetVersion: result.rule_set_id
+        ? ruleSetsById.get(result.rule_set_id)?.version ?? null
+        : null,
+      afterRuleSetVersion: ruleSet?.version ?? null,
+    });
+  }
+
+  const gradeChanges = await calculateGradeChanges(changes);
+  let resultsSkipped = 0;
+
+  if (!options.dryRun) {
+    const resultsById = new Map(results.map((result) => [result.id, result]));
+    const auditEntries: StationAuditEntry[] = [];
+
+    for (const change of changes) {
+      const result = resultsById.get(change.resultId)!;
+      const aggregated = rescored.get(change.resultId)!;
+
+      const storedAttempts = attemptsByResult.get(change.resultId) || [];
+      // Stored attempts line up with the re-scored ones by position
+      const attempts = storedAttempts
+        .slice(0, aggregated.attempts.length)
+        .map((storedAttempt, index) => {
+          const attempt = aggregated.attempts[index];
+          return {
+            id: storedAttempt.id,
+            score: attempt.score,
+            continuous_score: attempt.continuousScore,
+            score_explanation: attempt.explanation,
+            unscorable_reason: attempt.unscorableReason,
+          };
+        });
+
+      // The result and its attempts are updated together, guarded against
+      // overwriting a correction made while the job ran
+      const { data: updated, error } = await supabase
+        .rpc("rescore_station_result", {
+          p_result_id: change.resultId,
+          p_version: result.version,
+          p_measurements: aggregated.measurements as Json,
+          p_score: aggregated.score,
+          p_continuous_score: aggregated.continuousScore,
+          p_score_explanation: aggregated.explanation as unknown as Json,
+          p_unscorable_reason: aggregated.unscorableReason,
+          p_rule_set_id: aggregated.explanation.rule_set?.id ?? null,
+          p_attempts: attempts as unknown as Json,
+        })
+        .maybeSingle();
+
+      if (error || !updated) {
+        if (error) console.error("Error updating rescored result:", error);
+        resultsSkipped += 1;
+        continue;
+      }
+
+      auditEntries.push({
+        action: options.audit!.action,
+        stationType: change.stationType,
+        stationResultId: change.resultId,
+        participantId: change.participantId,
+        participantCode: change.participantCode,
+        actor: options.actor,
+        before: { measurements: result.measurements, score: result.score },
+        after: {
+          measurements: aggregated.measurements,
+          score: aggregated.score,
+        },
+        reason: options.audit!.reason,
+        metadata: {
+          ...options.metadata,
+          filters,
+          before_continuous_score: change.beforeContinuousScore,
+          after_continuous_score: change.afterContinuousScore,
+          unscorable_reason: change.unscorableReason,
+          before_rule_set_version: change.beforeRuleSetVersion,
+          after_rule_set_version: change.afterRuleSetVersion,
+        },
+      });
+    }
+
+    await recordStationAudit(auditEntries);
+  }
+
+  return {
+    dryRun: options.dryRun,
+    summary: {
+      resultsChecked: results.length,
+      resultsChanged: changes.length,
+      scoresChanged: changes.filter(
+        (change) => change.beforeScore !== change.afterScore
+      ).length,
+      participantsAffected: new Set(
+        changes.map((change) => change.participantId)
+      ).size,
+      gradesChanged: gradeChanges.filter(
+        (change) => change.beforeGrade !== change.afterGrade
+      ).length,
+      resultsSkipped,
+      resultsUnscorable,
+    },
+    changes,
+    gradeChanges,
+  };
+}
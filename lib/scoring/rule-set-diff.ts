@@ -0,0 +1,197 @@
+// Pure helpers for versioned scoring rule sets.
+// Kept free of server imports so the admin UI can use them too.
+import type {
+  HealthBandDiff,
+  HealthMetricBand,
+  Json,
+  ScoringRuleSet,
+  ScoringRuleSetRules,
+  ScoringThreshold,
+  ThresholdDiff,
+  YouthPolicy,
+} from "@/lib/types/database";
+import type { ThresholdRange } from "@/lib/scoring/thresholds";
+
+// Rule sets can be compared against the working (unpublished) thresholds and bands
+export const DRAFT_RULE_SET_ID = "draft";
+
+/**
+ * Parse the thresholds and bands snapshot stored on a rule set row
+ */
+export function toScoringRuleSetRules(
+  ruleSet: ScoringRuleSet
+): ScoringRuleSetRules {
+  const asArray = <T>(value: Json): T[] =>
+    Array.isArray(value) ? (value as unknown as T[]) : [];
+
+  return {
+    id: ruleSet.id,
+    name: ruleSet.name,
+    version: ruleSet.version,
+    effective_from: ruleSet.effective_from,
+    thresholds: asArray<ScoringThreshold>(ruleSet.thresholds),
+    health_bands: asArray<HealthMetricBand>(ruleSet.health_bands),
+    youth_policy: ruleSet.youth_policy as YouthPolicy | null,
+  };
+}
+
+/**
+ * The rule set in effect at a point in time: the one with the latest
+ * effective date on or before it, or null when none had taken effect yet
+ */
+export function pickEffectiveRuleSet<
+  T extends { effective_from: string; version: number },
+>(
+  ruleSets: T[],
+  at: string | Date = new Date()
+): T | null {
+  const time = new Date(at).getTime();
+
+  return ruleSets.reduce<T | null>((effective, ruleSet) => {
+    const effectiveFrom = new Date(ruleSet.effective_from).getTime();
+    if (effectiveFrom > time) return effective;
+    if (!effective) return ruleSet;
+
+    const current = new Date(effective.effective_from).getTime();
+    return effectiveFrom > current ||
+      (effectiveFrom === current && ruleSet.version > effective.version)
+      ? ruleSet
+      : effective;
+  }, null);
+}
+
+function thresholdKey(threshold: ThresholdRange) {
+  return [
+    threshold.station_type,
+    threshold.gender,
+    threshold.min_age,
+    threshold.max_age ?? "+",
+  ].join("|");
+}
+
+function bandKey(band: HealthMetricBand) {
+  return [
+    band.metric_name,
+    band.gender ?? "any",
+    band.min_age ?? "",
+    band.max_age ?? "",
+  ].join("|");
+}
+
+/**
+ * Compare two sets of thresholds, matching rows on station, gender and age range
+ */
+export function diffThresholds(
+  before: ThresholdRange[],
+  after: ThresholdRange[]
+): ThresholdDiff[] {
+  const beforeByKey = new Map(before.map((row) => [thresholdKey(row), row]));
+  const afterByKey = new Map(after.map((row) => [thresholdKey(row), row]));
+  const keys = Array.from(
+    new Set([
+      ...Array.from(beforeByKey.keys()),
+      ...Array.from(afterByKey.keys()),
+    ])
+  );
+
+  return keys
+    .map((key) => {
+      const from = beforeByKey.get(key) || null;
+      const to = afterByKey.get(key) || null;
+      const row = (to || from)!;
+      const values = (threshold: ThresholdRange | null) =>
+        threshold
+          ? {
+              min_average_value: threshold.min_average_value,
+              max_average_value: threshold.max_average_value,
+            }
+          : null;
+
+      return {
+        key,
+        station_type: row.station_type,
+        gender: row.gender,
+        min_age: row.min_age,
+        max_age: row.max_age,
+        status: !from
+          ? "added"
+          : !to
+            ? "removed"
+            : from.min_average_value !== to.min_average_value ||
+                from.max_average_value !== to.max_average_value
+              ? "changed"
+              : "unchanged",
+        before: values(from),
+        after: values(to),
+      } as ThresholdDiff;
+    })
+    .sort(
+      (a, b) =>
+        a.station_type.localeCompare(b.station_type) ||
+        a.gender.localeCompare(b.gender) ||
+        a.min_age - b.min_age
+    );
+}
+
+/**
+ * Compare two sets of health bands, matching rows on metric, gender and age range
+ */
+export function diffHealthBands(
+  before: HealthMetricBand[],
+  after: HealthMetricBand[]
+): HealthBandDiff[] {
+  const beforeByKey = new Map(before.map((row) => [bandKey(row), row]));
+  const afterByKey = new Map(after.map((row) => [bandKey(row), row]));
+  const keys = Array.from(
+    new Set([
+      ...Array.from(beforeByKey.keys()),
+      ...Array.from(afterByKey.keys()),
+    ])
+  );
+
+  return keys
+    .map((key) => {
+      const from = beforeByKey.get(key) || null;
+      const to = afterByKey.get(key) || null;
+      const row = (to || from)!;
+      const values = (band: HealthMetricBand | null) =>
+        band
+          ? {
+              optimal_min: band.optimal_min,
+              optimal_max: band.optimal_max,
+              acceptable_min: band.acceptable_min,
+              acceptable_max: band.acceptable_max,
+            }
+          : null;
+      const changed =
+        from &&
+        to &&
+        (from.optimal_min !== to.optimal_min ||
+          from.optimal_max !== to.optimal_max ||
+          from.acceptable_min !== to.acceptable_min ||
+          from.acceptable_max !== to.acceptable_max);
+
+      return {
+        key,
+        metric_name: row.metric_name,
+        gender: row.gender,
+        min_age: row.min_age,
+        max_age: row.max_age,
+        status: !from
+          ? "added"
+          : !to
+            ? "removed"
+            : changed
+              ? "changed"
+              : "unchanged",
+        before: values(from),
+        after: values(to),
+      } as HealthBandDiff;
+    })
+    .sort(
+      (a, b) =>
+        a.metric_name.localeCompare(b.metric_name) ||
+        (a.gender || "").localeCompare(b.gender || "") ||
+        (a.min_age ?? -1) - (b.min_age ?? -1)
+    );
+}
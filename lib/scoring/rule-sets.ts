@@ -0,0 +1,155 @@
+import { createAdminClient } from "@/lib/supabase/server";
+import { getActiveScoringProfile } from "@/lib/scoring/calculator";
+import {
+  pickEffectiveRuleSet,
+  toScoringRuleSetRules,
+} from "@/lib/scoring/rule-set-diff";
+import type {
+  HealthMetricBand,
+  Json,
+  ScoringRuleSet,
+  ScoringRuleSetRules,
+  ScoringThreshold,
+} from "@/lib/types/database";
+
+export interface PublishRuleSetInput {
+  name: string;
+  notes?: string | null;
+  effectiveFrom: string;
+  publishedBy: string | null;
+}
+
+/**
+ * Load every published rule set with its snapshot parsed, newest version first
+ */
+export async function getScoringRuleSets(): Promise<ScoringRuleSetRules[]> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("scoring_rule_sets")
+    .select("*")
+    .order("version", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch scoring rule sets: ${error.message}`);
+  }
+
+  return (data || []).map(toScoringRuleSetRules);
+}
+
+/**
+ * Load a single published rule set, or null when it doesn't exist
+ */
+export async function getScoringRuleSet(
+  id: string
+): Promise<ScoringRuleSetRules | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("scoring_rule_sets")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch scoring rule set: ${error.message}`);
+  }
+
+  return data ? toScoringRuleSetRules(data) : null;
+}
+
+/**
+ * The published rule set in effect at a point in time. Null means no version
+ * had taken effect yet, and the working thresholds and bands are used.
+ */
+export async function getEffectiveRuleSet(
+  at: string | Date = new Date()
+): Promise<ScoringRuleSetRules | null> {
+  return pickEffectiveRuleSet(await getScoringRuleSets(), at);
+}
+
+/**
+ * Load the working (unpublished) thresholds and health bands
+ */
+export async function getWorkingRules(): Promise<{
+  thresholds: ScoringThreshold[];
+  health_bands: HealthMetricBand[];
+}> {
+  const supabase = createAdminClient();
+
+  const [thresholdsResult, bandsResult] = await Promise.all([
+    supabase
+      .from("scoring_thresholds")
+      .select("*")
+      .order("station_type")
+      .order("gender")
+      .order("min_age"),
+    supabase.from("health_metric_bands").select("*").order("metric_name"),
+  ]);
+
+  if (thresholdsResult.error) {
+    throw new Error(
+      `Failed to fetch scoring thresholds: ${thresholdsResult.error.message}`
+    );
+  }
+  if (bandsResult.error) {
+    throw new Error(
+      `Failed to fetch health metric bands: ${bandsResult.error.message}`
+    );
+  }
+
+  return {
+    thresholds: thresholdsResult.data || [],
+    health_bands: bandsResult.data || [],
+  };
+}
+
+/**
+ * Snapshot the working thresholds and bands, and the active profile's youth
+ * policy, as the next rule set version
+ */
+export async function publishRuleSet(
+  input: PublishRuleSetInput
+): Promise<ScoringRuleSet> {
+  const supabase = createAdminClient();
+  const [working, { youth_policy }] = await Promise.all([
+    getWorkingRules(),
+    getActiveScoringProfile(),
+  ]);
+
+  const { data: latest, error: latestError } = await supabase
+    .from("scoring_rule_sets")
+    .select("version")
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) {
+    throw new Error(
+      `Failed to fetch latest rule set version: ${latestError.message}`
+    );
+  }
+
+  const { data: ruleSet, error } = await supabase
+    .from("scoring_rule_sets")
+    .insert({
+      name: input.name,
+      notes: input.notes ?? null,
+      effective_from: input.effectiveFrom,
+      published_by: input.publishedBy,
+      version: (latest?.version ?? 0) + 1,
+      thresholds: working.thresholds as unknown as Json,
+      health_bands: working.health_bands as unknown as Json,
+      youth_policy,
+    })
+    .select()
+    .single();
+
+  if (error || !ruleSet) {
+    throw new Error(
+      `Failed to publish scoring rule set: ${error?.message || "no row returned"}`
+    );
+  }
+
+  return ruleSet;
+}
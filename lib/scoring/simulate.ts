@@ -0,0 +1,292 @@
+// "What-if" scoring for the admin score simulator. Nothing here writes to the
+// database: hypothetical participants are scored in memory and draft
+// thresholds are replayed against stored results as a rescore dry run.
+import { createAdminClient } from "@/lib/supabase/server";
+import {
+  calculateCompositeScores,
+  simulateStationScore,
+  toCompositeInput,
+  toStationDefinition,
+  type StationScore,
+} from "@/lib/scoring/calculator";
+import type { CompositeScore } from "@/lib/scoring/profile";
+import {
+  rescoreStationResults,
+  type GradeChange,
+  type RescoreChange,
+  type RescoreResult,
+} from "@/lib/scoring/rescore";
+import { getEffectiveRuleSet, getWorkingRules } from "@/lib/scoring/rule-sets";
+import { DRAFT_RULE_SET_ID } from "@/lib/scoring/rule-set-diff";
+import {
+  compactMeasurements,
+  validateMeasurements,
+} from "@/lib/stations/metrics";
+import { resolveScoringReference } from "@/lib/scoring/gender";
+import type { ThresholdRange } from "@/lib/scoring/thresholds";
+import type {
+  Grade,
+  RuleSetReference,
+  ScoringReference,
+  ScoringRuleSetRules,
+  StationType,
+} from "@/lib/types/database";
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+// Replays can touch every result; only a sample of the changes is returned
+const REPLAY_SAMPLE_SIZE = 100;
+
+export interface SimulatedParticipant {
+  age: number;
+  gender: string;
+  // Defaults to the gender for male and female participants
+  scoringReference?: ScoringReference | null;
+  // Measurements keyed by station type; stations left out are not recorded
+  measurements: Record<string, unknown>;
+}
+
+export interface SimulatedStation {
+  stationType: string;
+  name: string;
+  result: StationScore | null;
+  // Set when the measurements don't pass the station's validation
+  error: string | null;
+}
+
+export interface ParticipantSimulation {
+  // Rules the participant was scored with; null means the working rules
+  ruleSet: RuleSetReference | null;
+  stations: SimulatedStation[];
+  composite: CompositeScore;
+}
+
+export type GradeDistribution = Record<Grade | "Ungraded", number>;
+
+export interface ThresholdReplay {
+  participants: number;
+  before: GradeDistribution;
+  after: GradeDistribution;
+  summary: RescoreResult["summary"];
+  changes: RescoreChange[];
+  gradeChanges: GradeChange[];
+  // True when the changes above are a sample of a longer list
+  truncated: boolean;
+}
+
+/**
+ * Build an unpublished rule set from draft thresholds. Health bands come from
+ * the working rules, since the simulator only drafts thresholds.
+ */
+export async function buildDraftRuleSet(
+  thresholds: ThresholdRange[]
+): Promise<ScoringRuleSetRules> {
+  const working = await getWorkingRules();
+
+  return {
+    id: DRAFT_RULE_SET_ID,
+    name: "Simulator draft",
+    version: 0,
+    effective_from: new Date().toISOString(),
+    thresholds: thresholds.map((threshold, index) => ({
+      id: `${DRAFT_RULE_SET_ID}-${index}`,
+      station_type: threshold.station_type,
+      gender: threshold.gender,
+      min_age: threshold.min_age,
+      max_age: threshold.max_age,
+      min_average_value: threshold.min_average_value,
+      max_average_value: threshold.max_average_value,
+      created_at: null,
+      updated_at: null,
+    })),
+    health_bands: working.health_bands,
+  };
+}
+
+/**
+ * Score a hypothetical participant at every active station they have
+ * measurements for, with the draft rules when given and otherwise the rules
+ * that would be used for a result recorded now
+ */
+export async function simulateParticipant(
+  participant: SimulatedParticipant,
+  draftRules: ScoringRuleSetRules | null = null
+): Promise<ParticipantSimulation> {
+  const supabase = createAdminClient();
+
+  const { data: stations, error } = await supabase
+    .from("stations")
+    .select("station_type, name, attempt_policy, max_attempts, metrics")
+    .eq("is_active", true)
+    .order("sort_order");
+
+  if (error) {
+    throw new Error(`Failed to fetch stations: ${error.message}`);
+  }
+
+  const ruleSet = draftRules || (await getEffectiveRuleSet());
+  const demographics = {
+    age: participant.age,
+    gender: participant.gender,
+    scoring_reference: resolveScoringReference(
+      participant.gender,
+      participant.scoringReference
+    ),
+  };
+  const simulated: SimulatedStation[] = [];
+
+  for (const station of stations || []) {
+    const measurements = participant.measurements[station.station_type];
+    if (measurements === undefined || measurements === null) continue;
+
+    const definition = toStationDefinition(station);
+    const validationError = validateMeasurements(
+      definition.metrics,
+      measurements
+    );
+
+    simulated.push({
+      stationType: station.station_type,
+      name: station.name,
+      result: validationError
+        ? null
+        : await simulateStationScore(
+            demographics,
+            station.station_type as StationType,
+            compactMeasurements(measurements),
+            definition,
+            ruleSet
+          ),
+      error: validationError,
+    });
+  }
+
+  const scored = simulated.filter((station) => station.result);
+  const composites = await calculateCompositeScores([
+    {
+      key: "simulated",
+      scores: Object.fromEntries(
+        scored.map((station) => [station.stationType, station.result!.score])
+      ),
+      continuousScores: Object.fromEntries(
+        scored.map((station) => [
+          station.stationType,
+          station.result!.continuousScore,
+        ])
+      ),
+      pendingStationTypes: scored
+        .filter((station) => station.result!.unscorableReason)
+        .map((station) => station.stationType),
+    },
+  ]);
+  const composite = composites.get("simulated")!;
+
+  return {
+    ruleSet: ruleSet
+      ? { id: ruleSet.id, name: ruleSet.name, version: ruleSet.version }
+      : null,
+    stations: simulated,
+    composite,
+  };
+}
+
+interface ReplayedResult {
+  id: string;
+  station_type: string;
+  score: number | null;
+  unscorable_reason: string | null;
+}
+
+function emptyDistribution(): GradeDistribution {
+  return { "Above Average": 0, Average: 0, Bad: 0, Ungraded: 0 };
+}
+
+/**
+ * Replay draft rules against every stored station result and compare the
+ * grade distribution of all participants before and after
+ */
+export async function replayDraftRules(
+  draftRules: ScoringRuleSetRules
+): Promise<ThresholdReplay> {
+  const supabase = createAdminClient();
+
+  const rescore = await rescoreStationResults(
+    {},
+    { dryRun: true, draftRules }
+  );
+
+  const changesByResult = new Map(
+    rescore.changes.map((change) => [change.resultId, change])
+  );
+
+  const resultsByParticipant = new Map<string, ReplayedResult[]>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("station_results")
+      .select("id, participant_id, station_type, score, unscorable_reason")
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch station results: ${error.message}`);
+    }
+
+    (data || []).forEach(({ participant_id, ...result }) => {
+      const list = resultsByParticipant.get(participant_id) || [];
+      list.push(result);
+      resultsByParticipant.set(participant_id, list);
+    });
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const before = emptyDistribution();
+  const after = emptyDistribution();
+
+  const participants = Array.from(resultsByParticipant.entries());
+  const composites = await calculateCompositeScores(
+    participants.flatMap(([participantId, results]) => {
+      const replayed = results.map((result) => {
+        const change = changesByResult.get(result.id);
+        return change
+          ? {
+              ...result,
+              score: change.afterScore,
+              unscorable_reason: change.unscorableReason,
+            }
+          : result;
+      });
+
+      return [
+        toCompositeInput(`${participantId}:before`, results),
+        toCompositeInput(`${participantId}:after`, replayed),
+      ];
+    })
+  );
+
+  participants.forEach(([participantId]) => {
+    before[composites.get(`${participantId}:before`)?.grade || "Ungraded"] += 1;
+    after[composites.get(`${participantId}:after`)?.grade || "Ungraded"] += 1;
+  });
+
+  // Only results whose scores move are interesting here; the rule set id
+  // always changes because the draft isn't a published version
+  const scoreChanges = rescore.changes.filter(
+    (change) =>
+      change.beforeScore !== change.afterScore ||
+      change.beforeContinuousScore !== change.afterContinuousScore
+  );
+
+  return {
+    participants: resultsByParticipant.size,
+    before,
+    after,
+    summary: rescore.summary,
+    changes: scoreChanges.slice(0, REPLAY_SAMPLE_SIZE),
+    gradeChanges: rescore.gradeChanges.slice(0, REPLAY_SAMPLE_SIZE),
+    truncated:
+      scoreChanges.length > REPLAY_SAMPLE_SIZE ||
+      rescore.gradeChanges.length > REPLAY_SAMPLE_SIZE,
+  };
+}
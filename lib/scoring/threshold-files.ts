@@ -0,0 +1,327 @@
+// Reading and writing scoring thresholds as CSV or JSON files.
+// The export format is the import format, so a file can round-trip through
+// the physiology team's spreadsheet.
+import {
+  findThresholdOverlap,
+  formatThresholdAgeRange,
+  THRESHOLD_GENDERS,
+  validateThresholdBounds,
+  type ThresholdRange,
+} from "@/lib/scoring/thresholds";
+import type { ThresholdDiff } from "@/lib/types/database";
+
+export type ThresholdFileFormat = "csv" | "json";
+
+export const THRESHOLD_FILE_COLUMNS = [
+  "station_type",
+  "gender",
+  "min_age",
+  "max_age",
+  "min_average_value",
+  "max_average_value",
+] as const;
+
+export interface ThresholdFileError {
+  // 1-based data row (CSV rows exclude the header)
+  row: number;
+  message: string;
+}
+
+export interface ParsedThresholdFile {
+  thresholds: ThresholdRange[];
+  errors: ThresholdFileError[];
+}
+
+export interface ThresholdImportResult {
+  dryRun: boolean;
+  // Stations in the file; only their thresholds are replaced
+  stationTypes: string[];
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  };
+  diff: ThresholdDiff[];
+}
+
+/**
+ * Pick the file format from a file name, defaulting to CSV
+ */
+export function getThresholdFileFormat(fileName: string): ThresholdFileFormat {
+  return fileName.toLowerCase().endsWith(".json") ? "json" : "csv";
+}
+
+/**
+ * Split CSV text into rows of fields. Handles quoted fields with commas,
+ * doubled quotes and CRLF line endings; blank lines are dropped.
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+
+    if (inQuotes) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const parsed = Number(value.trim());
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Turn one raw record into a threshold, or an error message. Station types are
+ * checked against stationTypes when given.
+ */
+function toThreshold(
+  record: Record<string, unknown>,
+  stationTypes?: string[]
+): ThresholdRange | string {
+  const stationType =
+    typeof record.station_type === "string" ? record.station_type.trim() : "";
+  const gender =
+    typeof record.gender === "string" ? record.gender.trim().toLowerCase() : "";
+  const minAge = toNumber(record.min_age);
+  const maxAge = toNumber(record.max_age);
+  const minAverage = toNumber(record.min_average_value);
+  const maxAverage = toNumber(record.max_average_value);
+
+  if (
+    !stationType ||
+    !gender ||
+    minAge === null ||
+    minAverage === null ||
+    maxAverage === null
+  ) {
+    return "Missing required fields: station_type, gender, min_age, min_average_value, max_average_value";
+  }
+
+  // A blank max_age means open-ended, anything else must be a number
+  if (
+    maxAge === null &&
+    record.max_age != null &&
+    String(record.max_age).trim() !== ""
+  ) {
+    return "max_age must be a number or left blank for open-ended ranges";
+  }
+
+  // Thresholds for a station that doesn't exist would never apply
+  if (stationTypes && !stationTypes.includes(stationType)) {
+    return `Unknown station type: ${stationType}`;
+  }
+
+  if (!THRESHOLD_GENDERS.some((allowed) => allowed === gender)) {
+    return `Gender must be one of: ${THRESHOLD_GENDERS.join(", ")}`;
+  }
+
+  const threshold: ThresholdRange = {
+    station_type: stationType,
+    gender,
+    min_age: minAge,
+    max_age: maxAge,
+    min_average_value: minAverage,
+    max_average_value: maxAverage,
+  };
+
+  return validateThresholdBounds(threshold) || threshold;
+}
+
+/**
+ * Parse and validate a thresholds file. Pass the existing stations' types to
+ * reject thresholds for unknown stations.
+ */
+export function parseThresholdFile(
+  content: string,
+  format: ThresholdFileFormat,
+  stationTypes?: string[]
+): ParsedThresholdFile {
+  let records: unknown[];
+
+  if (format === "json") {
+    try {
+      const parsed = JSON.parse(content);
+      const list = Array.isArray(parsed) ? parsed : parsed?.thresholds;
+      if (!Array.isArray(list)) {
+        return {
+          thresholds: [],
+          errors: [
+            {
+              row: 0,
+              message:
+                "JSON must be an array of thresholds or an object with a thresholds array",
+            },
+          ],
+        };
+      }
+      records = list;
+    } catch {
+      return {
+        thresholds: [],
+        errors: [{ row: 0, message: "File is not valid JSON" }],
+      };
+    }
+  } else {
+    const [header, ...rows] = parseCsv(content);
+    const columns = (header || []).map((column) =>
+      column.trim().toLowerCase()
+    );
+    const missing = THRESHOLD_FILE_COLUMNS.filter(
+      (column) => !columns.includes(column)
+    );
+
+    if (missing.length > 0) {
+      return {
+        thresholds: [],
+        errors: [
+          { row: 0, message: `Missing CSV columns: ${missing.join(", ")}` },
+        ],
+      };
+    }
+
+    records = rows.map((fields) =>
+      Object.fromEntries(
+        columns.map((column, index) => [column, fields[index] ?? ""])
+      )
+    );
+  }
+
+  return validateThresholdRecords(records, stationTypes);
+}
+
+/**
+ * Validate raw threshold rows (from a file or a draft edited in the admin UI)
+ * with the same rules as the thresholds API, including overlapping age ranges
+ * between rows
+ */
+export function validateThresholdRecords(
+  records: unknown[],
+  stationTypes?: string[]
+): ParsedThresholdFile {
+  const thresholds: ThresholdRange[] = [];
+  const errors: ThresholdFileError[] = [];
+  const rowNumbers = new Map<ThresholdRange, number>();
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+
+    if (!record || typeof record !== "object") {
+      errors.push({ row, message: "Row must be an object" });
+      return;
+    }
+
+    const threshold = toThreshold(
+      record as Record<string, unknown>,
+      stationTypes
+    );
+    if (typeof threshold === "string") {
+      errors.push({ row, message: threshold });
+      return;
+    }
+
+    const overlap = findThresholdOverlap(threshold, thresholds);
+    if (overlap) {
+      errors.push({
+        row,
+        message: `Age range ${formatThresholdAgeRange(
+          threshold.min_age,
+          threshold.max_age
+        )} overlaps ${overlap.station_type} ${overlap.gender} ${formatThresholdAgeRange(
+          overlap.min_age,
+          overlap.max_age
+        )} in row ${rowNumbers.get(overlap)}`,
+      });
+      return;
+    }
+
+    thresholds.push(threshold);
+    rowNumbers.set(threshold, row);
+  });
+
+  if (records.length === 0) {
+    errors.push({ row: 0, message: "No thresholds were provided" });
+  }
+
+  return { thresholds, errors };
+}
+
+function toCsvField(value: string | number | null) {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write thresholds in the import format, sorted by station, gender and age
+ */
+export function serializeThresholds(
+  thresholds: ThresholdRange[],
+  format: ThresholdFileFormat
+): string {
+  const rows = [...thresholds]
+    .sort(
+      (a, b) =>
+        a.station_type.localeCompare(b.station_type) ||
+        a.gender.localeCompare(b.gender) ||
+        a.min_age - b.min_age
+    )
+    .map((threshold) => ({
+      station_type: threshold.station_type,
+      gender: threshold.gender,
+      min_age: threshold.min_age,
+      max_age: threshold.max_age,
+      min_average_value: threshold.min_average_value,
+      max_average_value: threshold.max_average_value,
+    }));
+
+  if (format === "json") {
+    return JSON.stringify(rows, null, 2) + "\n";
+  }
+
+  return (
+    [
+      THRESHOLD_FILE_COLUMNS.join(","),
+      ...rows.map((row) =>
+        THRESHOLD_FILE_COLUMNS.map((column) => toCsvField(row[column])).join(
+          ","
+        )
+      ),
+    ].join("\n") + "\n"
+  );
+}
@@ -0,0 +1,194 @@
+// Validation and coverage checks for scoring thresholds.
+// Kept free of server imports so the admin UI can use the same rules.
+import type { ThresholdGender } from "@/lib/types/database";
+
+// Genders allowed by the scoring_thresholds gender check
+export const THRESHOLD_GENDERS: ThresholdGender[] = ["male", "female"];
+
+export const COVERAGE_MIN_AGE = 18;
+export const COVERAGE_MAX_AGE = 100;
+
+export interface ThresholdRange {
+  id?: string;
+  station_type: string;
+  gender: string;
+  min_age: number;
+  max_age: number | null;
+  min_average_value: number;
+  max_average_value: number;
+}
+
+export type CoverageStatus = "covered" | "gap" | "overlap";
+
+export interface CoverageSegment {
+  min_age: number;
+  max_age: number;
+  status: CoverageStatus;
+  threshold_ids: string[];
+}
+
+export interface CoverageRow {
+  station_type: string;
+  gender: string;
+  segments: CoverageSegment[];
+  gap_ages: number;
+  overlap_ages: number;
+}
+
+export interface ThresholdCoverageReport {
+  min_age: number;
+  max_age: number;
+  rows: CoverageRow[];
+  summary: {
+    rows: number;
+    rows_with_gaps: number;
+    rows_with_overlaps: number;
+  };
+}
+
+/**
+ * Format an age range the way the admin UI shows it, e.g. "40-59" or "60+"
+ */
+export function formatThresholdAgeRange(minAge: number, maxAge: number | null) {
+  return maxAge === null ? `${minAge}+` : `${minAge}-${maxAge}`;
+}
+
+/**
+ * Check a threshold's own bounds.
+ * Returns an error message, or null when the bounds are valid.
+ */
+export function validateThresholdBounds(threshold: {
+  min_age: number;
+  max_age: number | null;
+  min_average_value: number;
+  max_average_value: number;
+}): string | null {
+  const { min_age, max_age, min_average_value, max_average_value } = threshold;
+
+  if (!Number.isInteger(min_age) || min_age < 0) {
+    return "Minimum age must be a whole number of at least 0";
+  }
+
+  if (max_age !== null && !Number.isInteger(max_age)) {
+    return "Maximum age must be a whole number";
+  }
+
+  if (max_age !== null && min_age > max_age) {
+    return "Minimum age cannot be greater than maximum age";
+  }
+
+  if (
+    !Number.isFinite(min_average_value) ||
+    !Number.isFinite(max_average_value)
+  ) {
+    return "Average range values must be numbers";
+  }
+
+  if (min_average_value > max_average_value) {
+    return "Minimum average value cannot be greater than maximum average value";
+  }
+
+  return null;
+}
+
+function rangesOverlap(a: ThresholdRange, b: ThresholdRange) {
+  const aMax = a.max_age ?? Infinity;
+  const bMax = b.max_age ?? Infinity;
+  return a.min_age <= bMax && b.min_age <= aMax;
+}
+
+/**
+ * Find an existing threshold for the same station and gender whose age range
+ * overlaps the candidate's. The candidate's own row (matched by id) is ignored;
+ * candidates without an id, such as rows of an import file, have no own row.
+ */
+export function findThresholdOverlap(
+  candidate: ThresholdRange,
+  existing: ThresholdRange[]
+): ThresholdRange | null {
+  return (
+    existing.find(
+      (threshold) =>
+        (candidate.id === undefined || threshold.id !== candidate.id) &&
+        threshold.station_type === candidate.station_type &&
+        threshold.gender === candidate.gender &&
+        rangesOverlap(candidate, threshold)
+    ) || null
+  );
+}
+
+/**
+ * Build the coverage grid for every station x gender over an age span.
+ * Consecutive ages with the same matching thresholds are merged into segments.
+ */
+export function buildThresholdCoverage(
+  thresholds: ThresholdRange[],
+  stationTypes: string[],
+  genders: string[],
+  minAge: number = COVERAGE_MIN_AGE,
+  maxAge: number = COVERAGE_MAX_AGE
+): ThresholdCoverageReport {
+  const rows: CoverageRow[] = [];
+
+  for (const stationType of stationTypes) {
+    for (const gender of genders) {
+      const candidates = thresholds.filter(
+        (threshold) =>
+          threshold.station_type === stationType && threshold.gender === gender
+      );
+      const segments: CoverageSegment[] = [];
+      let gapAges = 0;
+      let overlapAges = 0;
+
+      for (let age = minAge; age <= maxAge; age++) {
+        const ids = candidates
+          .filter(
+            (threshold) =>
+              age >= threshold.min_age &&
+              (threshold.max_age === null || age <= threshold.max_age)
+          )
+          .map((threshold) => threshold.id || "");
+        const status: CoverageStatus =
+          ids.length === 0 ? "gap" : ids.length > 1 ? "overlap" : "covered";
+
+        if (status === "gap") gapAges++;
+        if (status === "overlap") overlapAges++;
+
+        const previous = segments[segments.length - 1];
+        if (
+          previous &&
+          previous.status === status &&
+          previous.threshold_ids.join() === ids.join()
+        ) {
+          previous.max_age = age;
+        } else {
+          segments.push({
+            min_age: age,
+            max_age: age,
+            status,
+            threshold_ids: ids,
+          });
+        }
+      }
+
+      rows.push({
+        station_type: stationType,
+        gender,
+        segments,
+        gap_ages: gapAges,
+        overlap_ages: overlapAges,
+      });
+    }
+  }
+
+  return {
+    min_age: minAge,
+    max_age: maxAge,
+    rows,
+    summary: {
+      rows: rows.length,
+      rows_with_gaps: rows.filter((row) => row.gap_ages > 0).length,
+      rows_with_overlaps: rows.filter((row) => row.overlap_ages > 0).length,
+    },
+  };
+}
@@ -0,0 +1,172 @@
+import { z } from "zod";
+import type { Json, StationMetricDefinition } from "@/lib/types/database";
+
+const metricDefinitionSchema = z
+  .object({
+    key: z
+      .string()
+      .regex(/^[a-z][a-z0-9_]*$/, "Metric key must be snake_case"),
+    label: z.string().min(1, "Metric label is required"),
+    unit: z.string().nullable().optional(),
+    input: z.enum(["number", "time"]),
+    min: z.number(),
+    max: z.number(),
+    step: z.number().positive().optional(),
+    direction: z.enum(["higher", "lower", "range"]),
+    scoring: z.enum(["thresholds", "bands"]),
+    group: z.string().nullable().optional(),
+    description: z.string().nullable().optional(),
+    required: z.boolean().optional(),
+    include_in_score: z.boolean().optional(),
+  })
+  .refine((metric) => metric.min <= metric.max, {
+    message: "Metric min cannot be greater than max",
+  });
+
+const metricDefinitionsSchema = z
+  .array(metricDefinitionSchema)
+  .min(1, "A station needs at least one metric")
+  .refine(
+    (metrics) =>
+      new Set(metrics.map((metric) => metric.key)).size === metrics.length,
+    { message: "Metric keys must be unique within a station" }
+  )
+  .refine(
+    (metrics) =>
+      metrics.filter((metric) => metric.scoring === "thresholds").length <= 1,
+    { message: "Only one metric per station can be scored against thresholds" }
+  );
+
+/**
+ * Validate metric definitions submitted for a station.
+ * Returns an error message, or null when the definitions are valid.
+ */
+export function validateStationMetrics(metrics: unknown): string | null {
+  const result = metricDefinitionsSchema.safeParse(metrics);
+  return result.success ? null : result.error.errors[0].message;
+}
+
+/**
+ * Read the metric definitions stored on a station row, dropping malformed entries
+ */
+export function parseStationMetrics(
+  metrics: Json | null | undefined
+): StationMetricDefinition[] {
+  if (!Array.isArray(metrics)) return [];
+
+  return metrics.flatMap((metric) => {
+    const result = metricDefinitionSchema.safeParse(metric);
+    return result.success ? [result.data] : [];
+  });
+}
+
+/**
+ * The metric that represents the station's performance: the one scored
+ * against thresholds, otherwise the first declared metric
+ */
+export function getPrimaryMetric(
+  metrics: StationMetricDefinition[]
+): StationMetricDefinition | null {
+  return (
+    metrics.find((metric) => metric.scoring === "thresholds") ||
+    metrics[0] ||
+    null
+  );
+}
+
+/**
+ * Whether a metric must be recorded (metrics are required unless marked otherwise)
+ */
+export function isMetricRequired(metric: StationMetricDefinition): boolean {
+  return metric.required !== false;
+}
+
+/**
+ * Whether a metric counts towards the station score
+ */
+export function isMetricScored(metric: StationMetricDefinition): boolean {
+  return metric.include_in_score !== false;
+}
+
+/**
+ * Read a numeric metric value from recorded measurements
+ */
+export function getMetricValue(
+  measurements: unknown,
+  key: string
+): number | null {
+  if (!measurements || typeof measurements !== "object") return null;
+  const value = (measurements as Record<string, unknown>)[key];
+  return typeof value === "number" && !Number.isNaN(value) ? value : null;
+}
+
+/**
+ * Format a metric label with its unit, e.g. "Balloon Diameter (cm)".
+ * Time inputs show minutes:seconds, so their unit is left out.
+ */
+export function formatMetricLabel(metric: StationMetricDefinition): string {
+  return metric.unit && metric.input !== "time"
+    ? `${metric.label} (${metric.unit})`
+    : metric.label;
+}
+
+/**
+ * Build the zod schema that validates measurements for a station.
+ * Optional metrics accept a blank (null or missing) value.
+ */
+export function buildMeasurementSchema(metrics: StationMetricDefinition[]) {
+  return z.object(
+    Object.fromEntries(
+      metrics.map((metric) => {
+        const schema = z
+          .number({ required_error: `${metric.label} is required` })
+          .min(metric.min, `${metric.label} cannot be less than ${metric.min}`)
+          .max(metric.max, `${metric.label} cannot exceed ${metric.max}`);
+
+        return [
+          metric.key,
+          isMetricRequired(metric) ? schema : schema.nullish(),
+        ];
+      })
+    )
+  );
+}
+
+/**
+ * Validate recorded measurements against a station's metrics.
+ * Returns an error message, or null when the measurements are valid.
+ */
+export function validateMeasurements(
+  metrics: StationMetricDefinition[],
+  measurements: unknown
+): string | null {
+  const result = buildMeasurementSchema(metrics)
+    .strict()
+    .safeParse(measurements);
+  return result.success ? null : result.error.errors[0].message;
+}
+
+/**
+ * Drop blank optional values so only recorded measurements are stored
+ */
+export function compactMeasurements(
+  measurements: unknown
+): Record<string, number> {
+  if (!measurements || typeof measurements !== "object") return {};
+
+  return Object.fromEntries(
+    Object.entries(measurements).filter(
+      (entry): entry is [string, number] =>
+        typeof entry[1] === "number" && !Number.isNaN(entry[1])
+    )
+  );
+}
+
+/**
+ * Empty form values for a station's metrics
+ */
+export function getMeasurementDefaults(
+  metrics: StationMetricDefinition[]
+): Record<string, null> {
+  return Object.fromEntries(metrics.map((metric) => [metric.key, null]));
+}
@@ -46,6 +46,319 @@ export type Database = {
           }
         ];
       };
+      health_metric_bands: {
+        Row: {
+          acceptable_max: number;
+          acceptable_min: number;
+          created_at: string | null;
+          description: string | null;
+          gender: string | null;
+          id: string;
+          max_age: number | null;
+          metric_name: string;
+          min_age: number | null;
+          optimal_max: number;
+          optimal_min: number;
+          updated_at: string | null;
+        };
+        Insert: {
+          acceptable_max: number;
+          acceptable_min: number;
+          created_at?: string | null;
+          description?: string | null;
+          gender?: string | null;
+          id?: string;
+          max_age?: number | null;
+          metric_name: string;
+          min_age?: number | null;
+          optimal_max: number;
+          optimal_min: number;
+          updated_at?: string | null;
+        };
+        Update: {
+          acceptable_max?: number;
+          acceptable_min?: number;
+          created_at?: string | null;
+          description?: string | null;
+          gender?: string | null;
+          id?: string;
+          max_age?: number | null;
+          metric_name?: string;
+          min_age?: number | null;
+          optimal_max?: number;
+          optimal_min?: number;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      kiosk_displays: {
+        Row: {
+          accent_color: string;
+          boards: string[];
+          created_at: string;
+          created_by: string | null;
+          event_name: string;
+          id: string;
+          logo_url: string | null;
+          name: string;
+          primary_color: string;
+          rotation_seconds: number;
+          rows_per_board: number;
+          token_version: number;
+          updated_at: string;
+        };
+        Insert: {
+          accent_color?: string;
+          boards?: string[];
+          created_at?: string;
+          created_by?: string | null;
+          event_name: string;
+          id?: string;
+          logo_url?: string | null;
+          name: string;
+          primary_color?: string;
+          rotation_seconds?: number;
+          rows_per_board?: number;
+          token_version?: number;
+          updated_at?: string;
+        };
+        Update: {
+          accent_color?: string;
+          boards?: string[];
+          created_at?: string;
+          created_by?: string | null;
+          event_name?: string;
+          id?: string;
+          logo_url?: string | null;
+          name?: string;
+          primary_color?: string;
+          rotation_seconds?: number;
+          rows_per_board?: number;
+          token_version?: number;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      leaderboard_entries: {
+        Row: {
+          completed_stations: number;
+          continuous_score: number | null;
+          continuous_scores: Json | null;
+          gender: string | null;
+          grade: string | null;
+          hidden: boolean;
+          latest_completion: string | null;
+          max_possible_score: number;
+          name: string | null;
+          organisation: string | null;
+          participant_code: string;
+          participant_id: string;
+          pending_stations: string[];
+          percentage: number | null;
+          scores: Json;
+          tie_breaks: number[];
+          total_score: number;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          completed_stations?: number;
+          continuous_score?: number | null;
+          continuous_scores?: Json | null;
+          gender?: string | null;
+          grade?: string | null;
+          hidden?: boolean;
+          latest_completion?: string | null;
+          max_possible_score?: number;
+          name?: string | null;
+          organisation?: string | null;
+          participant_code: string;
+          participant_id: string;
+          pending_stations?: string[];
+          percentage?: number | null;
+          scores?: Json;
+          tie_breaks?: number[];
+          total_score?: number;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          completed_stations?: number;
+          continuous_score?: number | null;
+          continuous_scores?: Json | null;
+          gender?: string | null;
+          grade?: string | null;
+          hidden?: boolean;
+          latest_completion?: string | null;
+          max_possible_score?: number;
+          name?: string | null;
+          organisation?: string | null;
+          participant_code?: string;
+          participant_id?: string;
+          pending_stations?: string[];
+          percentage?: number | null;
+          scores?: Json;
+          tie_breaks?: number[];
+          total_score?: number;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      leaderboard_snapshot_entries: {
+        Row: {
+          completed_stations: number;
+          continuous_score: number | null;
+          gender: string | null;
+          grade: string | null;
+          latest_completion: string | null;
+          max_possible_score: number;
+          name: string | null;
+          organisation: string | null;
+          participant_code: string;
+          participant_id: string;
+          percentage: number | null;
+          rank: number;
+          scores: Json;
+          snapshot_id: string;
+          tied: boolean;
+          total_score: number;
+        };
+        Insert: {
+          completed_stations?: number;
+          continuous_score?: number | null;
+          gender?: string | null;
+          grade?: string | null;
+          latest_completion?: string | null;
+          max_possible_score?: number;
+          name?: string | null;
+          organisation?: string | null;
+          participant_code: string;
+          participant_id: string;
+          percentage?: number | null;
+          rank: number;
+          scores?: Json;
+          snapshot_id: string;
+          tied?: boolean;
+          total_score?: number;
+        };
+        Update: {
+          completed_stations?: number;
+          continuous_score?: number | null;
+          gender?: string | null;
+          grade?: string | null;
+          latest_completion?: string | null;
+          max_possible_score?: number;
+          name?: string | null;
+          organisation?: string | null;
+          participant_code?: string;
+          participant_id?: string;
+          percentage?: number | null;
+          rank?: number;
+          scores?: Json;
+          snapshot_id?: string;
+          tied?: boolean;
+          total_score?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "leaderboard_snapshot_entries_snapshot_id_fkey";
+            columns: ["snapshot_id"];
+            isOneToOne: false;
+            referencedRelation: "leaderboard_snapshots";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      leaderboard_snapshots: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          id: string;
+          label: string;
+          participant_count: number;
+          scheduled_for: string | null;
+          stations: Json;
+          taken_at: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          label: string;
+          participant_count?: number;
+          scheduled_for?: string | null;
+          stations?: Json;
+          taken_at?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          label?: string;
+          participant_count?: number;
+          scheduled_for?: string | null;
+          stations?: Json;
+          taken_at?: string | null;
+        };
+        Relationships: [];
+      };
+      organisation_aliases: {
+        Row: {
+          alias: string;
+          created_at: string;
+          id: string;
+          normalised_alias: string;
+          organisation_id: string;
+        };
+        Insert: {
+          alias: string;
+          created_at?: string;
+          id?: string;
+          normalised_alias: string;
+          organisation_id: string;
+        };
+        Update: {
+          alias?: string;
+          created_at?: string;
+          id?: string;
+          normalised_alias?: string;
+          organisation_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "organisation_aliases_organisation_id_fkey";
+            columns: ["organisation_id"];
+            isOneToOne: false;
+            referencedRelation: "organisations";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      organisations: {
+        Row: {
+          created_at: string;
+          id: string;
+          name: string;
+          normalised_name: string;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          name: string;
+          normalised_name: string;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          name?: string;
+          normalised_name?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
       participants: {
         Row: {
           agreement_accepted: boolean | null;
@@ -84,9 +397,13 @@ export type Database = {
           gender: string;
           id: string;
           job_title: string;
+          leaderboard_alias: string | null;
+          leaderboard_visibility: string;
           name: string;
           organisation: string;
+          organisation_id: string | null;
           role: Database["public"]["Enums"]["user_role"];
+          scoring_reference: string | null;
           updated_at: string | null;
         };
         Insert: {
@@ -96,9 +413,13 @@ export type Database = {
           gender: string;
           id: string;
           job_title: string;
+          leaderboard_alias?: string | null;
+          leaderboard_visibility?: string;
           name: string;
           organisation: string;
+          organisation_id?: string | null;
           role?: Database["public"]["Enums"]["user_role"];
+          scoring_reference?: string | null;
           updated_at?: string | null;
         };
         Update: {
@@ -108,9 +429,13 @@ export type Database = {
           gender?: string;
           id?: string;
           job_title?: string;
+          leaderboard_alias?: string | null;
+          leaderboard_visibility?: string;
           name?: string;
           organisation?: string;
+          organisation_id?: string | null;
           role?: Database["public"]["Enums"]["user_role"];
+          scoring_reference?: string | null;
           updated_at?: string | null;
         };
         Relationships: [];
@@ -199,39 +524,196 @@ export type Database = {
           }
         ];
       };
+      station_attempts: {
+        Row: {
+          attempt_number: number;
+          continuous_score: number | null;
+          created_at: string;
+          id: string;
+          measurements: Json;
+          recorded_by: string;
+          score: number | null;
+          score_explanation: Json | null;
+          station_result_id: string;
+          unscorable_reason: string | null;
+        };
+        Insert: {
+          attempt_number: number;
+          continuous_score?: number | null;
+          created_at?: string;
+          id?: string;
+          measurements: Json;
+          recorded_by: string;
+          score?: number | null;
+          score_explanation?: Json | null;
+          station_result_id: string;
+          unscorable_reason?: string | null;
+        };
+        Update: {
+          attempt_number?: number;
+          continuous_score?: number | null;
+          created_at?: string;
+          id?: string;
+          measurements?: Json;
+          recorded_by?: string;
+          score?: number | null;
+          score_explanation?: Json | null;
+          station_result_id?: string;
+          unscorable_reason?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "station_attempts_station_result_id_fkey";
+            columns: ["station_result_id"];
+            isOneToOne: false;
+            referencedRelation: "station_results";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      station_audits: {
+        Row: {
+          action: string;
+          actor_email: string | null;
+          actor_id: string | null;
+          after_measurements: Json | null;
+          after_score: number | null;
+          before_measurements: Json | null;
+          before_score: number | null;
+          created_at: string;
+          id: string;
+          metadata: Json;
+          participant_code: string | null;
+          participant_id: string | null;
+          reason: string | null;
+          station_result_id: string | null;
+          station_type: string;
+        };
+        Insert: {
+          action: string;
+          actor_email?: string | null;
+          actor_id?: string | null;
+          after_measurements?: Json | null;
+          after_score?: number | null;
+          before_measurements?: Json | null;
+          before_score?: number | null;
+          created_at?: string;
+          id?: string;
+          metadata?: Json;
+          participant_code?: string | null;
+          participant_id?: string | null;
+          reason?: string | null;
+          station_result_id?: string | null;
+          station_type: string;
+        };
+        Update: {
+          action?: string;
+          actor_email?: string | null;
+          actor_id?: string | null;
+          after_measurements?: Json | null;
+          after_score?: number | null;
+          before_measurements?: Json | null;
+          before_score?: number | null;
+          created_at?: string;
+          id?: string;
+          metadata?: Json;
+          participant_code?: string | null;
+          participant_id?: string | null;
+          reason?: string | null;
+          station_result_id?: string | null;
+          station_type?: string;
+        };
+        Relationships: [];
+      };
+      station_result_versions: {
+        Row: {
+          changed_by: string;
+          created_at: string;
+          id: string;
+          measurements: Json;
+          reason: string | null;
+          score: number | null;
+          station_result_id: string;
+          version: number;
+        };
+        Insert: {
+          changed_by: string;
+          created_at?: string;
+          id?: string;
+          measurements: Json;
+          reason?: string | null;
+          score?: number | null;
+          station_result_id: string;
+          version: number;
+        };
+        Update: {
+          changed_by?: string;
+          created_at?: string;
+          id?: string;
+          measurements?: Json;
+          reason?: string | null;
+          score?: number | null;
+          station_result_id?: string;
+          version?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "station_result_versions_station_result_id_fkey";
+            columns: ["station_result_id"];
+            isOneToOne: false;
+            referencedRelation: "station_results";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
       station_results: {
         Row: {
+          continuous_score: number | null;
           created_at: string;
           id: string;
           measurements: Json;
           participant_id: string;
           recorded_by: string;
+          rule_set_id: string | null;
           score: number | null;
+          score_explanation: Json | null;
           station_id: string;
           station_type: string;
+          unscorable_reason: string | null;
           updated_at: string;
+          version: number;
         };
         Insert: {
+          continuous_score?: number | null;
           created_at?: string;
           id?: string;
           measurements: Json;
           participant_id: string;
           recorded_by: string;
+          rule_set_id?: string | null;
           score?: number | null;
+          score_explanation?: Json | null;
           station_id: string;
           station_type: string;
+          unscorable_reason?: string | null;
           updated_at?: string;
+          version?: number;
         };
         Update: {
+          continuous_score?: number | null;
           created_at?: string;
           id?: string;
           measurements?: Json;
           participant_id?: string;
           recorded_by?: string;
+          rule_set_id?: string | null;
           score?: number | null;
+          score_explanation?: Json | null;
           station_id?: string;
           station_type?: string;
+          unscorable_reason?: string | null;
           updated_at?: string;
+          version?: number;
         };
         Relationships: [
           {
@@ -241,6 +723,13 @@ export type Database = {
             referencedRelation: "participants";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "station_results_rule_set_id_fkey";
+            columns: ["rule_set_id"];
+            isOneToOne: false;
+            referencedRelation: "scoring_rule_sets";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "station_results_station_id_fkey";
             columns: ["station_id"];
@@ -250,6 +739,105 @@ export type Database = {
           }
         ];
       };
+      scoring_profiles: {
+        Row: {
+          above_average_min_pct: number;
+          average_min_pct: number;
+          continuous_limits: Json;
+          continuous_scoring: boolean;
+          created_at: string;
+          id: string;
+          is_active: boolean;
+          missing_station_penalty: number;
+          missing_station_policy: string;
+          name: string;
+          ranking_method: string;
+          station_weights: Json;
+          team_min_members: number;
+          team_top_members: number;
+          tie_breakers: string[];
+          updated_at: string;
+          youth_policy: string;
+        };
+        Insert: {
+          above_average_min_pct?: number;
+          average_min_pct?: number;
+          continuous_limits?: Json;
+          continuous_scoring?: boolean;
+          created_at?: string;
+          id?: string;
+          is_active?: boolean;
+          missing_station_penalty?: number;
+          missing_station_policy?: string;
+          name: string;
+          ranking_method?: string;
+          station_weights?: Json;
+          team_min_members?: number;
+          team_top_members?: number;
+          tie_breakers?: string[];
+          updated_at?: string;
+          youth_policy?: string;
+        };
+        Update: {
+          above_average_min_pct?: number;
+          average_min_pct?: number;
+          continuous_limits?: Json;
+          continuous_scoring?: boolean;
+          created_at?: string;
+          id?: string;
+          is_active?: boolean;
+          missing_station_penalty?: number;
+          missing_station_policy?: string;
+          name?: string;
+          ranking_method?: string;
+          station_weights?: Json;
+          team_min_members?: number;
+          team_top_members?: number;
+          tie_breakers?: string[];
+          updated_at?: string;
+          youth_policy?: string;
+        };
+        Relationships: [];
+      };
+      scoring_rule_sets: {
+        Row: {
+          created_at: string;
+          effective_from: string;
+          health_bands: Json;
+          id: string;
+          name: string;
+          notes: string | null;
+          published_by: string | null;
+          thresholds: Json;
+          version: number;
+          youth_policy: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          effective_from: string;
+          health_bands?: Json;
+          id?: string;
+          name: string;
+          notes?: string | null;
+          published_by?: string | null;
+          thresholds?: Json;
+          version: number;
+          youth_policy?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          effective_from?: string;
+          health_bands?: Json;
+          id?: string;
+          name?: string;
+          notes?: string | null;
+          published_by?: string | null;
+          thresholds?: Json;
+          version?: number;
+          youth_policy?: string | null;
+        };
+        Relationships: [];
+      };
       scoring_thresholds: {
         Row: {
           created_at: string | null;
@@ -288,39 +876,48 @@ export type Database = {
       };
       stations: {
         Row: {
+          attempt_policy: string;
           color_class: string | null;
           created_at: string | null;
           description: string | null;
           icon_name: string | null;
           id: string;
           is_active: boolean | null;
+          max_attempts: number;
+          metrics: Json;
           name: string;
           sort_order: number | null;
-          station_type: string | null;
+          station_type: string;
           updated_at: string | null;
         };
         Insert: {
+          attempt_policy?: string;
           color_class?: string | null;
           created_at?: string | null;
           description?: string | null;
           icon_name?: string | null;
           id?: string;
           is_active?: boolean | null;
+          max_attempts?: number;
+          metrics?: Json;
           name: string;
           sort_order?: number | null;
-          station_type?: string | null;
+          station_type: string;
           updated_at?: string | null;
         };
         Update: {
+          attempt_policy?: string;
           color_class?: string | null;
           created_at?: string | null;
           description?: string | null;
           icon_name?: string | null;
           id?: string;
           is_active?: boolean | null;
+          max_attempts?: number;
+          metrics?: Json;
           name?: string;
           sort_order?: number | null;
-          station_type?: string | null;
+          station_type?: string;
           updated_at?: string | null;
         };
         Relationships: [];
@@ -334,36 +931,200 @@ export type Database = {
         Args: { required_roles: Database["public"]["Enums"]["user_role"][] };
         Returns: boolean;
       };
-      calculate_measurement_score: {
+      calculate_composite_score: {
         Args: {
-          p_station_type: string;
-          p_metric_name: string;
-          p_value: number;
-          p_gender: string;
-          p_age_group: string;
+          p_continuous_scores?: Json;
+          p_pending_stations?: string[];
+          p_scores: Json;
         };
-        Returns: number;
+        Returns: {
+          completed_stations: number;
+          continuous_score: number | null;
+          continuous_scores: Json | null;
+          grade: string | null;
+          max_possible_score: number;
+          pending_stations: string[];
+          percentage: number | null;
+          scores: Json;
+          total_score: number;
+        }[];
       };
-      calculate_station_score: {
-        Args: { p_station_result_id: string };
+      calculate_composite_scores: {
+        Args: { p_participants: Json };
+        Returns: {
+          completed_stations: number;
+          continuous_score: number | null;
+          continuous_scores: Json | null;
+          grade: string | null;
+          key: string;
+          max_possible_score: number;
+          pending_stations: string[];
+          percentage: number | null;
+          scores: Json;
+          total_score: number;
+        }[];
+      };
+      capture_leaderboard_snapshot: {
+        Args: { p_snapshot_id: string };
         Returns: number;
       };
       compute_scores_for_participant: {
         Args: { p_id: string };
         Returns: undefined;
       };
+      count_leaderboard: {
+        Args: {
+          p_completion?: string | null;
+          p_gender_filter?: string | null;
+          p_max_age?: number | null;
+          p_min_age?: number | null;
+          p_name_filter?: string | null;
+          p_org_filter?: string | null;
+          p_organisation?: string | null;
+        };
+        Returns: number;
+      };
+      count_leaderboard_snapshot_entries: {
+        Args: { p_snapshot_id: string };
+        Returns: number;
+      };
+      correct_station_result: {
+        Args: {
+          p_attempts: Json;
+          p_changed_by: string;
+          p_continuous_score: number | null;
+          p_measurements: Json;
+          p_reason: string;
+          p_result_id: string;
+          p_rule_set_id: string | null;
+          p_score: number | null;
+          p_score_explanation: Json | null;
+          p_unscorable_reason: string | null;
+          p_version: number;
+        };
+        Returns: Database["public"]["Tables"]["station_results"]["Row"][];
+      };
+      filter_leaderboard_entries: {
+        Args: {
+          p_completion?: string | null;
+          p_gender_filter?: string | null;
+          p_max_age?: number | null;
+          p_min_age?: number | null;
+          p_name_filter?: string | null;
+          p_org_filter?: string | null;
+          p_organisation?: string | null;
+        };
+        Returns: Database["public"]["Tables"]["leaderboard_entries"]["Row"][];
+      };
       generate_participant_code: {
         Args: Record<PropertyKey, never>;
         Returns: string;
       };
-      get_age_group: {
-        Args: { date_of_birth: string };
-        Returns: string;
+      get_leaderboard: {
+        Args: {
+          p_completion?: string | null;
+          p_cursor?: Json | null;
+          p_gender_filter?: string | null;
+          p_limit?: number;
+          p_max_age?: number | null;
+          p_min_age?: number | null;
+          p_name_filter?: string | null;
+          p_offset?: number;
+          p_order?: string;
+          p_org_filter?: string | null;
+          p_organisation?: string | null;
+          p_sort?: string;
+        };
+        Returns: {
+          completed_stations: number;
+          continuous_score: number | null;
+          continuous_scores: Json | null;
+          gender: string | null;
+          grade: string | null;
+          latest_completion: string | null;
+          max_possible_score: number;
+          name: string | null;
+          organisation: string | null;
+          participant_code: string;
+          participant_id: string;
+          pending_stations: string[];
+          percentage: number | null;
+          rank: number;
+          scores: Json;
+          sort_text: string;
+          sort_value: number;
+          tie_breaks: number[];
+          tied: boolean;
+          total_score: number;
+        }[];
+      };
+      get_leaderboard_organisations: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          organisation: string;
+          participants: number;
+        }[];
+      };
+      get_leaderboard_snapshot_entries: {
+        Args: { p_limit?: number; p_offset?: number; p_snapshot_id: string };
+        Returns: {
+          completed_stations: number;
+          continuous_score: number | null;
+          gender: string | null;
+          grade: string | null;
+          latest_completion: string | null;
+          max_possible_score: number;
+          name: string | null;
+          organisation: string | null;
+          participant_code: string;
+          participant_id: string;
+          percentage: number | null;
+          rank: number;
+          scores: Json;
+          tied: boolean;
+          total_score: number;
+        }[];
+      };
+      get_team_leaderboard: {
+        Args: { p_limit?: number; p_offset?: number };
+        Returns: {
+          best_score: number;
+          counted_members: number;
+          eligible: boolean;
+          members: number;
+          name: string;
+          organisation_id: string;
+          rank: number | null;
+          team_score: number;
+          tied: boolean;
+          total_count: number;
+        }[];
       };
       get_user_role: {
         Args: { user_id: string };
         Returns: Database["public"]["Enums"]["user_role"];
       };
+      leaderboard_display_name: {
+        Args: { p_name: string; p_visibility: string; p_alias: string | null };
+        Returns: string | null;
+      };
+      leaderboard_tie_breaks: {
+        Args: {
+          p_completed_stations: number;
+          p_continuous_score: number | null;
+          p_latest_completion: string | null;
+          p_tie_breakers: string[];
+        };
+        Returns: number[];
+      };
+      merge_organisations: {
+        Args: { p_source_id: string; p_target_id: string };
+        Returns: number;
+      };
+      normalise_organisation_name: {
+        Args: { p_name: string };
+        Returns: string | null;
+      };
       public_leaderboard: {
         Args: { limit_count?: number };
         Returns: {
@@ -381,10 +1142,52 @@ export type Database = {
           total_score: number;
         }[];
       };
-      recalculate_all_scores: {
-        Args: Record<PropertyKey, never>;
+      record_station_result: {
+        Args: {
+          p_attempts: Json;
+          p_continuous_score: number | null;
+          p_measurements: Json;
+          p_participant_id: string;
+          p_recorded_by: string;
+          p_rule_set_id: string | null;
+          p_score: number | null;
+          p_score_explanation: Json | null;
+          p_station_id: string;
+          p_station_type: string;
+          p_unscorable_reason: string | null;
+        };
+        Returns: Database["public"]["Tables"]["station_results"]["Row"][];
+      };
+      refresh_leaderboard_entries: {
+        Args: { p_participant_ids?: string[] | null };
+        Returns: number;
+      };
+      resolve_organisation: {
+        Args: { p_name: string };
+        Returns: string | null;
+      };
+      replace_scoring_thresholds: {
+        Args: { p_station_types: string[]; p_thresholds: Json };
+        Returns: number;
+      };
+      replace_station_attempts: {
+        Args: { p_attempts: Json; p_recorded_by: string; p_result_id: string };
         Returns: number;
       };
+      rescore_station_result: {
+        Args: {
+          p_attempts?: Json;
+          p_continuous_score: number | null;
+          p_measurements: Json;
+          p_result_id: string;
+          p_rule_set_id: string | null;
+          p_score: number | null;
+          p_score_explanation: Json | null;
+          p_unscorable_reason: string | null;
+          p_version: number;
+        };
+        Returns: Database["public"]["Tables"]["station_results"]["Row"][];
+      };
       set_user_role: {
         Args: {
           new_role: Database["public"]["Enums"]["user_role"];
@@ -392,6 +1195,14 @@ export type Database = {
         };
         Returns: boolean;
       };
+      take_due_leaderboard_snapshots: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      take_leaderboard_snapshot: {
+        Args: { p_label: string; p_created_by?: string | null };
+        Returns: string;
+      };
     };
     Enums: {
       user_role: "participant" | "operator" | "admin";
@@ -533,9 +1344,63 @@ export const Constants = {
 // Custom application types
 export type Grade = "Above Average" | "Average" | "Bad";
 
-export type StationType = "balance" | "breath" | "grip" | "health";
+// Station types are defined by rows in the stations table (e.g. "balance", "grip")
+export type StationType = string;
+
+export type MetricInputType = "number" | "time";
+
+// Which way a measurement improves; "range" metrics are best inside a band
+export type MetricDirection = "higher" | "lower" | "range";
+
+// "thresholds" scores against scoring_thresholds by age and gender,
+// "bands" scores against health_metric_bands
+export type MetricScoring = "thresholds" | "bands";
+
+export interface StationMetricDefinition {
+  key: string;
+  label: string;
+  unit?: string | null;
+  input: MetricInputType;
+  min: number;
+  max: number;
+  step?: number;
+  direction: MetricDirection;
+  scoring: MetricScoring;
+  group?: string | null;
+  description?: string | null;
+  // Optional metrics may be left blank; defaults to true
+  required?: boolean;
+  // Whether the metric counts towards the station score; defaults to true
+  include_in_score?: boolean;
+}
+
+export type AttemptPolicy = "single" | "best_of" | "average_of";
 
-export type AgeGroup = "18-25" | "26-35" | "36-45" | "46-55" | "56-65" | "65+";
+// How stations a participant hasn't completed count towards their total
+export type MissingStationPolicy = "exclude" | "zero" | "penalise";
+
+export type YouthPolicy = "block" | "youth_thresholds";
+
+// How participants with equal totals are ranked: 1, 2, 2, 4 or 1, 2, 2, 3
+export type RankingMethod = "competition" | "dense";
+
+// What separates equal totals, in the order the scoring profile lists them
+export type TieBreaker =
+  | "completed_stations"
+  | "continuous_score"
+  | "earliest_completion";
+
+export type AgeGroup =
+  | "under-18"
+  | "18-25"
+  | "26-35"
+  | "36-45"
+  | "46-55"
+  | "56-65"
+  | "65+";
+
+// Which participants a leaderboard segment keeps by station completion
+export type CompletionSegment = "all" | "partial" | "none";
 
 export type MetricName =
   | "balance_seconds"
@@ -549,7 +1414,22 @@ export type MetricName =
   | "fat_pct"
   | "spo2";
 
-export type Gender = "male" | "female";
+export type Gender =
+  | "male"
+  | "female"
+  | "non_binary"
+  | "other"
+  | "prefer_not_to_say";
+
+// Scoring thresholds and health bands are set for these genders
+export type ThresholdGender = "male" | "female";
+
+// Which thresholds a participant is scored against; "average" uses the
+// midpoint of the male and female thresholds
+export type ScoringReference = ThresholdGender | "average";
+
+// How a participant appears on the leaderboard; "initials" shows e.g. "J. S."
+export type LeaderboardVisibility = "full_name" | "initials" | "alias" | "hidden";
 
 export interface BalanceMeasurement {
   balance_seconds: number;
@@ -569,6 +1449,146 @@ export interface HealthMeasurement {
   pulse: number;
   spo2: number;
   bmi: number;
+  // Body-composition scale readings are optional
+  muscle_pct?: number;
+  fat_pct?: number;
+}
+
+// Why a station result couldn't be scored; such results are stored with a
+// null score and show as pending until they are fixed and re-scored
+export type UnscorableReason =
+  | "no_metric_definitions"
+  | "no_scored_metrics"
+  | "missing_measurement"
+  | "missing_band"
+  | "missing_demographics"
+  | "missing_thresholds"
+  | "no_scorable_measurements"
+  | "scoring_error"
+  | "under_age";
+
+// How one metric contributed to a station score
+export interface MetricScoreExplanation {
+  key: string;
+  label: string;
+  unit?: string | null;
+  value: number | null;
+  scoring: MetricScoring;
+  direction: MetricDirection;
+  // Null when the metric was skipped
+  score: number | null;
+  continuous_score: number | null;
+  // The scoring_thresholds row the value was compared against; for the
+  // "average" scoring reference, the midpoint of the male and female rows
+  // (gender "average", id "<male id>+<female id>")
+  threshold?: {
+    id: string;
+    gender: string;
+    min_age: number;
+    max_age: number | null;
+    min_average_value: number;
+    max_average_value: number;
+  };
+  // The health_metric_bands row the value was compared against, averaged
+  // the same way as thresholds
+  band?: {
+    id: string;
+    gender: string | null;
+    min_age: number | null;
+    max_age: number | null;
+    optimal_min: number;
+    optimal_max: number;
+    acceptable_min: number;
+    acceptable_max: number;
+  };
+  // Why an optional metric was left out of the score
+  skipped_reason?: string;
+}
+
+// Stored with each station result (score_explanation) to show why it scored what it did
+export interface ScoreExplanation {
+  station_type: string;
+  // Null when the result couldn't be scored
+  score: number | null;
+  continuous_score: number | null;
+  demographics: {
+    age: number;
+    gender: string;
+    scoring_reference?: ScoringReference | null;
+  } | null;
+  metrics: MetricScoreExplanation[];
+  // Set when the result couldn't be scored
+  unscorable: { reason: UnscorableReason; message: string } | null;
+  // How attempts were combined, e.g. "Best of 3 attempts (attempt 2)"
+  attempts?: string;
+  // Published rule set the result was scored with; null for the working thresholds and bands
+  rule_set?: RuleSetReference | null;
+  calculated_at: string;
+}
+
+export interface RuleSetReference {
+  id: string;
+  name: string;
+  version: number;
+}
+
+// Rule set version as listed on the admin page
+export interface ScoringRuleSetSummary extends RuleSetReference {
+  notes: string | null;
+  effective_from: string;
+  published_by: string | null;
+  created_at: string;
+  threshold_count: number;
+  health_band_count: number;
+  results_count: number;
+  // The version new results are scored with
+  is_effective: boolean;
+  youth_policy: YouthPolicy | null;
+}
+
+// A published rule set with its thresholds and health bands snapshot parsed
+export interface ScoringRuleSetRules extends RuleSetReference {
+  effective_from: string;
+  thresholds: ScoringThreshold[];
+  health_bands: HealthMetricBand[];
+  // Null means the active scoring profile's youth policy applies
+  youth_policy?: YouthPolicy | null;
+}
+
+export interface ThresholdDiff {
+  key: string;
+  station_type: string;
+  gender: string;
+  min_age: number;
+  max_age: number | null;
+  status: "added" | "removed" | "changed" | "unchanged";
+  before: { min_average_value: number; max_average_value: number } | null;
+  after: { min_average_value: number; max_average_value: number } | null;
+}
+
+export interface HealthBandDiff {
+  key: string;
+  metric_name: string;
+  gender: string | null;
+  min_age: number | null;
+  max_age: number | null;
+  status: "added" | "removed" | "changed" | "unchanged";
+  before: Pick<
+    HealthMetricBand,
+    "optimal_min" | "optimal_max" | "acceptable_min" | "acceptable_max"
+  > | null;
+  after: Pick<
+    HealthMetricBand,
+    "optimal_min" | "optimal_max" | "acceptable_min" | "acceptable_max"
+  > | null;
+}
+
+// Either side is null when it is the working (unpublished) thresholds and bands
+export interface RuleSetComparison {
+  from: RuleSetReference | null;
+  to: RuleSetReference | null;
+  thresholds: ThresholdDiff[];
+  health_bands: HealthBandDiff[];
 }
 
 export interface LeaderboardEntry {
@@ -587,10 +1607,122 @@ export interface LeaderboardEntry {
   rank: number;
 }
 
+// An organisation's place on the team leaderboard
+export interface TeamStanding {
+  organisation_id: string;
+  name: string;
+  // Participants with at least one scored station
+  members: number;
+  // Members whose totals make up the team score
+  counted_members: number;
+  team_score: number;
+  best_score: number;
+  // Teams below the minimum number of members aren't ranked
+  eligible: boolean;
+  rank: number | null;
+  tied: boolean;
+}
+
+// Organisation as listed on the admin page
+export interface OrganisationSummary {
+  id: string;
+  name: string;
+  aliases: { id: string; alias: string }[];
+  members: number;
+}
+
+// A row on a kiosk board, for a participant or a team
+export interface KioskStanding {
+  rank: number | null;
+  tied: boolean;
+  name: string;
+  // Organisation for participants, member count for teams
+  detail: string | null;
+  score: number;
+}
+
+// Everything a kiosk screen shows, from /api/kiosk/[token]
+export interface KioskView {
+  display: Pick<
+    KioskDisplay,
+    | "name"
+    | "event_name"
+    | "logo_url"
+    | "primary_color"
+    | "accent_color"
+    | "rotation_seconds"
+  >;
+  boards: {
+    key: string;
+    title: string;
+    rows: KioskStanding[];
+  }[];
+  podium: KioskStanding[];
+  recent_finishers: {
+    name: string;
+    organisation: string | null;
+    total_score: number;
+    finished_at: string;
+  }[];
+  generated_at: string;
+}
+
+// A taken snapshot with one page of its frozen standings
+export interface LeaderboardSnapshotView {
+  snapshot: Pick<
+    LeaderboardSnapshot,
+    "id" | "label" | "taken_at" | "participant_count"
+  >;
+  stations: { station_type: string; name: string }[];
+  results: {
+    participant_id: string;
+    participant_code: string;
+    name: string;
+    organisation: string | null;
+    scores: Record<string, number | null>;
+    total_score: number;
+    percentage: number | null;
+    grade: Grade | null;
+    completed_stations: number;
+    rank: number;
+    tied: boolean;
+  }[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+export type StationAuditAction =
+  | "create"
+  | "correct"
+  | "delete"
+  | "rescore"
+  | "recalculate";
+
 export type StationResultInsert = TablesInsert<"station_results">;
+export type StationAudit = Tables<"station_audits">;
+export type StationAuditInsert = TablesInsert<"station_audits">;
+export type StationResultVersion = Tables<"station_result_versions">;
+export type StationAttempt = Tables<"station_attempts">;
 export type ScoringThreshold = Tables<"scoring_thresholds">;
+export type ScoringProfile = Tables<"scoring_profiles">;
+export type ScoringProfileUpdate = TablesUpdate<"scoring_profiles">;
+export type HealthMetricBand = Tables<"health_metric_bands">;
+export type HealthMetricBandInsert = TablesInsert<"health_metric_bands">;
+export type HealthMetricBandUpdate = TablesUpdate<"health_metric_bands">;
 export type ScoringThresholdInsert = TablesInsert<"scoring_thresholds">;
+export type ScoringRuleSet = Tables<"scoring_rule_sets">;
 export type ScoringThresholdUpdate = TablesUpdate<"scoring_thresholds">;
+export type Organisation = Tables<"organisations">;
+export type OrganisationAlias = Tables<"organisation_aliases">;
+export type KioskDisplay = Tables<"kiosk_displays">;
+export type KioskDisplayInsert = TablesInsert<"kiosk_displays">;
+export type KioskDisplayUpdate = TablesUpdate<"kiosk_displays">;
+export type LeaderboardSnapshot = Tables<"leaderboard_snapshots">;
+export type LeaderboardSnapshotEntry = Tables<"leaderboard_snapshot_entries">;
 
 // Additional type exports for existing code compatibility
 export type UserRole = Database["public"]["Enums"]["user_role"];
@@ -607,6 +1739,9 @@ export interface SignupFormData {
   password: string;
   dateOfBirth: string;
   gender: string;
+  scoringReference?: string | null;
+  leaderboardVisibility?: string;
+  leaderboardAlias?: string | null;
   organisation: string;
   organization: string;
   jobTitle: string;
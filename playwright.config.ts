@@ -0,0 +1,23 @@
+import { defineConfig, devices } from "@playwright/test";
+import dotenv from "dotenv";
+
+// Test credentials and URLs, e.g. TEST_BASE_URL and the TEST_*_EMAIL/PASSWORD pairs
+dotenv.config({ path: ".env.test", quiet: true });
+
+export default defineConfig({
+  testDir: "./tests",
+  fullyParallel: true,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 2 : 0,
+  reporter: process.env.CI ? "list" : "html",
+  use: {
+    baseURL: process.env.TEST_BASE_URL || "http://localhost:3000",
+    trace: "on-first-retry",
+  },
+  projects: [
+    {
+      name: "chromium",
+      use: { ...devices["Desktop Chrome"] },
+    },
+  ],
+});
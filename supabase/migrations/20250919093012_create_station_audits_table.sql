@@ -0,0 +1,68 @@
+-- Create append-only audit trail for station result changes
+-- Every create, delete, re-score and threshold-driven recalculation writes one row here
+
+CREATE TABLE public.station_audits (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- What happened
+    action TEXT NOT NULL,
+    station_result_id UUID, -- No FK: the audit row must outlive a deleted result
+
+    -- Who it happened to (denormalised so filtering survives deletes)
+    participant_id UUID,
+    participant_code TEXT,
+    station_type TEXT NOT NULL,
+
+    -- Who did it
+    actor_id UUID,
+    actor_email TEXT,
+
+    -- Before/after state
+    before_measurements JSONB,
+    after_measurements JSONB,
+    before_score INTEGER,
+    after_score INTEGER,
+
+    -- Free-text reason and request metadata (ip, user agent, method, path)
+    reason TEXT,
+    metadata JSONB DEFAULT '{}'::jsonb NOT NULL,
+
+    CONSTRAINT station_audits_action_check
+        CHECK (action IN ('create', 'delete', 'rescore', 'recalculate'))
+);
+
+COMMENT ON TABLE public.station_audits IS 'Append-only audit trail of changes to station_results';
+
+-- Indexes for the admin viewer ("who changed this participant's grip score and when")
+CREATE INDEX idx_station_audits_created_at ON public.station_audits (created_at DESC);
+CREATE INDEX idx_station_audits_participant ON public.station_audits (participant_id, station_type);
+CREATE INDEX idx_station_audits_participant_code ON public.station_audits (participant_code);
+CREATE INDEX idx_station_audits_station_result_id ON public.station_audits (station_result_id);
+CREATE INDEX idx_station_audits_actor_id ON public.station_audits (actor_id);
+
+-- Prevent any modification of existing audit rows
+CREATE OR REPLACE FUNCTION public.prevent_station_audit_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION 'station_audits is append-only';
+END;
+$$;
+
+CREATE TRIGGER station_audits_append_only
+    BEFORE UPDATE OR DELETE ON public.station_audits
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_station_audit_changes();
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.station_audits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read station audits" ON public.station_audits
+    FOR SELECT USING (
+        public.authorize_role(ARRAY['admin'::public.user_role])
+    );
+
+CREATE POLICY "Service role can insert station audits" ON public.station_audits
+    FOR INSERT WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,43 @@
+-- Allow station results to be corrected in place while keeping every prior version
+
+-- Current version number of each station result (1 = as originally recorded)
+ALTER TABLE public.station_results
+ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1 NOT NULL;
+
+-- Full version history of a station result, including the current version
+CREATE TABLE public.station_result_versions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    station_result_id UUID NOT NULL REFERENCES public.station_results(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    measurements JSONB NOT NULL,
+    score INTEGER,
+    changed_by UUID NOT NULL,
+    reason TEXT, -- NULL for the originally recorded version, required for corrections
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    CONSTRAINT station_result_versions_unique_version
+        UNIQUE (station_result_id, version),
+    CONSTRAINT station_result_versions_reason_check
+        CHECK (version = 1 OR (reason IS NOT NULL AND length(trim(reason)) > 0))
+);
+
+COMMENT ON TABLE public.station_result_versions IS 'Version history of corrected station results';
+
+CREATE INDEX idx_station_result_versions_result_id
+    ON public.station_result_versions (station_result_id, version DESC);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.station_result_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Operators can read station result versions" ON public.station_result_versions
+    FOR SELECT USING (
+        public.authorize_role(ARRAY['operator'::public.user_role, 'admin'::public.user_role])
+    );
+
+CREATE POLICY "Service role can manage station result versions" ON public.station_result_versions
+    USING (auth.role() = 'service_role');
+
+-- Corrections are a new audit action
+ALTER TABLE public.station_audits DROP CONSTRAINT IF EXISTS station_audits_action_check;
+ALTER TABLE public.station_audits ADD CONSTRAINT station_audits_action_check
+    CHECK (action IN ('create', 'correct', 'delete', 'rescore', 'recalculate'));
@@ -0,0 +1,65 @@
+-- Allow stations to take several attempts and aggregate them into one stored score
+
+-- Attempt policy per station: single, best_of (N) or average_of (N)
+ALTER TABLE public.stations
+ADD COLUMN IF NOT EXISTS attempt_policy TEXT DEFAULT 'single' NOT NULL,
+ADD COLUMN IF NOT EXISTS max_attempts INTEGER DEFAULT 1 NOT NULL;
+
+ALTER TABLE public.stations ADD CONSTRAINT stations_attempt_policy_check
+    CHECK (attempt_policy IN ('single', 'best_of', 'average_of'));
+
+ALTER TABLE public.stations ADD CONSTRAINT stations_max_attempts_check
+    CHECK (max_attempts >= 1 AND (attempt_policy <> 'single' OR max_attempts = 1));
+
+-- Grip, balance and breath naturally allow a few tries; health stays a single reading
+UPDATE public.stations
+SET attempt_policy = 'best_of', max_attempts = 3
+WHERE station_type IN ('balance', 'breath', 'grip');
+
+-- Individual attempts behind each aggregated station result
+CREATE TABLE public.station_attempts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    station_result_id UUID NOT NULL REFERENCES public.station_results(id) ON DELETE CASCADE,
+    attempt_number INTEGER NOT NULL,
+    measurements JSONB NOT NULL,
+    score INTEGER,
+    recorded_by UUID NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    CONSTRAINT station_attempts_unique_attempt
+        UNIQUE (station_result_id, attempt_number),
+    CONSTRAINT station_attempts_attempt_number_check
+        CHECK (attempt_number >= 1)
+);
+
+COMMENT ON TABLE public.station_attempts IS 'Individual attempts aggregated into station_results according to the station attempt policy';
+
+CREATE INDEX idx_station_attempts_result_id
+    ON public.station_attempts (station_result_id, attempt_number);
+
+-- Existing results count as a single first attempt
+INSERT INTO public.station_attempts (station_result_id, attempt_number, measurements, score, recorded_by, created_at)
+SELECT id, 1, measurements, score, recorded_by, created_at
+FROM public.station_results;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.station_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Operators can read station attempts" ON public.station_attempts
+    FOR SELECT USING (
+        public.authorize_role(ARRAY['operator'::public.user_role, 'admin'::public.user_role])
+    );
+
+CREATE POLICY "Users can read their own station attempts" ON public.station_attempts
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1
+            FROM public.station_results sr
+            JOIN public.participants p ON p.id = sr.participant_id
+            WHERE sr.id = station_attempts.station_result_id
+            AND p.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Service role can manage station attempts" ON public.station_attempts
+    USING (auth.role() = 'service_role');
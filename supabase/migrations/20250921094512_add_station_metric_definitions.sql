@@ -0,0 +1,67 @@
+-- Make stations self-describing: each station declares the metrics it records
+-- so forms, validation, scoring and leaderboard columns can be generated from data
+
+-- Metric definitions, e.g.
+-- [{"key": "grip_seconds", "label": "Grip Strength Time", "unit": "s", "input": "time",
+--   "min": 0, "max": 600, "direction": "higher", "scoring": "thresholds"}]
+ALTER TABLE public.stations
+ADD COLUMN IF NOT EXISTS metrics JSONB DEFAULT '[]'::jsonb NOT NULL;
+
+COMMENT ON COLUMN public.stations.metrics IS 'Metric definitions (key, label, unit, input, min, max, step, direction, scoring, group, description) recorded at this station';
+
+ALTER TABLE public.stations ADD CONSTRAINT stations_metrics_is_array
+    CHECK (jsonb_typeof(metrics) = 'array');
+
+UPDATE public.stations
+SET metrics = '[
+    {"key": "balance_seconds", "label": "Balance Time", "unit": "s", "input": "time",
+     "min": 0, "max": 60, "direction": "higher", "scoring": "thresholds",
+     "description": "Time participant maintained balance (maximum 1 minute)"}
+]'::jsonb
+WHERE station_type = 'balance';
+
+UPDATE public.stations
+SET metrics = '[
+    {"key": "balloon_diameter_cm", "label": "Balloon Diameter", "unit": "cm", "input": "number",
+     "min": 0, "max": 100, "direction": "higher", "scoring": "thresholds",
+     "description": "Diameter of the balloon in centimeters (0-100cm)"}
+]'::jsonb
+WHERE station_type = 'breath';
+
+UPDATE public.stations
+SET metrics = '[
+    {"key": "grip_seconds", "label": "Grip Strength Time", "unit": "s", "input": "time",
+     "min": 0, "max": 600, "direction": "higher", "scoring": "thresholds",
+     "description": "Time participant maintained grip strength (maximum 10 minutes)"}
+]'::jsonb
+WHERE station_type = 'grip';
+
+UPDATE public.stations
+SET metrics = '[
+    {"key": "bp_systolic", "label": "Systolic BP", "unit": "mmHg", "input": "number",
+     "min": 50, "max": 250, "direction": "range", "scoring": "bands", "group": "Blood Pressure",
+     "description": "Above Average: 100-129, Average: 130-139, Bad: ≥140"},
+    {"key": "bp_diastolic", "label": "Diastolic BP", "unit": "mmHg", "input": "number",
+     "min": 30, "max": 150, "direction": "range", "scoring": "bands", "group": "Blood Pressure",
+     "description": "Above Average: 60-79, Average: 80-89, Bad: ≥90"},
+    {"key": "pulse", "label": "Heart Rate", "unit": "bpm", "input": "number",
+     "min": 30, "max": 200, "direction": "range", "scoring": "bands", "group": "Vital Signs",
+     "description": "Above Average: 50-70, Average: 71-85, Bad: >85"},
+    {"key": "spo2", "label": "SpO₂", "unit": "%", "input": "number",
+     "min": 70, "max": 100, "direction": "higher", "scoring": "bands", "group": "Vital Signs",
+     "description": "Above Average: 97-100%, Average: 94-96%, Bad: ≤93%"},
+    {"key": "bmi", "label": "BMI", "input": "number",
+     "min": 10, "max": 60, "step": 0.1, "direction": "range", "scoring": "bands", "group": "Body Mass Index",
+     "description": "Above Average: 18.5-24.9, Average: 25-29.9, Bad: ≥30 or <18.5"}
+]'::jsonb
+WHERE station_type = 'health';
+
+-- station_type is the stable identifier results and thresholds refer to
+ALTER TABLE public.stations ALTER COLUMN station_type SET NOT NULL;
+
+ALTER TABLE public.stations ADD CONSTRAINT stations_station_type_key
+    UNIQUE (station_type);
+
+-- New stations must not need a migration to accept results; the API checks
+-- station_type against the stations table instead of a hard-coded list
+ALTER TABLE public.station_results DROP CONSTRAINT IF EXISTS station_results_station_type_check;
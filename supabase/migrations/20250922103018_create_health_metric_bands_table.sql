@@ -0,0 +1,66 @@
+-- Configurable health-metric bands replacing the ranges hard-coded in the scoring calculator
+-- score 3 = inside the optimal range, score 2 = inside the acceptable range, score 1 = everything else
+
+CREATE TABLE public.health_metric_bands (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    metric_name TEXT NOT NULL,
+
+    -- Optional demographic filters; NULL applies to everyone
+    gender TEXT,
+    min_age INTEGER,
+    max_age INTEGER,
+
+    -- Two-sided bands; the acceptable range contains the optimal range
+    optimal_min NUMERIC NOT NULL,
+    optimal_max NUMERIC NOT NULL,
+    acceptable_min NUMERIC NOT NULL,
+    acceptable_max NUMERIC NOT NULL,
+
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT health_metric_bands_gender_check
+        CHECK (gender IS NULL OR gender IN ('male', 'female')),
+    CONSTRAINT health_metric_bands_age_check
+        CHECK (max_age IS NULL OR min_age IS NULL OR min_age <= max_age),
+    CONSTRAINT health_metric_bands_optimal_check
+        CHECK (optimal_min <= optimal_max),
+    CONSTRAINT health_metric_bands_acceptable_check
+        CHECK (acceptable_min <= optimal_min AND acceptable_max >= optimal_max)
+);
+
+COMMENT ON TABLE public.health_metric_bands IS 'Optimal and acceptable ranges used to score health station metrics, optionally by gender and age';
+
+CREATE INDEX idx_health_metric_bands_lookup
+    ON public.health_metric_bands (metric_name, gender, min_age);
+
+-- Seed with the ranges the calculator used until now
+INSERT INTO public.health_metric_bands (metric_name, optimal_min, optimal_max, acceptable_min, acceptable_max, description) VALUES
+('bp_systolic', 100, 129, 100, 139, 'Above Average: 100-129 mmHg, Average: 130-139 mmHg, Bad: ≥140 mmHg'),
+('bp_diastolic', 60, 79, 60, 89, 'Above Average: 60-79 mmHg, Average: 80-89 mmHg, Bad: ≥90 mmHg'),
+('pulse', 50, 70, 50, 85, 'Above Average: 50-70 bpm, Average: 71-85 bpm, Bad: >85 bpm'),
+('spo2', 97, 100, 94, 100, 'Above Average: 97-100%, Average: 94-96%, Bad: ≤93%'),
+('bmi', 18.5, 24.9, 18.5, 29.9, 'Above Average: 18.5-24.9, Average: 25-29.9, Bad: ≥30 or <18.5');
+
+-- The health station never used scoring_thresholds; drop the placeholder rows
+DELETE FROM public.scoring_thresholds WHERE station_type = 'health';
+
+-- Band ranges now live in the table, so stop repeating them in the entry form
+UPDATE public.stations
+SET metrics = (
+    SELECT jsonb_agg(metric - 'description' ORDER BY position)
+    FROM jsonb_array_elements(metrics) WITH ORDINALITY AS m(metric, position)
+)
+WHERE station_type = 'health';
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.health_metric_bands ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read health metric bands" ON public.health_metric_bands
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Only admins can modify health metric bands" ON public.health_metric_bands
+    FOR ALL USING (
+        public.authorize_role(ARRAY['admin'::public.user_role])
+    );
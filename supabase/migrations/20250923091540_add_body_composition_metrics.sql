@@ -0,0 +1,34 @@
+-- Body-composition scale readings (muscle % and fat %) on the health station
+-- Both are optional inputs; "include_in_score" controls whether they count towards the health score
+
+UPDATE public.stations
+SET metrics = metrics || '[
+    {"key": "muscle_pct", "label": "Skeletal Muscle", "unit": "%", "input": "number",
+     "min": 5, "max": 70, "step": 0.1, "direction": "higher", "scoring": "bands", "group": "Body Composition",
+     "required": false, "include_in_score": true},
+    {"key": "fat_pct", "label": "Body Fat", "unit": "%", "input": "number",
+     "min": 2, "max": 70, "step": 0.1, "direction": "range", "scoring": "bands", "group": "Body Composition",
+     "required": false, "include_in_score": true}
+]'::jsonb
+WHERE station_type = 'health'
+  AND NOT metrics @> '[{"key": "muscle_pct"}]'::jsonb;
+
+-- Skeletal muscle: more is better, so the bands are open to the top of the input range
+INSERT INTO public.health_metric_bands (metric_name, gender, min_age, max_age, optimal_min, optimal_max, acceptable_min, acceptable_max, description) VALUES
+('muscle_pct', 'male', 18, 39, 39.4, 70, 33.3, 70, 'Above Average: ≥39.4%, Average: 33.3-39.3%, Bad: <33.3%'),
+('muscle_pct', 'male', 40, 59, 39.2, 70, 33.1, 70, 'Above Average: ≥39.2%, Average: 33.1-39.1%, Bad: <33.1%'),
+('muscle_pct', 'male', 60, NULL, 39.0, 70, 32.9, 70, 'Above Average: ≥39.0%, Average: 32.9-38.9%, Bad: <32.9%'),
+('muscle_pct', 'female', 18, 39, 30.4, 70, 24.3, 70, 'Above Average: ≥30.4%, Average: 24.3-30.3%, Bad: <24.3%'),
+('muscle_pct', 'female', 40, 59, 30.2, 70, 24.1, 70, 'Above Average: ≥30.2%, Average: 24.1-30.1%, Bad: <24.1%'),
+('muscle_pct', 'female', 60, NULL, 30.0, 70, 23.9, 70, 'Above Average: ≥30.0%, Average: 23.9-29.9%, Bad: <23.9%');
+
+-- Body fat: a healthy range, with overfat scoring average and obese or underfat scoring bad
+INSERT INTO public.health_metric_bands (metric_name, gender, min_age, max_age, optimal_min, optimal_max, acceptable_min, acceptable_max, description) VALUES
+('fat_pct', 'male', 18, 39, 8, 19.9, 8, 24.9, 'Above Average: 8-19.9%, Average: 20-24.9%, Bad: ≥25% or <8%'),
+('fat_pct', 'male', 40, 59, 11, 21.9, 11, 27.9, 'Above Average: 11-21.9%, Average: 22-27.9%, Bad: ≥28% or <11%'),
+('fat_pct', 'male', 60, NULL, 13, 24.9, 13, 29.9, 'Above Average: 13-24.9%, Average: 25-29.9%, Bad: ≥30% or <13%'),
+('fat_pct', 'female', 18, 39, 21, 32.9, 21, 38.9, 'Above Average: 21-32.9%, Average: 33-38.9%, Bad: ≥39% or <21%'),
+('fat_pct', 'female', 40, 59, 23, 33.9, 23, 39.9, 'Above Average: 23-33.9%, Average: 34-39.9%, Bad: ≥40% or <23%'),
+('fat_pct', 'female', 60, NULL, 24, 35.9, 24, 41.9, 'Above Average: 24-35.9%, Average: 36-41.9%, Bad: ≥42% or <24%');
+
+COMMENT ON COLUMN public.stations.metrics IS 'Metric definitions (key, label, unit, input, min, max, step, direction, scoring, group, description, required, include_in_score) recorded at this station';
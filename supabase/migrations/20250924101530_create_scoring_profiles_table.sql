@@ -0,0 +1,60 @@
+-- Scoring profile: how station scores combine into the leaderboard total and grade
+-- Only one profile is active at a time; it is applied server-side wherever totals and grades are returned
+
+CREATE TABLE public.scoring_profiles (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    is_active BOOLEAN DEFAULT true NOT NULL,
+
+    -- Weight per station type, e.g. {"health": 2}; stations not listed weigh 1
+    station_weights JSONB DEFAULT '{}'::jsonb NOT NULL,
+
+    -- How stations a participant hasn't completed affect the total:
+    -- exclude = left out of the total and the maximum, zero = count as 0,
+    -- penalise = count as 0 and deduct missing_station_penalty points (weighted)
+    missing_station_policy TEXT DEFAULT 'exclude' NOT NULL,
+    missing_station_penalty NUMERIC DEFAULT 0 NOT NULL,
+
+    -- Grade cut-offs as a percentage of the maximum possible total
+    above_average_min_pct NUMERIC DEFAULT 83 NOT NULL,
+    average_min_pct NUMERIC DEFAULT 50 NOT NULL,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    CONSTRAINT scoring_profiles_station_weights_check
+        CHECK (jsonb_typeof(station_weights) = 'object'),
+    CONSTRAINT scoring_profiles_missing_station_policy_check
+        CHECK (missing_station_policy IN ('exclude', 'zero', 'penalise')),
+    CONSTRAINT scoring_profiles_missing_station_penalty_check
+        CHECK (missing_station_penalty >= 0),
+    CONSTRAINT scoring_profiles_grade_cutoffs_check
+        CHECK (average_min_pct >= 0 AND average_min_pct <= above_average_min_pct
+               AND above_average_min_pct <= 100)
+);
+
+COMMENT ON TABLE public.scoring_profiles IS 'Station weights, missing-station policy and grade cut-offs used for leaderboard totals and grades';
+
+-- At most one active profile
+CREATE UNIQUE INDEX idx_scoring_profiles_single_active
+    ON public.scoring_profiles (is_active)
+    WHERE is_active;
+
+CREATE TRIGGER scoring_profiles_updated_at
+    BEFORE UPDATE ON public.scoring_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Default profile reproduces the previous behaviour: plain sum of completed stations, 83% / 50% cut-offs
+INSERT INTO public.scoring_profiles (name) VALUES ('Default');
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.scoring_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read scoring profiles" ON public.scoring_profiles
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Only admins can modify scoring profiles" ON public.scoring_profiles
+    FOR ALL USING (
+        public.authorize_role(ARRAY['admin'::public.user_role])
+    );
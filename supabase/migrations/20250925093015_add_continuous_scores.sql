@@ -0,0 +1,23 @@
+-- Continuous 0-100 station scores alongside the discrete 1-3 score
+-- The discrete score is still what operators and the leaderboard display;
+-- the continuous score breaks leaderboard ties when the scoring profile enables it
+
+ALTER TABLE public.station_results
+ADD COLUMN IF NOT EXISTS continuous_score NUMERIC;
+
+ALTER TABLE public.station_results ADD CONSTRAINT station_results_continuous_score_check
+    CHECK (continuous_score IS NULL OR (continuous_score >= 0 AND continuous_score <= 100));
+
+COMMENT ON COLUMN public.station_results.continuous_score IS 'Score from 0 to 100 interpolated between the scoring thresholds; NULL for results recorded before continuous scoring';
+
+ALTER TABLE public.station_attempts
+ADD COLUMN IF NOT EXISTS continuous_score NUMERIC;
+
+-- continuous_limits: measurement values that score 0 (floor) and 100 (cap) per station type,
+-- e.g. {"balance": {"floor": 0, "cap": 60}}; stations not listed use their metric's min and max
+ALTER TABLE public.scoring_profiles
+ADD COLUMN IF NOT EXISTS continuous_scoring BOOLEAN DEFAULT false NOT NULL,
+ADD COLUMN IF NOT EXISTS continuous_limits JSONB DEFAULT '{}'::jsonb NOT NULL;
+
+ALTER TABLE public.scoring_profiles ADD CONSTRAINT scoring_profiles_continuous_limits_check
+    CHECK (jsonb_typeof(continuous_limits) = 'object');
@@ -0,0 +1,14 @@
+-- Structured explanation of how each station score was calculated
+-- Records the demographics, the matching threshold or band rows, each metric's
+-- sub-score and any fallback taken, so "why did I get a 1?" can be answered later
+
+ALTER TABLE public.station_results
+ADD COLUMN IF NOT EXISTS score_explanation JSONB;
+
+ALTER TABLE public.station_results ADD CONSTRAINT station_results_score_explanation_check
+    CHECK (score_explanation IS NULL OR jsonb_typeof(score_explanation) = 'object');
+
+COMMENT ON COLUMN public.station_results.score_explanation IS 'How the score was calculated (demographics, thresholds or bands used, metric sub-scores, fallbacks); NULL for results recorded before explanations';
+
+ALTER TABLE public.station_attempts
+ADD COLUMN IF NOT EXISTS score_explanation JSONB;
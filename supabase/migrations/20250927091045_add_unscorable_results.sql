@@ -0,0 +1,30 @@
+-- Pending/unscorable station results
+-- Results that can't be scored (unknown demographics, no matching threshold or
+-- band, missing measurements, scoring errors) are stored with a NULL score and
+-- a machine-readable reason instead of a default score of 1, so they show as
+-- pending on the leaderboard and can be fixed and re-scored from the admin queue
+
+ALTER TABLE public.station_results
+ADD COLUMN IF NOT EXISTS unscorable_reason TEXT;
+
+ALTER TABLE public.station_results ADD CONSTRAINT station_results_unscorable_reason_check
+    CHECK (unscorable_reason IS NULL OR unscorable_reason IN (
+        'no_metric_definitions',
+        'no_scored_metrics',
+        'missing_measurement',
+        'missing_band',
+        'missing_demographics',
+        'missing_thresholds',
+        'no_scorable_measurements',
+        'scoring_error'
+    ));
+
+COMMENT ON COLUMN public.station_results.unscorable_reason IS 'Why the result could not be scored; the score is NULL until it is re-scored';
+
+-- The admin queue lists unscorable results
+CREATE INDEX IF NOT EXISTS idx_station_results_unscorable
+    ON public.station_results(created_at)
+    WHERE unscorable_reason IS NOT NULL;
+
+ALTER TABLE public.station_attempts
+ADD COLUMN IF NOT EXISTS unscorable_reason TEXT;
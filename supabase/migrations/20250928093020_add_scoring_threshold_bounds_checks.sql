@@ -0,0 +1,8 @@
+-- Reject inverted bounds on scoring thresholds
+-- Overlapping age ranges are rejected by /api/admin/scoring-thresholds
+
+ALTER TABLE public.scoring_thresholds
+    ADD CONSTRAINT scoring_thresholds_age_range_check
+        CHECK (min_age >= 0 AND (max_age IS NULL OR min_age <= max_age)),
+    ADD CONSTRAINT scoring_thresholds_average_range_check
+        CHECK (min_average_value <= max_average_value);
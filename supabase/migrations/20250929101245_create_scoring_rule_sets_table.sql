@@ -0,0 +1,53 @@
+-- Versioned scoring rule sets
+-- Publishing snapshots the working scoring_thresholds and health_metric_bands as
+-- an immutable, numbered version with an effective date. Results are scored with
+-- the version in effect when they were recorded, and record which one they used,
+-- so scores from earlier events can be reproduced after thresholds are edited.
+
+CREATE TABLE public.scoring_rule_sets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    notes TEXT,
+
+    -- Results recorded on or after this time are scored with this version
+    effective_from TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    -- Snapshots of the scoring_thresholds and health_metric_bands rows
+    thresholds JSONB DEFAULT '[]'::jsonb NOT NULL,
+    health_bands JSONB DEFAULT '[]'::jsonb NOT NULL,
+
+    published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    CONSTRAINT scoring_rule_sets_version_unique UNIQUE (version),
+    CONSTRAINT scoring_rule_sets_thresholds_check
+        CHECK (jsonb_typeof(thresholds) = 'array'),
+    CONSTRAINT scoring_rule_sets_health_bands_check
+        CHECK (jsonb_typeof(health_bands) = 'array')
+);
+
+COMMENT ON TABLE public.scoring_rule_sets IS 'Published, immutable versions of the scoring thresholds and health bands';
+
+CREATE INDEX idx_scoring_rule_sets_effective_from
+    ON public.scoring_rule_sets (effective_from DESC);
+
+-- Rule set each result was scored with; NULL means the working thresholds and bands
+ALTER TABLE public.station_results
+    ADD COLUMN rule_set_id UUID REFERENCES public.scoring_rule_sets(id) ON DELETE RESTRICT;
+
+COMMENT ON COLUMN public.station_results.rule_set_id IS 'Scoring rule set version used for the stored score; NULL when scored with the working thresholds and bands';
+
+CREATE INDEX idx_station_results_rule_set_id
+    ON public.station_results (rule_set_id);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.scoring_rule_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read scoring rule sets" ON public.scoring_rule_sets
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Only admins can publish scoring rule sets" ON public.scoring_rule_sets
+    FOR INSERT WITH CHECK (
+        public.authorize_role(ARRAY['admin'::public.user_role])
+    );
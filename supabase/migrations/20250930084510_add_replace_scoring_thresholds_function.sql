@@ -0,0 +1,44 @@
+-- Atomic replacement of scoring thresholds for threshold file imports
+-- Deletes the thresholds of the given station types and inserts the imported
+-- rows in one transaction, so a failed import leaves the table unchanged.
+-- Station types not listed are left alone.
+
+CREATE OR REPLACE FUNCTION public.replace_scoring_thresholds(
+    p_station_types TEXT[],
+    p_thresholds JSONB
+) RETURNS INTEGER
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    inserted_count INTEGER;
+BEGIN
+    IF jsonb_typeof(p_thresholds) <> 'array' THEN
+        RAISE EXCEPTION 'p_thresholds must be a JSON array';
+    END IF;
+
+    DELETE FROM public.scoring_thresholds
+    WHERE station_type = ANY(p_station_types);
+
+    INSERT INTO public.scoring_thresholds
+        (station_type, gender, min_age, max_age, min_average_value, max_average_value)
+    SELECT
+        row_data->>'station_type',
+        row_data->>'gender',
+        (row_data->>'min_age')::INTEGER,
+        (row_data->>'max_age')::INTEGER,
+        (row_data->>'min_average_value')::NUMERIC,
+        (row_data->>'max_average_value')::NUMERIC
+    FROM jsonb_array_elements(p_thresholds) AS row_data
+    WHERE row_data->>'station_type' = ANY(p_station_types);
+
+    GET DIAGNOSTICS inserted_count = ROW_COUNT;
+    RETURN inserted_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.replace_scoring_thresholds(TEXT[], JSONB) IS 'Replace the scoring thresholds of the given station types in one transaction (threshold file import)';
+
+-- Only the server (service role) applies imports
+REVOKE ALL ON FUNCTION public.replace_scoring_thresholds(TEXT[], JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_scoring_thresholds(TEXT[], JSONB) TO service_role;
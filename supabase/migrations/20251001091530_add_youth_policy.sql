@@ -0,0 +1,29 @@
+-- Under-18 participants
+-- Ages are now calculated on the date a result was recorded instead of being
+-- clamped to 18. The active scoring profile decides what happens to participants
+-- under 18: block = they can't sign up and their results stay pending as
+-- under_age, youth_thresholds = they are scored with thresholds and bands whose
+-- age ranges start below 18 (the youth table)
+
+ALTER TABLE public.scoring_profiles
+ADD COLUMN IF NOT EXISTS youth_policy TEXT DEFAULT 'block' NOT NULL;
+
+ALTER TABLE public.scoring_profiles ADD CONSTRAINT scoring_profiles_youth_policy_check
+    CHECK (youth_policy IN ('block', 'youth_thresholds'));
+
+COMMENT ON COLUMN public.scoring_profiles.youth_policy IS 'How participants under 18 are handled: block (no signup, results pending) or youth_thresholds (scored with under-18 thresholds)';
+
+ALTER TABLE public.station_results DROP CONSTRAINT IF EXISTS station_results_unscorable_reason_check;
+
+ALTER TABLE public.station_results ADD CONSTRAINT station_results_unscorable_reason_check
+    CHECK (unscorable_reason IS NULL OR unscorable_reason IN (
+        'no_metric_definitions',
+        'no_scored_metrics',
+        'missing_measurement',
+        'missing_band',
+        'missing_demographics',
+        'missing_thresholds',
+        'no_scorable_measurements',
+        'scoring_error',
+        'under_age'
+    ));
@@ -0,0 +1,24 @@
+-- Inclusive gender options and a separate scoring reference
+-- Gender is what the participant identifies as; the scoring reference decides
+-- which thresholds and health bands they are scored against: male, female, or
+-- average (the midpoint of the male and female values). When it is NULL, male
+-- and female participants are scored as their gender.
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_gender_check;
+
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_gender_check
+    CHECK (gender IN ('male', 'female', 'non_binary', 'other', 'prefer_not_to_say'));
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS scoring_reference TEXT;
+
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_scoring_reference_check
+    CHECK (scoring_reference IS NULL OR scoring_reference IN ('male', 'female', 'average'));
+
+COMMENT ON COLUMN public.profiles.scoring_reference IS 'Thresholds the participant is scored against: male, female or average; NULL uses the gender when it is male or female';
+
+-- Participants who couldn't be scored before (no thresholds for their gender)
+-- are scored against the average of the male and female thresholds
+UPDATE public.profiles
+SET scoring_reference = 'average'
+WHERE gender NOT IN ('male', 'female') AND scoring_reference IS NULL;
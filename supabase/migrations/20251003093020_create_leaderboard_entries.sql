@@ -0,0 +1,464 @@
+-- Leaderboard computed in the database
+-- One row per participant holds the weighted total, grade and per-station scores
+-- under the active scoring profile. Triggers keep the rows current as results,
+-- participants, profiles, stations and the scoring profile change, so reading the
+-- leaderboard is an indexed query instead of a scan of every station result.
+-- get_leaderboard() filters, sorts, ranks and pages the rows (offset or keyset).
+
+CREATE EXTENSION IF NOT EXISTS "pg_trgm" WITH SCHEMA "extensions";
+
+CREATE TABLE public.leaderboard_entries (
+    participant_id UUID PRIMARY KEY REFERENCES public.participants(id) ON DELETE CASCADE,
+    participant_code TEXT NOT NULL,
+    user_id UUID NOT NULL,
+
+    -- Copied from the participant's profile for filtering and sorting
+    name TEXT,
+    organisation TEXT,
+    gender TEXT,
+
+    -- Latest score per active station type, e.g. {"balance": 2, "grip_strength": null}
+    scores JSONB DEFAULT '{}'::jsonb NOT NULL,
+    -- Same shape for continuous scores; NULL unless the profile enables them
+    continuous_scores JSONB,
+
+    -- Composite under the active scoring profile (see calculateCompositeScore)
+    total_score NUMERIC DEFAULT 0 NOT NULL,
+    max_possible_score NUMERIC DEFAULT 0 NOT NULL,
+    percentage NUMERIC,
+    grade TEXT,
+    continuous_score NUMERIC,
+    completed_stations INTEGER DEFAULT 0 NOT NULL,
+    -- Recorded but unscorable station types, in station order
+    pending_stations TEXT[] DEFAULT '{}'::text[] NOT NULL,
+
+    latest_completion TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE public.leaderboard_entries IS 'Per-participant leaderboard totals under the active scoring profile, maintained by triggers';
+
+-- Ranking order: total, then continuous score, then participant code
+CREATE INDEX idx_leaderboard_entries_ranking
+    ON public.leaderboard_entries (total_score DESC, (COALESCE(continuous_score, 0)) DESC, participant_code DESC);
+CREATE INDEX idx_leaderboard_entries_name
+    ON public.leaderboard_entries (lower(COALESCE(name, '')));
+CREATE INDEX idx_leaderboard_entries_organisation
+    ON public.leaderboard_entries (lower(COALESCE(organisation, '')));
+CREATE INDEX idx_leaderboard_entries_gender
+    ON public.leaderboard_entries (gender);
+CREATE INDEX idx_leaderboard_entries_user_id
+    ON public.leaderboard_entries (user_id);
+
+-- Substring search on name and organisation
+CREATE INDEX idx_leaderboard_entries_name_trgm
+    ON public.leaderboard_entries USING gin (name extensions.gin_trgm_ops);
+CREATE INDEX idx_leaderboard_entries_organisation_trgm
+    ON public.leaderboard_entries USING gin (organisation extensions.gin_trgm_ops);
+
+-- Latest result per participant and station
+CREATE INDEX IF NOT EXISTS idx_station_results_participant_station
+    ON public.station_results (participant_id, station_type, created_at DESC);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.leaderboard_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read leaderboard entries" ON public.leaderboard_entries
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Service role can manage leaderboard entries" ON public.leaderboard_entries
+    USING (auth.role() = 'service_role');
+
+-- Recompute the entries of the given participants, or of everyone when NULL.
+-- Mirrors calculateCompositeScore() in lib/scoring/profile.ts: pending stations are
+-- left out, missing stations follow the profile's policy, penalties never take the
+-- total below zero, and participants without a scored station aren't graded.
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_entries(
+    p_participant_ids UUID[] DEFAULT NULL
+) RETURNS INTEGER
+    LANGUAGE plpgsql
+    SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    refreshed_count INTEGER;
+BEGIN
+    WITH settings AS (
+        -- Defaults match DEFAULT_SCORING_PROFILE when no profile is active
+        SELECT
+            COALESCE(sp.station_weights, '{}'::jsonb) AS station_weights,
+            COALESCE(sp.missing_station_policy, 'exclude') AS missing_station_policy,
+            COALESCE(sp.missing_station_penalty, 0) AS missing_station_penalty,
+            COALESCE(sp.above_average_min_pct, 83) AS above_average_min_pct,
+            COALESCE(sp.average_min_pct, 50) AS average_min_pct,
+            COALESCE(sp.continuous_scoring, false) AS continuous_scoring
+        FROM (SELECT 1) AS one
+        LEFT JOIN public.scoring_profiles sp ON sp.is_active
+    ),
+    active_stations AS (
+        SELECT
+            s.station_type,
+            s.sort_order,
+            COALESCE((settings.station_weights->>s.station_type)::NUMERIC, 1) AS weight
+        FROM public.stations s, settings
+        WHERE s.is_active
+    ),
+    targets AS (
+        SELECT p.id, p.participant_code, p.user_id, p.created_at
+        FROM public.participants p
+        WHERE p_participant_ids IS NULL OR p.id = ANY(p_participant_ids)
+    ),
+    latest_results AS (
+        SELECT DISTINCT ON (r.participant_id, r.station_type)
+            r.participant_id, r.station_type, r.score, r.continuous_score, r.unscorable_reason
+        FROM public.station_results r
+        WHERE r.participant_id IN (SELECT id FROM targets)
+        ORDER BY r.participant_id, r.station_type, r.created_at DESC
+    ),
+    station_rows AS (
+        SELECT
+            t.id AS participant_id,
+            st.station_type,
+            st.sort_order,
+            st.weight,
+            lr.score,
+            lr.continuous_score,
+            lr.score IS NULL AND lr.unscorable_reason IS NOT NULL AS pending,
+            -- Stations that aren't scored or pending count towards the maximum unless excluded
+            lr.score IS NULL AND lr.unscorable_reason IS NULL
+                AND settings.missing_station_policy <> 'exclude' AS counted_missing,
+            settings.missing_station_policy,
+            settings.missing_station_penalty
+        FROM targets t
+        CROSS JOIN active_stations st
+        CROSS JOIN settings
+        LEFT JOIN latest_results lr
+            ON lr.participant_id = t.id AND lr.station_type = st.station_type
+    ),
+    totals AS (
+        SELECT
+            participant_id,
+            COUNT(*) FILTER (WHERE score IS NOT NULL)::INTEGER AS completed_stations,
+            SUM(CASE
+                WHEN score IS NOT NULL THEN score * weight
+                WHEN counted_missing AND missing_station_policy = 'penalise'
+                    THEN -missing_station_penalty * weight
+                ELSE 0
+            END) AS raw_total,
+            SUM(CASE WHEN score IS NOT NULL OR counted_missing THEN 3 * weight ELSE 0 END)
+                AS max_possible_score,
+            -- Results recorded before continuous scoring count as 0
+            SUM(CASE WHEN score IS NOT NULL THEN COALESCE(continuous_score, 0) * weight ELSE 0 END)
+                AS continuous_total,
+            SUM(CASE WHEN score IS NOT NULL OR counted_missing THEN weight ELSE 0 END)
+                AS continuous_weight,
+            jsonb_object_agg(station_type, score) AS scores,
+            jsonb_object_agg(station_type, continuous_score) AS continuous_scores,
+            COALESCE(
+                array_agg(station_type ORDER BY sort_order) FILTER (WHERE pending),
+                '{}'::text[]
+            ) AS pending_stations
+        FROM station_rows
+        GROUP BY participant_id
+    ),
+    composites AS (
+        SELECT
+            t.id AS participant_id,
+            t.participant_code,
+            t.user_id,
+            COALESCE(tt.scores, '{}'::jsonb) AS scores,
+            COALESCE(tt.continuous_scores, '{}'::jsonb) AS continuous_scores,
+            GREATEST(0, ROUND(COALESCE(tt.raw_total, 0), 2)) AS total_score,
+            ROUND(COALESCE(tt.max_possible_score, 0), 2) AS max_possible_score,
+            COALESCE(tt.completed_stations, 0) AS completed_stations,
+            tt.continuous_total,
+            tt.continuous_weight,
+            COALESCE(tt.pending_stations, '{}'::text[]) AS pending_stations,
+            COALESCE(
+                (SELECT MAX(r.created_at) FROM public.station_results r WHERE r.participant_id = t.id),
+                t.created_at
+            ) AS latest_completion
+        FROM targets t
+        LEFT JOIN totals tt ON tt.participant_id = t.id
+    ),
+    percentages AS (
+        SELECT
+            c.*,
+            CASE WHEN c.max_possible_score > 0
+                THEN ROUND(c.total_score / c.max_possible_score * 100, 1)
+            END AS percentage
+        FROM composites c
+    )
+    INSERT INTO public.leaderboard_entries (
+        participant_id, participant_code, user_id, name, organisation, gender,
+        scores, continuous_scores, total_score, max_possible_score, percentage, grade,
+        continuous_score, completed_stations, pending_stations, latest_completion, updated_at
+    )
+    SELECT
+        pc.participant_id,
+        pc.participant_code,
+        pc.user_id,
+        pr.name,
+        pr.organisation,
+        pr.gender,
+        pc.scores,
+        CASE WHEN settings.continuous_scoring THEN pc.continuous_scores END,
+        pc.total_score,
+        pc.max_possible_score,
+        pc.percentage,
+        CASE
+            WHEN pc.completed_stations = 0 OR pc.percentage IS NULL THEN NULL
+            WHEN pc.percentage >= settings.above_average_min_pct THEN 'Above Average'
+            WHEN pc.percentage >= settings.average_min_pct THEN 'Average'
+            ELSE 'Bad'
+        END,
+        CASE WHEN settings.continuous_scoring AND pc.completed_stations > 0 AND pc.continuous_weight > 0
+            THEN ROUND(pc.continuous_total / pc.continuous_weight, 1)
+        END,
+        pc.completed_stations,
+        pc.pending_stations,
+        pc.latest_completion,
+        NOW()
+    FROM percentages pc
+    CROSS JOIN settings
+    -- Participants without a profile aren't listed
+    JOIN public.profiles pr ON pr.id = pc.user_id
+    ON CONFLICT (participant_id) DO UPDATE SET
+        participant_code = EXCLUDED.participant_code,
+        user_id = EXCLUDED.user_id,
+        name = EXCLUDED.name,
+        organisation = EXCLUDED.organisation,
+        gender = EXCLUDED.gender,
+        scores = EXCLUDED.scores,
+        continuous_scores = EXCLUDED.continuous_scores,
+        total_score = EXCLUDED.total_score,
+        max_possible_score = EXCLUDED.max_possible_score,
+        percentage = EXCLUDED.percentage,
+        grade = EXCLUDED.grade,
+        continuous_score = EXCLUDED.continuous_score,
+        completed_stations = EXCLUDED.completed_stations,
+        pending_stations = EXCLUDED.pending_stations,
+        latest_completion = EXCLUDED.latest_completion,
+        updated_at = EXCLUDED.updated_at;
+
+    GET DIAGNOSTICS refreshed_count = ROW_COUNT;
+    RETURN refreshed_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.refresh_leaderboard_entries(UUID[]) IS 'Recompute leaderboard entries for the given participants (all when NULL) under the active scoring profile';
+
+REVOKE ALL ON FUNCTION public.refresh_leaderboard_entries(UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_leaderboard_entries(UUID[]) TO service_role;
+
+-- Station results: refresh the participant whose result changed
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_for_station_result()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM public.refresh_leaderboard_entries(ARRAY[OLD.participant_id]);
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        PERFORM public.refresh_leaderboard_entries(ARRAY[NEW.participant_id]);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER station_results_refresh_leaderboard
+    AFTER INSERT OR UPDATE OR DELETE ON public.station_results
+    FOR EACH ROW
+    EXECUTE FUNCTION public.refresh_leaderboard_for_station_result();
+
+-- Participants: list new participants straight away, with no results yet
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_for_participant()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    PERFORM public.refresh_leaderboard_entries(ARRAY[NEW.id]);
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER participants_refresh_leaderboard
+    AFTER INSERT OR UPDATE OF participant_code, user_id ON public.participants
+    FOR EACH ROW
+    EXECUTE FUNCTION public.refresh_leaderboard_for_participant();
+
+-- Profiles: pick up name, organisation and gender changes
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_for_profile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    PERFORM public.refresh_leaderboard_entries(
+        ARRAY(SELECT p.id FROM public.participants p WHERE p.user_id = NEW.id)
+    );
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER profiles_refresh_leaderboard
+    AFTER INSERT OR UPDATE OF name, organisation, gender ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.refresh_leaderboard_for_profile();
+
+-- Stations and the scoring profile change every total: refresh everyone
+CREATE OR REPLACE FUNCTION public.refresh_all_leaderboard_entries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    PERFORM public.refresh_leaderboard_entries(NULL);
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER stations_refresh_leaderboard
+    AFTER INSERT OR UPDATE OR DELETE ON public.stations
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION public.refresh_all_leaderboard_entries();
+
+CREATE TRIGGER scoring_profiles_refresh_leaderboard
+    AFTER INSERT OR UPDATE OR DELETE ON public.scoring_profiles
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION public.refresh_all_leaderboard_entries();
+
+-- Filter, sort, rank and page the leaderboard.
+-- Ranks follow total score, then continuous score, then participant code, and are
+-- computed over the filtered rows. Sorting by rank is sorting by total score in the
+-- opposite direction. Pass p_cursor (the sort keys of the last row of the previous
+-- page, as returned in sort_value, sort_text, total_score, continuous_score and
+-- participant_code) for keyset pagination; p_offset is used when it is NULL.
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+    p_sort TEXT DEFAULT 'total_score',
+    p_order TEXT DEFAULT 'desc',
+    p_name_filter TEXT DEFAULT NULL,
+    p_org_filter TEXT DEFAULT NULL,
+    p_gender_filter TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10,
+    p_offset INTEGER DEFAULT 0,
+    p_cursor JSONB DEFAULT NULL
+) RETURNS TABLE (
+    participant_id UUID,
+    participant_code TEXT,
+    name TEXT,
+    organisation TEXT,
+    gender TEXT,
+    scores JSONB,
+    continuous_scores JSONB,
+    total_score NUMERIC,
+    max_possible_score NUMERIC,
+    percentage NUMERIC,
+    grade TEXT,
+    continuous_score NUMERIC,
+    completed_stations INTEGER,
+    pending_stations TEXT[],
+    latest_completion TIMESTAMP WITH TIME ZONE,
+    rank BIGINT,
+    sort_value NUMERIC,
+    sort_text TEXT,
+    total_count BIGINT
+)
+    LANGUAGE plpgsql
+    STABLE
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_sort TEXT := CASE WHEN p_sort = 'rank' THEN 'total_score' ELSE p_sort END;
+    v_ascending BOOLEAN := (p_order = 'asc') <> (p_sort = 'rank');
+BEGIN
+    RETURN QUERY
+    WITH filtered AS (
+        SELECT e.*
+        FROM public.leaderboard_entries e
+        WHERE (p_name_filter IS NULL OR e.name ILIKE '%' || p_name_filter || '%')
+          AND (p_org_filter IS NULL OR e.organisation ILIKE '%' || p_org_filter || '%')
+          AND (p_gender_filter IS NULL OR e.gender = p_gender_filter)
+    ),
+    keyed AS (
+        SELECT
+            f.*,
+            ROW_NUMBER() OVER (
+                ORDER BY f.total_score DESC, COALESCE(f.continuous_score, 0) DESC, f.participant_code DESC
+            ) AS entry_rank,
+            COUNT(*) OVER () AS entry_count,
+            CASE
+                WHEN v_sort = 'total_score' THEN f.total_score
+                WHEN v_sort IN ('name', 'organisation') THEN 0
+                -- Any other sort is a station type; unscored stations sort as 0
+                ELSE COALESCE((f.scores->>v_sort)::NUMERIC, 0)
+            END AS key_value,
+            CASE
+                WHEN v_sort = 'name' THEN lower(COALESCE(f.name, ''))
+                WHEN v_sort = 'organisation' THEN lower(COALESCE(f.organisation, ''))
+                ELSE ''
+            END AS key_text,
+            COALESCE(f.continuous_score, 0) AS key_continuous
+        FROM filtered f
+    )
+    SELECT
+        k.participant_id,
+        k.participant_code,
+        k.name,
+        k.organisation,
+        k.gender,
+        k.scores,
+        k.continuous_scores,
+        k.total_score,
+        k.max_possible_score,
+        k.percentage,
+        k.grade,
+        k.continuous_score,
+        k.completed_stations,
+        k.pending_stations,
+        k.latest_completion,
+        k.entry_rank,
+        k.key_value,
+        k.key_text,
+        k.entry_count
+    FROM keyed k
+    WHERE p_cursor IS NULL
+       OR (v_ascending AND
+           (k.key_value, k.key_text, k.total_score, k.key_continuous, k.participant_code) >
+           ((p_cursor->>'sort_value')::NUMERIC, p_cursor->>'sort_text',
+            (p_cursor->>'total_score')::NUMERIC, (p_cursor->>'continuous_score')::NUMERIC,
+            p_cursor->>'participant_code'))
+       OR (NOT v_ascending AND
+           (k.key_value, k.key_text, k.total_score, k.key_continuous, k.participant_code) <
+           ((p_cursor->>'sort_value')::NUMERIC, p_cursor->>'sort_text',
+            (p_cursor->>'total_score')::NUMERIC, (p_cursor->>'continuous_score')::NUMERIC,
+            p_cursor->>'participant_code'))
+    ORDER BY
+        CASE WHEN v_ascending THEN k.key_value END ASC,
+        CASE WHEN v_ascending THEN k.key_text END ASC,
+        CASE WHEN v_ascending THEN k.total_score END ASC,
+        CASE WHEN v_ascending THEN k.key_continuous END ASC,
+        CASE WHEN v_ascending THEN k.participant_code END ASC,
+        k.key_value DESC,
+        k.key_text DESC,
+        k.total_score DESC,
+        k.key_continuous DESC,
+        k.participant_code DESC
+    LIMIT p_limit
+    OFFSET CASE WHEN p_cursor IS NULL THEN p_offset ELSE 0 END;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_leaderboard(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, JSONB) IS 'Filtered, sorted and ranked page of leaderboard entries, with offset or keyset pagination';
+
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, JSONB) TO authenticated, service_role;
+
+-- Build the entries for existing participants
+SELECT public.refresh_leaderboard_entries(NULL);
@@ -0,0 +1,219 @@
+-- Leaderboard segments
+-- get_leaderboard() gains segment filters: age band, exact organisation and station
+-- completion (gender is already filterable). Ranks are computed within the segment.
+-- get_leaderboard_organisations() lists the organisations to pick a segment from.
+
+-- New parameters change the signature, so the function is recreated
+DROP FUNCTION IF EXISTS public.get_leaderboard(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, JSONB);
+
+-- Filter, sort, rank and page the leaderboard.
+-- Ranks follow total score, then the profile's tie-breakers, and are computed over
+-- the filtered rows, so each segment has its own ranks; participants equal on all
+-- of them share a rank and are listed by participant code. Sorting by rank is
+-- sorting by total score in the opposite direction. Pass p_cursor (the sort keys
+-- of the last row of the previous page, as returned in sort_value, sort_text,
+-- total_score, tie_breaks and participant_code) for keyset pagination; p_offset is
+-- used when it is NULL.
+-- Segments: p_min_age/p_max_age (age today, from the profile's date of birth),
+-- p_organisation (exact, case-insensitive) and p_completion (all, partial or none
+-- of the active stations scored, or a station type the participant has scored).
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+    p_sort TEXT DEFAULT 'total_score',
+    p_order TEXT DEFAULT 'desc',
+    p_name_filter TEXT DEFAULT NULL,
+    p_org_filter TEXT DEFAULT NULL,
+    p_gender_filter TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10,
+    p_offset INTEGER DEFAULT 0,
+    p_cursor JSONB DEFAULT NULL,
+    p_min_age INTEGER DEFAULT NULL,
+    p_max_age INTEGER DEFAULT NULL,
+    p_organisation TEXT DEFAULT NULL,
+    p_completion TEXT DEFAULT NULL
+) RETURNS TABLE (
+    participant_id UUID,
+    participant_code TEXT,
+    name TEXT,
+    organisation TEXT,
+    gender TEXT,
+    scores JSONB,
+    continuous_scores JSONB,
+    total_score NUMERIC,
+    max_possible_score NUMERIC,
+    percentage NUMERIC,
+    grade TEXT,
+    continuous_score NUMERIC,
+    completed_stations INTEGER,
+    pending_stations TEXT[],
+    latest_completion TIMESTAMP WITH TIME ZONE,
+    rank BIGINT,
+    tied BOOLEAN,
+    sort_value NUMERIC,
+    sort_text TEXT,
+    tie_breaks NUMERIC[],
+    total_count BIGINT
+)
+    LANGUAGE plpgsql
+    STABLE
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_sort TEXT := CASE WHEN p_sort = 'rank' THEN 'total_score' ELSE p_sort END;
+    v_ascending BOOLEAN := (p_order = 'asc') <> (p_sort = 'rank');
+    v_ranking_method TEXT := 'competition';
+    v_tie_breakers TEXT[] := ARRAY['continuous_score']::text[];
+    v_cursor_tie_breaks NUMERIC[];
+    v_station_count INTEGER;
+BEGIN
+    SELECT sp.ranking_method, sp.tie_breakers
+    INTO v_ranking_method, v_tie_breakers
+    FROM public.scoring_profiles sp
+    WHERE sp.is_active;
+
+    -- Defaults match DEFAULT_SCORING_PROFILE when no profile is active
+    v_ranking_method := COALESCE(v_ranking_method, 'competition');
+    v_tie_breakers := COALESCE(v_tie_breakers, ARRAY['continuous_score']::text[]);
+
+    SELECT COUNT(*) INTO v_station_count FROM public.stations s WHERE s.is_active;
+
+    IF p_cursor IS NOT NULL THEN
+        v_cursor_tie_breaks := ARRAY(
+            SELECT value::NUMERIC FROM jsonb_array_elements_text(p_cursor->'tie_breaks')
+        );
+    END IF;
+
+    RETURN QUERY
+    WITH filtered AS (
+        SELECT e.*
+        FROM public.leaderboard_entries e
+        WHERE (p_name_filter IS NULL OR e.name ILIKE '%' || p_name_filter || '%')
+          AND (p_org_filter IS NULL OR e.organisation ILIKE '%' || p_org_filter || '%')
+          AND (p_gender_filter IS NULL OR e.gender = p_gender_filter)
+          AND (p_organisation IS NULL
+               OR lower(COALESCE(e.organisation, '')) = lower(p_organisation))
+          AND (p_completion IS NULL
+               OR (p_completion = 'all' AND e.completed_stations >= v_station_count)
+               OR (p_completion = 'partial'
+                   AND e.completed_stations > 0 AND e.completed_stations < v_station_count)
+               OR (p_completion = 'none' AND e.completed_stations = 0)
+               OR (p_completion NOT IN ('all', 'partial', 'none')
+                   AND e.scores->>p_completion IS NOT NULL))
+          AND (p_min_age IS NULL AND p_max_age IS NULL OR EXISTS (
+               SELECT 1
+               FROM public.profiles pr
+               WHERE pr.id = e.user_id
+                 AND (p_min_age IS NULL
+                      OR date_part('year', age(CURRENT_DATE, pr.date_of_birth)) >= p_min_age)
+                 AND (p_max_age IS NULL
+                      OR date_part('year', age(CURRENT_DATE, pr.date_of_birth)) <= p_max_age)))
+    ),
+    broken AS (
+        SELECT
+            f.*,
+            -- Tie-breaker values in profile order, larger is better
+            ARRAY(
+                SELECT CASE tb.tie_breaker
+                    WHEN 'completed_stations' THEN f.completed_stations::NUMERIC
+                    WHEN 'continuous_score' THEN COALESCE(f.continuous_score, 0)
+                    -- Participants with no completion time go last
+                    ELSE COALESCE(-EXTRACT(EPOCH FROM f.latest_completion), -1e12)
+                END
+                FROM unnest(v_tie_breakers) WITH ORDINALITY AS tb(tie_breaker, position)
+                ORDER BY tb.position
+            ) AS entry_tie_breaks
+        FROM filtered f
+    ),
+    keyed AS (
+        SELECT
+            b.*,
+            CASE
+                WHEN v_ranking_method = 'dense' THEN DENSE_RANK() OVER standing
+                ELSE RANK() OVER standing
+            END AS entry_rank,
+            COUNT(*) OVER (PARTITION BY b.total_score, b.entry_tie_breaks) > 1 AS entry_tied,
+            COUNT(*) OVER () AS entry_count,
+            CASE
+                WHEN v_sort = 'total_score' THEN b.total_score
+                WHEN v_sort IN ('name', 'organisation') THEN 0
+                -- Any other sort is a station type; unscored stations sort as 0
+                ELSE COALESCE((b.scores->>v_sort)::NUMERIC, 0)
+            END AS key_value,
+            CASE
+                WHEN v_sort = 'name' THEN lower(COALESCE(b.name, ''))
+                WHEN v_sort = 'organisation' THEN lower(COALESCE(b.organisation, ''))
+                ELSE ''
+            END AS key_text
+        FROM broken b
+        WINDOW standing AS (ORDER BY b.total_score DESC, b.entry_tie_breaks DESC)
+    )
+    SELECT
+        k.participant_id,
+        k.participant_code,
+        k.name,
+        k.organisation,
+        k.gender,
+        k.scores,
+        k.continuous_scores,
+        k.total_score,
+        k.max_possible_score,
+        k.percentage,
+        k.grade,
+        k.continuous_score,
+        k.completed_stations,
+        k.pending_stations,
+        k.latest_completion,
+        k.entry_rank,
+        k.entry_tied,
+        k.key_value,
+        k.key_text,
+        k.entry_tie_breaks,
+        k.entry_count
+    FROM keyed k
+    WHERE p_cursor IS NULL
+       OR (v_ascending AND
+           (k.key_value, k.key_text, k.total_score, k.entry_tie_breaks, k.participant_code) >
+           ((p_cursor->>'sort_value')::NUMERIC, p_cursor->>'sort_text',
+            (p_cursor->>'total_score')::NUMERIC, v_cursor_tie_breaks,
+            p_cursor->>'participant_code'))
+       OR (NOT v_ascending AND
+           (k.key_value, k.key_text, k.total_score, k.entry_tie_breaks, k.participant_code) <
+           ((p_cursor->>'sort_value')::NUMERIC, p_cursor->>'sort_text',
+            (p_cursor->>'total_score')::NUMERIC, v_cursor_tie_breaks,
+            p_cursor->>'participant_code'))
+    ORDER BY
+        CASE WHEN v_ascending THEN k.key_value END ASC,
+        CASE WHEN v_ascending THEN k.key_text END ASC,
+        CASE WHEN v_ascending THEN k.total_score END ASC,
+        CASE WHEN v_ascending THEN k.entry_tie_breaks END ASC,
+        CASE WHEN v_ascending THEN k.participant_code END ASC,
+        k.key_value DESC,
+        k.key_text DESC,
+        k.total_score DESC,
+        k.entry_tie_breaks DESC,
+        k.participant_code DESC
+    LIMIT p_limit
+    OFFSET CASE WHEN p_cursor IS NULL THEN p_offset ELSE 0 END;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_leaderboard(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, JSONB, INTEGER, INTEGER, TEXT, TEXT) IS 'Filtered, segmented and tie-aware ranked page of leaderboard entries, with offset or keyset pagination';
+
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, JSONB, INTEGER, INTEGER, TEXT, TEXT) TO authenticated, service_role;
+
+-- Organisations on the leaderboard with their participant counts
+CREATE OR REPLACE FUNCTION public.get_leaderboard_organisations()
+RETURNS TABLE (organisation TEXT, participants BIGINT)
+    LANGUAGE sql
+    STABLE
+    SET search_path TO 'public'
+    AS $$
+    SELECT MIN(e.organisation), COUNT(*)
+    FROM public.leaderboard_entries e
+    WHERE COALESCE(trim(e.organisation), '') <> ''
+    GROUP BY lower(e.organisation)
+    ORDER BY lower(MIN(e.organisation));
+$$;
+
+COMMENT ON FUNCTION public.get_leaderboard_organisations() IS 'Distinct leaderboard organisations (case-insensitive) with participant counts';
+
+GRANT EXECUTE ON FUNCTION public.get_leaderboard_organisations() TO authenticated, service_role;
@@ -0,0 +1,304 @@
+-- Organisations and the team leaderboard
+-- profiles.organisation stays the free text entered at signup; each profile is
+-- linked to an organisation entity by its normalised name (case, punctuation,
+-- spacing and legal suffixes such as "Ltd" ignored) or by one of the
+-- organisation's aliases. Names that match nothing create a new organisation;
+-- admins merge duplicates, which turns the duplicate's name into an alias.
+-- Teams are ranked by the mean total of their top members (scoring profile).
+
+-- Normalise an organisation name for matching, NULL when nothing is left
+CREATE OR REPLACE FUNCTION public.normalise_organisation_name(p_name TEXT)
+RETURNS TEXT
+    LANGUAGE sql
+    IMMUTABLE
+    AS $$
+    SELECT NULLIF(
+        trim(regexp_replace(
+            trim(regexp_replace(lower(COALESCE(p_name, '')), '[^[:alnum:]&]+', ' ', 'g')),
+            '\s(ltd|limited|inc|llc|plc|gmbh|pty|co)$',
+            ''
+        )),
+        ''
+    );
+$$;
+
+CREATE TABLE public.organisations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    normalised_name TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    CONSTRAINT organisations_normalised_name_key UNIQUE (normalised_name),
+    CONSTRAINT organisations_name_check CHECK (length(trim(name)) > 0)
+);
+
+COMMENT ON TABLE public.organisations IS 'Organisations participants belong to, matched from profiles.organisation by normalised name or alias';
+
+CREATE TABLE public.organisation_aliases (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+    alias TEXT NOT NULL,
+    normalised_alias TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    CONSTRAINT organisation_aliases_normalised_alias_key UNIQUE (normalised_alias)
+);
+
+COMMENT ON TABLE public.organisation_aliases IS 'Other names an organisation is entered as, e.g. abbreviations and merged duplicates';
+
+CREATE INDEX idx_organisation_aliases_organisation_id
+    ON public.organisation_aliases (organisation_id);
+
+CREATE TRIGGER organisations_updated_at
+    BEFORE UPDATE ON public.organisations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_profiles_organisation_id ON public.profiles (organisation_id);
+
+-- How teams are scored, per scoring profile
+ALTER TABLE public.scoring_profiles
+ADD COLUMN IF NOT EXISTS team_top_members INTEGER DEFAULT 5 NOT NULL,
+ADD COLUMN IF NOT EXISTS team_min_members INTEGER DEFAULT 3 NOT NULL;
+
+ALTER TABLE public.scoring_profiles ADD CONSTRAINT scoring_profiles_team_members_check
+    CHECK (team_top_members >= 1 AND team_min_members >= 1);
+
+COMMENT ON COLUMN public.scoring_profiles.team_top_members IS 'Team score is the mean total of this many best members';
+COMMENT ON COLUMN public.scoring_profiles.team_min_members IS 'Members with a score a team needs before it is ranked';
+
+-- Find the organisation for a free-text name, creating it when nothing matches
+CREATE OR REPLACE FUNCTION public.resolve_organisation(p_name TEXT)
+RETURNS UUID
+    LANGUAGE plpgsql
+    SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_normalised TEXT := public.normalise_organisation_name(p_name);
+    v_organisation_id UUID;
+BEGIN
+    IF v_normalised IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT id INTO v_organisation_id
+    FROM public.organisations
+    WHERE normalised_name = v_normalised;
+
+    IF v_organisation_id IS NULL THEN
+        SELECT organisation_id INTO v_organisation_id
+        FROM public.organisation_aliases
+        WHERE normalised_alias = v_normalised;
+    END IF;
+
+    IF v_organisation_id IS NULL THEN
+        INSERT INTO public.organisations (name, normalised_name)
+        VALUES (trim(p_name), v_normalised)
+        ON CONFLICT (normalised_name) DO NOTHING
+        RETURNING id INTO v_organisation_id;
+
+        -- Created concurrently by another signup
+        IF v_organisation_id IS NULL THEN
+            SELECT id INTO v_organisation_id
+            FROM public.organisations
+            WHERE normalised_name = v_normalised;
+        END IF;
+    END IF;
+
+    RETURN v_organisation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_profile_organisation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    NEW.organisation_id := public.resolve_organisation(NEW.organisation);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_set_organisation
+    BEFORE INSERT OR UPDATE OF organisation ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_profile_organisation();
+
+-- Merge a duplicate organisation into another: its name and aliases become
+-- aliases of the target and its members move across
+CREATE OR REPLACE FUNCTION public.merge_organisations(
+    p_source_id UUID,
+    p_target_id UUID
+) RETURNS INTEGER
+    LANGUAGE plpgsql
+    SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    moved_count INTEGER;
+BEGIN
+    IF p_source_id = p_target_id THEN
+        RAISE EXCEPTION 'An organisation cannot be merged into itself';
+    END IF;
+
+    INSERT INTO public.organisation_aliases (organisation_id, alias, normalised_alias)
+    SELECT p_target_id, o.name, o.normalised_name
+    FROM public.organisations o
+    WHERE o.id = p_source_id
+    ON CONFLICT (normalised_alias) DO UPDATE SET organisation_id = EXCLUDED.organisation_id;
+
+    UPDATE public.organisation_aliases
+    SET organisation_id = p_target_id
+    WHERE organisation_id = p_source_id;
+
+    UPDATE public.profiles
+    SET organisation_id = p_target_id
+    WHERE organisation_id = p_source_id;
+
+    GET DIAGNOSTICS moved_count = ROW_COUNT;
+
+    DELETE FROM public.organisations WHERE id = p_source_id;
+
+    RETURN moved_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.merge_organisations(UUID, UUID) IS 'Merge a duplicate organisation into another; returns the number of profiles moved';
+
+REVOKE ALL ON FUNCTION public.resolve_organisation(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.merge_organisations(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_organisation(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.merge_organisations(UUID, UUID) TO service_role;
+
+-- Link existing profiles
+UPDATE public.profiles
+SET organisation_id = public.resolve_organisation(organisation);
+
+-- Team standings: mean total of each organisation's best members.
+-- Only participants with at least one scored station count as members. Teams
+-- with fewer members than the profile's minimum are listed after the ranked
+-- teams, without a rank. Ranking follows the profile's ranking method.
+CREATE OR REPLACE FUNCTION public.get_team_leaderboard(
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+    organisation_id UUID,
+    name TEXT,
+    members BIGINT,
+    counted_members BIGINT,
+    team_score NUMERIC,
+    best_score NUMERIC,
+    eligible BOOLEAN,
+    rank BIGINT,
+    tied BOOLEAN,
+    total_count BIGINT
+)
+    LANGUAGE plpgsql
+    STABLE
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_top_members INTEGER;
+    v_min_members INTEGER;
+    v_ranking_method TEXT;
+BEGIN
+    SELECT sp.team_top_members, sp.team_min_members, sp.ranking_method
+    INTO v_top_members, v_min_members, v_ranking_method
+    FROM public.scoring_profiles sp
+    WHERE sp.is_active;
+
+    -- Defaults match DEFAULT_SCORING_PROFILE when no profile is active
+    v_top_members := COALESCE(v_top_members, 5);
+    v_min_members := COALESCE(v_min_members, 3);
+    v_ranking_method := COALESCE(v_ranking_method, 'competition');
+
+    RETURN QUERY
+    WITH member_scores AS (
+        SELECT
+            pr.organisation_id AS member_organisation_id,
+            e.total_score AS member_total,
+            ROW_NUMBER() OVER (
+                PARTITION BY pr.organisation_id
+                ORDER BY e.total_score DESC, COALESCE(e.continuous_score, 0) DESC
+            ) AS member_position
+        FROM public.leaderboard_entries e
+        JOIN public.profiles pr ON pr.id = e.user_id
+        WHERE pr.organisation_id IS NOT NULL
+          AND e.completed_stations > 0
+    ),
+    teams AS (
+        SELECT
+            o.id AS team_id,
+            o.name AS team_name,
+            COUNT(*) AS team_members,
+            COUNT(*) FILTER (WHERE ms.member_position <= v_top_members) AS team_counted,
+            ROUND(AVG(ms.member_total) FILTER (WHERE ms.member_position <= v_top_members), 2)
+                AS team_mean,
+            MAX(ms.member_total) AS team_best,
+            COUNT(*) >= v_min_members AS team_eligible
+        FROM member_scores ms
+        JOIN public.organisations o ON o.id = ms.member_organisation_id
+        GROUP BY o.id, o.name
+    ),
+    ranked AS (
+        SELECT
+            t.*,
+            CASE
+                WHEN NOT t.team_eligible THEN NULL
+                WHEN v_ranking_method = 'dense' THEN DENSE_RANK() OVER standing
+                ELSE RANK() OVER standing
+            END AS team_rank,
+            t.team_eligible
+                AND COUNT(*) OVER (PARTITION BY t.team_eligible, t.team_mean) > 1 AS team_tied,
+            COUNT(*) OVER () AS team_count
+        FROM teams t
+        WINDOW standing AS (PARTITION BY t.team_eligible ORDER BY t.team_mean DESC)
+    )
+    SELECT
+        r.team_id,
+        r.team_name,
+        r.team_members,
+        r.team_counted,
+        r.team_mean,
+        r.team_best,
+        r.team_eligible,
+        r.team_rank,
+        r.team_tied,
+        r.team_count
+    FROM ranked r
+    ORDER BY r.team_eligible DESC, r.team_mean DESC, lower(r.team_name)
+    LIMIT p_limit
+    OFFSET p_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_team_leaderboard(INTEGER, INTEGER) IS 'Organisations ranked by the mean total of their best members';
+
+GRANT EXECUTE ON FUNCTION public.get_team_leaderboard(INTEGER, INTEGER) TO authenticated, service_role;
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.organisations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organisation_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read organisations" ON public.organisations
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Only admins can modify organisations" ON public.organisations
+    FOR ALL USING (
+        public.authorize_role(ARRAY['admin'::public.user_role])
+    );
+
+CREATE POLICY "Anyone can read organisation aliases" ON public.organisation_aliases
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Only admins can modify organisation aliases" ON public.organisation_aliases
+    FOR ALL USING (
+        public.authorize_role(ARRAY['admin'::public.user_role])
+    );
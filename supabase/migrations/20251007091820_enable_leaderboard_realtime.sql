@@ -0,0 +1,7 @@
+-- Live leaderboard updates
+-- Broadcast leaderboard_entries changes over Supabase realtime. Entries are
+-- refreshed by triggers whenever station_results change, so subscribers hear
+-- about new and corrected results as soon as they're saved. Realtime applies
+-- the table's RLS policies, which already let authenticated users read it.
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.leaderboard_entries;
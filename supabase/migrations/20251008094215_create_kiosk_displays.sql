@@ -0,0 +1,45 @@
+-- Kiosk displays for showing the leaderboard on big screens
+-- Each display has its own branding and rotation of boards. Screens open
+-- /kiosk/<token> with a signed display token instead of logging in; the token
+-- names the display and its token_version, so bumping the version revokes
+-- every token issued for that display.
+
+CREATE TABLE public.kiosk_displays (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    event_name TEXT NOT NULL,
+    logo_url TEXT,
+    primary_color TEXT DEFAULT '#2563eb' NOT NULL,
+    accent_color TEXT DEFAULT '#facc15' NOT NULL,
+    -- Boards shown in turn: overall, teams, gender:<gender> or age:<age band>
+    boards TEXT[] DEFAULT ARRAY['overall', 'teams']::TEXT[] NOT NULL,
+    rotation_seconds INTEGER DEFAULT 20 NOT NULL,
+    rows_per_board INTEGER DEFAULT 10 NOT NULL,
+    token_version INTEGER DEFAULT 1 NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    CONSTRAINT kiosk_displays_colors_check
+        CHECK (primary_color ~ '^#[0-9a-fA-F]{6}$' AND accent_color ~ '^#[0-9a-fA-F]{6}$'),
+    CONSTRAINT kiosk_displays_boards_check CHECK (cardinality(boards) > 0),
+    CONSTRAINT kiosk_displays_rotation_seconds_check CHECK (rotation_seconds BETWEEN 5 AND 300),
+    CONSTRAINT kiosk_displays_rows_per_board_check CHECK (rows_per_board BETWEEN 3 AND 25)
+);
+
+COMMENT ON TABLE public.kiosk_displays IS 'Read-only leaderboard screens opened with a signed display token';
+COMMENT ON COLUMN public.kiosk_displays.token_version IS 'Tokens signed for an older version are rejected';
+
+CREATE TRIGGER kiosk_displays_updated_at
+    BEFORE UPDATE ON public.kiosk_displays
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS (Row Level Security)
+-- Kiosk screens read through the API with the service role, never directly
+ALTER TABLE public.kiosk_displays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can manage kiosk displays" ON public.kiosk_displays
+    FOR ALL USING (
+        public.authorize_role(ARRAY['admin'::public.user_role])
+    );
@@ -0,0 +1,378 @@
+-- Leaderboard visibility
+-- Each participant chooses how they appear on the leaderboard: their full name,
+-- their initials (e.g. "J. S."), an alias, or not at all. The choice is applied
+-- when leaderboard entries are written, so entries only ever hold the display
+-- name and every reader (get_leaderboard, kiosks, realtime, public_leaderboard)
+-- gets the same answer. Aliases and hidden participants don't show an
+-- organisation either, as it could identify them.
+-- Hidden participants are left off individual standings but still count towards
+-- their organisation's team score, without being named.
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS leaderboard_visibility TEXT DEFAULT 'full_name' NOT NULL,
+ADD COLUMN IF NOT EXISTS leaderboard_alias TEXT;
+
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_leaderboard_visibility_check
+    CHECK (leaderboard_visibility IN ('full_name', 'initials', 'alias', 'hidden'));
+
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_leaderboard_alias_check
+    CHECK (
+        (leaderboard_alias IS NULL OR char_length(trim(leaderboard_alias)) BETWEEN 2 AND 30)
+        AND (leaderboard_visibility <> 'alias' OR leaderboard_alias IS NOT NULL)
+    );
+
+COMMENT ON COLUMN public.profiles.leaderboard_visibility IS 'How the participant appears on the leaderboard: full_name, initials, alias or hidden';
+COMMENT ON COLUMN public.profiles.leaderboard_alias IS 'Name shown on the leaderboard when leaderboard_visibility is alias';
+
+ALTER TABLE public.leaderboard_entries
+ADD COLUMN IF NOT EXISTS hidden BOOLEAN DEFAULT false NOT NULL;
+
+COMMENT ON COLUMN public.leaderboard_entries.hidden IS 'The participant chose not to appear on the leaderboard';
+
+-- Name shown for a participant under their visibility; NULL when hidden.
+-- Mirrors formatLeaderboardName() in lib/leaderboard/visibility.ts.
+CREATE OR REPLACE FUNCTION public.leaderboard_display_name(
+    p_name TEXT,
+    p_visibility TEXT,
+    p_alias TEXT
+) RETURNS TEXT
+    LANGUAGE plpgsql
+    IMMUTABLE
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_parts TEXT[] := regexp_split_to_array(trim(COALESCE(p_name, '')), '\s+');
+    v_initials TEXT;
+BEGIN
+    IF p_visibility = 'hidden' THEN
+        RETURN NULL;
+    END IF;
+
+    IF p_visibility = 'alias' AND COALESCE(trim(p_alias), '') <> '' THEN
+        RETURN trim(p_alias);
+    END IF;
+
+    IF p_visibility IN ('initials', 'alias') THEN
+        IF v_parts[1] = '' THEN
+            RETURN NULL;
+        END IF;
+
+        -- First name and surname initials
+        v_initials := upper(left(v_parts[1], 1)) || '.';
+        IF array_length(v_parts, 1) > 1 THEN
+            v_initials := v_initials || ' ' || upper(left(v_parts[array_length(v_parts, 1)], 1)) || '.';
+        END IF;
+        RETURN v_initials;
+    END IF;
+
+    RETURN p_name;
+END;
+$$;
+
+COMMENT ON FUNCTION public.leaderboard_display_name(TEXT, TEXT, TEXT) IS 'Leaderboard name for a participant under their visibility choice; NULL when hidden';
+
+-- Entries are written with the profile's name and organisation; replace them with
+-- what the participant agreed to show
+CREATE OR REPLACE FUNCTION public.apply_leaderboard_visibility()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    v_visibility TEXT;
+    v_alias TEXT;
+BEGIN
+    SELECT pr.leaderboard_visibility, pr.leaderboard_alias
+    INTO v_visibility, v_alias
+    FROM public.profiles pr
+    WHERE pr.id = NEW.user_id;
+
+    v_visibility := COALESCE(v_visibility, 'full_name');
+
+    NEW.name := public.leaderboard_display_name(NEW.name, v_visibility, v_alias);
+    NEW.hidden := v_visibility = 'hidden';
+    IF v_visibility IN ('alias', 'hidden') THEN
+        NEW.organisation := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER leaderboard_entries_apply_visibility
+    BEFORE INSERT OR UPDATE ON public.leaderboard_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION public.apply_leaderboard_visibility();
+
+-- Profiles: also pick up visibility changes
+DROP TRIGGER IF EXISTS profiles_refresh_leaderboard ON public.profiles;
+
+CREATE TRIGGER profiles_refresh_leaderboard
+    AFTER INSERT OR UPDATE OF name, organisation, gender, leaderboard_visibility, leaderboard_alias
+    ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.refresh_leaderboard_for_profile();
+
+-- Other participants can't read hidden entries; participants can read their own
+DROP POLICY IF EXISTS "Anyone can read leaderboard entries" ON public.leaderboard_entries;
+
+CREATE POLICY "Anyone can read visible leaderboard entries" ON public.leaderboard_entries
+    FOR SELECT USING (
+        auth.role() = 'authenticated'
+        AND (NOT hidden OR user_id = auth.uid())
+    );
+
+-- Filter, sort, rank and page the leaderboard.
+-- Ranks follow total score, then the profile's tie-breakers, and are computed over
+-- the filtered rows, so each segment has its own ranks; participants equal on all
+-- of them share a rank and are listed by participant code. Sorting by rank is
+-- sorting by total score in the opposite direction. Pass p_cursor (the sort keys
+-- of the last row of the previous page, as returned in sort_value, sort_text,
+-- total_score, tie_breaks and participant_code) for keyset pagination; p_offset is
+-- used when it is NULL.
+-- Segments: p_min_age/p_max_age (age today, from the profile's date of birth),
+-- p_organisation (exact, case-insensitive) and p_completion (all, partial or none
+-- of the active stations scored, or a station type the participant has scored).
+-- Hidden participants are never listed or ranked.
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+    p_sort TEXT DEFAULT 'total_score',
+    p_order TEXT DEFAULT 'desc',
+    p_name_filter TEXT DEFAULT NULL,
+    p_org_filter TEXT DEFAULT NULL,
+    p_gender_filter TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10,
+    p_offset INTEGER DEFAULT 0,
+    p_cursor JSONB DEFAULT NULL,
+    p_min_age INTEGER DEFAULT NULL,
+    p_max_age INTEGER DEFAULT NULL,
+    p_organisation TEXT DEFAULT NULL,
+    p_completion TEXT DEFAULT NULL
+) RETURNS TABLE (
+    participant_id UUID,
+    participant_code TEXT,
+    name TEXT,
+    organisation TEXT,
+    gender TEXT,
+    scores JSONB,
+    continuous_scores JSONB,
+    total_score NUMERIC,
+    max_possible_score NUMERIC,
+    percentage NUMERIC,
+    grade TEXT,
+    continuous_score NUMERIC,
+    completed_stations INTEGER,
+    pending_stations TEXT[],
+    latest_completion TIMESTAMP WITH TIME ZONE,
+    rank BIGINT,
+    tied BOOLEAN,
+    sort_value NUMERIC,
+    sort_text TEXT,
+    tie_breaks NUMERIC[],
+    total_count BIGINT
+)
+    LANGUAGE plpgsql
+    STABLE
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_sort TEXT := CASE WHEN p_sort = 'rank' THEN 'total_score' ELSE p_sort END;
+    v_ascending BOOLEAN := (p_order = 'asc') <> (p_sort = 'rank');
+    v_ranking_method TEXT := 'competition';
+    v_tie_breakers TEXT[] := ARRAY['continuous_score']::text[];
+    v_cursor_tie_breaks NUMERIC[];
+    v_station_count INTEGER;
+BEGIN
+    SELECT sp.ranking_method, sp.tie_breakers
+    INTO v_ranking_method, v_tie_breakers
+    FROM public.scoring_profiles sp
+    WHERE sp.is_active;
+
+    -- Defaults match DEFAULT_SCORING_PROFILE when no profile is active
+    v_ranking_method := COALESCE(v_ranking_method, 'competition');
+    v_tie_breakers := COALESCE(v_tie_breakers, ARRAY['continuous_score']::text[]);
+
+    SELECT COUNT(*) INTO v_station_count FROM public.stations s WHERE s.is_active;
+
+    IF p_cursor IS NOT NULL THEN
+        v_cursor_tie_breaks := ARRAY(
+            SELECT value::NUMERIC FROM jsonb_array_elements_text(p_cursor->'tie_breaks')
+        );
+    END IF;
+
+    RETURN QUERY
+    WITH filtered AS (
+        SELECT e.*
+        FROM public.leaderboard_entries e
+        WHERE NOT e.hidden
+          AND (p_name_filter IS NULL OR e.name ILIKE '%' || p_name_filter || '%')
+          AND (p_org_filter IS NULL OR e.organisation ILIKE '%' || p_org_filter || '%')
+          AND (p_gender_filter IS NULL OR e.gender = p_gender_filter)
+          AND (p_organisation IS NULL
+               OR lower(COALESCE(e.organisation, '')) = lower(p_organisation))
+          AND (p_completion IS NULL
+               OR (p_completion = 'all' AND e.completed_stations >= v_station_count)
+               OR (p_completion = 'partial'
+                   AND e.completed_stations > 0 AND e.completed_stations < v_station_count)
+               OR (p_completion = 'none' AND e.completed_stations = 0)
+               OR (p_completion NOT IN ('all', 'partial', 'none')
+                   AND e.scores->>p_completion IS NOT NULL))
+          AND (p_min_age IS NULL AND p_max_age IS NULL OR EXISTS (
+               SELECT 1
+               FROM public.profiles pr
+               WHERE pr.id = e.user_id
+                 AND (p_min_age IS NULL
+                      OR date_part('year', age(CURRENT_DATE, pr.date_of_birth)) >= p_min_age)
+                 AND (p_max_age IS NULL
+                      OR date_part('year', age(CURRENT_DATE, pr.date_of_birth)) <= p_max_age)))
+    ),
+    broken AS (
+        SELECT
+            f.*,
+            -- Tie-breaker values in profile order, larger is better
+            ARRAY(
+                SELECT CASE tb.tie_breaker
+                    WHEN 'completed_stations' THEN f.completed_stations::NUMERIC
+                    WHEN 'continuous_score' THEN COALESCE(f.continuous_score, 0)
+                    -- Participants with no completion time go last
+                    ELSE COALESCE(-EXTRACT(EPOCH FROM f.latest_completion), -1e12)
+                END
+                FROM unnest(v_tie_breakers) WITH ORDINALITY AS tb(tie_breaker, position)
+                ORDER BY tb.position
+            ) AS entry_tie_breaks
+        FROM filtered f
+    ),
+    keyed AS (
+        SELECT
+            b.*,
+            CASE
+                WHEN v_ranking_method = 'dense' THEN DENSE_RANK() OVER standing
+                ELSE RANK() OVER standing
+            END AS entry_rank,
+            COUNT(*) OVER (PARTITION BY b.total_score, b.entry_tie_breaks) > 1 AS entry_tied,
+            COUNT(*) OVER () AS entry_count,
+            CASE
+                WHEN v_sort = 'total_score' THEN b.total_score
+                WHEN v_sort IN ('name', 'organisation') THEN 0
+                -- Any other sort is a station type; unscored stations sort as 0
+                ELSE COALESCE((b.scores->>v_sort)::NUMERIC, 0)
+            END AS key_value,
+            CASE
+                WHEN v_sort = 'name' THEN lower(COALESCE(b.name, ''))
+                WHEN v_sort = 'organisation' THEN lower(COALESCE(b.organisation, ''))
+                ELSE ''
+            END AS key_text
+        FROM broken b
+        WINDOW standing AS (ORDER BY b.total_score DESC, b.entry_tie_breaks DESC)
+    )
+    SELECT
+        k.participant_id,
+        k.participant_code,
+        k.name,
+        k.organisation,
+        k.gender,
+        k.scores,
+        k.continuous_scores,
+        k.total_score,
+        k.max_possible_score,
+        k.percentage,
+        k.grade,
+        k.continuous_score,
+        k.completed_stations,
+        k.pending_stations,
+        k.latest_completion,
+        k.entry_rank,
+        k.entry_tied,
+        k.key_value,
+        k.key_text,
+        k.entry_tie_breaks,
+        k.entry_count
+    FROM keyed k
+    WHERE p_cursor IS NULL
+       OR (v_ascending AND
+           (k.key_value, k.key_text, k.total_score, k.entry_tie_breaks, k.participant_code) >
+           ((p_cursor->>'sort_value')::NUMERIC, p_cursor->>'sort_text',
+            (p_cursor->>'total_score')::NUMERIC, v_cursor_tie_breaks,
+            p_cursor->>'participant_code'))
+       OR (NOT v_ascending AND
+           (k.key_value, k.key_text, k.total_score, k.entry_tie_breaks, k.participant_code) <
+           ((p_cursor->>'sort_value')::NUMERIC, p_cursor->>'sort_text',
+            (p_cursor->>'total_score')::NUMERIC, v_cursor_tie_breaks,
+            p_cursor->>'participant_code'))
+    ORDER BY
+        CASE WHEN v_ascending THEN k.key_value END ASC,
+        CASE WHEN v_ascending THEN k.key_text END ASC,
+        CASE WHEN v_ascending THEN k.total_score END ASC,
+        CASE WHEN v_ascending THEN k.entry_tie_breaks END ASC,
+        CASE WHEN v_ascending THEN k.participant_code END ASC,
+        k.key_value DESC,
+        k.key_text DESC,
+        k.total_score DESC,
+        k.entry_tie_breaks DESC,
+        k.participant_code DESC
+    LIMIT p_limit
+    OFFSET CASE WHEN p_cursor IS NULL THEN p_offset ELSE 0 END;
+END;
+$$;
+
+-- Organisations on the leaderboard with their visible participant counts
+CREATE OR REPLACE FUNCTION public.get_leaderboard_organisations()
+RETURNS TABLE (organisation TEXT, participants BIGINT)
+    LANGUAGE sql
+    STABLE
+    SET search_path TO 'public'
+    AS $$
+    SELECT MIN(e.organisation), COUNT(*)
+    FROM public.leaderboard_entries e
+    WHERE NOT e.hidden
+      AND COALESCE(trim(e.organisation), '') <> ''
+    GROUP BY lower(e.organisation)
+    ORDER BY lower(MIN(e.organisation));
+$$;
+
+-- The public leaderboard reads the maintained entries, so it shows display names
+-- only and leaves hidden participants out. Columns are unchanged for existing callers.
+CREATE OR REPLACE FUNCTION public.public_leaderboard(limit_count integer DEFAULT 200)
+RETURNS TABLE(
+  rank integer,
+  participant_code text,
+  full_name text,
+  organization text,
+  gender text,
+  score_balance integer,
+  score_breath integer,
+  score_grip integer,
+  score_health integer,  -- Keep column for backward compatibility but will be null
+  total_score integer,
+  grade text,
+  created_at timestamp with time zone
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY e.total_score DESC, e.latest_completion ASC)::integer as rank,
+    e.participant_code,
+    e.name,
+    e.organisation,
+    e.gender,
+    (e.scores->>'balance')::integer,
+    (e.scores->>'breath')::integer,
+    (e.scores->>'grip')::integer,
+    null::integer as score_health,
+    ROUND(e.total_score)::integer,
+    e.grade,
+    e.latest_completion
+  FROM public.leaderboard_entries e
+  WHERE NOT e.hidden
+    AND e.completed_stations > 0
+  ORDER BY e.total_score DESC, e.latest_completion ASC
+  LIMIT limit_count;
+END;
+$$;
+
+-- Rewrite existing entries with display names
+SELECT public.refresh_leaderboard_entries(NULL);
@@ -0,0 +1,198 @@
+-- Leaderboard snapshots
+-- A snapshot freezes the fully ranked leaderboard at a moment, e.g. "Close of
+-- day 1" or the final standings for prize-giving. Entries are copied from
+-- get_leaderboard(), so they carry the same ranks, ties and display names
+-- (hidden participants are left out) and never change afterwards.
+-- Admins take a snapshot straight away or schedule one: scheduled snapshots have
+-- scheduled_for set and no taken_at until take_due_leaderboard_snapshots(), run
+-- every minute by pg_cron, captures them.
+
+CREATE EXTENSION IF NOT EXISTS "pg_cron";
+
+CREATE TABLE public.leaderboard_snapshots (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    label TEXT NOT NULL,
+    scheduled_for TIMESTAMP WITH TIME ZONE,
+    -- NULL until the snapshot is captured
+    taken_at TIMESTAMP WITH TIME ZONE,
+    participant_count INTEGER DEFAULT 0 NOT NULL,
+    -- Active stations when the snapshot was taken, in order: [{"station_type", "name"}]
+    stations JSONB DEFAULT '[]'::jsonb NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    CONSTRAINT leaderboard_snapshots_label_check CHECK (char_length(trim(label)) BETWEEN 1 AND 100)
+);
+
+COMMENT ON TABLE public.leaderboard_snapshots IS 'Ranked leaderboards frozen at a point in time, taken manually or on a schedule';
+COMMENT ON COLUMN public.leaderboard_snapshots.taken_at IS 'When the standings were captured; NULL while a scheduled snapshot is pending';
+
+CREATE INDEX idx_leaderboard_snapshots_taken_at
+    ON public.leaderboard_snapshots (taken_at DESC);
+CREATE INDEX idx_leaderboard_snapshots_pending
+    ON public.leaderboard_snapshots (scheduled_for)
+    WHERE taken_at IS NULL;
+
+CREATE TABLE public.leaderboard_snapshot_entries (
+    snapshot_id UUID NOT NULL REFERENCES public.leaderboard_snapshots(id) ON DELETE CASCADE,
+    -- Not a foreign key: snapshots keep their standings if a participant is removed
+    participant_id UUID NOT NULL,
+    participant_code TEXT NOT NULL,
+    name TEXT,
+    organisation TEXT,
+    gender TEXT,
+    scores JSONB DEFAULT '{}'::jsonb NOT NULL,
+    total_score NUMERIC DEFAULT 0 NOT NULL,
+    max_possible_score NUMERIC DEFAULT 0 NOT NULL,
+    percentage NUMERIC,
+    grade TEXT,
+    continuous_score NUMERIC,
+    completed_stations INTEGER DEFAULT 0 NOT NULL,
+    latest_completion TIMESTAMP WITH TIME ZONE,
+    rank INTEGER NOT NULL,
+    tied BOOLEAN DEFAULT false NOT NULL,
+
+    PRIMARY KEY (snapshot_id, participant_id)
+);
+
+COMMENT ON TABLE public.leaderboard_snapshot_entries IS 'Ranked leaderboard rows as they stood when their snapshot was taken';
+
+CREATE INDEX idx_leaderboard_snapshot_entries_rank
+    ON public.leaderboard_snapshot_entries (snapshot_id, rank, participant_code DESC);
+
+-- Copy the current standings into a snapshot and mark it taken
+CREATE OR REPLACE FUNCTION public.capture_leaderboard_snapshot(p_snapshot_id UUID)
+RETURNS INTEGER
+    LANGUAGE plpgsql
+    SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    captured_count INTEGER;
+BEGIN
+    INSERT INTO public.leaderboard_snapshot_entries (
+        snapshot_id, participant_id, participant_code, name, organisation, gender,
+        scores, total_score, max_possible_score, percentage, grade, continuous_score,
+        completed_stations, latest_completion, rank, tied
+    )
+    SELECT
+        p_snapshot_id,
+        l.participant_id,
+        l.participant_code,
+        l.name,
+        l.organisation,
+        l.gender,
+        l.scores,
+        l.total_score,
+        l.max_possible_score,
+        l.percentage,
+        l.grade,
+        l.continuous_score,
+        l.completed_stations,
+        l.latest_completion,
+        l.rank,
+        l.tied
+    FROM public.get_leaderboard(p_limit => 2147483647) l;
+
+    GET DIAGNOSTICS captured_count = ROW_COUNT;
+
+    UPDATE public.leaderboard_snapshots
+    SET taken_at = NOW(),
+        participant_count = captured_count,
+        stations = COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object('station_type', s.station_type, 'name', s.name)
+                ORDER BY s.sort_order
+            )
+            FROM public.stations s
+            WHERE s.is_active
+        ), '[]'::jsonb)
+    WHERE id = p_snapshot_id;
+
+    RETURN captured_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.capture_leaderboard_snapshot(UUID) IS 'Freeze the current ranked leaderboard into a snapshot; returns the number of entries';
+
+-- Take a snapshot now; returns its id
+CREATE OR REPLACE FUNCTION public.take_leaderboard_snapshot(
+    p_label TEXT,
+    p_created_by UUID DEFAULT NULL
+) RETURNS UUID
+    LANGUAGE plpgsql
+    SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_snapshot_id UUID;
+BEGIN
+    INSERT INTO public.leaderboard_snapshots (label, created_by)
+    VALUES (trim(p_label), p_created_by)
+    RETURNING id INTO v_snapshot_id;
+
+    PERFORM public.capture_leaderboard_snapshot(v_snapshot_id);
+    RETURN v_snapshot_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.take_leaderboard_snapshot(TEXT, UUID) IS 'Take a labelled leaderboard snapshot now; returns the snapshot id';
+
+-- Capture scheduled snapshots that are due; returns how many were taken
+CREATE OR REPLACE FUNCTION public.take_due_leaderboard_snapshots()
+RETURNS INTEGER
+    LANGUAGE plpgsql
+    SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_snapshot_id UUID;
+    taken_count INTEGER := 0;
+BEGIN
+    -- Locked rows are being captured by an overlapping run
+    FOR v_snapshot_id IN
+        SELECT ls.id
+        FROM public.leaderboard_snapshots ls
+        WHERE ls.taken_at IS NULL
+          AND ls.scheduled_for <= NOW()
+        ORDER BY ls.scheduled_for
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        PERFORM public.capture_leaderboard_snapshot(v_snapshot_id);
+        taken_count := taken_count + 1;
+    END LOOP;
+
+    RETURN taken_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.take_due_leaderboard_snapshots() IS 'Capture every scheduled leaderboard snapshot whose time has come';
+
+REVOKE ALL ON FUNCTION public.capture_leaderboard_snapshot(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.take_leaderboard_snapshot(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.take_due_leaderboard_snapshots() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.capture_leaderboard_snapshot(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.take_leaderboard_snapshot(TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.take_due_leaderboard_snapshots() TO service_role;
+
+SELECT cron.schedule(
+    'take-due-leaderboard-snapshots',
+    '* * * * *',
+    $$SELECT public.take_due_leaderboard_snapshots()$$
+);
+
+-- Enable RLS (Row Level Security)
+-- Entries are written by the functions above only, so snapshots stay frozen
+ALTER TABLE public.leaderboard_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leaderboard_snapshot_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read taken leaderboard snapshots" ON public.leaderboard_snapshots
+    FOR SELECT USING (auth.role() = 'authenticated' AND taken_at IS NOT NULL);
+
+CREATE POLICY "Only admins can manage leaderboard snapshots" ON public.leaderboard_snapshots
+    FOR ALL USING (
+        public.authorize_role(ARRAY['admin'::public.user_role])
+    );
+
+CREATE POLICY "Anyone can read leaderboard snapshot entries" ON public.leaderboard_snapshot_entries
+    FOR SELECT USING (auth.role() = 'authenticated');
@@ -0,0 +1,125 @@
+-- Atomic correction of station results
+-- Updates the result, adds the new version to its history (and the originally
+-- recorded version, if the history is empty) and replaces its individual attempts
+-- in one transaction, so a failed correction leaves the result, its history and
+-- its attempts unchanged.
+
+-- Replace the individual attempts of a station result.
+-- p_attempts is a JSON array of {attempt_number, measurements, score,
+-- continuous_score, score_explanation, unscorable_reason}.
+CREATE OR REPLACE FUNCTION public.replace_station_attempts(
+    p_result_id UUID,
+    p_attempts JSONB,
+    p_recorded_by UUID
+) RETURNS INTEGER
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    inserted_count INTEGER;
+BEGIN
+    IF jsonb_typeof(p_attempts) <> 'array' OR jsonb_array_length(p_attempts) = 0 THEN
+        RAISE EXCEPTION 'p_attempts must be a non-empty JSON array';
+    END IF;
+
+    DELETE FROM public.station_attempts
+    WHERE station_result_id = p_result_id;
+
+    INSERT INTO public.station_attempts (
+        station_result_id, attempt_number, measurements, score, continuous_score,
+        score_explanation, unscorable_reason, recorded_by
+    )
+    SELECT
+        p_result_id,
+        (attempt->>'attempt_number')::INTEGER,
+        attempt->'measurements',
+        (attempt->>'score')::INTEGER,
+        (attempt->>'continuous_score')::NUMERIC,
+        NULLIF(attempt->'score_explanation', 'null'::jsonb),
+        attempt->>'unscorable_reason',
+        p_recorded_by
+    FROM jsonb_array_elements(p_attempts) AS attempt;
+
+    GET DIAGNOSTICS inserted_count = ROW_COUNT;
+    RETURN inserted_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.replace_station_attempts(UUID, JSONB, UUID) IS 'Replace the individual attempts behind a station result';
+
+-- Correct a station result loaded at p_version. Returns the updated result, or
+-- no row when it has been changed since (the caller reports the conflict).
+CREATE OR REPLACE FUNCTION public.correct_station_result(
+    p_result_id UUID,
+    p_version INTEGER,
+    p_measurements JSONB,
+    p_score INTEGER,
+    p_continuous_score NUMERIC,
+    p_score_explanation JSONB,
+    p_unscorable_reason TEXT,
+    p_rule_set_id UUID,
+    p_attempts JSONB,
+    p_changed_by UUID,
+    p_reason TEXT
+) RETURNS SETOF public.station_results
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_current public.station_results;
+    v_updated public.station_results;
+BEGIN
+    IF COALESCE(trim(p_reason), '') = '' THEN
+        RAISE EXCEPTION 'A reason is required to correct a station result';
+    END IF;
+
+    SELECT * INTO v_current
+    FROM public.station_results
+    WHERE id = p_result_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_current.version <> p_version THEN
+        RETURN;
+    END IF;
+
+    -- Make sure the originally recorded version is part of the history
+    IF NOT EXISTS (
+        SELECT 1 FROM public.station_result_versions v WHERE v.station_result_id = p_result_id
+    ) THEN
+        INSERT INTO public.station_result_versions
+            (station_result_id, version, measurements, score, changed_by, created_at)
+        VALUES
+            (p_result_id, v_current.version, v_current.measurements, v_current.score,
+             v_current.recorded_by, v_current.created_at);
+    END IF;
+
+    -- Update in place (keeps created_at and recorded_by)
+    UPDATE public.station_results
+    SET measurements = p_measurements,
+        score = p_score,
+        continuous_score = p_continuous_score,
+        score_explanation = p_score_explanation,
+        unscorable_reason = p_unscorable_reason,
+        rule_set_id = p_rule_set_id,
+        version = v_current.version + 1
+    WHERE id = p_result_id
+    RETURNING * INTO v_updated;
+
+    INSERT INTO public.station_result_versions
+        (station_result_id, version, measurements, score, changed_by, reason)
+    VALUES
+        (p_result_id, v_updated.version, p_measurements, p_score, p_changed_by, trim(p_reason));
+
+    PERFORM public.replace_station_attempts(p_result_id, p_attempts, p_changed_by);
+
+    RETURN NEXT v_updated;
+END;
+$$;
+
+COMMENT ON FUNCTION public.correct_station_result(UUID, INTEGER, JSONB, INTEGER, NUMERIC, JSONB, TEXT, UUID, JSONB, UUID, TEXT) IS 'Correct a station result, record the version and replace its attempts in one transaction';
+
+-- Only the server (service role) writes station results
+REVOKE ALL ON FUNCTION public.replace_station_attempts(UUID, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.correct_station_result(UUID, INTEGER, JSONB, INTEGER, NUMERIC, JSONB, TEXT, UUID, JSONB, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_station_attempts(UUID, JSONB, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.correct_station_result(UUID, INTEGER, JSONB, INTEGER, NUMERIC, JSONB, TEXT, UUID, JSONB, UUID, TEXT) TO service_role;
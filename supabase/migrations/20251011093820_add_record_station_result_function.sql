@@ -0,0 +1,44 @@
+-- Atomic recording of station results
+-- Inserts a station result and its individual attempts in one transaction, so a
+-- result is never saved without the attempts behind it.
+
+CREATE OR REPLACE FUNCTION public.record_station_result(
+    p_participant_id UUID,
+    p_station_id UUID,
+    p_station_type TEXT,
+    p_measurements JSONB,
+    p_score INTEGER,
+    p_continuous_score NUMERIC,
+    p_score_explanation JSONB,
+    p_unscorable_reason TEXT,
+    p_rule_set_id UUID,
+    p_attempts JSONB,
+    p_recorded_by UUID
+) RETURNS SETOF public.station_results
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_result public.station_results;
+BEGIN
+    INSERT INTO public.station_results (
+        participant_id, station_id, station_type, measurements, score, continuous_score,
+        score_explanation, unscorable_reason, rule_set_id, recorded_by
+    ) VALUES (
+        p_participant_id, p_station_id, p_station_type, p_measurements, p_score,
+        p_continuous_score, p_score_explanation, p_unscorable_reason, p_rule_set_id,
+        p_recorded_by
+    )
+    RETURNING * INTO v_result;
+
+    PERFORM public.replace_station_attempts(v_result.id, p_attempts, p_recorded_by);
+
+    RETURN NEXT v_result;
+END;
+$$;
+
+COMMENT ON FUNCTION public.record_station_result(UUID, UUID, TEXT, JSONB, INTEGER, NUMERIC, JSONB, TEXT, UUID, JSONB, UUID) IS 'Record a station result and its individual attempts in one transaction';
+
+-- Only the server (service role) writes station results
+REVOKE ALL ON FUNCTION public.record_station_result(UUID, UUID, TEXT, JSONB, INTEGER, NUMERIC, JSONB, TEXT, UUID, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_station_result(UUID, UUID, TEXT, JSONB, INTEGER, NUMERIC, JSONB, TEXT, UUID, JSONB, UUID) TO service_role;
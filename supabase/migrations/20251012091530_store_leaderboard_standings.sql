@@ -0,0 +1,453 @@
+-- Stored leaderboard standings
+-- Each entry keeps its tie-breaker values (tie_breaks) and its rank on the whole
+-- leaderboard (rank, tied), so reading the leaderboard no longer ranks every row:
+-- - tie_breaks is set by a trigger whenever an entry is written, from the active
+--   profile's tie-breakers
+-- - rank and tied are refreshed once per statement that changes a total,
+--   tie-breaker or visibility, and only rows whose rank moved are written
+-- get_leaderboard() reads pages of the whole leaderboard by standing in index
+-- order (offset or keyset) with the stored ranks. Filters and segments still rank
+-- the matching rows among themselves. The total count moves to count_leaderboard().
+
+ALTER TABLE public.leaderboard_entries
+ADD COLUMN IF NOT EXISTS tie_breaks NUMERIC[] DEFAULT '{}'::numeric[] NOT NULL,
+ADD COLUMN IF NOT EXISTS rank INTEGER,
+ADD COLUMN IF NOT EXISTS tied BOOLEAN DEFAULT false NOT NULL;
+
+COMMENT ON COLUMN public.leaderboard_entries.tie_breaks IS 'Tie-breaker values in the active profile''s order, larger is better';
+COMMENT ON COLUMN public.leaderboard_entries.rank IS 'Rank on the whole leaderboard under the active ranking method; NULL when hidden';
+COMMENT ON COLUMN public.leaderboard_entries.tied IS 'Another visible participant has the same total and tie-breakers';
+
+-- Standing order: total, then tie-breakers, then participant code
+DROP INDEX IF EXISTS public.idx_leaderboard_entries_ranking;
+CREATE INDEX idx_leaderboard_entries_standing
+    ON public.leaderboard_entries (total_score DESC, tie_breaks DESC, participant_code DESC)
+    WHERE NOT hidden;
+
+-- Tie-breaker values in the given order, larger is better
+CREATE OR REPLACE FUNCTION public.leaderboard_tie_breaks(
+    p_tie_breakers TEXT[],
+    p_completed_stations INTEGER,
+    p_continuous_score NUMERIC,
+    p_latest_completion TIMESTAMP WITH TIME ZONE
+) RETURNS NUMERIC[]
+    LANGUAGE sql
+    IMMUTABLE
+    SET search_path TO 'public'
+    AS $$
+    SELECT ARRAY(
+        SELECT CASE tb.tie_breaker
+            WHEN 'completed_stations' THEN p_completed_stations::NUMERIC
+            WHEN 'continuous_score' THEN COALESCE(p_continuous_score, 0)
+            -- Earlier is better; participants with no completion time go last
+            ELSE COALESCE(-EXTRACT(EPOCH FROM p_latest_completion), -1e12)
+        END
+        FROM unnest(p_tie_breakers) WITH ORDINALITY AS tb(tie_breaker, position)
+        ORDER BY tb.position
+    );
+$$;
+
+COMMENT ON FUNCTION public.leaderboard_tie_breaks(TEXT[], INTEGER, NUMERIC, TIMESTAMP WITH TIME ZONE) IS 'Tie-breaker values of a leaderboard entry in the given order, larger is better';
+
+CREATE OR REPLACE FUNCTION public.set_leaderboard_tie_breaks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    v_tie_breakers TEXT[];
+BEGIN
+    SELECT sp.tie_breakers
+    INTO v_tie_breakers
+    FROM public.scoring_profiles sp
+    WHERE sp.is_active;
+
+    -- Defaults match DEFAULT_SCORING_PROFILE when no profile is active
+    NEW.tie_breaks := public.leaderboard_tie_breaks(
+        COALESCE(v_tie_breakers, ARRAY['continuous_score']::text[]),
+        NEW.completed_stations,
+        NEW.continuous_score,
+        NEW.latest_completion
+    );
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER leaderboard_entries_set_tie_breaks
+    BEFORE INSERT OR UPDATE OF completed_stations, continuous_score, latest_completion
+    ON public.leaderboard_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_leaderboard_tie_breaks();
+
+-- Display names only need applying when the name, organisation or owner is
+-- written, not when ranks are
+DROP TRIGGER IF EXISTS leaderboard_entries_apply_visibility ON public.leaderboard_entries;
+
+CREATE TRIGGER leaderboard_entries_apply_visibility
+    BEFORE INSERT OR UPDATE OF user_id, name, organisation ON public.leaderboard_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION public.apply_leaderboard_visibility();
+
+-- Rank the visible entries under the active ranking method and write the ranks
+-- that changed; hidden entries have no rank. Returns the number of entries updated.
+CREATE OR REPLACE FUNCTION public.rank_leaderboard_entries()
+RETURNS INTEGER
+    LANGUAGE plpgsql
+    SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_ranking_method TEXT;
+    ranked_count INTEGER;
+    unranked_count INTEGER;
+BEGIN
+    -- One ranking at a time, each seeing the changes committed before it
+    PERFORM pg_advisory_xact_lock(hashtext('public.rank_leaderboard_entries'));
+
+    SELECT sp.ranking_method
+    INTO v_ranking_method
+    FROM public.scoring_profiles sp
+    WHERE sp.is_active;
+
+    v_ranking_method := COALESCE(v_ranking_method, 'competition');
+
+    WITH standings AS (
+        SELECT
+            e.participant_id,
+            CASE
+                WHEN v_ranking_method = 'dense' THEN DENSE_RANK() OVER standing
+                ELSE RANK() OVER standing
+            END AS entry_rank,
+            COUNT(*) OVER (PARTITION BY e.total_score, e.tie_breaks) > 1 AS entry_tied
+        FROM public.leaderboard_entries e
+        WHERE NOT e.hidden
+        WINDOW standing AS (ORDER BY e.total_score DESC, e.tie_breaks DESC)
+    )
+    UPDATE public.leaderboard_entries e
+    SET rank = s.entry_rank,
+        tied = s.entry_tied
+    FROM standings s
+    WHERE e.participant_id = s.participant_id
+      AND (e.rank IS DISTINCT FROM s.entry_rank OR e.tied IS DISTINCT FROM s.entry_tied);
+
+    GET DIAGNOSTICS ranked_count = ROW_COUNT;
+
+    UPDATE public.leaderboard_entries e
+    SET rank = NULL,
+        tied = false
+    WHERE e.hidden
+      AND (e.rank IS NOT NULL OR e.tied);
+
+    GET DIAGNOSTICS unranked_count = ROW_COUNT;
+    RETURN ranked_count + unranked_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.rank_leaderboard_entries() IS 'Store each visible leaderboard entry''s rank on the whole leaderboard';
+
+REVOKE ALL ON FUNCTION public.rank_leaderboard_entries() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rank_leaderboard_entries() TO service_role;
+
+CREATE OR REPLACE FUNCTION public.rank_leaderboard_after_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    PERFORM public.rank_leaderboard_entries();
+    RETURN NULL;
+END;
+$$;
+
+-- Writing ranks only sets rank and tied, so it doesn't fire this again
+CREATE TRIGGER leaderboard_entries_rank
+    AFTER INSERT OR DELETE OR UPDATE OF total_score, tie_breaks, hidden
+    ON public.leaderboard_entries
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION public.rank_leaderboard_after_change();
+
+-- Visible leaderboard entries matching the filters and segments.
+-- Plain SQL without a SET clause so the planner can inline it into the queries
+-- that use it. Segments: p_min_age/p_max_age (age today, from the profile's date
+-- of birth), p_organisation (exact, case-insensitive) and p_completion (all,
+-- partial or none of the active stations scored, or a station type the
+-- participant has scored).
+CREATE OR REPLACE FUNCTION public.filter_leaderboard_entries(
+    p_name_filter TEXT DEFAULT NULL,
+    p_org_filter TEXT DEFAULT NULL,
+    p_gender_filter TEXT DEFAULT NULL,
+    p_min_age INTEGER DEFAULT NULL,
+    p_max_age INTEGER DEFAULT NULL,
+    p_organisation TEXT DEFAULT NULL,
+    p_completion TEXT DEFAULT NULL
+) RETURNS SETOF public.leaderboard_entries
+    LANGUAGE sql
+    STABLE
+    AS $$
+    SELECT e.*
+    FROM public.leaderboard_entries e
+    WHERE NOT e.hidden
+      AND (p_name_filter IS NULL OR e.name ILIKE '%' || p_name_filter || '%')
+      AND (p_org_filter IS NULL OR e.organisation ILIKE '%' || p_org_filter || '%')
+      AND (p_gender_filter IS NULL OR e.gender = p_gender_filter)
+      AND (p_organisation IS NULL
+           OR lower(COALESCE(e.organisation, '')) = lower(p_organisation))
+      AND (p_completion IS NULL
+           OR (p_completion = 'all' AND e.completed_stations >= (
+                SELECT COUNT(*) FROM public.stations s WHERE s.is_active))
+           OR (p_completion = 'partial' AND e.completed_stations > 0
+               AND e.completed_stations < (
+                SELECT COUNT(*) FROM public.stations s WHERE s.is_active))
+           OR (p_completion = 'none' AND e.completed_stations = 0)
+           OR (p_completion NOT IN ('all', 'partial', 'none')
+               AND e.scores->>p_completion IS NOT NULL))
+      AND (p_min_age IS NULL AND p_max_age IS NULL OR EXISTS (
+           SELECT 1
+           FROM public.profiles pr
+           WHERE pr.id = e.user_id
+             AND (p_min_age IS NULL
+                  OR date_part('year', age(CURRENT_DATE, pr.date_of_birth)) >= p_min_age)
+             AND (p_max_age IS NULL
+                  OR date_part('year', age(CURRENT_DATE, pr.date_of_birth)) <= p_max_age)));
+$$;
+
+COMMENT ON FUNCTION public.filter_leaderboard_entries(TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, TEXT) IS 'Visible leaderboard entries matching the leaderboard filters and segments';
+
+GRANT EXECUTE ON FUNCTION public.filter_leaderboard_entries(TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, TEXT) TO authenticated, service_role;
+
+-- Number of visible participants matching the filters and segments
+CREATE OR REPLACE FUNCTION public.count_leaderboard(
+    p_name_filter TEXT DEFAULT NULL,
+    p_org_filter TEXT DEFAULT NULL,
+    p_gender_filter TEXT DEFAULT NULL,
+    p_min_age INTEGER DEFAULT NULL,
+    p_max_age INTEGER DEFAULT NULL,
+    p_organisation TEXT DEFAULT NULL,
+    p_completion TEXT DEFAULT NULL
+) RETURNS BIGINT
+    LANGUAGE sql
+    STABLE
+    SET search_path TO 'public'
+    AS $$
+    SELECT COUNT(*)
+    FROM public.filter_leaderboard_entries(
+        p_name_filter, p_org_filter, p_gender_filter, p_min_age, p_max_age,
+        p_organisation, p_completion
+    );
+$$;
+
+COMMENT ON FUNCTION public.count_leaderboard(TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, TEXT) IS 'Number of visible leaderboard entries matching the filters and segments';
+
+GRANT EXECUTE ON FUNCTION public.count_leaderboard(TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, TEXT) TO authenticated, service_role;
+
+-- The total count is no longer returned, so the function is recreated
+DROP FUNCTION IF EXISTS public.get_leaderboard(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, JSONB, INTEGER, INTEGER, TEXT, TEXT);
+
+-- Filter, sort, rank and page the leaderboard.
+-- The whole leaderboard uses the stored ranks; sorted by standing, pages are read
+-- straight from idx_leaderboard_entries_standing. Filters and segments (see
+-- filter_leaderboard_entries) rank the matching rows among themselves.
+-- Participants equal on total and tie-breakers share a rank and are listed by
+-- participant code. Sorting by rank is sorting by total score in the opposite
+-- direction. Pass p_cursor (the sort keys of the last row of the previous page, as
+-- returned in sort_value, sort_text, total_score, tie_breaks and participant_code)
+-- for keyset pagination; p_offset is used when it is NULL.
+-- Hidden participants are never listed or ranked.
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+    p_sort TEXT DEFAULT 'total_score',
+    p_order TEXT DEFAULT 'desc',
+    p_name_filter TEXT DEFAULT NULL,
+    p_org_filter TEXT DEFAULT NULL,
+    p_gender_filter TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10,
+    p_offset INTEGER DEFAULT 0,
+    p_cursor JSONB DEFAULT NULL,
+    p_min_age INTEGER DEFAULT NULL,
+    p_max_age INTEGER DEFAULT NULL,
+    p_organisation TEXT DEFAULT NULL,
+    p_completion TEXT DEFAULT NULL
+) RETURNS TABLE (
+    participant_id UUID,
+    participant_code TEXT,
+    name TEXT,
+    organisation TEXT,
+    gender TEXT,
+    scores JSONB,
+    continuous_scores JSONB,
+    total_score NUMERIC,
+    max_possible_score NUMERIC,
+    percentage NUMERIC,
+    grade TEXT,
+    continuous_score NUMERIC,
+    completed_stations INTEGER,
+    pending_stations TEXT[],
+    latest_completion TIMESTAMP WITH TIME ZONE,
+    rank BIGINT,
+    tied BOOLEAN,
+    sort_value NUMERIC,
+    sort_text TEXT,
+    tie_breaks NUMERIC[]
+)
+    LANGUAGE plpgsql
+    STABLE
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_sort TEXT := CASE WHEN p_sort = 'rank' THEN 'total_score' ELSE p_sort END;
+    v_ascending BOOLEAN := (p_order = 'asc') <> (p_sort = 'rank');
+    v_filtered BOOLEAN := num_nonnulls(
+        p_name_filter, p_org_filter, p_gender_filter, p_min_age, p_max_age,
+        p_organisation, p_completion
+    ) > 0;
+    v_offset INTEGER := CASE WHEN p_cursor IS NULL THEN p_offset ELSE 0 END;
+    v_ranking_method TEXT;
+    v_cursor_total NUMERIC;
+    v_cursor_tie_breaks NUMERIC[];
+    v_cursor_code TEXT;
+BEGIN
+    IF p_cursor IS NOT NULL THEN
+        v_cursor_total := (p_cursor->>'total_score')::NUMERIC;
+        v_cursor_tie_breaks := ARRAY(
+            SELECT value::NUMERIC FROM jsonb_array_elements_text(p_cursor->'tie_breaks')
+        );
+        v_cursor_code := p_cursor->>'participant_code';
+    END IF;
+
+    -- The whole leaderboard by standing, read in index order. Without a cursor the
+    -- keyset condition starts beyond the first row so it always applies.
+    IF NOT v_filtered AND v_sort = 'total_score' THEN
+        IF v_ascending THEN
+            RETURN QUERY
+            SELECT
+                e.participant_id, e.participant_code, e.name, e.organisation, e.gender,
+                e.scores, e.continuous_scores, e.total_score, e.max_possible_score,
+                e.percentage, e.grade, e.continuous_score, e.completed_stations,
+                e.pending_stations, e.latest_completion, e.rank::BIGINT, e.tied,
+                e.total_score, ''::TEXT, e.tie_breaks
+            FROM public.leaderboard_entries e
+            WHERE NOT e.hidden
+              AND (e.total_score, e.tie_breaks, e.participant_code) >
+                  (COALESCE(v_cursor_total, '-Infinity'::NUMERIC),
+                   COALESCE(v_cursor_tie_breaks, '{}'::numeric[]),
+                   COALESCE(v_cursor_code, ''))
+            ORDER BY e.total_score, e.tie_breaks, e.participant_code
+            LIMIT p_limit
+            OFFSET v_offset;
+        ELSE
+            RETURN QUERY
+            SELECT
+                e.participant_id, e.participant_code, e.name, e.organisation, e.gender,
+                e.scores, e.continuous_scores, e.total_score, e.max_possible_score,
+                e.percentage, e.grade, e.continuous_score, e.completed_stations,
+                e.pending_stations, e.latest_completion, e.rank::BIGINT, e.tied,
+                e.total_score, ''::TEXT, e.tie_breaks
+            FROM public.leaderboard_entries e
+            WHERE NOT e.hidden
+              AND (e.total_score, e.tie_breaks, e.participant_code) <
+                  (COALESCE(v_cursor_total, 'Infinity'::NUMERIC),
+                   COALESCE(v_cursor_tie_breaks, '{}'::numeric[]),
+                   COALESCE(v_cursor_code, ''))
+            ORDER BY e.total_score DESC, e.tie_breaks DESC, e.participant_code DESC
+            LIMIT p_limit
+            OFFSET v_offset;
+        END IF;
+        RETURN;
+    END IF;
+
+    SELECT sp.ranking_method
+    INTO v_ranking_method
+    FROM public.scoring_profiles sp
+    WHERE sp.is_active;
+
+    v_ranking_method := COALESCE(v_ranking_method, 'competition');
+
+    RETURN QUERY
+    WITH filtered AS (
+        SELECT f.*
+        FROM public.filter_leaderboard_entries(
+            p_name_filter, p_org_filter, p_gender_filter, p_min_age, p_max_age,
+            p_organisation, p_completion
+        ) f
+    ),
+    keyed AS (
+        SELECT
+            f.*,
+            -- Rankings within filters and segments; the whole leaderboard keeps its stored ranks
+            CASE
+                WHEN NOT v_filtered THEN f.rank::BIGINT
+                WHEN v_ranking_method = 'dense' THEN DENSE_RANK() OVER standing
+                ELSE RANK() OVER standing
+            END AS entry_rank,
+            CASE
+                WHEN NOT v_filtered THEN f.tied
+                ELSE COUNT(*) OVER (PARTITION BY f.total_score, f.tie_breaks) > 1
+            END AS entry_tied,
+            CASE
+                WHEN v_sort = 'total_score' THEN f.total_score
+                WHEN v_sort IN ('name', 'organisation') THEN 0
+                -- Any other sort is a station type; unscored stations sort as 0
+                ELSE COALESCE((f.scores->>v_sort)::NUMERIC, 0)
+            END AS key_value,
+            CASE
+                WHEN v_sort = 'name' THEN lower(COALESCE(f.name, ''))
+                WHEN v_sort = 'organisation' THEN lower(COALESCE(f.organisation, ''))
+                ELSE ''
+            END AS key_text
+        FROM filtered f
+        WINDOW standing AS (ORDER BY f.total_score DESC, f.tie_breaks DESC)
+    )
+    SELECT
+        k.participant_id,
+        k.participant_code,
+        k.name,
+        k.organisation,
+        k.gender,
+        k.scores,
+        k.continuous_scores,
+        k.total_score,
+        k.max_possible_score,
+        k.percentage,
+        k.grade,
+        k.continuous_score,
+        k.completed_stations,
+        k.pending_stations,
+        k.latest_completion,
+        k.entry_rank,
+        k.entry_tied,
+        k.key_value,
+        k.key_text,
+        k.tie_breaks
+    FROM keyed k
+    WHERE p_cursor IS NULL
+       OR (v_ascending AND
+           (k.key_value, k.key_text, k.total_score, k.tie_breaks, k.participant_code) >
+           ((p_cursor->>'sort_value')::NUMERIC, p_cursor->>'sort_text',
+            v_cursor_total, v_cursor_tie_breaks, v_cursor_code))
+       OR (NOT v_ascending AND
+           (k.key_value, k.key_text, k.total_score, k.tie_breaks, k.participant_code) <
+           ((p_cursor->>'sort_value')::NUMERIC, p_cursor->>'sort_text',
+            v_cursor_total, v_cursor_tie_breaks, v_cursor_code))
+    ORDER BY
+        CASE WHEN v_ascending THEN k.key_value END ASC,
+        CASE WHEN v_ascending THEN k.key_text END ASC,
+        CASE WHEN v_ascending THEN k.total_score END ASC,
+        CASE WHEN v_ascending THEN k.tie_breaks END ASC,
+        CASE WHEN v_ascending THEN k.participant_code END ASC,
+        k.key_value DESC,
+        k.key_text DESC,
+        k.total_score DESC,
+        k.tie_breaks DESC,
+        k.participant_code DESC
+    LIMIT p_limit
+    OFFSET v_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_leaderboard(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, JSONB, INTEGER, INTEGER, TEXT, TEXT) IS 'Filtered, segmented and tie-aware ranked page of leaderboard entries, with offset or keyset pagination';
+
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, JSONB, INTEGER, INTEGER, TEXT, TEXT) TO authenticated, service_role;
+
+-- Store tie-breakers and ranks for existing entries
+SELECT public.refresh_leaderboard_entries(NULL);
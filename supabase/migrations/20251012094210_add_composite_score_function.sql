@@ -0,0 +1,271 @@
+-- One composite score calculation
+-- calculate_composite_score() combines station scores into the weighted total,
+-- maximum, percentage, grade and continuous score under the active scoring
+-- profile. refresh_leaderboard_entries() uses it for the stored leaderboard, and
+-- the server calls calculate_composite_scores() for what-if totals (re-score
+-- previews and the score simulator), so both always agree.
+
+-- Composite score of one participant's station scores under the active profile.
+-- p_scores and p_continuous_scores map station types to scores; stations without
+-- a score are handled by the profile's missing-station policy, except those in
+-- p_pending_stations (recorded but unscorable), which are left out of the total
+-- and the maximum until they are re-scored.
+-- Plain SQL without a SET clause so the planner can inline it into the queries
+-- that use it.
+CREATE OR REPLACE FUNCTION public.calculate_composite_score(
+    p_scores JSONB,
+    p_continuous_scores JSONB DEFAULT '{}'::jsonb,
+    p_pending_stations TEXT[] DEFAULT '{}'::text[]
+) RETURNS TABLE (
+    scores JSONB,
+    continuous_scores JSONB,
+    total_score NUMERIC,
+    max_possible_score NUMERIC,
+    percentage NUMERIC,
+    grade TEXT,
+    continuous_score NUMERIC,
+    completed_stations INTEGER,
+    pending_stations TEXT[]
+)
+    LANGUAGE sql
+    STABLE
+    AS $$
+    WITH settings AS (
+        -- Defaults match DEFAULT_SCORING_PROFILE when no profile is active
+        SELECT
+            COALESCE(sp.station_weights, '{}'::jsonb) AS station_weights,
+            COALESCE(sp.missing_station_policy, 'exclude') AS missing_station_policy,
+            COALESCE(sp.missing_station_penalty, 0) AS missing_station_penalty,
+            COALESCE(sp.above_average_min_pct, 83) AS above_average_min_pct,
+            COALESCE(sp.average_min_pct, 50) AS average_min_pct,
+            COALESCE(sp.continuous_scoring, false) AS continuous_scoring
+        FROM (SELECT 1) AS one
+        LEFT JOIN public.scoring_profiles sp ON sp.is_active
+    ),
+    station_rows AS (
+        SELECT
+            s.station_type,
+            s.sort_order,
+            COALESCE((settings.station_weights->>s.station_type)::NUMERIC, 1) AS weight,
+            (p_scores->>s.station_type)::NUMERIC AS score,
+            (p_continuous_scores->>s.station_type)::NUMERIC AS continuous_score,
+            p_scores->s.station_type AS score_value,
+            p_continuous_scores->s.station_type AS continuous_score_value,
+            (p_scores->>s.station_type) IS NULL
+                AND s.station_type = ANY(p_pending_stations) AS pending,
+            -- Stations that aren't scored or pending count towards the maximum unless excluded
+            (p_scores->>s.station_type) IS NULL
+                AND NOT s.station_type = ANY(p_pending_stations)
+                AND settings.missing_station_policy <> 'exclude' AS counted_missing,
+            settings.missing_station_policy,
+            settings.missing_station_penalty
+        FROM public.stations s
+        CROSS JOIN settings
+        WHERE s.is_active
+    ),
+    totals AS (
+        SELECT
+            COUNT(*) FILTER (WHERE score IS NOT NULL)::INTEGER AS completed_stations,
+            SUM(CASE
+                WHEN score IS NOT NULL THEN score * weight
+                WHEN counted_missing AND missing_station_policy = 'penalise'
+                    THEN -missing_station_penalty * weight
+                ELSE 0
+            END) AS raw_total,
+            SUM(CASE WHEN score IS NOT NULL OR counted_missing THEN 3 * weight ELSE 0 END)
+                AS max_possible_score,
+            -- Results recorded before continuous scoring count as 0
+            SUM(CASE WHEN score IS NOT NULL THEN COALESCE(continuous_score, 0) * weight ELSE 0 END)
+                AS continuous_total,
+            SUM(CASE WHEN score IS NOT NULL OR counted_missing THEN weight ELSE 0 END)
+                AS continuous_weight,
+            -- One entry per active station, null when not scored
+            jsonb_object_agg(station_type, COALESCE(score_value, 'null'::jsonb)) AS scores,
+            jsonb_object_agg(station_type, COALESCE(continuous_score_value, 'null'::jsonb))
+                AS continuous_scores,
+            COALESCE(
+                array_agg(station_type ORDER BY sort_order) FILTER (WHERE pending),
+                '{}'::text[]
+            ) AS pending_stations
+        FROM station_rows
+    ),
+    composites AS (
+        SELECT
+            tt.*,
+            -- Penalties never take a total below zero
+            GREATEST(0, ROUND(COALESCE(tt.raw_total, 0), 2)) AS total,
+            ROUND(COALESCE(tt.max_possible_score, 0), 2) AS maximum
+        FROM totals tt
+    ),
+    percentages AS (
+        SELECT
+            c.*,
+            CASE WHEN c.maximum > 0 THEN ROUND(c.total / c.maximum * 100, 1) END AS pct
+        FROM composites c
+    )
+    SELECT
+        COALESCE(pc.scores, '{}'::jsonb),
+        CASE WHEN settings.continuous_scoring
+            THEN COALESCE(pc.continuous_scores, '{}'::jsonb)
+        END,
+        pc.total,
+        pc.maximum,
+        pc.pct,
+        -- Participants who haven't completed a station yet aren't graded
+        CASE
+            WHEN pc.completed_stations = 0 OR pc.pct IS NULL THEN NULL
+            WHEN pc.pct >= settings.above_average_min_pct THEN 'Above Average'
+            WHEN pc.pct >= settings.average_min_pct THEN 'Average'
+            ELSE 'Bad'
+        END,
+        CASE WHEN settings.continuous_scoring AND pc.completed_stations > 0 AND pc.continuous_weight > 0
+            THEN ROUND(pc.continuous_total / pc.continuous_weight, 1)
+        END,
+        pc.completed_stations,
+        pc.pending_stations
+    FROM percentages pc
+    CROSS JOIN settings;
+$$;
+
+COMMENT ON FUNCTION public.calculate_composite_score(JSONB, JSONB, TEXT[]) IS 'Weighted total, maximum, percentage, grade and continuous score of station scores under the active scoring profile';
+
+-- Composite scores of several sets of station scores, e.g. participants before
+-- and after a re-score. p_participants is a JSON array of {key, scores,
+-- continuous_scores, pending_stations}; each row is returned with its key.
+CREATE OR REPLACE FUNCTION public.calculate_composite_scores(
+    p_participants JSONB
+) RETURNS TABLE (
+    key TEXT,
+    scores JSONB,
+    continuous_scores JSONB,
+    total_score NUMERIC,
+    max_possible_score NUMERIC,
+    percentage NUMERIC,
+    grade TEXT,
+    continuous_score NUMERIC,
+    completed_stations INTEGER,
+    pending_stations TEXT[]
+)
+    LANGUAGE sql
+    STABLE
+    SET search_path TO 'public'
+    AS $$
+    SELECT p->>'key', c.*
+    FROM jsonb_array_elements(p_participants) AS p
+    CROSS JOIN LATERAL public.calculate_composite_score(
+        COALESCE(p->'scores', '{}'::jsonb),
+        COALESCE(p->'continuous_scores', '{}'::jsonb),
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(p->'pending_stations', '[]'::jsonb)))
+    ) AS c;
+$$;
+
+COMMENT ON FUNCTION public.calculate_composite_scores(JSONB) IS 'Composite scores of several sets of station scores under the active scoring profile';
+
+REVOKE ALL ON FUNCTION public.calculate_composite_score(JSONB, JSONB, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.calculate_composite_scores(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.calculate_composite_score(JSONB, JSONB, TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION public.calculate_composite_scores(JSONB) TO service_role;
+
+-- The stored leaderboard uses the same calculation for each participant's
+-- latest result at each station
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_entries(
+    p_participant_ids UUID[] DEFAULT NULL
+) RETURNS INTEGER
+    LANGUAGE plpgsql
+    SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    refreshed_count INTEGER;
+BEGIN
+    WITH targets AS (
+        SELECT p.id, p.participant_code, p.user_id, p.created_at
+        FROM public.participants p
+        WHERE p_participant_ids IS NULL OR p.id = ANY(p_participant_ids)
+    ),
+    latest_results AS (
+        SELECT DISTINCT ON (r.participant_id, r.station_type)
+            r.participant_id, r.station_type, r.score, r.continuous_score,
+            r.unscorable_reason, r.created_at
+        FROM public.station_results r
+        WHERE r.participant_id IN (SELECT id FROM targets)
+        ORDER BY r.participant_id, r.station_type, r.created_at DESC
+    ),
+    participant_scores AS (
+        SELECT
+            t.id AS participant_id,
+            t.participant_code,
+            t.user_id,
+            COALESCE(
+                jsonb_object_agg(lr.station_type, lr.score)
+                    FILTER (WHERE lr.score IS NOT NULL),
+                '{}'::jsonb
+            ) AS scores,
+            COALESCE(
+                jsonb_object_agg(lr.station_type, lr.continuous_score)
+                    FILTER (WHERE lr.continuous_score IS NOT NULL),
+                '{}'::jsonb
+            ) AS continuous_scores,
+            COALESCE(
+                array_agg(lr.station_type)
+                    FILTER (WHERE lr.score IS NULL AND lr.unscorable_reason IS NOT NULL),
+                '{}'::text[]
+            ) AS pending_stations,
+            COALESCE(MAX(lr.created_at), t.created_at) AS latest_completion
+        FROM targets t
+        LEFT JOIN latest_results lr ON lr.participant_id = t.id
+        GROUP BY t.id, t.participant_code, t.user_id, t.created_at
+    )
+    INSERT INTO public.leaderboard_entries (
+        participant_id, participant_code, user_id, name, organisation, gender,
+        scores, continuous_scores, total_score, max_possible_score, percentage, grade,
+        continuous_score, completed_stations, pending_stations, latest_completion, updated_at
+    )
+    SELECT
+        ps.participant_id,
+        ps.participant_code,
+        ps.user_id,
+        pr.name,
+        pr.organisation,
+        pr.gender,
+        c.scores,
+        c.continuous_scores,
+        c.total_score,
+        c.max_possible_score,
+        c.percentage,
+        c.grade,
+        c.continuous_score,
+        c.completed_stations,
+        c.pending_stations,
+        ps.latest_completion,
+        NOW()
+    FROM participant_scores ps
+    CROSS JOIN LATERAL public.calculate_composite_score(
+        ps.scores, ps.continuous_scores, ps.pending_stations
+    ) AS c
+    -- Participants without a profile aren't listed
+    JOIN public.profiles pr ON pr.id = ps.user_id
+    ON CONFLICT (participant_id) DO UPDATE SET
+        participant_code = EXCLUDED.participant_code,
+        user_id = EXCLUDED.user_id,
+        name = EXCLUDED.name,
+        organisation = EXCLUDED.organisation,
+        gender = EXCLUDED.gender,
+        scores = EXCLUDED.scores,
+        continuous_scores = EXCLUDED.continuous_scores,
+        total_score = EXCLUDED.total_score,
+        max_possible_score = EXCLUDED.max_possible_score,
+        percentage = EXCLUDED.percentage,
+        grade = EXCLUDED.grade,
+        continuous_score = EXCLUDED.continuous_score,
+        completed_stations = EXCLUDED.completed_stations,
+        pending_stations = EXCLUDED.pending_stations,
+        latest_completion = EXCLUDED.latest_completion,
+        updated_at = EXCLUDED.updated_at;
+
+    GET DIAGNOSTICS refreshed_count = ROW_COUNT;
+    RETURN refreshed_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.refresh_leaderboard_entries(UUID[]) IS 'Recompute leaderboard entries for the given participants (all when NULL) under the active scoring profile';
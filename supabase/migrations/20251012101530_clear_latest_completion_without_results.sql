@@ -0,0 +1,113 @@
+-- Latest completion only from results
+-- A participant's latest_completion is the time of their latest station result,
+-- and NULL until they have one (it used to fall back to when they registered).
+-- Participants without results are not finishers and go last on the
+-- earliest_completion tie-breaker.
+
+COMMENT ON COLUMN public.leaderboard_entries.latest_completion IS 'Time of the participant''s latest station result; NULL until they have one';
+
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_entries(
+    p_participant_ids UUID[] DEFAULT NULL
+) RETURNS INTEGER
+    LANGUAGE plpgsql
+    SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    refreshed_count INTEGER;
+BEGIN
+    WITH targets AS (
+        SELECT p.id, p.participant_code, p.user_id
+        FROM public.participants p
+        WHERE p_participant_ids IS NULL OR p.id = ANY(p_participant_ids)
+    ),
+    latest_results AS (
+        SELECT DISTINCT ON (r.participant_id, r.station_type)
+            r.participant_id, r.station_type, r.score, r.continuous_score,
+            r.unscorable_reason, r.created_at
+        FROM public.station_results r
+        WHERE r.participant_id IN (SELECT id FROM targets)
+        ORDER BY r.participant_id, r.station_type, r.created_at DESC
+    ),
+    participant_scores AS (
+        SELECT
+            t.id AS participant_id,
+            t.participant_code,
+            t.user_id,
+            COALESCE(
+                jsonb_object_agg(lr.station_type, lr.score)
+                    FILTER (WHERE lr.score IS NOT NULL),
+                '{}'::jsonb
+            ) AS scores,
+            COALESCE(
+                jsonb_object_agg(lr.station_type, lr.continuous_score)
+                    FILTER (WHERE lr.continuous_score IS NOT NULL),
+                '{}'::jsonb
+            ) AS continuous_scores,
+            COALESCE(
+                array_agg(lr.station_type)
+                    FILTER (WHERE lr.score IS NULL AND lr.unscorable_reason IS NOT NULL),
+                '{}'::text[]
+            ) AS pending_stations,
+            -- NULL until the participant has a result
+            MAX(lr.created_at) AS latest_completion
+        FROM targets t
+        LEFT JOIN latest_results lr ON lr.participant_id = t.id
+        GROUP BY t.id, t.participant_code, t.user_id
+    )
+    INSERT INTO public.leaderboard_entries (
+        participant_id, participant_code, user_id, name, organisation, gender,
+        scores, continuous_scores, total_score, max_possible_score, percentage, grade,
+        continuous_score, completed_stations, pending_stations, latest_completion, updated_at
+    )
+    SELECT
+        ps.participant_id,
+        ps.participant_code,
+        ps.user_id,
+        pr.name,
+        pr.organisation,
+        pr.gender,
+        c.scores,
+        c.continuous_scores,
+        c.total_score,
+        c.max_possible_score,
+        c.percentage,
+        c.grade,
+        c.continuous_score,
+        c.completed_stations,
+        c.pending_stations,
+        ps.latest_completion,
+        NOW()
+    FROM participant_scores ps
+    CROSS JOIN LATERAL public.calculate_composite_score(
+        ps.scores, ps.continuous_scores, ps.pending_stations
+    ) AS c
+    -- Participants without a profile aren't listed
+    JOIN public.profiles pr ON pr.id = ps.user_id
+    ON CONFLICT (participant_id) DO UPDATE SET
+        participant_code = EXCLUDED.participant_code,
+        user_id = EXCLUDED.user_id,
+        name = EXCLUDED.name,
+        organisation = EXCLUDED.organisation,
+        gender = EXCLUDED.gender,
+        scores = EXCLUDED.scores,
+        continuous_scores = EXCLUDED.continuous_scores,
+        total_score = EXCLUDED.total_score,
+        max_possible_score = EXCLUDED.max_possible_score,
+        percentage = EXCLUDED.percentage,
+        grade = EXCLUDED.grade,
+        continuous_score = EXCLUDED.continuous_score,
+        completed_stations = EXCLUDED.completed_stations,
+        pending_stations = EXCLUDED.pending_stations,
+        latest_completion = EXCLUDED.latest_completion,
+        updated_at = EXCLUDED.updated_at;
+
+    GET DIAGNOSTICS refreshed_count = ROW_COUNT;
+    RETURN refreshed_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.refresh_leaderboard_entries(UUID[]) IS 'Recompute leaderboard entries for the given participants (all when NULL) under the active scoring profile';
+
+-- Clear the registration times stored for participants without results
+SELECT public.refresh_leaderboard_entries(NULL);
@@ -0,0 +1,94 @@
+-- Current visibility for leaderboard snapshots
+-- Snapshot entries keep the ranks and scores they were taken with, but names and
+-- organisations follow each participant's current leaderboard visibility:
+-- participants who have since chosen to be hidden are left out, and the others
+-- are shown under their current choice (full name, initials or alias).
+-- Participants removed since the snapshot are shown without a name.
+-- Entries are only read through these functions, so frozen names aren't exposed.
+
+-- One page of a snapshot's standings under current visibility, by rank then
+-- participant code
+CREATE OR REPLACE FUNCTION public.get_leaderboard_snapshot_entries(
+    p_snapshot_id UUID,
+    p_limit INTEGER DEFAULT 10,
+    p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+    participant_id UUID,
+    participant_code TEXT,
+    name TEXT,
+    organisation TEXT,
+    gender TEXT,
+    scores JSONB,
+    total_score NUMERIC,
+    max_possible_score NUMERIC,
+    percentage NUMERIC,
+    grade TEXT,
+    continuous_score NUMERIC,
+    completed_stations INTEGER,
+    latest_completion TIMESTAMP WITH TIME ZONE,
+    rank INTEGER,
+    tied BOOLEAN
+)
+    LANGUAGE sql
+    STABLE
+    SET search_path TO 'public'
+    AS $$
+    SELECT
+        e.participant_id,
+        e.participant_code,
+        CASE WHEN pr.id IS NOT NULL THEN
+            public.leaderboard_display_name(pr.name, pr.leaderboard_visibility, pr.leaderboard_alias)
+        END,
+        CASE WHEN pr.leaderboard_visibility NOT IN ('alias', 'hidden') THEN pr.organisation END,
+        e.gender,
+        e.scores,
+        e.total_score,
+        e.max_possible_score,
+        e.percentage,
+        e.grade,
+        e.continuous_score,
+        e.completed_stations,
+        e.latest_completion,
+        e.rank,
+        e.tied
+    FROM public.leaderboard_snapshot_entries e
+    LEFT JOIN public.participants p ON p.id = e.participant_id
+    LEFT JOIN public.profiles pr ON pr.id = p.user_id
+    WHERE e.snapshot_id = p_snapshot_id
+      AND pr.leaderboard_visibility IS DISTINCT FROM 'hidden'
+    ORDER BY e.rank, e.participant_code DESC
+    LIMIT p_limit
+    OFFSET p_offset;
+$$;
+
+COMMENT ON FUNCTION public.get_leaderboard_snapshot_entries(UUID, INTEGER, INTEGER) IS 'Page of a leaderboard snapshot''s standings under each participant''s current visibility';
+
+-- Number of entries of a snapshot that are still visible
+CREATE OR REPLACE FUNCTION public.count_leaderboard_snapshot_entries(p_snapshot_id UUID)
+RETURNS BIGINT
+    LANGUAGE sql
+    STABLE
+    SET search_path TO 'public'
+    AS $$
+    SELECT COUNT(*)
+    FROM public.leaderboard_snapshot_entries e
+    LEFT JOIN public.participants p ON p.id = e.participant_id
+    LEFT JOIN public.profiles pr ON pr.id = p.user_id
+    WHERE e.snapshot_id = p_snapshot_id
+      AND pr.leaderboard_visibility IS DISTINCT FROM 'hidden';
+$$;
+
+COMMENT ON FUNCTION public.count_leaderboard_snapshot_entries(UUID) IS 'Number of a leaderboard snapshot''s entries whose participants are still visible';
+
+REVOKE ALL ON FUNCTION public.get_leaderboard_snapshot_entries(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.count_leaderboard_snapshot_entries(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_leaderboard_snapshot_entries(UUID, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.count_leaderboard_snapshot_entries(UUID) TO service_role;
+
+-- Frozen names are no longer readable directly
+DROP POLICY IF EXISTS "Anyone can read leaderboard snapshot entries" ON public.leaderboard_snapshot_entries;
+
+CREATE POLICY "Only admins can read leaderboard snapshot entries" ON public.leaderboard_snapshot_entries
+    FOR SELECT USING (
+        public.authorize_role(ARRAY['admin'::public.user_role])
+    );
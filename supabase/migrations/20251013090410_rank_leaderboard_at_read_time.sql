@@ -0,0 +1,243 @@
+-- Leaderboard ranks at read time
+-- Entries no longer store their rank. Keeping stored ranks current meant every
+-- write re-ranked the whole leaderboard under a global lock, which serialised
+-- station writes, could deadlock against the entry rows they had locked, and
+-- rewrote every entry below a new score. get_leaderboard() now ranks the
+-- entries as it reads them, using idx_leaderboard_entries_standing, and a write
+-- only touches its own participant's entry.
+
+DROP TRIGGER IF EXISTS leaderboard_entries_rank ON public.leaderboard_entries;
+DROP FUNCTION IF EXISTS public.rank_leaderboard_after_change();
+DROP FUNCTION IF EXISTS public.rank_leaderboard_entries();
+
+ALTER TABLE public.leaderboard_entries
+DROP COLUMN IF EXISTS rank,
+DROP COLUMN IF EXISTS tied;
+
+-- Filter, sort, rank and page the leaderboard.
+-- Ranks are computed as the page is read. Sorted by standing, the whole
+-- leaderboard is ranked in the order of idx_leaderboard_entries_standing, so a
+-- page only reads the entries up to its end. Filters and segments (see
+-- filter_leaderboard_entries) rank the matching rows among themselves.
+-- Participants equal on total and tie-breakers share a rank and are listed by
+-- participant code. Sorting by rank is sorting by total score in the opposite
+-- direction. Pass p_cursor (the sort keys of the last row of the previous page, as
+-- returned in sort_value, sort_text, total_score, tie_breaks and participant_code)
+-- for keyset pagination; p_offset is used when it is NULL.
+-- Hidden participants are never listed or ranked.
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+    p_sort TEXT DEFAULT 'total_score',
+    p_order TEXT DEFAULT 'desc',
+    p_name_filter TEXT DEFAULT NULL,
+    p_org_filter TEXT DEFAULT NULL,
+    p_gender_filter TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10,
+    p_offset INTEGER DEFAULT 0,
+    p_cursor JSONB DEFAULT NULL,
+    p_min_age INTEGER DEFAULT NULL,
+    p_max_age INTEGER DEFAULT NULL,
+    p_organisation TEXT DEFAULT NULL,
+    p_completion TEXT DEFAULT NULL
+) RETURNS TABLE (
+    participant_id UUID,
+    participant_code TEXT,
+    name TEXT,
+    organisation TEXT,
+    gender TEXT,
+    scores JSONB,
+    continuous_scores JSONB,
+    total_score NUMERIC,
+    max_possible_score NUMERIC,
+    percentage NUMERIC,
+    grade TEXT,
+    continuous_score NUMERIC,
+    completed_stations INTEGER,
+    pending_stations TEXT[],
+    latest_completion TIMESTAMP WITH TIME ZONE,
+    rank BIGINT,
+    tied BOOLEAN,
+    sort_value NUMERIC,
+    sort_text TEXT,
+    tie_breaks NUMERIC[]
+)
+    LANGUAGE plpgsql
+    STABLE
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_sort TEXT := CASE WHEN p_sort = 'rank' THEN 'total_score' ELSE p_sort END;
+    v_ascending BOOLEAN := (p_order = 'asc') <> (p_sort = 'rank');
+    v_filtered BOOLEAN := num_nonnulls(
+        p_name_filter, p_org_filter, p_gender_filter, p_min_age, p_max_age,
+        p_organisation, p_completion
+    ) > 0;
+    v_offset INTEGER := CASE WHEN p_cursor IS NULL THEN p_offset ELSE 0 END;
+    v_ranking_method TEXT;
+    v_cursor_total NUMERIC;
+    v_cursor_tie_breaks NUMERIC[];
+    v_cursor_code TEXT;
+BEGIN
+    IF p_cursor IS NOT NULL THEN
+        v_cursor_total := (p_cursor->>'total_score')::NUMERIC;
+        v_cursor_tie_breaks := ARRAY(
+            SELECT value::NUMERIC FROM jsonb_array_elements_text(p_cursor->'tie_breaks')
+        );
+        v_cursor_code := p_cursor->>'participant_code';
+    END IF;
+
+    SELECT sp.ranking_method
+    INTO v_ranking_method
+    FROM public.scoring_profiles sp
+    WHERE sp.is_active;
+
+    v_ranking_method := COALESCE(v_ranking_method, 'competition');
+
+    -- The whole leaderboard by standing, ranked in index order; the peers frame
+    -- counts the entries sharing a standing without another sort. Without a
+    -- cursor the keyset condition starts beyond the first row so it always applies.
+    IF NOT v_filtered AND v_sort = 'total_score' THEN
+        -- Ascending pages are ranked from the top too, then reversed
+        IF v_ascending THEN
+            RETURN QUERY
+            WITH standings AS (
+                SELECT
+                    e.*,
+                    CASE
+                        WHEN v_ranking_method = 'dense' THEN DENSE_RANK() OVER standing
+                        ELSE RANK() OVER standing
+                    END AS entry_rank,
+                    COUNT(*) OVER (standing RANGE BETWEEN CURRENT ROW AND CURRENT ROW) > 1
+                        AS entry_tied
+                FROM public.leaderboard_entries e
+                WHERE NOT e.hidden
+                WINDOW standing AS (ORDER BY e.total_score DESC, e.tie_breaks DESC)
+            )
+            SELECT
+                s.participant_id, s.participant_code, s.name, s.organisation, s.gender,
+                s.scores, s.continuous_scores, s.total_score, s.max_possible_score,
+                s.percentage, s.grade, s.continuous_score, s.completed_stations,
+                s.pending_stations, s.latest_completion, s.entry_rank, s.entry_tied,
+                s.total_score, ''::TEXT, s.tie_breaks
+            FROM standings s
+            WHERE (s.total_score, s.tie_breaks, s.participant_code) >
+                  (COALESCE(v_cursor_total, '-Infinity'::NUMERIC),
+                   COALESCE(v_cursor_tie_breaks, '{}'::numeric[]),
+                   COALESCE(v_cursor_code, ''))
+            ORDER BY s.total_score, s.tie_breaks, s.participant_code
+            LIMIT p_limit
+            OFFSET v_offset;
+        ELSE
+            RETURN QUERY
+            WITH standings AS (
+                SELECT
+                    e.*,
+                    CASE
+                        WHEN v_ranking_method = 'dense' THEN DENSE_RANK() OVER standing
+                        ELSE RANK() OVER standing
+                    END AS entry_rank,
+                    COUNT(*) OVER (standing RANGE BETWEEN CURRENT ROW AND CURRENT ROW) > 1
+                        AS entry_tied
+                FROM public.leaderboard_entries e
+                WHERE NOT e.hidden
+                WINDOW standing AS (ORDER BY e.total_score DESC, e.tie_breaks DESC)
+            )
+            SELECT
+                s.participant_id, s.participant_code, s.name, s.organisation, s.gender,
+                s.scores, s.continuous_scores, s.total_score, s.max_possible_score,
+                s.percentage, s.grade, s.continuous_score, s.completed_stations,
+                s.pending_stations, s.latest_completion, s.entry_rank, s.entry_tied,
+                s.total_score, ''::TEXT, s.tie_breaks
+            FROM standings s
+            WHERE (s.total_score, s.tie_breaks, s.participant_code) <
+                  (COALESCE(v_cursor_total, 'Infinity'::NUMERIC),
+                   COALESCE(v_cursor_tie_breaks, '{}'::numeric[]),
+                   COALESCE(v_cursor_code, ''))
+            ORDER BY s.total_score DESC, s.tie_breaks DESC, s.participant_code DESC
+            LIMIT p_limit
+            OFFSET v_offset;
+        END IF;
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH filtered AS (
+        SELECT f.*
+        FROM public.filter_leaderboard_entries(
+            p_name_filter, p_org_filter, p_gender_filter, p_min_age, p_max_age,
+            p_organisation, p_completion
+        ) f
+    ),
+    keyed AS (
+        SELECT
+            f.*,
+            -- Ranked among the matching rows
+            CASE
+                WHEN v_ranking_method = 'dense' THEN DENSE_RANK() OVER standing
+                ELSE RANK() OVER standing
+            END AS entry_rank,
+            COUNT(*) OVER (standing RANGE BETWEEN CURRENT ROW AND CURRENT ROW) > 1
+                AS entry_tied,
+            CASE
+                WHEN v_sort = 'total_score' THEN f.total_score
+                WHEN v_sort IN ('name', 'organisation') THEN 0
+                -- Any other sort is a station type; unscored stations sort as 0
+                ELSE COALESCE((f.scores->>v_sort)::NUMERIC, 0)
+            END AS key_value,
+            CASE
+                WHEN v_sort = 'name' THEN lower(COALESCE(f.name, ''))
+                WHEN v_sort = 'organisation' THEN lower(COALESCE(f.organisation, ''))
+                ELSE ''
+            END AS key_text
+        FROM filtered f
+        WINDOW standing AS (ORDER BY f.total_score DESC, f.tie_breaks DESC)
+    )
+    SELECT
+        k.participant_id,
+        k.participant_code,
+        k.name,
+        k.organisation,
+        k.gender,
+        k.scores,
+        k.continuous_scores,
+        k.total_score,
+        k.max_possible_score,
+        k.percentage,
+        k.grade,
+        k.continuous_score,
+        k.completed_stations,
+        k.pending_stations,
+        k.latest_completion,
+        k.entry_rank,
+        k.entry_tied,
+        k.key_value,
+        k.key_text,
+        k.tie_breaks
+    FROM keyed k
+    WHERE p_cursor IS NULL
+       OR (v_ascending AND
+           (k.key_value, k.key_text, k.total_score, k.tie_breaks, k.participant_code) >
+           ((p_cursor->>'sort_value')::NUMERIC, p_cursor->>'sort_text',
+            v_cursor_total, v_cursor_tie_breaks, v_cursor_code))
+       OR (NOT v_ascending AND
+           (k.key_value, k.key_text, k.total_score, k.tie_breaks, k.participant_code) <
+           ((p_cursor->>'sort_value')::NUMERIC, p_cursor->>'sort_text',
+            v_cursor_total, v_cursor_tie_breaks, v_cursor_code))
+    ORDER BY
+        CASE WHEN v_ascending THEN k.key_value END ASC,
+        CASE WHEN v_ascending THEN k.key_text END ASC,
+        CASE WHEN v_ascending THEN k.total_score END ASC,
+        CASE WHEN v_ascending THEN k.tie_breaks END ASC,
+        CASE WHEN v_ascending THEN k.participant_code END ASC,
+        k.key_value DESC,
+        k.key_text DESC,
+        k.total_score DESC,
+        k.tie_breaks DESC,
+        k.participant_code DESC
+    LIMIT p_limit
+    OFFSET v_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_leaderboard(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, JSONB, INTEGER, INTEGER, TEXT, TEXT) IS 'Filtered, segmented and tie-aware ranked page of leaderboard entries, with offset or keyset pagination';
+
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, JSONB, INTEGER, INTEGER, TEXT, TEXT) TO authenticated, service_role;
@@ -0,0 +1,131 @@
+-- Broadcast only changed leaderboard entries
+-- Realtime sends subscribers every write to leaderboard_entries. Entries no
+-- longer store ranks, so a new result writes only its participant's entry;
+-- refreshes of the whole leaderboard (station or scoring profile changes) now
+-- also skip the entries whose values didn't change, instead of rewriting and
+-- broadcasting every entry.
+
+CREATE OR REPLACE FUNCTION public.refresh_leaderboard_entries(
+    p_participant_ids UUID[] DEFAULT NULL
+) RETURNS INTEGER
+    LANGUAGE plpgsql
+    SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    refreshed_count INTEGER;
+BEGIN
+    WITH targets AS (
+        SELECT p.id, p.participant_code, p.user_id
+        FROM public.participants p
+        WHERE p_participant_ids IS NULL OR p.id = ANY(p_participant_ids)
+    ),
+    latest_results AS (
+        SELECT DISTINCT ON (r.participant_id, r.station_type)
+            r.participant_id, r.station_type, r.score, r.continuous_score,
+            r.unscorable_reason, r.created_at
+        FROM public.station_results r
+        WHERE r.participant_id IN (SELECT id FROM targets)
+        ORDER BY r.participant_id, r.station_type, r.created_at DESC
+    ),
+    participant_scores AS (
+        SELECT
+            t.id AS participant_id,
+            t.participant_code,
+            t.user_id,
+            COALESCE(
+                jsonb_object_agg(lr.station_type, lr.score)
+                    FILTER (WHERE lr.score IS NOT NULL),
+                '{}'::jsonb
+            ) AS scores,
+            COALESCE(
+                jsonb_object_agg(lr.station_type, lr.continuous_score)
+                    FILTER (WHERE lr.continuous_score IS NOT NULL),
+                '{}'::jsonb
+            ) AS continuous_scores,
+            COALESCE(
+                array_agg(lr.station_type)
+                    FILTER (WHERE lr.score IS NULL AND lr.unscorable_reason IS NOT NULL),
+                '{}'::text[]
+            ) AS pending_stations,
+            -- NULL until the participant has a result
+            MAX(lr.created_at) AS latest_completion
+        FROM targets t
+        LEFT JOIN latest_results lr ON lr.participant_id = t.id
+        GROUP BY t.id, t.participant_code, t.user_id
+    )
+    INSERT INTO public.leaderboard_entries (
+        participant_id, participant_code, user_id, name, organisation, gender,
+        scores, continuous_scores, total_score, max_possible_score, percentage, grade,
+        continuous_score, completed_stations, pending_stations, latest_completion, updated_at
+    )
+    SELECT
+        ps.participant_id,
+        ps.participant_code,
+        ps.user_id,
+        pr.name,
+        pr.organisation,
+        pr.gender,
+        c.scores,
+        c.continuous_scores,
+        c.total_score,
+        c.max_possible_score,
+        c.percentage,
+        c.grade,
+        c.continuous_score,
+        c.completed_stations,
+        c.pending_stations,
+        ps.latest_completion,
+        NOW()
+    FROM participant_scores ps
+    CROSS JOIN LATERAL public.calculate_composite_score(
+        ps.scores, ps.continuous_scores, ps.pending_stations
+    ) AS c
+    -- Participants without a profile aren't listed
+    JOIN public.profiles pr ON pr.id = ps.user_id
+    ON CONFLICT (participant_id) DO UPDATE SET
+        participant_code = EXCLUDED.participant_code,
+        user_id = EXCLUDED.user_id,
+        name = EXCLUDED.name,
+        organisation = EXCLUDED.organisation,
+        gender = EXCLUDED.gender,
+        scores = EXCLUDED.scores,
+        continuous_scores = EXCLUDED.continuous_scores,
+        total_score = EXCLUDED.total_score,
+        max_possible_score = EXCLUDED.max_possible_score,
+        percentage = EXCLUDED.percentage,
+        grade = EXCLUDED.grade,
+        continuous_score = EXCLUDED.continuous_score,
+        completed_stations = EXCLUDED.completed_stations,
+        pending_stations = EXCLUDED.pending_stations,
+        latest_completion = EXCLUDED.latest_completion,
+        updated_at = EXCLUDED.updated_at
+    -- Unchanged entries aren't written, so they aren't broadcast either
+    WHERE (
+        leaderboard_entries.participant_code, leaderboard_entries.user_id,
+        leaderboard_entries.name, leaderboard_entries.organisation,
+        leaderboard_entries.gender, leaderboard_entries.hidden,
+        leaderboard_entries.scores, leaderboard_entries.continuous_scores,
+        leaderboard_entries.total_score, leaderboard_entries.max_possible_score,
+        leaderboard_entries.percentage, leaderboard_entries.grade,
+        leaderboard_entries.continuous_score, leaderboard_entries.completed_stations,
+        leaderboard_entries.pending_stations, leaderboard_entries.latest_completion,
+        leaderboard_entries.tie_breaks
+    ) IS DISTINCT FROM (
+        EXCLUDED.participant_code, EXCLUDED.user_id,
+        EXCLUDED.name, EXCLUDED.organisation,
+        EXCLUDED.gender, EXCLUDED.hidden,
+        EXCLUDED.scores, EXCLUDED.continuous_scores,
+        EXCLUDED.total_score, EXCLUDED.max_possible_score,
+        EXCLUDED.percentage, EXCLUDED.grade,
+        EXCLUDED.continuous_score, EXCLUDED.completed_stations,
+        EXCLUDED.pending_stations, EXCLUDED.latest_completion,
+        EXCLUDED.tie_breaks
+    );
+
+    GET DIAGNOSTICS refreshed_count = ROW_COUNT;
+    RETURN refreshed_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.refresh_leaderboard_entries(UUID[]) IS 'Recompute leaderboard entries for the given participants (all when NULL) under the active scoring profile; returns the number of entries that changed';
@@ -0,0 +1,65 @@
+-- Atomic re-scoring of station results
+-- Re-scoring updates a result and the scores of its individual attempts in one
+-- transaction, guarded by the version the job loaded. The version is bumped like
+-- a correction, so a correction started before the re-score is rejected as a
+-- conflict instead of overwriting it.
+
+-- Apply a re-score to a station result loaded at p_version. p_attempts is a JSON
+-- array of {id, score, continuous_score, score_explanation, unscorable_reason},
+-- one per stored attempt of the result. Returns the updated result, or no row when
+-- it has been changed since (the caller skips it).
+CREATE OR REPLACE FUNCTION public.rescore_station_result(
+    p_result_id UUID,
+    p_version INTEGER,
+    p_measurements JSONB,
+    p_score INTEGER,
+    p_continuous_score NUMERIC,
+    p_score_explanation JSONB,
+    p_unscorable_reason TEXT,
+    p_rule_set_id UUID,
+    p_attempts JSONB DEFAULT '[]'::jsonb
+) RETURNS SETOF public.station_results
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    v_updated public.station_results;
+BEGIN
+    IF jsonb_typeof(p_attempts) <> 'array' THEN
+        RAISE EXCEPTION 'p_attempts must be a JSON array';
+    END IF;
+
+    UPDATE public.station_results
+    SET measurements = p_measurements,
+        score = p_score,
+        continuous_score = p_continuous_score,
+        score_explanation = p_score_explanation,
+        unscorable_reason = p_unscorable_reason,
+        rule_set_id = p_rule_set_id,
+        version = version + 1
+    WHERE id = p_result_id
+      AND version = p_version
+    RETURNING * INTO v_updated;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.station_attempts a
+    SET score = (attempt->>'score')::INTEGER,
+        continuous_score = (attempt->>'continuous_score')::NUMERIC,
+        score_explanation = NULLIF(attempt->'score_explanation', 'null'::jsonb),
+        unscorable_reason = attempt->>'unscorable_reason'
+    FROM jsonb_array_elements(p_attempts) AS attempt
+    WHERE a.id = (attempt->>'id')::UUID
+      AND a.station_result_id = p_result_id;
+
+    RETURN NEXT v_updated;
+END;
+$$;
+
+COMMENT ON FUNCTION public.rescore_station_result(UUID, INTEGER, JSONB, INTEGER, NUMERIC, JSONB, TEXT, UUID, JSONB) IS 'Re-score a station result and its attempts in one transaction';
+
+-- Only the server (service role) writes station results
+REVOKE ALL ON FUNCTION public.rescore_station_result(UUID, INTEGER, JSONB, INTEGER, NUMERIC, JSONB, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rescore_station_result(UUID, INTEGER, JSONB, INTEGER, NUMERIC, JSONB, TEXT, UUID, JSONB) TO service_role;
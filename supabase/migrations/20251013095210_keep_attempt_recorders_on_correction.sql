@@ -0,0 +1,54 @@
+-- Keep who measured each attempt when a result is corrected
+-- Replacing a result's attempts used to record the corrector as the recorder of
+-- every attempt. Attempts that already existed now keep who recorded them and
+-- when; only attempts added by the correction are recorded by the corrector.
+-- The correction itself is in the result's history and audit trail.
+
+-- Replace the individual attempts of a station result.
+-- p_attempts is a JSON array of {attempt_number, measurements, score,
+-- continuous_score, score_explanation, unscorable_reason}. Attempts are matched
+-- to the ones they replace by attempt_number; new attempts are recorded by
+-- p_recorded_by.
+CREATE OR REPLACE FUNCTION public.replace_station_attempts(
+    p_result_id UUID,
+    p_attempts JSONB,
+    p_recorded_by UUID
+) RETURNS INTEGER
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+    inserted_count INTEGER;
+BEGIN
+    IF jsonb_typeof(p_attempts) <> 'array' OR jsonb_array_length(p_attempts) = 0 THEN
+        RAISE EXCEPTION 'p_attempts must be a non-empty JSON array';
+    END IF;
+
+    WITH replaced AS (
+        DELETE FROM public.station_attempts
+        WHERE station_result_id = p_result_id
+        RETURNING attempt_number, recorded_by, created_at
+    )
+    INSERT INTO public.station_attempts (
+        station_result_id, attempt_number, measurements, score, continuous_score,
+        score_explanation, unscorable_reason, recorded_by, created_at
+    )
+    SELECT
+        p_result_id,
+        (attempt->>'attempt_number')::INTEGER,
+        attempt->'measurements',
+        (attempt->>'score')::INTEGER,
+        (attempt->>'continuous_score')::NUMERIC,
+        NULLIF(attempt->'score_explanation', 'null'::jsonb),
+        attempt->>'unscorable_reason',
+        COALESCE(r.recorded_by, p_recorded_by),
+        COALESCE(r.created_at, NOW())
+    FROM jsonb_array_elements(p_attempts) AS attempt
+    LEFT JOIN replaced r ON r.attempt_number = (attempt->>'attempt_number')::INTEGER;
+
+    GET DIAGNOSTICS inserted_count = ROW_COUNT;
+    RETURN inserted_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.replace_station_attempts(UUID, JSONB, UUID) IS 'Replace the individual attempts behind a station result, keeping who recorded the existing ones';
@@ -0,0 +1,14 @@
+-- Under-18 policy per rule set version
+-- The youth policy lived only on the active scoring profile, so switching it
+-- changed how under-18s were handled for every event, including results scored
+-- with earlier rule set versions. Publishing now snapshots the profile's policy
+-- with the thresholds and bands; results and signups follow the version in
+-- effect. Versions published before this keep NULL and use the active profile.
+
+ALTER TABLE public.scoring_rule_sets
+ADD COLUMN IF NOT EXISTS youth_policy TEXT;
+
+ALTER TABLE public.scoring_rule_sets ADD CONSTRAINT scoring_rule_sets_youth_policy_check
+    CHECK (youth_policy IS NULL OR youth_policy IN ('block', 'youth_thresholds'));
+
+COMMENT ON COLUMN public.scoring_rule_sets.youth_policy IS 'How participants under 18 are handled under this version; NULL means the active scoring profile decides';
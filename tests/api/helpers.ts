@@ -0,0 +1,77 @@
+import { expect, type APIRequestContext } from "@playwright/test";
+
+// The API specs run against an app that is already running at TEST_BASE_URL
+export const hasTestServer = !!process.env.TEST_BASE_URL;
+
+export type TestRole = "admin" | "operator" | "participant";
+
+export interface TestAccount {
+  email: string;
+  password: string;
+}
+
+// Accounts come from .env.test (TEST_ADMIN_EMAIL, TEST_ADMIN_PASSWORD, ...);
+// specs that need one skip without it
+export function getTestAccount(role: TestRole): TestAccount | null {
+  const prefix = `TEST_${role.toUpperCase()}`;
+  const email = process.env[`${prefix}_EMAIL`];
+  const password = process.env[`${prefix}_PASSWORD`];
+  return email && password ? { email, password } : null;
+}
+
+// Signs the request context in; its cookies carry the session afterwards
+export async function login(request: APIRequestContext, account: TestAccount) {
+  const response = await request.post("/api/auth/login", { data: account });
+  expect(response.ok(), await response.text()).toBeTruthy();
+}
+
+export interface TestStationResult {
+  participantCode: string;
+  stationType: string;
+  measurements: Record<string, unknown>;
+}
+
+// A result the specs may record and delete again: TEST_PARTICIPANT_CODE (a
+// participant without a result at the station), TEST_STATION_TYPE and
+// TEST_STATION_MEASUREMENTS (JSON). Specs using it can't run side by side, so
+// run the API specs with one worker (npm run test:api).
+export function getTestStationResult(): TestStationResult | null {
+  const participantCode = process.env.TEST_PARTICIPANT_CODE;
+  const stationType = process.env.TEST_STATION_TYPE;
+  const measurements = process.env.TEST_STATION_MEASUREMENTS;
+  if (!participantCode || !stationType || !measurements) return null;
+
+  return {
+    participantCode,
+    stationType,
+    measurements: JSON.parse(measurements),
+  };
+}
+
+// Records the test result and returns its id
+export async function recordStationResult(
+  request: APIRequestContext,
+  result: TestStationResult
+): Promise<string> {
+  const response = await request.post("/api/station-results", {
+    data: result,
+  });
+  expect(response.status(), await response.text()).toBe(200);
+  return (await response.json()).result_id;
+}
+
+export async function deleteStationResult(
+  request: APIRequestContext,
+  resultId: string
+) {
+  const response = await request.delete(
+    `/api/station-results?id=${resultId}&reason=${encodeURIComponent("Test clean-up")}`
+  );
+  expect(response.ok(), await response.text()).toBeTruthy();
+}
+
+// Cookie header for requests made outside the request context, e.g. streams
+export async function getCookieHeader(request: APIRequestContext) {
+  const { cookies } = await request.storageState();
+  return cookies.map((cookie) => `${cookie.name}=${cookie.value}`).join("; ");
+}
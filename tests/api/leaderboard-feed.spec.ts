@@ -0,0 +1,58 @@
+import { test, expect } from "@playwright/test";
+import type { LeaderboardChange } from "@/lib/leaderboard/live";
+import { readServerSentEvents } from "../helpers/server-sent-events";
+import {
+  deleteStationResult,
+  getCookieHeader,
+  getTestAccount,
+  hasTestServer,
+  getTestStationResult,
+  login,
+  recordStationResult,
+} from "./helpers";
+
+test.describe("Leaderboard feed API", () => {
+  test.skip(!hasTestServer, "Set TEST_BASE_URL to the app under test");
+  test.skip(
+    process.env.NEXT_PUBLIC_LEADERBOARD_FEED !== "local",
+    "The app under test doesn't use the local leaderboard feed"
+  );
+
+  test("requires authentication", async ({ request }) => {
+    const response = await request.get("/api/leaderboard-feed");
+    expect(response.status()).toBe(401);
+  });
+
+  test("pushes recorded results to subscribers", async ({ request, baseURL }) => {
+    const operator = getTestAccount("operator");
+    const result = getTestStationResult();
+    test.skip(!operator || !result, "Needs an operator account and a test result");
+
+    await login(request, operator!);
+    const abort = new AbortController();
+    const stream = await fetch(new URL("/api/leaderboard-feed", baseURL), {
+      headers: { cookie: await getCookieHeader(request) },
+      signal: abort.signal,
+    });
+    expect(stream.status).toBe(200);
+    expect(stream.headers.get("content-type")).toContain("text/event-stream");
+
+    const pushed = readServerSentEvents<LeaderboardChange>(stream.body!, (events) =>
+      events.some((event) => event.participant_code === result!.participantCode)
+    );
+
+    const resultId = await recordStationResult(request, result!);
+    try {
+      const events = await pushed;
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: "upsert",
+          participant_code: result!.participantCode,
+        })
+      );
+    } finally {
+      abort.abort();
+      await deleteStationResult(request, resultId);
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { test, expect } from "@playwright/test";
+import { formatLeaderboardName } from "@/lib/leaderboard/visibility";
+import { getTestAccount, hasTestServer, login } from "./helpers";
+import { getTestAdminClient } from "../helpers/supabase";
+
+test.describe("Leaderboard visibility API", () => {
+  test.skip(!hasTestServer, "Set TEST_BASE_URL to the app under test");
+  // Every test changes the same participant's visibility
+  test.describe.configure({ mode: "serial" });
+
+  const participant = getTestAccount("participant");
+  const supabase = getTestAdminClient();
+
+  test("requires authentication", async ({ request }) => {
+    const response = await request.put("/api/participants/current/visibility", {
+      data: { leaderboard_visibility: "initials" },
+    });
+    expect(response.status()).toBe(401);
+  });
+
+  test.describe("as a participant", () => {
+    test.skip(
+      !participant || !supabase,
+      "Needs a participant account and the Supabase service role key"
+    );
+
+    let userId: string;
+    let name: string;
+    let original: {
+      leaderboard_visibility: string;
+      leaderboard_alias: string | null;
+    };
+
+    test.beforeAll(async () => {
+      const { data: profile, error } = await supabase!
+        .from("profiles")
+        .select("id, name, leaderboard_visibility, leaderboard_alias")
+        .eq("email", participant!.email)
+        .single();
+      expect(error).toBeNull();
+
+      userId = profile!.id;
+      name = profile!.name;
+      original = {
+        leaderboard_visibility: profile!.leaderboard_visibility,
+        leaderboard_alias: profile!.leaderboard_alias,
+      };
+    });
+
+    test.afterAll(async () => {
+      if (!original) return;
+      const { error } = await supabase!
+        .from("profiles")
+        .update(original)
+        .eq("id", userId);
+      expect(error).toBeNull();
+    });
+
+    test.beforeEach(async ({ request }) => {
+      await login(request, participant!);
+    });
+
+    async function getEntry() {
+      const { data: entry, error } = await supabase!
+        .from("leaderboard_entries")
+        .select("participant_id, name, organisation, hidden")
+        .eq("user_id", userId)
+        .maybeSingle();
+      expect(error).toBeNull();
+      return entry;
+    }
+
+    test("rejects unknown visibilities and missing aliases", async ({ request }) => {
+      for (const data of [
+        { leaderboard_visibility: "everyone" },
+        { leaderboard_visibility: "alias", leaderboard_alias: "  " },
+        { leaderboard_visibility: "alias", leaderboard_alias: "x".repeat(31) },
+      ]) {
+        const response = await request.put(
+          "/api/participants/current/visibility",
+          { data }
+        );
+        expect(response.status(), JSON.stringify(data)).toBe(400);
+      }
+    });
+
+    test("shows the participant under their alias", async ({ request }) => {
+      const response = await request.put("/api/participants/current/visibility", {
+        data: { leaderboard_visibility: "alias", leaderboard_alias: "  Test Runner  " },
+      });
+      expect(response.status(), await response.text()).toBe(200);
+      expect(await response.json()).toEqual({
+        leaderboard_visibility: "alias",
+        leaderboard_alias: "Test Runner",
+      });
+
+      const entry = await getEntry();
+      test.skip(!entry, "The test participant has no leaderboard entry");
+      expect(entry).toMatchObject({
+        name: "Test Runner",
+        organisation: null,
+        hidden: false,
+      });
+    });
+
+    test("drops the alias when another visibility is chosen", async ({ request }) => {
+      const response = await request.put("/api/participants/current/visibility", {
+        data: { leaderboard_visibility: "initials", leaderboard_alias: "Test Runner" },
+      });
+      expect(response.status(), await response.text()).toBe(200);
+      expect(await response.json()).toEqual({
+        leaderboard_visibility: "initials",
+        leaderboard_alias: null,
+      });
+
+      const entry = await getEntry();
+      test.skip(!entry, "The test participant has no leaderboard entry");
+      expect(entry).toMatchObject({
+        name: formatLeaderboardName(name, "initials"),
+        hidden: false,
+      });
+    });
+
+    test("leaves hidden participants off the leaderboard", async ({ request }) => {
+      const response = await request.put("/api/participants/current/visibility", {
+        data: { leaderboard_visibility: "hidden" },
+      });
+      expect(response.status(), await response.text()).toBe(200);
+
+      const entry = await getEntry();
+      test.skip(!entry, "The test participant has no leaderboard entry");
+      expect(entry).toMatchObject({ name: null, organisation: null, hidden: true });
+
+      const { data: board, error } = await supabase!.rpc("get_leaderboard", {
+        p_limit: 1000,
+      });
+      expect(error).toBeNull();
+      expect(board!.map((row) => row.participant_id)).not.toContain(
+        entry!.participant_id
+      );
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { test, expect } from "@playwright/test";
+import {
+  deleteStationResult,
+  getTestAccount,
+  hasTestServer,
+  getTestStationResult,
+  login,
+  recordStationResult,
+} from "./helpers";
+
+test.describe("Station result corrections API", () => {
+  test.skip(!hasTestServer, "Set TEST_BASE_URL to the app under test");
+  // Every test records the same result
+  test.describe.configure({ mode: "serial" });
+
+  const operator = getTestAccount("operator");
+  const result = getTestStationResult();
+  test.skip(!operator || !result, "Needs an operator account and a test result");
+
+  let resultId: string;
+
+  test.beforeEach(async ({ request }) => {
+    await login(request, operator!);
+    resultId = await recordStationResult(request, result!);
+  });
+
+  test.afterEach(async ({ request }) => {
+    await deleteStationResult(request, resultId);
+  });
+
+  test("requires a reason", async ({ request }) => {
+    const response = await request.patch("/api/station-results", {
+      data: { resultId, measurements: result!.measurements, reason: " " },
+    });
+    expect(response.status()).toBe(400);
+  });
+
+  test("records each correction in the result's history", async ({ request }) => {
+    const response = await request.patch("/api/station-results", {
+      data: {
+        resultId,
+        measurements: result!.measurements,
+        reason: "Re-measured",
+        expectedVersion: 1,
+      },
+    });
+    expect(response.status(), await response.text()).toBe(200);
+    expect((await response.json()).version).toBe(2);
+
+    const history = await request.get(`/api/station-results/${resultId}/versions`);
+    expect(history.ok()).toBeTruthy();
+    const { current_version, versions } = await history.json();
+    expect(current_version).toBe(2);
+    expect(versions.map((version: { version: number }) => version.version)).toEqual([2, 1]);
+    expect(versions[0].reason).toBe("Re-measured");
+  });
+
+  test("rejects corrections to a version that has since changed", async ({ request }) => {
+    const correct = (expectedVersion: number) =>
+      request.patch("/api/station-results", {
+        data: {
+          resultId,
+          measurements: result!.measurements,
+          reason: "Re-measured",
+          expectedVersion,
+        },
+      });
+
+    expect((await correct(1)).status()).toBe(200);
+
+    const stale = await correct(1);
+    expect(stale.status()).toBe(409);
+    expect((await stale.json()).currentVersion).toBe(2);
+  });
+});
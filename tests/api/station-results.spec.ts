@@ -0,0 +1,87 @@
+import { test, expect } from "@playwright/test";
+import {
+  deleteStationResult,
+  getTestAccount,
+  getTestStationResult,
+  hasTestServer,
+  login,
+  recordStationResult,
+} from "./helpers";
+
+test.describe("Station results API", () => {
+  test.skip(!hasTestServer, "Set TEST_BASE_URL to the app under test");
+  // Every test records the same result
+  test.describe.configure({ mode: "serial" });
+
+  const operator = getTestAccount("operator");
+  const result = getTestStationResult();
+
+  test("requires authentication", async ({ request }) => {
+    const response = await request.post("/api/station-results", {
+      data: { participantCode: "P-0000", stationType: "balance", measurements: {} },
+    });
+    expect(response.status()).toBe(401);
+  });
+
+  test.describe("as an operator", () => {
+    test.skip(!operator || !result, "Needs an operator account and a test result");
+
+    test.beforeEach(async ({ request }) => {
+      await login(request, operator!);
+    });
+
+    test("rejects results without measurements", async ({ request }) => {
+      const response = await request.post("/api/station-results", {
+        data: {
+          participantCode: result!.participantCode,
+          stationType: result!.stationType,
+        },
+      });
+      expect(response.status()).toBe(400);
+    });
+
+    test("scores a result and explains the score", async ({ request }) => {
+      const response = await request.post("/api/station-results", {
+        data: result,
+      });
+      expect(response.status(), await response.text()).toBe(200);
+      const recorded = await response.json();
+
+      try {
+        expect(recorded.participant_code).toBe(result!.participantCode);
+        expect(recorded.score_explanation.station_type).toBe(result!.stationType);
+        expect(recorded.attempts).toHaveLength(1);
+
+        if (recorded.score === null) {
+          // Results that can't be scored are saved as pending, with the reason
+          expect(recorded.unscorable_reason).toBeTruthy();
+          expect(recorded.score_explanation.unscorable.reason).toBe(
+            recorded.unscorable_reason
+          );
+          expect(recorded.warning).toContain("Score pending");
+        } else {
+          expect([1, 2, 3]).toContain(recorded.score);
+          expect(recorded.score_explanation.score).toBe(recorded.score);
+          expect(recorded.score_explanation.metrics.length).toBeGreaterThan(0);
+          expect(recorded.warning).toBeNull();
+        }
+      } finally {
+        await deleteStationResult(request, recorded.result_id);
+      }
+    });
+
+    test("rejects a second result at the same station", async ({ request }) => {
+      const resultId = await recordStationResult(request, result!);
+
+      try {
+        const duplicate = await request.post("/api/station-results", {
+          data: result,
+        });
+        expect(duplicate.status()).toBe(409);
+        expect((await duplicate.json()).existingResultId).toBe(resultId);
+      } finally {
+        await deleteStationResult(request, resultId);
+      }
+    });
+  });
+});
@@ -0,0 +1,34 @@
+// Reads JSON server-sent events from a stream until `done` says there are
+// enough, or the stream ends
+export async function readServerSentEvents<T>(
+  stream: ReadableStream<Uint8Array>,
+  done: (events: T[]) => boolean
+): Promise<T[]> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const events: T[] = [];
+  let buffer = "";
+
+  try {
+    while (!done(events)) {
+      const { value, done: ended } = await reader.read();
+      if (ended) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line; comment lines start with ":"
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const message = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        if (message.startsWith("data: ")) {
+          events.push(JSON.parse(message.slice("data: ".length)) as T);
+        }
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return events;
+}
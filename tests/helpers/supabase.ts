@@ -0,0 +1,15 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/types/database";
+
+// Service-role client for checking the database behind the app, from
+// NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY; specs that need it
+// skip without them
+export function getTestAdminClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) return null;
+
+  return createClient<Database>(url, serviceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+}
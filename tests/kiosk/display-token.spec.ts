@@ -0,0 +1,101 @@
+import { test, expect } from "@playwright/test";
+import { createHmac } from "crypto";
+import { createDisplayToken, verifyDisplayToken } from "@/lib/kiosk/token";
+
+const SECRET = "test-kiosk-secret";
+
+function encode(payload: unknown) {
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+// A token for any payload, signed the way createDisplayToken signs
+function signedToken(payload: unknown, secret = SECRET) {
+  const encodedPayload = encode(payload);
+  const signature = createHmac("sha256", secret)
+    .update(encodedPayload)
+    .digest("base64url");
+  return `${encodedPayload}.${signature}`;
+}
+
+const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+test.describe("verifyDisplayToken", () => {
+  let previousSecret: string | undefined;
+
+  test.beforeAll(() => {
+    previousSecret = process.env.KIOSK_TOKEN_SECRET;
+    process.env.KIOSK_TOKEN_SECRET = SECRET;
+  });
+
+  test.afterAll(() => {
+    if (previousSecret === undefined) {
+      delete process.env.KIOSK_TOKEN_SECRET;
+    } else {
+      process.env.KIOSK_TOKEN_SECRET = previousSecret;
+    }
+  });
+
+  test("returns the payload of a token from createDisplayToken", () => {
+    const { token, expires_at } = createDisplayToken("display-1", 3, 2);
+    const payload = verifyDisplayToken(token);
+
+    expect(payload).toMatchObject({ display_id: "display-1", version: 3 });
+    expect(new Date(payload!.exp * 1000).toISOString()).toBe(expires_at);
+  });
+
+  test("rejects expired tokens", () => {
+    const exp = Math.floor(Date.now() / 1000) - 1;
+    expect(
+      verifyDisplayToken(signedToken({ display_id: "display-1", version: 1, exp }))
+    ).toBeNull();
+  });
+
+  test("rejects tokens signed with another secret", () => {
+    const token = signedToken(
+      { display_id: "display-1", version: 1, exp: inOneHour() },
+      "another-secret"
+    );
+    expect(verifyDisplayToken(token)).toBeNull();
+  });
+
+  test("rejects tokens whose payload was changed", () => {
+    const { token } = createDisplayToken("display-1", 1, 1);
+    const [, signature] = token.split(".");
+    const forged = encode({ display_id: "display-2", version: 1, exp: inOneHour() });
+
+    expect(verifyDisplayToken(`${forged}.${signature}`)).toBeNull();
+  });
+
+  test("rejects malformed tokens", () => {
+    const { token } = createDisplayToken("display-1", 1, 1);
+    const [encodedPayload, signature] = token.split(".");
+
+    expect(verifyDisplayToken("")).toBeNull();
+    expect(verifyDisplayToken(encodedPayload)).toBeNull();
+    expect(verifyDisplayToken(`${encodedPayload}.`)).toBeNull();
+    expect(verifyDisplayToken(`.${signature}`)).toBeNull();
+    expect(verifyDisplayToken(`${encodedPayload}.${signature.slice(1)}`)).toBeNull();
+  });
+
+  test("rejects signed payloads without the expected fields", () => {
+    const exp = inOneHour();
+
+    for (const payload of [
+      { version: 1, exp },
+      { display_id: "display-1", version: "1", exp },
+      { display_id: "display-1", version: 1 },
+      null,
+    ]) {
+      expect(verifyDisplayToken(signedToken(payload))).toBeNull();
+    }
+  });
+
+  test("rejects signed payloads that aren't JSON", () => {
+    const encodedPayload = Buffer.from("not json").toString("base64url");
+    const signature = createHmac("sha256", SECRET)
+      .update(encodedPayload)
+      .digest("base64url");
+
+    expect(verifyDisplayToken(`${encodedPayload}.${signature}`)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { test, expect } from "@playwright/test";
+import { formatLeaderboardName } from "@/lib/leaderboard/visibility";
+import type { LeaderboardVisibility } from "@/lib/types/database";
+import { getTestAdminClient } from "../helpers/supabase";
+
+// [name, visibility, alias, expected]
+const CASES: [string, LeaderboardVisibility, string | null, string | null][] = [
+  ["Ann Lee", "full_name", null, "Ann Lee"],
+  ["Ann Lee", "full_name", "Speedy", "Ann Lee"],
+  ["Ann Lee", "initials", null, "A. L."],
+  ["ann maria van der lee", "initials", null, "A. L."],
+  ["  Ann   Lee  ", "initials", null, "A. L."],
+  ["Cher", "initials", null, "C."],
+  ["Élodie Ørsted", "initials", null, "É. Ø."],
+  ["𝒜nn Lee", "initials", null, "𝒜. L."],
+  ["", "initials", null, null],
+  ["   ", "initials", null, null],
+  ["Ann Lee", "alias", "Speedy", "Speedy"],
+  ["Ann Lee", "alias", "  Speedy  ", "Speedy"],
+  ["Ann Lee", "alias", "   ", "A. L."],
+  ["Ann Lee", "alias", null, "A. L."],
+  ["Ann Lee", "hidden", "Speedy", null],
+  ["", "hidden", null, null],
+];
+
+test.describe("formatLeaderboardName", () => {
+  for (const [name, visibility, alias, expected] of CASES) {
+    test(`shows ${JSON.stringify(name)} as ${visibility} (alias ${JSON.stringify(alias)})`, () => {
+      expect(formatLeaderboardName(name, visibility, alias)).toBe(expected);
+    });
+  }
+
+  // The preview must show what the database puts on the leaderboard
+  test("matches leaderboard_display_name in the database", async () => {
+    const supabase = getTestAdminClient();
+    test.skip(!supabase, "Needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY");
+
+    for (const [name, visibility, alias] of CASES) {
+      const { data, error } = await supabase!.rpc("leaderboard_display_name", {
+        p_name: name,
+        p_visibility: visibility,
+        p_alias: alias,
+      });
+
+      expect(error).toBeNull();
+      expect(data, `${name} as ${visibility}`).toBe(
+        formatLeaderboardName(name, visibility, alias)
+      );
+    }
+  });
+});
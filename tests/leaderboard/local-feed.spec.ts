@@ -0,0 +1,92 @@
+import { test, expect } from "@playwright/test";
+import {
+  createLocalLeaderboardFeed,
+  type LeaderboardChange,
+  type LeaderboardFeedStatus,
+} from "@/lib/leaderboard/live";
+import {
+  createLeaderboardEventStream,
+  getLocalLeaderboardFeed,
+} from "@/lib/leaderboard/local-feed";
+import { readServerSentEvents } from "../helpers/server-sent-events";
+
+const change: LeaderboardChange = {
+  type: "upsert",
+  participant_id: "7d3c1f0e-0000-4000-8000-000000000001",
+  participant_code: "P-0001",
+  total_score: 7.5,
+};
+
+test.describe("Local leaderboard feed", () => {
+  test("reports connecting until it is marked live", () => {
+    const feed = createLocalLeaderboardFeed();
+    const statuses: LeaderboardFeedStatus[] = [];
+
+    const unsubscribe = feed.subscribe(() => {}, (status) => statuses.push(status));
+    expect(statuses).toEqual(["connecting"]);
+
+    feed.setStatus("live");
+    expect(statuses).toEqual(["connecting", "live"]);
+    unsubscribe();
+  });
+
+  test("delivers published changes to subscribers until they unsubscribe", () => {
+    const feed = createLocalLeaderboardFeed();
+    const received: LeaderboardChange[] = [];
+
+    const unsubscribe = feed.subscribe((pushed) => received.push(pushed));
+    feed.publish(change);
+    unsubscribe();
+    feed.publish({ ...change, total_score: 9 });
+
+    expect(received).toEqual([change]);
+  });
+
+  test("the server feed is shared and live", () => {
+    const statuses: LeaderboardFeedStatus[] = [];
+    const unsubscribe = getLocalLeaderboardFeed().subscribe(
+      () => {},
+      (status) => statuses.push(status)
+    );
+
+    expect(getLocalLeaderboardFeed()).toBe(getLocalLeaderboardFeed());
+    expect(statuses).toEqual(["live"]);
+    unsubscribe();
+  });
+
+  test("streams published changes as server-sent events", async () => {
+    const feed = getLocalLeaderboardFeed();
+    const abort = new AbortController();
+    const stream = createLeaderboardEventStream(feed, abort.signal);
+
+    const events = readServerSentEvents<LeaderboardChange>(
+      stream,
+      (received) => received.length === 2
+    );
+    const deleted: LeaderboardChange = {
+      type: "delete",
+      participant_id: change.participant_id,
+      participant_code: null,
+      total_score: null,
+    };
+    feed.publish(change);
+    feed.publish(deleted);
+
+    expect(await events).toEqual([change, deleted]);
+    abort.abort();
+  });
+
+  test("stops streaming when the client disconnects", async () => {
+    const feed = createLocalLeaderboardFeed();
+    const abort = new AbortController();
+    const stream = createLeaderboardEventStream(feed, abort.signal);
+    const reader = stream.getReader();
+
+    // The opening comment
+    await reader.read();
+    abort.abort();
+    feed.publish(change);
+
+    expect((await reader.read()).done).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+import { test, expect } from "@playwright/test";
+import {
+  averageAttemptMeasurements,
+  selectBestAttempt,
+  validateAttemptCount,
+  type ScoredAttempt,
+} from "@/lib/scoring/attempts";
+import type {
+  MetricDirection,
+  ScoreExplanation,
+  StationMetricDefinition,
+} from "@/lib/types/database";
+
+function metric(
+  key: string,
+  direction: MetricDirection
+): StationMetricDefinition {
+  return {
+    key,
+    label: key,
+    input: "number",
+    min: 0,
+    max: 100,
+    direction,
+    scoring: "thresholds",
+  };
+}
+
+function attempt(
+  attemptNumber: number,
+  score: number | null,
+  continuousScore: number | null,
+  measurements: Record<string, number>
+): ScoredAttempt {
+  return {
+    attemptNumber,
+    measurements,
+    score,
+    continuousScore,
+    unscorableReason: score === null ? "missing_thresholds" : null,
+    explanation: {} as ScoreExplanation,
+  };
+}
+
+test.describe("validateAttemptCount", () => {
+  test("needs at least one attempt", () => {
+    expect(validateAttemptCount("best_of", 3, 0)).toBe(
+      "At least one attempt is required"
+    );
+  });
+
+  test("allows one attempt at single-attempt stations", () => {
+    expect(validateAttemptCount("single", 1, 1)).toBeNull();
+    expect(validateAttemptCount("single", 3, 2)).toBe(
+      "This station only allows a single attempt"
+    );
+  });
+
+  test("allows up to the station's maximum", () => {
+    expect(validateAttemptCount("best_of", 3, 3)).toBeNull();
+    expect(validateAttemptCount("average_of", 3, 4)).toBe(
+      "This station allows at most 3 attempts"
+    );
+  });
+});
+
+test.describe("selectBestAttempt", () => {
+  const grip = [metric("grip_kg", "higher")];
+
+  test("prefers the highest score", () => {
+    const best = selectBestAttempt(grip, [
+      attempt(1, 2, 60, { grip_kg: 30 }),
+      attempt(2, 3, 10, { grip_kg: 20 }),
+      attempt(3, 1, 90, { grip_kg: 40 }),
+    ]);
+    expect(best.attemptNumber).toBe(2);
+  });
+
+  test("breaks equal scores on the continuous score", () => {
+    const best = selectBestAttempt(grip, [
+      attempt(1, 2, 40, { grip_kg: 30 }),
+      attempt(2, 2, 55, { grip_kg: 28 }),
+    ]);
+    expect(best.attemptNumber).toBe(2);
+  });
+
+  test("then on the primary metric in its direction", () => {
+    expect(
+      selectBestAttempt(grip, [
+        attempt(1, 2, null, { grip_kg: 30 }),
+        attempt(2, 2, null, { grip_kg: 32 }),
+      ]).attemptNumber
+    ).toBe(2);
+
+    expect(
+      selectBestAttempt([metric("time_s", "lower")], [
+        attempt(1, 2, null, { time_s: 12 }),
+        attempt(2, 2, null, { time_s: 14 }),
+      ]).attemptNumber
+    ).toBe(1);
+  });
+
+  test("keeps the earlier attempt when range metrics tie", () => {
+    const best = selectBestAttempt([metric("bmi", "range")], [
+      attempt(1, 2, null, { bmi: 22 }),
+      attempt(2, 2, null, { bmi: 24 }),
+    ]);
+    expect(best.attemptNumber).toBe(1);
+  });
+
+  test("only picks an unscorable attempt when none can be scored", () => {
+    expect(
+      selectBestAttempt(grip, [
+        attempt(1, null, null, { grip_kg: 50 }),
+        attempt(2, 1, 5, { grip_kg: 10 }),
+      ]).attemptNumber
+    ).toBe(2);
+
+    expect(
+      selectBestAttempt(grip, [
+        attempt(1, null, null, { grip_kg: 50 }),
+        attempt(2, null, null, { grip_kg: 10 }),
+      ]).attemptNumber
+    ).toBe(1);
+  });
+});
+
+test.describe("averageAttemptMeasurements", () => {
+  test("averages each numeric field to 2 decimals", () => {
+    expect(
+      averageAttemptMeasurements([
+        { left_kg: 30, right_kg: 31 },
+        { left_kg: 31, right_kg: 32 },
+        { left_kg: 32, right_kg: 32 },
+      ])
+    ).toEqual({ left_kg: 31, right_kg: 31.67 });
+  });
+
+  test("averages fields over the attempts that recorded them", () => {
+    expect(
+      averageAttemptMeasurements([
+        { time_s: 10, errors: 2 },
+        { time_s: 12 },
+        { time_s: Number.NaN, errors: 4 },
+      ])
+    ).toEqual({ time_s: 11, errors: 3 });
+  });
+});
@@ -0,0 +1,104 @@
+import { test, expect } from "@playwright/test";
+import {
+  calculateContinuousMeasurementScore,
+  calculateMeasurementScore,
+} from "@/lib/scoring/calculator";
+import type { ScoringThreshold } from "@/lib/types/database";
+
+function threshold(
+  min_average_value: number,
+  max_average_value: number
+): ScoringThreshold {
+  return {
+    id: "threshold",
+    station_type: "grip_strength",
+    gender: "male",
+    min_age: 18,
+    max_age: null,
+    min_average_value,
+    max_average_value,
+    created_at: null,
+    updated_at: null,
+  };
+}
+
+// The discrete score a continuous score falls in
+function band(score: number) {
+  if (score < 100 / 3) return 1;
+  if (score > 200 / 3) return 3;
+  return 2;
+}
+
+test.describe("calculateContinuousMeasurementScore", () => {
+  test.describe("when higher is better", () => {
+    const average = threshold(20, 40);
+    const limits = { floor: 0, cap: 60 };
+    const score = (value: number) =>
+      calculateContinuousMeasurementScore(value, average, "higher", limits);
+
+    test("maps the average range to 33.3-66.7", () => {
+      expect(score(20)).toBeCloseTo(100 / 3, 5);
+      expect(score(30)).toBeCloseTo(50, 5);
+      expect(score(40)).toBeCloseTo(200 / 3, 5);
+    });
+
+    test("maps the floor and cap to 0 and 100", () => {
+      expect(score(0)).toBe(0);
+      expect(score(10)).toBeCloseTo(50 / 3, 5);
+      expect(score(50)).toBeCloseTo(250 / 3, 5);
+      expect(score(60)).toBe(100);
+    });
+
+    test("stays within 0-100 beyond the limits", () => {
+      expect(score(-10)).toBe(0);
+      expect(score(90)).toBe(100);
+    });
+  });
+
+  test.describe("when lower is better", () => {
+    const average = threshold(10, 20);
+    const limits = { floor: 40, cap: 5 };
+    const score = (value: number) =>
+      calculateContinuousMeasurementScore(value, average, "lower", limits);
+
+    test("scores faster times higher", () => {
+      expect(score(5)).toBe(100);
+      expect(score(7.5)).toBeCloseTo(250 / 3, 5);
+      expect(score(10)).toBeCloseTo(200 / 3, 5);
+      expect(score(15)).toBeCloseTo(50, 5);
+      expect(score(20)).toBeCloseTo(100 / 3, 5);
+      expect(score(30)).toBeCloseTo(50 / 3, 5);
+      expect(score(40)).toBe(0);
+      expect(score(60)).toBe(0);
+    });
+  });
+
+  test("always falls in the band of the discrete score", () => {
+    const cases = [
+      {
+        direction: "higher" as const,
+        average: threshold(20, 40),
+        limits: { floor: 0, cap: 60 },
+      },
+      {
+        direction: "lower" as const,
+        average: threshold(10, 20),
+        limits: { floor: 40, cap: 5 },
+      },
+    ];
+
+    cases.forEach(({ direction, average, limits }) => {
+      for (let value = -5.5; value <= 70; value += 1.5) {
+        const continuous = calculateContinuousMeasurementScore(
+          value,
+          average,
+          direction,
+          limits
+        );
+        expect(band(continuous), `${direction} ${value}`).toBe(
+          calculateMeasurementScore(value, average, direction)
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { test, expect } from "@playwright/test";
+import {
+  buildThresholdCoverage,
+  COVERAGE_MAX_AGE,
+  COVERAGE_MIN_AGE,
+  type ThresholdRange,
+} from "@/lib/scoring/thresholds";
+
+function threshold(
+  id: string,
+  min_age: number,
+  max_age: number | null,
+  overrides: Partial<ThresholdRange> = {}
+): ThresholdRange {
+  return {
+    id,
+    station_type: "balance",
+    gender: "male",
+    min_age,
+    max_age,
+    min_average_value: 10,
+    max_average_value: 20,
+    ...overrides,
+  };
+}
+
+test.describe("buildThresholdCoverage", () => {
+  test("covers the default age span", () => {
+    const report = buildThresholdCoverage(
+      [threshold("all", 18, null)],
+      ["balance"],
+      ["male"]
+    );
+
+    expect(report.min_age).toBe(COVERAGE_MIN_AGE);
+    expect(report.max_age).toBe(COVERAGE_MAX_AGE);
+    expect(report.rows[0].segments).toEqual([
+      {
+        min_age: COVERAGE_MIN_AGE,
+        max_age: COVERAGE_MAX_AGE,
+        status: "covered",
+        threshold_ids: ["all"],
+      },
+    ]);
+    expect(report.summary).toEqual({
+      rows: 1,
+      rows_with_gaps: 0,
+      rows_with_overlaps: 0,
+    });
+  });
+
+  test("merges consecutive ages into segments by matching thresholds", () => {
+    const report = buildThresholdCoverage(
+      [threshold("young", 18, 39), threshold("older", 40, null)],
+      ["balance"],
+      ["male"],
+      18,
+      60
+    );
+
+    expect(report.rows[0].segments).toEqual([
+      { min_age: 18, max_age: 39, status: "covered", threshold_ids: ["young"] },
+      { min_age: 40, max_age: 60, status: "covered", threshold_ids: ["older"] },
+    ]);
+    expect(report.rows[0].gap_ages).toBe(0);
+    expect(report.rows[0].overlap_ages).toBe(0);
+  });
+
+  test("reports ages no threshold covers as gaps", () => {
+    const report = buildThresholdCoverage(
+      [threshold("young", 20, 29), threshold("older", 35, 40)],
+      ["balance"],
+      ["male"],
+      18,
+      40
+    );
+    const [row] = report.rows;
+
+    expect(row.segments.map((segment) => segment.status)).toEqual([
+      "gap",
+      "covered",
+      "gap",
+      "covered",
+    ]);
+    expect(row.segments[0]).toMatchObject({ min_age: 18, max_age: 19 });
+    expect(row.segments[2]).toMatchObject({
+      min_age: 30,
+      max_age: 34,
+      threshold_ids: [],
+    });
+    expect(row.gap_ages).toBe(7);
+    expect(report.summary.rows_with_gaps).toBe(1);
+  });
+
+  test("reports ages several thresholds cover as overlaps", () => {
+    const report = buildThresholdCoverage(
+      [threshold("young", 18, 45), threshold("older", 40, null)],
+      ["balance"],
+      ["male"],
+      18,
+      50
+    );
+    const [row] = report.rows;
+
+    expect(row.segments).toEqual([
+      { min_age: 18, max_age: 39, status: "covered", threshold_ids: ["young"] },
+      {
+        min_age: 40,
+        max_age: 45,
+        status: "overlap",
+        threshold_ids: ["young", "older"],
+      },
+      { min_age: 46, max_age: 50, status: "covered", threshold_ids: ["older"] },
+    ]);
+    expect(row.overlap_ages).toBe(6);
+    expect(report.summary.rows_with_overlaps).toBe(1);
+  });
+
+  test("splits covered ages where the matching threshold changes", () => {
+    const report = buildThresholdCoverage(
+      [threshold("a", 18, 18), threshold("b", 19, 19)],
+      ["balance"],
+      ["male"],
+      18,
+      19
+    );
+
+    expect(report.rows[0].segments).toHaveLength(2);
+  });
+
+  test("has a row for every station and gender", () => {
+    const report = buildThresholdCoverage(
+      [
+        threshold("balance-male", 18, null),
+        threshold("grip-female", 18, null, {
+          station_type: "grip_strength",
+          gender: "female",
+        }),
+      ],
+      ["balance", "grip_strength"],
+      ["male", "female"],
+      18,
+      20
+    );
+
+    expect(
+      report.rows.map((row) => [row.station_type, row.gender, row.gap_ages])
+    ).toEqual([
+      ["balance", "male", 0],
+      ["balance", "female", 3],
+      ["grip_strength", "male", 3],
+      ["grip_strength", "female", 0],
+    ]);
+    expect(report.summary).toEqual({
+      rows: 4,
+      rows_with_gaps: 2,
+      rows_with_overlaps: 0,
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { test, expect } from "@playwright/test";
+import {
+  parseThresholdFile,
+  serializeThresholds,
+} from "@/lib/scoring/threshold-files";
+
+const HEADER =
+  "station_type,gender,min_age,max_age,min_average_value,max_average_value";
+
+function csv(...rows: string[]) {
+  return [HEADER, ...rows].join("\n");
+}
+
+test.describe("parseThresholdFile", () => {
+  test.describe("CSV", () => {
+    test("parses rows into thresholds", () => {
+      const parsed = parseThresholdFile(
+        csv("balance,male,18,39,10,20", "balance,male,40,,8.5,15"),
+        "csv"
+      );
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.thresholds).toEqual([
+        {
+          station_type: "balance",
+          gender: "male",
+          min_age: 18,
+          max_age: 39,
+          min_average_value: 10,
+          max_average_value: 20,
+        },
+        {
+          station_type: "balance",
+          gender: "male",
+          min_age: 40,
+          max_age: null,
+          min_average_value: 8.5,
+          max_average_value: 15,
+        },
+      ]);
+    });
+
+    test("accepts columns in any order and case, quoted fields and CRLF", () => {
+      const parsed = parseThresholdFile(
+        [
+          "Gender,STATION_TYPE,min_age,max_age,min_average_value,max_average_value",
+          '" Female ","balance",18,"",10,20',
+          "",
+        ].join("\r\n"),
+        "csv"
+      );
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.thresholds).toEqual([
+        expect.objectContaining({
+          station_type: "balance",
+          gender: "female",
+          max_age: null,
+        }),
+      ]);
+    });
+
+    test("rejects files missing columns", () => {
+      const parsed = parseThresholdFile(
+        "station_type,gender,min_age\nbalance,male,18",
+        "csv"
+      );
+
+      expect(parsed.thresholds).toEqual([]);
+      expect(parsed.errors).toEqual([
+        {
+          row: 0,
+          message:
+            "Missing CSV columns: max_age, min_average_value, max_average_value",
+        },
+      ]);
+    });
+
+    test("rejects files without rows", () => {
+      expect(parseThresholdFile(csv(), "csv").errors).toEqual([
+        { row: 0, message: "No thresholds were provided" },
+      ]);
+    });
+
+    test("reports invalid rows by data row number and keeps the rest", () => {
+      const parsed = parseThresholdFile(
+        csv(
+          "balance,male,18,39,10,20",
+          "balance,,18,39,10,20",
+          "balance,other,18,39,10,20",
+          "balance,female,18,old,10,20",
+          "balance,female,40,30,10,20",
+          "balance,female,18,39,20,10",
+          "grip_strength,female,18,,30,40"
+        ),
+        "csv"
+      );
+
+      expect(parsed.thresholds.map((t) => t.station_type)).toEqual([
+        "balance",
+        "grip_strength",
+      ]);
+      expect(parsed.errors).toEqual([
+        {
+          row: 2,
+          message:
+            "Missing required fields: station_type, gender, min_age, min_average_value, max_average_value",
+        },
+        { row: 3, message: "Gender must be one of: male, female" },
+        {
+          row: 4,
+          message:
+            "max_age must be a number or left blank for open-ended ranges",
+        },
+        {
+          row: 5,
+          message: "Minimum age cannot be greater than maximum age",
+        },
+        {
+          row: 6,
+          message:
+            "Minimum average value cannot be greater than maximum average value",
+        },
+      ]);
+    });
+
+    test("rejects rows for unknown stations when the stations are given", () => {
+      const content = csv(
+        "balance,male,18,39,10,20",
+        "grip_strenght,male,18,39,10,20"
+      );
+
+      expect(parseThresholdFile(content, "csv").errors).toEqual([]);
+      expect(
+        parseThresholdFile(content, "csv", ["balance", "grip_strength"]).errors
+      ).toEqual([{ row: 2, message: "Unknown station type: grip_strenght" }]);
+    });
+
+    test("rejects rows whose age range overlaps an earlier row", () => {
+      const parsed = parseThresholdFile(
+        csv(
+          "balance,male,18,39,10,20",
+          "balance,female,30,49,10,20",
+          "balance,male,30,49,10,20"
+        ),
+        "csv"
+      );
+
+      expect(parsed.thresholds).toHaveLength(2);
+      expect(parsed.errors).toEqual([
+        {
+          row: 3,
+          message: "Age range 30-49 overlaps balance male 18-39 in row 1",
+        },
+      ]);
+    });
+  });
+
+  test.describe("JSON", () => {
+    const threshold = {
+      station_type: "balance",
+      gender: "male",
+      min_age: 18,
+      max_age: null,
+      min_average_value: 10,
+      max_average_value: 20,
+    };
+
+    test("parses an array or an object with a thresholds array", () => {
+      for (const content of [
+        JSON.stringify([threshold]),
+        JSON.stringify({ thresholds: [threshold] }),
+      ]) {
+        expect(parseThresholdFile(content, "json")).toEqual({
+          thresholds: [threshold],
+          errors: [],
+        });
+      }
+    });
+
+    test("accepts numbers as strings", () => {
+      const parsed = parseThresholdFile(
+        JSON.stringify([{ ...threshold, min_age: "18", max_age: "39" }]),
+        "json"
+      );
+
+      expect(parsed.thresholds[0]).toMatchObject({ min_age: 18, max_age: 39 });
+    });
+
+    test("rejects invalid JSON and other shapes", () => {
+      expect(parseThresholdFile("[", "json").errors).toEqual([
+        { row: 0, message: "File is not valid JSON" },
+      ]);
+      expect(parseThresholdFile('{"rows": []}', "json").errors).toEqual([
+        {
+          row: 0,
+          message:
+            "JSON must be an array of thresholds or an object with a thresholds array",
+        },
+      ]);
+    });
+
+    test("rejects rows that aren't objects", () => {
+      expect(
+        parseThresholdFile(JSON.stringify([threshold, 42]), "json").errors
+      ).toEqual([{ row: 2, message: "Row must be an object" }]);
+    });
+  });
+
+  test("reads back what serializeThresholds writes", () => {
+    const thresholds = [
+      {
+        station_type: "grip_strength",
+        gender: "female",
+        min_age: 18,
+        max_age: 39,
+        min_average_value: 25.5,
+        max_average_value: 35,
+      },
+      {
+        station_type: "balance",
+        gender: "male",
+        min_age: 40,
+        max_age: null,
+        min_average_value: 8,
+        max_average_value: 15,
+      },
+    ];
+
+    for (const format of ["csv", "json"] as const) {
+      const parsed = parseThresholdFile(
+        serializeThresholds(thresholds, format),
+        format
+      );
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.thresholds).toEqual([thresholds[1], thresholds[0]]);
+    }
+  });
+});